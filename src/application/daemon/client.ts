@@ -0,0 +1,366 @@
+/**
+ * Daemon client - drives a daemon's agent loop over its unix socket
+ *
+ * Implements AgentOrchestrator so the TUI can use it in place of an
+ * in-process orchestrator. Synchronous getters answer from the last status
+ * the daemon sent.
+ */
+
+import type { Socket } from "bun";
+import type { AgentBackendName, Story } from "../../domain/types/index.ts";
+import type {
+  BudgetUsage,
+  CompleteReason,
+  IterationStats,
+  RunBudget,
+  RunnerState,
+  StreamEvent,
+} from "../../infrastructure/ralph/index.ts";
+import type {
+  AgentOrchestrator,
+  StoryResult,
+  WorkerInfo,
+} from "../orchestrator/index.ts";
+import {
+  type AttachResult,
+  createLineReader,
+  type DaemonMessage,
+  type DaemonRequest,
+  type DaemonStatus,
+  daemonSocketPath,
+  LineWriter,
+} from "./protocol.ts";
+
+type OutputCallback = (event: StreamEvent) => void;
+type IterationCallback = (iteration: number) => void;
+type IterationStatsCallback = (stats: IterationStats) => void;
+type CompleteCallback = (reason: CompleteReason, detail?: string) => void;
+type PauseChangeCallback = (paused: boolean, reason: string | null) => void;
+type WorkerOutputCallback = (workerId: string, event: StreamEvent) => void;
+type WorkersChangeCallback = (workers: WorkerInfo[]) => void;
+type StatusCallback = (status: DaemonStatus) => void;
+
+interface PendingRequest {
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+}
+
+export class DaemonClient implements AgentOrchestrator {
+  private socket: Socket<undefined> | null = null;
+  private writer: LineWriter | null = null;
+  private nextId = 1;
+  private pending: Map<number, PendingRequest> = new Map();
+  private status: DaemonStatus | null = null;
+  private outputCallbacks: Set<OutputCallback> = new Set();
+  private iterationCallbacks: Set<IterationCallback> = new Set();
+  private iterationStatsCallbacks: Set<IterationStatsCallback> = new Set();
+  private completeCallbacks: Set<CompleteCallback> = new Set();
+  private pauseChangeCallbacks: Set<PauseChangeCallback> = new Set();
+  private workerOutputCallbacks: Set<WorkerOutputCallback> = new Set();
+  private workersChangeCallbacks: Set<WorkersChangeCallback> = new Set();
+  private statusCallbacks: Set<StatusCallback> = new Set();
+  private disconnectCallbacks: Set<() => void> = new Set();
+
+  /**
+   * Open the socket. Returns false if no daemon is listening.
+   */
+  async connect(socketPath: string): Promise<boolean> {
+    const read = createLineReader((line) => this.handleLine(line));
+    try {
+      this.socket = await Bun.connect({
+        unix: socketPath,
+        socket: {
+          data: (_socket, chunk) => read(chunk),
+          drain: () => this.writer?.flush(),
+          close: () => this.handleClose(),
+          error: () => this.handleClose(),
+        },
+      });
+    } catch {
+      return false;
+    }
+    this.writer = new LineWriter(this.socket);
+    return true;
+  }
+
+  /**
+   * Receive agent events from now on, and the output so far
+   */
+  async attach(): Promise<AttachResult> {
+    const result = await this.request<AttachResult>({ type: "attach" });
+    this.status = result.status;
+    return result;
+  }
+
+  async getStatus(): Promise<DaemonStatus> {
+    this.status = await this.request<DaemonStatus>({ type: "status" });
+    return this.status;
+  }
+
+  /**
+   * Stop the agent and the daemon
+   */
+  async shutdown(): Promise<void> {
+    await this.request({ type: "shutdown" });
+  }
+
+  /**
+   * Detach from the daemon; the agent keeps running
+   */
+  close(): void {
+    this.socket?.end();
+    this.socket = null;
+    this.writer = null;
+  }
+
+  isConnected(): boolean {
+    return this.socket !== null;
+  }
+
+  async start(): Promise<void> {
+    await this.control({ type: "start" });
+  }
+
+  async resume(): Promise<void> {
+    await this.control({ type: "resume" });
+  }
+
+  async startWorkers(count: number): Promise<void> {
+    await this.control({ type: "start_workers", count });
+  }
+
+  getWorkers(): WorkerInfo[] {
+    return this.status?.workers ?? [];
+  }
+
+  async getResumableState(): Promise<RunnerState | null> {
+    return this.request<RunnerState | null>({ type: "get_resumable_state" });
+  }
+
+  async stop(): Promise<void> {
+    await this.control({ type: "stop" });
+  }
+
+  pause(): void {
+    void this.control({ type: "pause" }).catch(() => {});
+  }
+
+  unpause(): void {
+    void this.control({ type: "unpause" }).catch(() => {});
+  }
+
+  isRunning(): boolean {
+    return this.status?.running ?? false;
+  }
+
+  isPaused(): boolean {
+    return this.status?.paused ?? false;
+  }
+
+  isPauseRequested(): boolean {
+    return this.status?.pauseRequested ?? false;
+  }
+
+  getCurrentIteration(): number {
+    return this.status?.iteration ?? 0;
+  }
+
+  setMaxIterations(maxIterations: number): void {
+    void this.control({ type: "set_max_iterations", maxIterations }).catch(
+      () => {},
+    );
+  }
+
+  getMaxIterations(): number {
+    return this.status?.maxIterations ?? 10;
+  }
+
+  setBudget(budget: RunBudget): void {
+    void this.request({ type: "set_budget", budget }).catch(() => {});
+  }
+
+  setBackend(backend: AgentBackendName): void {
+    void this.request({ type: "set_backend", backend }).catch(() => {});
+  }
+
+  async getRunUsage(startedAt: string): Promise<BudgetUsage> {
+    return this.request<BudgetUsage>({ type: "get_run_usage", startedAt });
+  }
+
+  addHint(hint: string): void {
+    void this.control({ type: "hint", hint }).catch(() => {});
+  }
+
+  getPendingHintsCount(): number {
+    return this.status?.pendingHints.length ?? 0;
+  }
+
+  getPendingHints(): string[] {
+    return this.status?.pendingHints ?? [];
+  }
+
+  // The daemon doesn't report story completion
+  onStoryComplete(
+    _callback: (story: Story, result: StoryResult) => void,
+  ): () => void {
+    return () => {};
+  }
+
+  onOutput(callback: OutputCallback): () => void {
+    this.outputCallbacks.add(callback);
+    return () => this.outputCallbacks.delete(callback);
+  }
+
+  onIterationChange(callback: IterationCallback): () => void {
+    this.iterationCallbacks.add(callback);
+    return () => this.iterationCallbacks.delete(callback);
+  }
+
+  onIterationStats(callback: IterationStatsCallback): () => void {
+    this.iterationStatsCallbacks.add(callback);
+    return () => this.iterationStatsCallbacks.delete(callback);
+  }
+
+  onComplete(callback: CompleteCallback): () => void {
+    this.completeCallbacks.add(callback);
+    return () => this.completeCallbacks.delete(callback);
+  }
+
+  onPauseChange(callback: PauseChangeCallback): () => void {
+    this.pauseChangeCallbacks.add(callback);
+    return () => this.pauseChangeCallbacks.delete(callback);
+  }
+
+  onWorkerOutput(callback: WorkerOutputCallback): () => void {
+    this.workerOutputCallbacks.add(callback);
+    return () => this.workerOutputCallbacks.delete(callback);
+  }
+
+  onWorkersChange(callback: WorkersChangeCallback): () => void {
+    this.workersChangeCallbacks.add(callback);
+    return () => this.workersChangeCallbacks.delete(callback);
+  }
+
+  onStatus(callback: StatusCallback): () => void {
+    this.statusCallbacks.add(callback);
+    return () => this.statusCallbacks.delete(callback);
+  }
+
+  /**
+   * Called once when the daemon goes away (not on close())
+   */
+  onDisconnect(callback: () => void): () => void {
+    this.disconnectCallbacks.add(callback);
+    return () => this.disconnectCallbacks.delete(callback);
+  }
+
+  /**
+   * Send a request and wait for its response
+   */
+  request<T = unknown>(request: DaemonRequest): Promise<T> {
+    const writer = this.writer;
+    if (!writer) {
+      return Promise.reject(new Error("Not connected to the ml-ralph daemon."));
+    }
+
+    const id = this.nextId++;
+    return new Promise<T>((resolve, reject) => {
+      this.pending.set(id, {
+        resolve: resolve as (result: unknown) => void,
+        reject,
+      });
+      writer.send({ ...request, id });
+    });
+  }
+
+  /**
+   * Send a control request; the daemon answers with its new status
+   */
+  private async control(request: DaemonRequest): Promise<void> {
+    this.status = await this.request<DaemonStatus>(request);
+  }
+
+  private handleLine(line: string): void {
+    let message: DaemonMessage;
+    try {
+      message = JSON.parse(line);
+    } catch {
+      return;
+    }
+
+    switch (message.type) {
+      case "response": {
+        const pending = this.pending.get(message.id);
+        this.pending.delete(message.id);
+        if (!pending) return;
+        if (message.ok) pending.resolve(message.result);
+        else pending.reject(new Error(message.error));
+        return;
+      }
+      case "output":
+        for (const callback of this.outputCallbacks) callback(message.event);
+        return;
+      case "iteration":
+        for (const callback of this.iterationCallbacks) {
+          callback(message.iteration);
+        }
+        return;
+      case "iteration_stats":
+        for (const callback of this.iterationStatsCallbacks) {
+          callback(message.stats);
+        }
+        return;
+      case "complete":
+        for (const callback of this.completeCallbacks) {
+          callback(message.reason, message.detail);
+        }
+        return;
+      case "pause_change":
+        for (const callback of this.pauseChangeCallbacks) {
+          callback(message.paused, message.reason);
+        }
+        return;
+      case "worker_output":
+        for (const callback of this.workerOutputCallbacks) {
+          callback(message.workerId, message.event);
+        }
+        return;
+      case "workers":
+        if (this.status) this.status.workers = message.workers;
+        for (const callback of this.workersChangeCallbacks) {
+          callback(message.workers);
+        }
+        return;
+      case "status":
+        this.status = message.status;
+        for (const callback of this.statusCallbacks) callback(message.status);
+        return;
+    }
+  }
+
+  private handleClose(): void {
+    const wasConnected = this.socket !== null;
+    this.socket = null;
+    this.writer = null;
+
+    for (const pending of this.pending.values()) {
+      pending.reject(new Error("Lost connection to the ml-ralph daemon."));
+    }
+    this.pending.clear();
+
+    if (wasConnected) {
+      for (const callback of this.disconnectCallbacks) callback();
+    }
+  }
+}
+
+/**
+ * Connect to the project's daemon, or null if none is running
+ */
+export async function connectDaemon(
+  projectPath: string,
+): Promise<DaemonClient | null> {
+  const client = new DaemonClient();
+  const connected = await client.connect(daemonSocketPath(projectPath));
+  return connected ? client : null;
+}
@@ -0,0 +1,97 @@
+/**
+ * Tests for the agent daemon and its client over a real unix socket
+ */
+
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { connectDaemon } from "./client.ts";
+import type { DaemonStatus } from "./protocol.ts";
+import { createLineReader, daemonSocketPath } from "./protocol.ts";
+import { DaemonServer } from "./server.ts";
+
+let projectPath: string;
+let server: DaemonServer;
+
+beforeEach(async () => {
+  projectPath = await mkdtemp(join(tmpdir(), "ml-ralph-daemon-"));
+  await mkdir(join(projectPath, ".ml-ralph"));
+  server = new DaemonServer({ projectPath, autoAdvance: true });
+});
+
+afterEach(async () => {
+  await server.close();
+  await rm(projectPath, { recursive: true, force: true });
+});
+
+describe("DaemonServer", () => {
+  test("serves status and hints, and pushes status to attached clients", async () => {
+    expect(await server.listen()).toBe(true);
+
+    const watcher = await connectDaemon(projectPath);
+    const client = await connectDaemon(projectPath);
+    if (!watcher || !client) throw new Error("daemon not reachable");
+
+    const attached = await watcher.attach();
+    expect(attached.history).toEqual([]);
+    expect(attached.status).toMatchObject({
+      pid: process.pid,
+      running: false,
+      paused: false,
+      pendingHints: [],
+      activeJobs: [],
+    });
+
+    const pushed = new Promise<DaemonStatus>((resolve) => {
+      watcher.onStatus(resolve);
+    });
+    client.addHint("try a smaller learning rate");
+    expect((await pushed).pendingHints).toEqual([
+      "try a smaller learning rate",
+    ]);
+    expect((await client.getStatus()).pendingHints).toHaveLength(1);
+    expect(client.getPendingHintsCount()).toBe(1);
+
+    watcher.close();
+    client.close();
+  });
+
+  test("refuses a second daemon and replaces a stale socket", async () => {
+    await writeFile(daemonSocketPath(projectPath), "");
+    expect(await server.listen()).toBe(true);
+
+    const second = new DaemonServer({ projectPath, autoAdvance: true });
+    expect(await second.listen()).toBe(false);
+  });
+
+  test("shuts down on request and tells clients", async () => {
+    await server.listen();
+    const client = await connectDaemon(projectPath);
+    if (!client) throw new Error("daemon not reachable");
+
+    const disconnected = new Promise<void>((resolve) => {
+      client.onDisconnect(resolve);
+    });
+    await client.shutdown();
+    await server.closed;
+    await disconnected;
+
+    expect(await connectDaemon(projectPath)).toBeNull();
+    expect(await Bun.file(daemonSocketPath(projectPath)).exists()).toBe(false);
+  });
+});
+
+describe("createLineReader", () => {
+  test("joins lines and characters split across chunks", () => {
+    const lines: string[] = [];
+    const read = createLineReader((line) => lines.push(line));
+    const bytes = new TextEncoder().encode('{"a":"═"}\n{"b":1}\n');
+
+    read(bytes.subarray(0, 7)); // ends inside the 3-byte "═"
+    read(bytes.subarray(7, 14));
+    read(bytes.subarray(14));
+
+    expect(lines).toEqual(['{"a":"═"}', '{"b":1}']);
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * Tests for the control inbox
+ */
+
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdtemp, readdir, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { DefaultOrchestrator } from "../orchestrator/index.ts";
+import {
+  applyControlCommand,
+  submitToInbox,
+  takeInboxCommands,
+  waitForPickup,
+} from "./inbox.ts";
+
+let projectPath: string;
+
+beforeEach(async () => {
+  projectPath = await mkdtemp(join(tmpdir(), "ml-ralph-inbox-"));
+});
+
+afterEach(async () => {
+  await rm(projectPath, { recursive: true, force: true });
+});
+
+describe("inbox", () => {
+  test("hands over commands in order and confirms pickup", async () => {
+    const first = await submitToInbox(projectPath, { type: "hint", hint: "a" });
+    await Bun.sleep(2);
+    await submitToInbox(projectPath, { type: "add_iterations", count: 5 });
+    await writeFile(join(projectPath, ".ml-ralph/inbox/junk.json"), "{oops");
+
+    const pickup = waitForPickup(first, 2000);
+    expect(await takeInboxCommands(projectPath)).toEqual([
+      { type: "hint", hint: "a" },
+      { type: "add_iterations", count: 5 },
+    ]);
+    expect(await pickup).toBe(true);
+    expect(await readdir(join(projectPath, ".ml-ralph/inbox"))).toEqual([]);
+  });
+
+  test("withdraws a command nobody picks up", async () => {
+    const path = await submitToInbox(projectPath, { type: "stop" });
+    expect(await waitForPickup(path, 200)).toBe(false);
+    expect(await takeInboxCommands(projectPath)).toEqual([]);
+  });
+
+  test("applies hints and iteration changes", async () => {
+    const orchestrator = new DefaultOrchestrator({
+      projectPath,
+      autoAdvance: true,
+      maxIterations: 10,
+    });
+
+    await applyControlCommand(orchestrator, { type: "hint", hint: "b" });
+    await applyControlCommand(orchestrator, {
+      type: "add_iterations",
+      count: 5,
+    });
+    expect(orchestrator.getPendingHints()).toEqual(["b"]);
+    expect(orchestrator.getMaxIterations()).toBe(15);
+
+    await applyControlCommand(orchestrator, {
+      type: "add_iterations",
+      count: -50,
+    });
+    expect(orchestrator.getMaxIterations()).toBe(1);
+  });
+});
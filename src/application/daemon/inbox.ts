@@ -0,0 +1,154 @@
+/**
+ * Control inbox - commands dropped as files in .ml-ralph/inbox/
+ *
+ * For runs that have no daemon socket (`ml-ralph run`). `ml-ralph ctl`
+ * writes one JSON file per command; the running instance applies it and
+ * deletes the file, which is how ctl knows it was delivered.
+ */
+
+import { mkdir, readdir, rename, unlink } from "node:fs/promises";
+import type { AgentOrchestrator } from "../orchestrator/index.ts";
+import type { DaemonRequest } from "./protocol.ts";
+
+export type ControlCommand = Extract<
+  DaemonRequest,
+  { type: "hint" | "stop" | "add_iterations" | "set_max_iterations" }
+>;
+
+const INBOX_POLL_MS = 1000;
+
+function inboxDir(projectPath: string): string {
+  return `${projectPath}/.ml-ralph/inbox`;
+}
+
+/**
+ * Apply a control command to a run. Iteration limits never drop below the
+ * iteration in progress.
+ */
+export async function applyControlCommand(
+  orchestrator: AgentOrchestrator,
+  command: ControlCommand,
+): Promise<void> {
+  const floor = orchestrator.isRunning()
+    ? orchestrator.getCurrentIteration()
+    : 1;
+
+  switch (command.type) {
+    case "hint":
+      orchestrator.addHint(command.hint);
+      break;
+    case "stop":
+      await orchestrator.stop();
+      break;
+    case "add_iterations":
+      orchestrator.setMaxIterations(
+        Math.max(floor, orchestrator.getMaxIterations() + command.count),
+      );
+      break;
+    case "set_max_iterations":
+      orchestrator.setMaxIterations(Math.max(floor, command.maxIterations));
+      break;
+  }
+}
+
+/**
+ * Drop a command in the inbox. Returns the file path to wait on.
+ */
+export async function submitToInbox(
+  projectPath: string,
+  command: ControlCommand,
+): Promise<string> {
+  const dir = inboxDir(projectPath);
+  await mkdir(dir, { recursive: true });
+
+  const name = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+  const path = `${dir}/${name}.json`;
+  // Write then rename so the watcher never reads half a file
+  await Bun.write(`${dir}/.${name}.tmp`, JSON.stringify(command));
+  await rename(`${dir}/.${name}.tmp`, path);
+  return path;
+}
+
+/**
+ * Wait for a submitted command to be picked up. Withdraws it and returns
+ * false if nothing took it in time, so it can't fire in some later run.
+ */
+export async function waitForPickup(
+  path: string,
+  timeoutMs: number,
+): Promise<boolean> {
+  const deadline = Date.now() + timeoutMs;
+  while (Date.now() < deadline) {
+    if (!(await Bun.file(path).exists())) return true;
+    await Bun.sleep(100);
+  }
+  try {
+    await unlink(path);
+    return false;
+  } catch {
+    // Taken just as we gave up
+    return true;
+  }
+}
+
+/**
+ * Read and remove the commands waiting in the inbox, oldest first.
+ * Malformed files are dropped.
+ */
+export async function takeInboxCommands(
+  projectPath: string,
+): Promise<ControlCommand[]> {
+  const dir = inboxDir(projectPath);
+  let names: string[];
+  try {
+    names = (await readdir(dir)).filter((name) => name.endsWith(".json"));
+  } catch {
+    return [];
+  }
+
+  const commands: ControlCommand[] = [];
+  for (const name of names.sort()) {
+    const path = `${dir}/${name}`;
+    try {
+      const command = (await Bun.file(path).json()) as ControlCommand;
+      await unlink(path);
+      commands.push(command);
+    } catch {
+      await unlink(path).catch(() => {});
+    }
+  }
+  return commands;
+}
+
+/**
+ * Poll the inbox and hand each command to onCommand. Returns a function
+ * that stops watching.
+ */
+export function watchInbox(
+  projectPath: string,
+  onCommand: (command: ControlCommand) => void | Promise<void>,
+): () => void {
+  let busy = false;
+  const timer = setInterval(async () => {
+    if (busy) return;
+    busy = true;
+    try {
+      for (const command of await takeInboxCommands(projectPath)) {
+        // Commands are already taken, so one failing doesn't drop the rest
+        try {
+          await onCommand(command);
+        } catch (error) {
+          console.error(
+            `Inbox command ${command.type} failed: ${(error as Error).message}`,
+          );
+        }
+      }
+    } catch (error) {
+      console.error(`Reading the inbox failed: ${(error as Error).message}`);
+    } finally {
+      busy = false;
+    }
+  }, INBOX_POLL_MS);
+
+  return () => clearInterval(timer);
+}
@@ -0,0 +1,22 @@
+/**
+ * Daemon exports
+ */
+
+export { connectDaemon, DaemonClient } from "./client.ts";
+export type { ControlCommand } from "./inbox.ts";
+export {
+  applyControlCommand,
+  submitToInbox,
+  takeInboxCommands,
+  waitForPickup,
+  watchInbox,
+} from "./inbox.ts";
+export { ensureDaemon } from "./launcher.ts";
+export type {
+  AttachResult,
+  DaemonEvent,
+  DaemonRequest,
+  DaemonStatus,
+} from "./protocol.ts";
+export { daemonSocketPath } from "./protocol.ts";
+export { DaemonServer, runDaemon } from "./server.ts";
@@ -0,0 +1,42 @@
+/**
+ * Daemon launcher - connect to a project's daemon, starting it if needed
+ */
+
+import { connectDaemon, type DaemonClient } from "./client.ts";
+
+const STARTUP_TIMEOUT_MS = 5000;
+const STARTUP_POLL_MS = 100;
+
+/**
+ * Connect to the project's daemon, spawning `ml-ralph daemon` in the
+ * background when none is running. Returns null if it doesn't come up.
+ */
+export async function ensureDaemon(
+  projectPath: string,
+): Promise<DaemonClient | null> {
+  const existing = await connectDaemon(projectPath);
+  if (existing) return existing;
+
+  // Re-run ourselves (same bun + entry script) as the daemon, in its own
+  // process group so quitting the TUI or its tmux session doesn't kill it
+  const bunPath = process.argv[0] ?? "bun";
+  const scriptPath = process.argv[1] ?? "";
+  const log = Bun.file(`${projectPath}/.ml-ralph/daemon.log`);
+  const proc = Bun.spawn([bunPath, scriptPath, "daemon", projectPath], {
+    cwd: projectPath,
+    stdin: "ignore",
+    stdout: log,
+    stderr: log,
+    detached: true,
+  });
+  proc.unref();
+
+  const deadline = Date.now() + STARTUP_TIMEOUT_MS;
+  while (Date.now() < deadline) {
+    await Bun.sleep(STARTUP_POLL_MS);
+    const client = await connectDaemon(projectPath);
+    if (client) return client;
+    if (proc.exitCode !== null) return null;
+  }
+  return null;
+}
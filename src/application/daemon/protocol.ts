@@ -0,0 +1,155 @@
+/**
+ * Daemon protocol - newline-delimited JSON over a per-project unix socket
+ *
+ * Clients send requests tagged with an id and get one response per request.
+ * Clients that attach also receive every agent event as it happens.
+ */
+
+import { createHash } from "node:crypto";
+import { tmpdir } from "node:os";
+import type {
+  AgentBackendName,
+  TrainingJob,
+} from "../../domain/types/index.ts";
+import type {
+  CompleteReason,
+  IterationStats,
+  RunBudget,
+  RunnerState,
+  StreamEvent,
+} from "../../infrastructure/ralph/index.ts";
+import type { WorkerInfo } from "../orchestrator/index.ts";
+
+export type DaemonRequest =
+  | { type: "attach" }
+  | { type: "status" }
+  | { type: "start" }
+  | { type: "resume" }
+  /** Run parallel workers, one per independent kanban task */
+  | { type: "start_workers"; count: number }
+  | { type: "stop" }
+  | { type: "pause" }
+  | { type: "unpause" }
+  | { type: "hint"; hint: string }
+  | { type: "set_max_iterations"; maxIterations: number }
+  /** Extend (or with a negative count, shorten) the current run */
+  | { type: "add_iterations"; count: number }
+  | { type: "set_budget"; budget: RunBudget }
+  | { type: "set_backend"; backend: AgentBackendName }
+  | { type: "get_resumable_state" }
+  | { type: "get_run_usage"; startedAt: string }
+  | { type: "shutdown" };
+
+export type DaemonRequestMessage = DaemonRequest & { id: number };
+
+export type DaemonResponse =
+  | { type: "response"; id: number; ok: true; result: unknown }
+  | { type: "response"; id: number; ok: false; error: string };
+
+/**
+ * Pushed to attached clients
+ */
+export type DaemonEvent =
+  | { type: "output"; event: StreamEvent }
+  | { type: "iteration"; iteration: number }
+  | { type: "iteration_stats"; stats: IterationStats }
+  | { type: "complete"; reason: CompleteReason; detail?: string }
+  | { type: "pause_change"; paused: boolean; reason: string | null }
+  | { type: "worker_output"; workerId: string; event: StreamEvent }
+  | { type: "workers"; workers: WorkerInfo[] }
+  | { type: "status"; status: DaemonStatus };
+
+export type DaemonMessage = DaemonResponse | DaemonEvent;
+
+export interface DaemonStatus {
+  pid: number;
+  running: boolean;
+  paused: boolean;
+  /** A pause takes effect when the current iteration finishes */
+  pauseRequested: boolean;
+  /** Why the agent paused itself (null when paused by the user) */
+  pauseReason: string | null;
+  iteration: number;
+  maxIterations: number;
+  pendingHints: string[];
+  /** Persisted state of the current or last run */
+  run: RunnerState | null;
+  activeJobs: TrainingJob[];
+  /** Parallel workers of the current or last worker run */
+  workers: WorkerInfo[];
+}
+
+export interface AttachResult {
+  status: DaemonStatus;
+  /** Recent output of the current or last run, oldest first */
+  history: StreamEvent[];
+  /** Recent output of each parallel worker, by worker id */
+  workerHistory: Record<string, StreamEvent[]>;
+}
+
+// Unix socket paths are limited to ~104 bytes on macOS
+const MAX_SOCKET_PATH = 100;
+
+/**
+ * Socket of the daemon for a project. Falls back to the temp dir when the
+ * project path is too long for a unix socket.
+ */
+export function daemonSocketPath(projectPath: string): string {
+  const path = `${projectPath}/.ml-ralph/daemon.sock`;
+  if (path.length <= MAX_SOCKET_PATH) return path;
+
+  const hash = createHash("sha1").update(projectPath).digest("hex");
+  return `${tmpdir()}/ml-ralph-${hash.slice(0, 12)}.sock`;
+}
+
+/**
+ * Split a byte stream into lines, keeping partial lines (and partial UTF-8
+ * characters) until the rest arrives
+ */
+export function createLineReader(
+  onLine: (line: string) => void,
+): (chunk: Uint8Array) => void {
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  return (chunk) => {
+    buffer += decoder.decode(chunk, { stream: true });
+    let newline = buffer.indexOf("\n");
+    while (newline !== -1) {
+      const line = buffer.slice(0, newline).trim();
+      buffer = buffer.slice(newline + 1);
+      if (line) onLine(line);
+      newline = buffer.indexOf("\n");
+    }
+  };
+}
+
+interface WritableSocket {
+  write(data: Uint8Array): number;
+}
+
+/**
+ * Buffers outgoing lines for a socket that may accept only part of a write.
+ * Call flush() again from the socket's drain handler.
+ */
+export class LineWriter {
+  private pending: Uint8Array = new Uint8Array(0);
+  private encoder = new TextEncoder();
+
+  constructor(private socket: WritableSocket) {}
+
+  send(message: unknown): void {
+    const line = this.encoder.encode(`${JSON.stringify(message)}\n`);
+    const merged = new Uint8Array(this.pending.length + line.length);
+    merged.set(this.pending);
+    merged.set(line, this.pending.length);
+    this.pending = merged;
+    this.flush();
+  }
+
+  flush(): void {
+    if (this.pending.length === 0) return;
+    const written = Math.max(0, this.socket.write(this.pending));
+    this.pending = this.pending.subarray(written);
+  }
+}
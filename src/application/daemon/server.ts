@@ -0,0 +1,388 @@
+/**
+ * Agent daemon - owns the Ralph loop so the TUI can come and go
+ *
+ * One daemon per project, listening on a unix socket. It keeps recent agent
+ * output so a client that attaches later can replay it.
+ */
+
+import { unlink } from "node:fs/promises";
+import type { Socket, UnixSocketListener } from "bun";
+import { JsonFileStore } from "../../infrastructure/file-store/index.ts";
+import {
+  BunJobManager,
+  dispatchQueue,
+  reconcileJobs,
+  watchJobHealth,
+} from "../../infrastructure/process/index.ts";
+import {
+  readRunnerState,
+  type StreamEvent,
+} from "../../infrastructure/ralph/index.ts";
+import type { OrchestratorConfig } from "../orchestrator/index.ts";
+import { DefaultOrchestrator } from "../orchestrator/index.ts";
+import { connectDaemon } from "./client.ts";
+import { applyControlCommand } from "./inbox.ts";
+import {
+  type AttachResult,
+  createLineReader,
+  type DaemonEvent,
+  type DaemonRequestMessage,
+  type DaemonStatus,
+  daemonSocketPath,
+  LineWriter,
+} from "./protocol.ts";
+
+/** Output events kept for clients that attach mid-run */
+const HISTORY_LIMIT = 2000;
+const JOB_SWEEP_INTERVAL_MS = 5000;
+
+interface Connection {
+  writer: LineWriter;
+  read: (chunk: Uint8Array) => void;
+  attached: boolean;
+}
+
+function keepRecent(history: StreamEvent[], event: StreamEvent): void {
+  history.push(event);
+  if (history.length > HISTORY_LIMIT) {
+    history.splice(0, history.length - HISTORY_LIMIT);
+  }
+}
+
+export class DaemonServer {
+  private orchestrator: DefaultOrchestrator;
+  private listener: UnixSocketListener<Connection> | null = null;
+  private connections: Set<Socket<Connection>> = new Set();
+  private history: StreamEvent[] = [];
+  private workerHistory: Record<string, StreamEvent[]> = {};
+  private pauseReason: string | null = null;
+  /** Settles when the current run ends */
+  private loop: Promise<void> | null = null;
+  /** Stop was requested; the loop is winding down */
+  private stopping = false;
+  private jobTimer: ReturnType<typeof setInterval> | null = null;
+  /** A job sweep is in progress; ticks are skipped until it ends */
+  private sweeping = false;
+  private jobManager = new BunJobManager();
+  private store: JsonFileStore;
+  private resolveClosed: (() => void) | null = null;
+
+  /** Resolves once the daemon has shut down */
+  readonly closed: Promise<void>;
+
+  constructor(private config: OrchestratorConfig) {
+    this.store = new JsonFileStore(config.projectPath);
+    this.closed = new Promise((resolve) => {
+      this.resolveClosed = resolve;
+    });
+
+    this.orchestrator = new DefaultOrchestrator(config);
+    this.orchestrator.onOutput((event) => {
+      keepRecent(this.history, event);
+      this.broadcast({ type: "output", event });
+    });
+    this.orchestrator.onWorkerOutput((workerId, event) => {
+      this.workerHistory[workerId] ??= [];
+      keepRecent(this.workerHistory[workerId], event);
+      this.broadcast({ type: "worker_output", workerId, event });
+    });
+    this.orchestrator.onWorkersChange((workers) => {
+      this.broadcast({ type: "workers", workers });
+    });
+    this.orchestrator.onIterationChange((iteration) => {
+      this.broadcast({ type: "iteration", iteration });
+      void this.broadcastStatus();
+    });
+    this.orchestrator.onIterationStats((stats) => {
+      this.broadcast({ type: "iteration_stats", stats });
+    });
+    this.orchestrator.onComplete((reason, detail) => {
+      this.broadcast({ type: "complete", reason, detail });
+    });
+    this.orchestrator.onPauseChange((paused, reason) => {
+      this.pauseReason = paused ? reason : null;
+      this.broadcast({ type: "pause_change", paused, reason });
+      void this.broadcastStatus();
+    });
+  }
+
+  get socketPath(): string {
+    return daemonSocketPath(this.config.projectPath);
+  }
+
+  /**
+   * Start listening. Returns false if another daemon already serves the
+   * project; a socket left behind by a dead daemon is replaced.
+   */
+  async listen(): Promise<boolean> {
+    const existing = await connectDaemon(this.config.projectPath);
+    if (existing) {
+      existing.close();
+      return false;
+    }
+    await unlink(this.socketPath).catch(() => {});
+
+    this.listener = Bun.listen<Connection>({
+      unix: this.socketPath,
+      socket: {
+        open: (socket) => {
+          socket.data = {
+            writer: new LineWriter(socket),
+            read: createLineReader((line) => {
+              void this.handleLine(socket, line);
+            }),
+            attached: false,
+          };
+          this.connections.add(socket);
+        },
+        data: (socket, chunk) => socket.data.read(chunk),
+        drain: (socket) => socket.data.writer.flush(),
+        close: (socket) => {
+          this.connections.delete(socket);
+        },
+        error: (socket) => {
+          this.connections.delete(socket);
+        },
+      },
+    });
+
+    this.jobTimer = setInterval(() => {
+      void this.sweepJobs();
+    }, JOB_SWEEP_INTERVAL_MS);
+    return true;
+  }
+
+  /**
+   * Stop the loop, drop all clients and remove the socket
+   */
+  async close(): Promise<void> {
+    if (!this.listener) return;
+
+    await this.orchestrator.stop();
+    if (this.jobTimer) clearInterval(this.jobTimer);
+    this.jobTimer = null;
+    for (const socket of this.connections) {
+      socket.end();
+    }
+    this.listener.stop(true);
+    this.listener = null;
+    await unlink(this.socketPath).catch(() => {});
+    this.resolveClosed?.();
+  }
+
+  async getStatus(): Promise<DaemonStatus> {
+    const [run, activeJobs] = await Promise.all([
+      readRunnerState(this.config.projectPath),
+      this.store.readActiveJobs(),
+    ]);
+    return {
+      pid: process.pid,
+      running: this.loop !== null && !this.stopping,
+      paused: this.orchestrator.isPaused(),
+      pauseRequested: this.orchestrator.isPauseRequested(),
+      pauseReason: this.pauseReason,
+      iteration: this.orchestrator.getCurrentIteration(),
+      maxIterations: this.orchestrator.getMaxIterations(),
+      pendingHints: this.orchestrator.getPendingHints(),
+      run,
+      activeJobs,
+      workers: this.orchestrator.getWorkers(),
+    };
+  }
+
+  private async handleLine(
+    socket: Socket<Connection>,
+    line: string,
+  ): Promise<void> {
+    let request: DaemonRequestMessage;
+    try {
+      request = JSON.parse(line);
+    } catch {
+      return;
+    }
+
+    try {
+      const result = await this.handleRequest(socket, request);
+      socket.data.writer.send({
+        type: "response",
+        id: request.id,
+        ok: true,
+        result: result ?? null,
+      });
+    } catch (error) {
+      socket.data.writer.send({
+        type: "response",
+        id: request.id,
+        ok: false,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+
+    if (request.type === "shutdown") {
+      await this.close();
+    }
+  }
+
+  private async handleRequest(
+    socket: Socket<Connection>,
+    request: DaemonRequestMessage,
+  ): Promise<unknown> {
+    switch (request.type) {
+      case "attach": {
+        socket.data.attached = true;
+        const result: AttachResult = {
+          status: await this.getStatus(),
+          history: this.history,
+          workerHistory: this.workerHistory,
+        };
+        return result;
+      }
+      case "status":
+        return this.getStatus();
+      case "start":
+        this.runLoop(() => this.orchestrator.start());
+        return this.getStatus();
+      case "resume":
+        this.runLoop(() => this.orchestrator.resume());
+        return this.getStatus();
+      case "start_workers":
+        this.runLoop(() => this.orchestrator.startWorkers(request.count));
+        return this.getStatus();
+      case "stop":
+        if (this.loop) this.stopping = true;
+        await applyControlCommand(this.orchestrator, request);
+        break;
+      case "pause":
+        this.orchestrator.pause();
+        break;
+      case "unpause":
+        this.orchestrator.unpause();
+        break;
+      case "hint":
+      case "add_iterations":
+      case "set_max_iterations":
+        await applyControlCommand(this.orchestrator, request);
+        break;
+      case "set_budget":
+        this.orchestrator.setBudget(request.budget);
+        return null;
+      case "set_backend":
+        this.orchestrator.setBackend(request.backend);
+        return null;
+      case "get_resumable_state":
+        return this.orchestrator.getResumableState();
+      case "get_run_usage":
+        return this.orchestrator.getRunUsage(request.startedAt);
+      case "shutdown":
+        return null;
+      default:
+        throw new Error(
+          `Unknown request: ${(request as { type?: string }).type}`,
+        );
+    }
+
+    // Control requests answer with the state they left behind
+    const status = await this.getStatus();
+    this.broadcast({ type: "status", status });
+    return status;
+  }
+
+  private runLoop(run: () => Promise<void>): void {
+    if (this.loop) {
+      throw new Error(
+        this.stopping
+          ? "The agent is still stopping; try again in a moment."
+          : "The agent is already running.",
+      );
+    }
+
+    this.history = [];
+    this.workerHistory = {};
+    this.pauseReason = null;
+    this.loop = run()
+      .catch((error) => {
+        this.broadcast({
+          type: "output",
+          event: { type: "error", content: String(error), isError: true },
+        });
+      })
+      .finally(() => {
+        this.loop = null;
+        this.stopping = false;
+        void this.broadcastStatus();
+      });
+  }
+
+  private broadcast(event: DaemonEvent): void {
+    for (const socket of this.connections) {
+      if (socket.data.attached) socket.data.writer.send(event);
+    }
+  }
+
+  private async broadcastStatus(): Promise<void> {
+    this.broadcast({ type: "status", status: await this.getStatus() });
+  }
+
+  /**
+   * Move training jobs whose process has exited into the job history and
+   * start queued ones in the room they left
+   */
+  private async sweepJobs(): Promise<void> {
+    if (this.sweeping) return;
+    this.sweeping = true;
+    try {
+      const ended = await reconcileJobs(this.config.projectPath, (pid) =>
+        this.jobManager.isRunning(pid),
+      );
+      const config = await this.store.readConfig().catch(() => null);
+      const alerts = await watchJobHealth(
+        this.config.projectPath,
+        this.jobManager,
+        { autoStop: config?.jobs?.autoStop },
+      );
+      const started = await dispatchQueue(
+        this.config.projectPath,
+        this.jobManager,
+      );
+      if (ended.length > 0 || alerts.length > 0 || started.length > 0) {
+        await this.broadcastStatus();
+      }
+    } catch (error) {
+      // e.g. a lock timeout while the TUI refreshes; the next tick retries
+      console.error(`Job sweep failed: ${(error as Error).message}`);
+    } finally {
+      this.sweeping = false;
+    }
+  }
+}
+
+/**
+ * Run the daemon for a project in the foreground until it is shut down.
+ * Returns the process exit code.
+ */
+export async function runDaemon(projectPath: string): Promise<number> {
+  const config = await new JsonFileStore(projectPath).readConfig();
+  const server = new DaemonServer({
+    projectPath,
+    autoAdvance: config?.agent.autoAdvance ?? true,
+    budget: config?.agent,
+    backend: config?.agent.backend,
+  });
+
+  if (!(await server.listen())) {
+    console.error(`An ml-ralph daemon is already running for ${projectPath}`);
+    return 1;
+  }
+  console.log(`ml-ralph daemon listening on ${server.socketPath}`);
+
+  const shutdown = () => {
+    void server.close();
+  };
+  process.on("SIGINT", shutdown);
+  process.on("SIGTERM", shutdown);
+  // Outlive the terminal or tmux session that started us
+  process.on("SIGHUP", () => {});
+
+  await server.closed;
+  return 0;
+}
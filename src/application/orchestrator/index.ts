@@ -7,4 +7,7 @@ export type {
   AgentOrchestrator,
   OrchestratorConfig,
   StoryResult,
+  WorkerInfo,
 } from "./types.ts";
+export type { WorkerPoolConfig } from "./worker-pool.ts";
+export { WorkerPool } from "./worker-pool.ts";
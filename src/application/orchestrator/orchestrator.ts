@@ -2,36 +2,64 @@
  * Agent orchestrator implementation - wraps RalphRunner
  */
 
-import type { Story } from "../../domain/types/index.ts";
+import type { AgentBackendName, Story } from "../../domain/types/index.ts";
 import {
+  type BudgetUsage,
+  type CompleteReason,
+  getBackend,
+  type IterationStats,
   RalphRunner,
+  type RunBudget,
+  type RunnerState,
   type StreamEvent,
 } from "../../infrastructure/ralph/index.ts";
 import type {
   AgentOrchestrator,
   OrchestratorConfig,
   StoryResult,
+  WorkerInfo,
 } from "./types.ts";
+import { WorkerPool } from "./worker-pool.ts";
 
 type StoryCompleteCallback = (story: Story, result: StoryResult) => void;
 type OutputCallback = (event: StreamEvent) => void;
 type IterationCallback = (iteration: number) => void;
-type CompleteCallback = (reason: "project_complete" | "max_iterations") => void;
+type IterationStatsCallback = (stats: IterationStats) => void;
+type CompleteCallback = (reason: CompleteReason, detail?: string) => void;
+type PauseChangeCallback = (paused: boolean, reason: string | null) => void;
+type WorkerOutputCallback = (workerId: string, event: StreamEvent) => void;
+type WorkersChangeCallback = (workers: WorkerInfo[]) => void;
 
 export class DefaultOrchestrator implements AgentOrchestrator {
   private runner: RalphRunner;
   private storyCompleteCallbacks: Set<StoryCompleteCallback> = new Set();
   private outputCallbacks: Set<OutputCallback> = new Set();
   private iterationCallbacks: Set<IterationCallback> = new Set();
+  private iterationStatsCallbacks: Set<IterationStatsCallback> = new Set();
   private completeCallbacks: Set<CompleteCallback> = new Set();
+  private pauseChangeCallbacks: Set<PauseChangeCallback> = new Set();
+  private workerOutputCallbacks: Set<WorkerOutputCallback> = new Set();
+  private workersChangeCallbacks: Set<WorkersChangeCallback> = new Set();
+  private projectPath: string;
+  private budget: RunBudget | undefined;
+  private backend: AgentBackendName | undefined;
+  private pool: WorkerPool | null = null;
 
   constructor(config: OrchestratorConfig) {
+    this.projectPath = config.projectPath;
+    this.budget = config.budget;
+    this.backend = config.backend;
     this.runner = new RalphRunner({
       projectPath: config.projectPath,
       maxIterations: config.maxIterations ?? 10,
+      budget: config.budget,
+      backend: getBackend(config.backend),
       onOutput: (event) => this.emitOutput(event),
       onIterationStart: (iteration) => this.emitIterationChange(iteration),
-      onComplete: (reason) => this.emitComplete(reason),
+      onIterationStats: (stats) => this.emitIterationStats(stats),
+      onComplete: (reason, detail) => this.emitComplete(reason, detail),
+      onPause: (reason) => this.emitPauseChange(true, reason),
+      onResume: () => this.emitPauseChange(false, null),
       onError: (error) => {
         this.emitOutput({
           type: "error",
@@ -43,16 +71,72 @@ export class DefaultOrchestrator implements AgentOrchestrator {
   }
 
   async start(): Promise<void> {
-    if (this.runner.isRunning()) return;
+    if (this.isRunning()) return;
     await this.runner.start();
   }
 
+  async resume(): Promise<void> {
+    if (this.isRunning()) return;
+    await this.runner.resume();
+  }
+
+  async startWorkers(count: number): Promise<void> {
+    if (this.isRunning()) return;
+
+    this.pool = new WorkerPool({
+      projectPath: this.projectPath,
+      maxIterations: this.runner.getMaxIterations(),
+      budget: this.budget,
+      backend: this.backend,
+      onOutput: (workerId, event) => this.emitWorkerOutput(workerId, event),
+      onChange: (workers) => this.emitWorkersChange(workers),
+      onIterationStats: (stats) => this.emitIterationStats(stats),
+      onPauseChange: (paused) => this.emitPauseChange(paused, null),
+    });
+    const error = await this.pool.run(count);
+    if (error) {
+      this.emitOutput({ type: "error", content: error, isError: true });
+      // No worker started, so the run is already over
+      this.emitWorkersChange([]);
+    }
+  }
+
+  getWorkers(): WorkerInfo[] {
+    return this.pool?.getWorkers() ?? [];
+  }
+
+  async getResumableState(): Promise<RunnerState | null> {
+    return this.runner.getResumableState();
+  }
+
   async stop(): Promise<void> {
     this.runner.stop();
+    this.pool?.stop();
+  }
+
+  pause(): void {
+    if (this.pool?.isRunning()) this.pool.pause();
+    else this.runner.pause();
+  }
+
+  unpause(): void {
+    if (this.pool?.isRunning()) this.pool.unpause();
+    else this.runner.unpause();
   }
 
   isRunning(): boolean {
-    return this.runner.isRunning();
+    return this.runner.isRunning() || (this.pool?.isRunning() ?? false);
+  }
+
+  isPaused(): boolean {
+    return this.runner.isPaused() || (this.pool?.isPaused() ?? false);
+  }
+
+  isPauseRequested(): boolean {
+    return (
+      this.runner.isPauseRequested() ||
+      (this.pool?.isPauseRequested() ?? false)
+    );
   }
 
   getCurrentIteration(): number {
@@ -63,12 +147,36 @@ export class DefaultOrchestrator implements AgentOrchestrator {
     this.runner.setMaxIterations(maxIterations);
   }
 
+  getMaxIterations(): number {
+    return this.runner.getMaxIterations();
+  }
+
+  setBudget(budget: RunBudget): void {
+    this.budget = budget;
+    this.runner.setBudget(budget);
+  }
+
+  setBackend(backend: AgentBackendName): void {
+    this.backend = backend;
+    this.runner.setBackend(getBackend(backend));
+  }
+
+  async getRunUsage(startedAt: string): Promise<BudgetUsage> {
+    return this.runner.getRunUsage(startedAt);
+  }
+
   addHint(hint: string): void {
-    this.runner.addHint(hint);
+    if (this.pool?.isRunning()) this.pool.addHint(hint);
+    else this.runner.addHint(hint);
   }
 
   getPendingHintsCount(): number {
-    return this.runner.getPendingHintsCount();
+    return this.getPendingHints().length;
+  }
+
+  getPendingHints(): string[] {
+    if (this.pool?.isRunning()) return this.pool.getPendingHints();
+    return this.runner.getPendingHints();
   }
 
   onStoryComplete(callback: StoryCompleteCallback): () => void {
@@ -86,11 +194,31 @@ export class DefaultOrchestrator implements AgentOrchestrator {
     return () => this.iterationCallbacks.delete(callback);
   }
 
+  onIterationStats(callback: IterationStatsCallback): () => void {
+    this.iterationStatsCallbacks.add(callback);
+    return () => this.iterationStatsCallbacks.delete(callback);
+  }
+
   onComplete(callback: CompleteCallback): () => void {
     this.completeCallbacks.add(callback);
     return () => this.completeCallbacks.delete(callback);
   }
 
+  onPauseChange(callback: PauseChangeCallback): () => void {
+    this.pauseChangeCallbacks.add(callback);
+    return () => this.pauseChangeCallbacks.delete(callback);
+  }
+
+  onWorkerOutput(callback: WorkerOutputCallback): () => void {
+    this.workerOutputCallbacks.add(callback);
+    return () => this.workerOutputCallbacks.delete(callback);
+  }
+
+  onWorkersChange(callback: WorkersChangeCallback): () => void {
+    this.workersChangeCallbacks.add(callback);
+    return () => this.workersChangeCallbacks.delete(callback);
+  }
+
   private emitOutput(event: StreamEvent): void {
     for (const callback of this.outputCallbacks) {
       callback(event);
@@ -103,9 +231,33 @@ export class DefaultOrchestrator implements AgentOrchestrator {
     }
   }
 
-  private emitComplete(reason: "project_complete" | "max_iterations"): void {
+  private emitIterationStats(stats: IterationStats): void {
+    for (const callback of this.iterationStatsCallbacks) {
+      callback(stats);
+    }
+  }
+
+  private emitComplete(reason: CompleteReason, detail?: string): void {
     for (const callback of this.completeCallbacks) {
-      callback(reason);
+      callback(reason, detail);
+    }
+  }
+
+  private emitWorkerOutput(workerId: string, event: StreamEvent): void {
+    for (const callback of this.workerOutputCallbacks) {
+      callback(workerId, event);
+    }
+  }
+
+  private emitWorkersChange(workers: WorkerInfo[]): void {
+    for (const callback of this.workersChangeCallbacks) {
+      callback(workers);
+    }
+  }
+
+  private emitPauseChange(paused: boolean, reason: string | null): void {
+    for (const callback of this.pauseChangeCallbacks) {
+      callback(paused, reason);
     }
   }
 }
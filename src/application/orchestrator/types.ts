@@ -3,29 +3,75 @@
  */
 
 import type {
+  AgentBackendName,
   Learning,
   ProgressEntry,
   ResearchItem,
   Story,
 } from "../../domain/types/index.ts";
-import type { StreamEvent } from "../../infrastructure/ralph/index.ts";
+import type {
+  BudgetUsage,
+  CompleteReason,
+  IterationStats,
+  RunBudget,
+  RunnerState,
+  StreamEvent,
+} from "../../infrastructure/ralph/index.ts";
 
 export interface AgentOrchestrator {
   start(): Promise<void>;
+  resume(): Promise<void>;
+  getResumableState(): Promise<RunnerState | null>;
   stop(): Promise<void>;
+  pause(): void;
+  unpause(): void;
   isRunning(): boolean;
+  isPaused(): boolean;
+  isPauseRequested(): boolean;
   getCurrentIteration(): number;
   setMaxIterations(maxIterations: number): void;
+  getMaxIterations(): number;
+  setBudget(budget: RunBudget): void;
+  setBackend(backend: AgentBackendName): void;
+  getRunUsage(startedAt: string): Promise<BudgetUsage>;
   addHint(hint: string): void;
   getPendingHintsCount(): number;
+  getPendingHints(): string[];
   onStoryComplete(
     callback: (story: Story, result: StoryResult) => void
   ): () => void;
   onOutput(callback: (event: StreamEvent) => void): () => void;
   onIterationChange(callback: (iteration: number) => void): () => void;
+  onIterationStats(callback: (stats: IterationStats) => void): () => void;
   onComplete(
-    callback: (reason: "project_complete" | "max_iterations") => void
+    callback: (reason: CompleteReason, detail?: string) => void
+  ): () => void;
+  onPauseChange(
+    callback: (paused: boolean, reason: string | null) => void
+  ): () => void;
+  /**
+   * Run up to count workers in parallel, one per independent kanban up_next
+   * task, each in its own git worktree. Resolves when all have finished.
+   */
+  startWorkers(count: number): Promise<void>;
+  getWorkers(): WorkerInfo[];
+  onWorkerOutput(
+    callback: (workerId: string, event: StreamEvent) => void
   ): () => void;
+  onWorkersChange(callback: (workers: WorkerInfo[]) => void): () => void;
+}
+
+export interface WorkerInfo {
+  /** "w1", "w2", ... */
+  id: string;
+  taskId: string;
+  taskTitle: string;
+  /** Branch the worker's changes are committed to */
+  branch: string;
+  status: "running" | "paused" | "done" | "stopped" | "failed";
+  iteration: number;
+  /** How the worker ended, e.g. "task complete" */
+  detail: string | null;
 }
 
 export interface StoryResult {
@@ -39,4 +85,6 @@ export interface OrchestratorConfig {
   projectPath: string;
   autoAdvance: boolean;
   maxIterations?: number;
+  budget?: RunBudget;
+  backend?: AgentBackendName;
 }
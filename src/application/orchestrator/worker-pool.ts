@@ -0,0 +1,412 @@
+/**
+ * Worker pool - Ralph runners working on independent kanban tasks in parallel
+ *
+ * Each worker gets a git worktree on its own branch, based on a snapshot of
+ * the current work tree, and its own copy of .ml-ralph with the task as its
+ * current focus. Events a worker logs are copied into the main log.jsonl
+ * tagged with its id. When a worker finishes, its changes are committed to
+ * its branch and the worktree is removed.
+ */
+
+import { mkdir, open } from "node:fs/promises";
+import { selectParallelTasks } from "../../domain/logic/index.ts";
+import type { AgentBackendName, KanbanTask } from "../../domain/types/index.ts";
+import {
+  addWorktree,
+  commitWorkTree,
+  isGitRepo,
+  removeWorktree,
+  snapshotWorkTree,
+} from "../../infrastructure/git/index.ts";
+import {
+  appendEvents,
+  appendIterationStats,
+  getBackend,
+  type IterationStats,
+  type RalphEvent,
+  RalphRunner,
+  type RunBudget,
+  readKanbanFile,
+  type StreamEvent,
+} from "../../infrastructure/ralph/index.ts";
+import type { WorkerInfo } from "./types.ts";
+
+/** How often worker logs are copied into the main log */
+const LOG_FORWARD_MS = 1000;
+
+/** .ml-ralph files a worker starts from (kanban.json is written per worker) */
+const STATE_FILES = ["RALPH.md", "prd.json", "config.json", "log.jsonl"];
+
+const TASK_COMPLETE = "<task_complete>";
+
+export interface WorkerPoolConfig {
+  projectPath: string;
+  /** Iteration limit of each worker */
+  maxIterations: number;
+  /** Split between the workers: each gets its share of the spend cap */
+  budget?: RunBudget;
+  backend?: AgentBackendName;
+  onOutput?: (workerId: string, event: StreamEvent) => void;
+  onChange?: (workers: WorkerInfo[]) => void;
+  onIterationStats?: (stats: IterationStats) => void;
+  /** Every active worker is paused (true), or one of them resumed (false) */
+  onPauseChange?: (paused: boolean) => void;
+}
+
+interface Worker {
+  info: WorkerInfo;
+  task: KanbanTask;
+  runner: RalphRunner;
+  /** Worktree root, removed when the worker finishes */
+  dir: string;
+  /** Project directory inside the worktree */
+  projectPath: string;
+  /** Bytes of the worker's log already copied to the main log */
+  logOffset: number;
+  forwarding: Promise<void>;
+}
+
+function isActive(info: WorkerInfo): boolean {
+  return info.status === "running" || info.status === "paused";
+}
+
+/**
+ * Prompt addition telling a worker what it owns
+ */
+function workerInstructions(id: string, branch: string, task: KanbanTask) {
+  const prefix = id.toUpperCase();
+  return [
+    `You are parallel worker ${id}, in your own git worktree on branch ${branch}.`,
+    "Other workers are handling other kanban tasks at the same time.",
+    `Your assignment is ${task.id}: ${task.title}`,
+    `Why: ${task.why}`,
+    ...(task.expected_outcome
+      ? [`Expected outcome: ${task.expected_outcome}`]
+      : []),
+    "Work only on this task; it is your kanban current_focus.",
+    `Prefix the ids of hypotheses and tasks you create with ${prefix} (e.g. H-${prefix}-001) so they don't clash with other workers.`,
+    `When the task is done, output exactly: ${TASK_COMPLETE}`,
+    "Don't output <project_complete>; the main loop decides when the project is done.",
+  ].join("\n");
+}
+
+function splitBudget(
+  budget: RunBudget | undefined,
+  count: number,
+): RunBudget | undefined {
+  if (!budget?.maxCostUsd) return budget;
+  return { ...budget, maxCostUsd: budget.maxCostUsd / count };
+}
+
+function describeEnd(
+  reason: "project_complete" | "max_iterations" | "budget",
+  detail?: string,
+): string {
+  switch (reason) {
+    case "project_complete":
+      return "task complete";
+    case "max_iterations":
+      return "reached max iterations";
+    case "budget":
+      return `budget: ${detail ?? "used up"}`;
+  }
+}
+
+export class WorkerPool {
+  private workers: Worker[] = [];
+  private stopping = false;
+  private allPaused = false;
+
+  constructor(private config: WorkerPoolConfig) {}
+
+  /**
+   * Start up to count workers and wait for all of them to finish. Returns
+   * an error message if no worker could be started.
+   */
+  async run(count: number): Promise<string | null> {
+    if (this.isRunning()) return "Workers are already running.";
+
+    const { projectPath } = this.config;
+    if (!(await isGitRepo(projectPath))) {
+      return "Parallel workers need the project to be in a git repository.";
+    }
+
+    const kanban = await readKanbanFile(projectPath);
+    const tasks = kanban ? selectParallelTasks(kanban, count) : [];
+    if (tasks.length === 0) {
+      return "No up_next task in kanban.json is ready to run (tasks wait for their depends_on to be completed).";
+    }
+
+    // Workers branch off the work tree as it is now, uncommitted changes included
+    const runId = new Date().toISOString().replace(/[^0-9A-Za-z]/g, "-");
+    const base = await snapshotWorkTree(
+      projectPath,
+      `refs/ml-ralph/workers/${runId}/base`,
+      "ml-ralph workers base",
+    );
+    if (!base) return "Could not snapshot the work tree for the workers.";
+
+    this.stopping = false;
+    this.allPaused = false;
+    this.workers = [];
+    for (const [index, task] of tasks.entries()) {
+      const worker = await this.createWorker(
+        `w${index + 1}`,
+        task,
+        runId,
+        base,
+        tasks.length,
+      );
+      if (worker) this.workers.push(worker);
+    }
+    if (this.workers.length === 0) {
+      return "Could not create git worktrees for the workers.";
+    }
+
+    this.emitChange();
+    await Promise.all(this.workers.map((worker) => this.runWorker(worker)));
+    return null;
+  }
+
+  stop(): void {
+    this.stopping = true;
+    for (const worker of this.workers) worker.runner.stop();
+  }
+
+  pause(): void {
+    for (const worker of this.workers) worker.runner.pause();
+  }
+
+  unpause(): void {
+    for (const worker of this.workers) worker.runner.unpause();
+  }
+
+  /**
+   * Give every active worker the hint for its next iteration
+   */
+  addHint(hint: string): void {
+    for (const worker of this.workers) {
+      if (isActive(worker.info)) worker.runner.addHint(hint);
+    }
+  }
+
+  getPendingHints(): string[] {
+    const active = this.workers.find((w) => isActive(w.info));
+    return active?.runner.getPendingHints() ?? [];
+  }
+
+  isRunning(): boolean {
+    return this.workers.some((worker) => isActive(worker.info));
+  }
+
+  isPaused(): boolean {
+    return this.allPaused;
+  }
+
+  isPauseRequested(): boolean {
+    return this.workers.some((worker) => worker.runner.isPauseRequested());
+  }
+
+  getWorkers(): WorkerInfo[] {
+    return this.workers.map((worker) => ({ ...worker.info }));
+  }
+
+  // === Private helpers ===
+
+  private async createWorker(
+    id: string,
+    task: KanbanTask,
+    runId: string,
+    base: string,
+    count: number,
+  ): Promise<Worker | null> {
+    const { projectPath } = this.config;
+    const branch = `ml-ralph/${runId}/${id}-${task.id.replace(/[^0-9A-Za-z._-]/g, "-")}`;
+    const dir = `${projectPath}/.ml-ralph/worktrees/${runId}-${id}`;
+
+    const workerPath = await addWorktree(projectPath, dir, branch, base);
+    if (!workerPath) return null;
+    const logOffset = await this.copyState(workerPath, task);
+
+    const worker: Worker = {
+      info: {
+        id,
+        taskId: task.id,
+        taskTitle: task.title,
+        branch,
+        status: "running",
+        iteration: 0,
+        detail: null,
+      },
+      task,
+      dir,
+      projectPath: workerPath,
+      logOffset,
+      forwarding: Promise.resolve(),
+      runner: new RalphRunner({
+        projectPath: workerPath,
+        maxIterations: this.config.maxIterations,
+        budget: splitBudget(this.config.budget, count),
+        backend: getBackend(this.config.backend),
+        workerId: id,
+        instructions: workerInstructions(id, branch, task),
+        completeMarker: TASK_COMPLETE,
+        onOutput: (event) => this.config.onOutput?.(id, event),
+        onIterationStart: (iteration) => {
+          this.update(worker, { iteration });
+        },
+        onIterationStats: (stats) => {
+          // Worker spend counts towards the project's costs
+          void appendIterationStats(projectPath, stats);
+          this.config.onIterationStats?.(stats);
+        },
+        onComplete: (reason, detail) => {
+          this.update(worker, { detail: describeEnd(reason, detail) });
+        },
+        onPause: () => this.update(worker, { status: "paused" }),
+        onResume: () => this.update(worker, { status: "running" }),
+        onError: (error) => {
+          this.update(worker, { status: "failed", detail: error.message });
+          this.config.onOutput?.(id, {
+            type: "error",
+            content: error.message,
+            isError: true,
+          });
+        },
+      }),
+    };
+    return worker;
+  }
+
+  /**
+   * Give the worker its own .ml-ralph, with the task as its only focus.
+   * Returns the size of the copied log; later lines are the worker's own.
+   */
+  private async copyState(workerPath: string, task: KanbanTask) {
+    const from = `${this.config.projectPath}/.ml-ralph`;
+    const to = `${workerPath}/.ml-ralph`;
+    await mkdir(to, { recursive: true });
+
+    for (const name of STATE_FILES) {
+      const file = Bun.file(`${from}/${name}`);
+      if (await file.exists()) await Bun.write(`${to}/${name}`, file);
+    }
+
+    const kanban = await readKanbanFile(this.config.projectPath);
+    if (kanban) {
+      await Bun.write(
+        `${to}/kanban.json`,
+        JSON.stringify(
+          {
+            ...kanban,
+            update_reason: `Assigned to a parallel worker: ${task.id}`,
+            current_focus: task,
+            up_next: [],
+            backlog: [],
+          },
+          null,
+          2,
+        ),
+      );
+    }
+    return Bun.file(`${to}/log.jsonl`).size;
+  }
+
+  private async runWorker(worker: Worker): Promise<void> {
+    const timer = setInterval(() => {
+      void this.forwardLog(worker);
+    }, LOG_FORWARD_MS);
+
+    try {
+      await worker.runner.start();
+    } finally {
+      clearInterval(timer);
+    }
+    await this.forwardLog(worker);
+
+    const { id } = worker.info;
+    const sha = await commitWorkTree(
+      worker.projectPath,
+      `ml-ralph ${id}: ${worker.task.id} ${worker.task.title}`,
+    );
+    await removeWorktree(this.config.projectPath, worker.dir);
+
+    const status: WorkerInfo["status"] =
+      worker.info.status === "failed"
+        ? "failed"
+        : this.stopping
+          ? "stopped"
+          : "done";
+    this.update(worker, {
+      status,
+      detail: worker.info.detail ?? (this.stopping ? "stopped" : null),
+    });
+    this.config.onOutput?.(id, {
+      type: "text",
+      content: sha
+        ? `\nWorker ${id} finished; changes committed to ${worker.info.branch}\n`
+        : `\nWorker ${id} finished without changing any files\n`,
+    });
+  }
+
+  /**
+   * Copy events the worker logged since the last call into the main log
+   */
+  private forwardLog(worker: Worker): Promise<void> {
+    worker.forwarding = worker.forwarding.then(async () => {
+      const path = `${worker.projectPath}/.ml-ralph/log.jsonl`;
+      const handle = await open(path, "r").catch(() => null);
+      if (!handle) return;
+
+      try {
+        const { size } = await handle.stat();
+        if (size <= worker.logOffset) return;
+
+        const buffer = Buffer.alloc(size - worker.logOffset);
+        await handle.read(buffer, 0, buffer.length, worker.logOffset);
+
+        // Only whole lines; a partial last line waits for the next round
+        const end = buffer.lastIndexOf(0x0a);
+        if (end < 0) return;
+
+        const events: RalphEvent[] = [];
+        for (const line of buffer
+          .subarray(0, end)
+          .toString("utf-8")
+          .split("\n")) {
+          try {
+            const event = JSON.parse(line);
+            if (event && typeof event === "object") {
+              events.push({ ...event, worker: worker.info.id });
+            }
+          } catch {
+            // Malformed lines stay in the worker's own log
+          }
+        }
+        if (await appendEvents(this.config.projectPath, events)) {
+          worker.logOffset += end + 1;
+        }
+      } finally {
+        await handle.close();
+      }
+    });
+    return worker.forwarding;
+  }
+
+  private update(worker: Worker, changes: Partial<WorkerInfo>): void {
+    worker.info = { ...worker.info, ...changes };
+    this.emitChange();
+
+    const active = this.workers.filter((w) => isActive(w.info));
+    const allPaused =
+      active.length > 0 && active.every((w) => w.info.status === "paused");
+    if (allPaused !== this.allPaused) {
+      this.allPaused = allPaused;
+      this.config.onPauseChange?.(allPaused);
+    }
+  }
+
+  private emitChange(): void {
+    this.config.onChange?.(this.getWorkers());
+  }
+}
@@ -13,8 +13,19 @@ import type {
 } from "../../domain/types/index.ts";
 import { createDefaultConfig } from "../../domain/types/index.ts";
 import { JsonFileStore } from "../../infrastructure/file-store/index.ts";
+import {
+  BunJobManager,
+  cancelQueuedJob,
+  dispatchQueue,
+  moveQueuedJob,
+  reconcileJobs,
+  updateActiveJobs,
+  watchJobHealth,
+} from "../../infrastructure/process/index.ts";
 import type { AppState, AppStore } from "./types.ts";
 
+const jobManager = new BunJobManager();
+
 const initialState: AppState = {
   mode: "planning",
   projectPath: null,
@@ -23,6 +34,8 @@ const initialState: AppState = {
   learnings: [],
   research: [],
   activeJobs: [],
+  jobHistory: [],
+  jobQueue: [],
   agentStatus: "idle",
   currentStory: null,
   agentOutput: [],
@@ -38,6 +51,13 @@ const initialState: AppState = {
   abandonedOffset: 0,
   selectedExperimentIndex: 0,
   expandedExperimentId: null,
+  markedExperimentKeys: [],
+  comparisonOpen: false,
+  comparisonExportPath: null,
+  selectedChangeIndex: 0,
+  selectedChangeFileIndex: 0,
+  selectedJobIndex: 0,
+  openJobLogId: null,
   error: null,
 };
 
@@ -66,12 +86,22 @@ export const useAppStore = create<AppStore>((set, get) => ({
         await store.initialize(defaultConfig);
       }
 
-      const [config, prd, learnings, research, activeJobs] = await Promise.all([
+      const [
+        config,
+        prd,
+        learnings,
+        research,
+        activeJobs,
+        jobHistory,
+        jobQueue,
+      ] = await Promise.all([
         store.readConfig(),
         store.readPRD(),
         store.readLearnings(),
         store.readResearch(),
         store.readActiveJobs(),
+        store.readJobHistory(),
+        store.readJobQueue(),
       ]);
 
       set({
@@ -80,6 +110,8 @@ export const useAppStore = create<AppStore>((set, get) => ({
         learnings,
         research,
         activeJobs,
+        jobHistory,
+        jobQueue,
         error: null,
       });
     } catch (error) {
@@ -114,7 +146,7 @@ export const useAppStore = create<AppStore>((set, get) => ({
 
   // Mode
   setMode: (mode) => set({ mode }),
-  setSelectedTab: (tab) => set({ selectedTab: tab, scrollOffset: 0 }), // Reset scroll on tab change
+  setSelectedTab: (tab) => set({ selectedTab: tab, scrollOffset: 0, openJobLogId: null }), // Reset scroll on tab change
   setInputMode: (active) => set({ inputMode: active }),
   setScrollOffset: (offset) => set({ scrollOffset: Math.max(0, offset) }),
   scrollUp: () => set((state) => ({ scrollOffset: Math.max(0, state.scrollOffset - 1) })),
@@ -140,6 +172,25 @@ export const useAppStore = create<AppStore>((set, get) => ({
   toggleExpandedExperiment: (id) => set((state) => ({
     expandedExperimentId: state.expandedExperimentId === id ? null : id,
   })),
+  toggleMarkedExperiment: (key) => set((state) => ({
+    markedExperimentKeys: state.markedExperimentKeys.includes(key)
+      ? state.markedExperimentKeys.filter((k) => k !== key)
+      : [...state.markedExperimentKeys, key],
+  })),
+  clearMarkedExperiments: () => set({ markedExperimentKeys: [], comparisonOpen: false }),
+  setComparisonOpen: (open) => set({ comparisonOpen: open, comparisonExportPath: null, scrollOffset: 0 }),
+  setComparisonExportPath: (path) => set({ comparisonExportPath: path }),
+
+  // Changes - a new selection shows its diff from the top
+  selectNextChange: () => set((state) => ({ selectedChangeIndex: state.selectedChangeIndex + 1, selectedChangeFileIndex: 0, scrollOffset: 0 })),
+  selectPrevChange: () => set((state) => ({ selectedChangeIndex: Math.max(0, state.selectedChangeIndex - 1), selectedChangeFileIndex: 0, scrollOffset: 0 })),
+  selectNextChangeFile: () => set((state) => ({ selectedChangeFileIndex: state.selectedChangeFileIndex + 1, scrollOffset: 0 })),
+  selectPrevChangeFile: () => set((state) => ({ selectedChangeFileIndex: Math.max(0, state.selectedChangeFileIndex - 1), scrollOffset: 0 })),
+
+  // Jobs
+  selectNextJob: () => set((state) => ({ selectedJobIndex: state.selectedJobIndex + 1 })),
+  selectPrevJob: () => set((state) => ({ selectedJobIndex: Math.max(0, state.selectedJobIndex - 1) })),
+  setOpenJobLogId: (id) => set({ openJobLogId: id }),
 
   // PRD
   setPRD: (prd: PRD) => set({ prd }),
@@ -254,30 +305,48 @@ export const useAppStore = create<AppStore>((set, get) => ({
     }
 
     try {
-      // Send SIGTERM to the process
-      process.kill(job.pid, "SIGTERM");
+      // Mark it stopped first, so the supervisor doesn't record it as failed
+      const completedAt = new Date().toISOString();
+      const stopped = (j: TrainingJob): TrainingJob =>
+        j.id === jobId ? { ...j, status: "stopped", completedAt } : j;
+
+      set((state) => ({ activeJobs: state.activeJobs.map(stopped) }));
+      if (projectPath) {
+        await updateActiveJobs(projectPath, (jobs) => ({
+          jobs: jobs.map(stopped),
+          result: null,
+        }));
+      }
+
+      return await jobManager.stop(job.pid);
+    } catch {
+      return false;
+    }
+  },
 
-      // Update job status
-      const updatedJob: TrainingJob = {
-        ...job,
-        status: "stopped",
-        completedAt: new Date().toISOString(),
-      };
+  cancelQueuedJob: async (jobId: string): Promise<boolean> => {
+    const { projectPath } = get();
+    if (!projectPath) return false;
 
+    try {
+      const cancelled = await cancelQueuedJob(projectPath, jobId);
       set((state) => ({
-        activeJobs: state.activeJobs.map((j) =>
-          j.id === jobId ? updatedJob : j,
-        ),
+        jobQueue: state.jobQueue.filter((j) => j.id !== jobId),
       }));
+      return cancelled !== null;
+    } catch {
+      return false;
+    }
+  },
 
-      // Persist to file
-      if (projectPath) {
-        const store = new JsonFileStore(projectPath);
-        const updatedJobs = get().activeJobs;
-        await store.writeActiveJobs(updatedJobs);
-      }
+  moveQueuedJob: async (jobId: string, offset: number): Promise<boolean> => {
+    const { projectPath } = get();
+    if (!projectPath) return false;
 
-      return true;
+    try {
+      const moved = await moveQueuedJob(projectPath, jobId, offset);
+      set({ jobQueue: await new JsonFileStore(projectPath).readJobQueue() });
+      return moved;
     } catch {
       return false;
     }
@@ -292,14 +361,26 @@ export const useAppStore = create<AppStore>((set, get) => ({
     if (!projectPath) return;
 
     try {
-      const store = new JsonFileStore(projectPath);
-      const [learnings, research, activeJobs] = await Promise.all([
-        store.readLearnings(),
-        store.readResearch(),
-        store.readActiveJobs(),
-      ]);
+      // Move jobs that ended into history before reading them
+      await reconcileJobs(projectPath, (pid) => jobManager.isRunning(pid));
+      // Flag (and with jobs.autoStop, stop) runs whose losses went bad
+      await watchJobHealth(projectPath, jobManager, {
+        autoStop: get().config?.jobs?.autoStop,
+      });
+      // Start queued jobs in the room that left
+      await dispatchQueue(projectPath, jobManager);
 
-      set({ learnings, research, activeJobs });
+      const store = new JsonFileStore(projectPath);
+      const [learnings, research, activeJobs, jobHistory, jobQueue] =
+        await Promise.all([
+          store.readLearnings(),
+          store.readResearch(),
+          store.readActiveJobs(),
+          store.readJobHistory(),
+          store.readJobQueue(),
+        ]);
+
+      set({ learnings, research, activeJobs, jobHistory, jobQueue });
     } catch (error) {
       console.error("Failed to refresh data:", error);
     }
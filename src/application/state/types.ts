@@ -10,6 +10,7 @@ import type {
   PlanningTab,
   PRD,
   ProjectConfig,
+  QueuedJob,
   ResearchItem,
   Story,
   TrainingJob,
@@ -28,6 +29,8 @@ export interface AppState {
   learnings: Learning[];
   research: ResearchItem[];
   activeJobs: TrainingJob[];
+  jobHistory: TrainingJob[]; // Jobs that ended, oldest first
+  jobQueue: QueuedJob[]; // Jobs waiting for room to run, in start order
 
   // Agent
   agentStatus: AgentStatus;
@@ -51,6 +54,17 @@ export interface AppState {
   // Experiments tab
   selectedExperimentIndex: number; // Which experiment row is selected
   expandedExperimentId: string | null; // Which experiment is expanded (null = none)
+  markedExperimentKeys: string[]; // Experiments marked for comparison (hypothesis_id@ts)
+  comparisonOpen: boolean; // Showing the comparison of the marked experiments
+  comparisonExportPath: string | null; // Where the open comparison was last exported
+
+  // Changes tab
+  selectedChangeIndex: number; // Which iteration is selected (0 = newest)
+  selectedChangeFileIndex: number; // Which of its files shows a diff
+
+  // Jobs tab
+  selectedJobIndex: number; // Which job is selected (running first, then newest)
+  openJobLogId: string | null; // Job whose log is being viewed (null = list)
 
   // Error state
   error: string | null;
@@ -88,6 +102,21 @@ export interface AppActions {
   selectPrevExperiment: () => void;
   setExpandedExperimentId: (id: string | null) => void;
   toggleExpandedExperiment: (id: string) => void;
+  toggleMarkedExperiment: (key: string) => void;
+  clearMarkedExperiments: () => void;
+  setComparisonOpen: (open: boolean) => void;
+  setComparisonExportPath: (path: string | null) => void;
+
+  // Changes
+  selectNextChange: () => void;
+  selectPrevChange: () => void;
+  selectNextChangeFile: () => void;
+  selectPrevChangeFile: () => void;
+
+  // Jobs
+  selectNextJob: () => void;
+  selectPrevJob: () => void;
+  setOpenJobLogId: (id: string | null) => void;
 
   // PRD
   setPRD: (prd: PRD) => void;
@@ -112,6 +141,8 @@ export interface AppActions {
   setActiveJobs: (jobs: TrainingJob[]) => void;
   updateJob: (job: TrainingJob) => void;
   stopTrainingJob: (jobId: string) => Promise<boolean>;
+  cancelQueuedJob: (jobId: string) => Promise<boolean>;
+  moveQueuedJob: (jobId: string, offset: number) => Promise<boolean>;
 
   // Error
   setError: (error: string | null) => void;
@@ -0,0 +1,108 @@
+/**
+ * Tests for ctl argument parsing and delivery to the daemon
+ */
+
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { chmod, mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  connectDaemon,
+  DaemonServer,
+  type DaemonStatus,
+} from "../application/daemon/index.ts";
+import { parseCtlArgs, runCtl } from "./ctl.ts";
+
+describe("parseCtlArgs", () => {
+  test("parses each command", () => {
+    expect(parseCtlArgs(["status", "--json"])).toMatchObject({
+      action: "status",
+      json: true,
+    });
+    expect(parseCtlArgs(["stop", "--path", "/work/proj"])).toMatchObject({
+      action: { type: "stop" },
+      projectPath: "/work/proj",
+    });
+    expect(parseCtlArgs(["hint", "dataset", "refreshed"])).toMatchObject({
+      action: { type: "hint", hint: "dataset refreshed" },
+    });
+  });
+
+  test("reads relative and absolute iteration changes", () => {
+    expect(parseCtlArgs(["iterations", "+5"])).toMatchObject({
+      action: { type: "add_iterations", count: 5 },
+    });
+    expect(parseCtlArgs(["iterations", "-2"])).toMatchObject({
+      action: { type: "add_iterations", count: -2 },
+    });
+    expect(parseCtlArgs(["iterations", "20"])).toMatchObject({
+      action: { type: "set_max_iterations", maxIterations: 20 },
+    });
+  });
+
+  test("rejects bad input", () => {
+    expect(parseCtlArgs([])).toBe("Missing command");
+    expect(parseCtlArgs(["hint"])).toBeString();
+    expect(parseCtlArgs(["iterations", "lots"])).toBeString();
+    expect(parseCtlArgs(["iterations", "0"])).toBeString();
+    expect(parseCtlArgs(["restart"])).toBe("Unknown command: restart");
+  });
+});
+
+describe("runCtl", () => {
+  let projectPath = "";
+  let server: DaemonServer;
+  const path = process.env.PATH;
+
+  beforeEach(async () => {
+    projectPath = await mkdtemp(join(tmpdir(), "ml-ralph-ctl-"));
+    await mkdir(join(projectPath, ".ml-ralph"));
+    await writeFile(join(projectPath, ".ml-ralph", "RALPH.md"), "");
+    // An agent CLI that works until it is killed
+    await mkdir(join(projectPath, "bin"));
+    await writeFile(
+      join(projectPath, "bin", "claude"),
+      "#!/bin/sh\nexec sleep 30\n",
+    );
+    await chmod(join(projectPath, "bin", "claude"), 0o755);
+    process.env.PATH = `${join(projectPath, "bin")}:${path}`;
+    server = new DaemonServer({ projectPath, autoAdvance: true });
+  });
+
+  afterEach(async () => {
+    process.env.PATH = path;
+    await server.close();
+    await rm(projectPath, { recursive: true, force: true });
+  });
+
+  test("stop tells attached clients the agent is no longer running", async () => {
+    await server.listen();
+    const tui = await connectDaemon(projectPath);
+    if (!tui) throw new Error("daemon not reachable");
+    await tui.attach();
+
+    const iterationStarted = new Promise<void>((resolve) => {
+      tui.onIterationChange(() => resolve());
+    });
+    await tui.start();
+    await iterationStarted;
+    expect(tui.isRunning()).toBe(true);
+
+    const stopped = new Promise<DaemonStatus>((resolve) => {
+      tui.onStatus((status) => {
+        if (!status.running) resolve(status);
+      });
+    });
+    const exitCode = await runCtl({
+      projectPath,
+      json: true,
+      timeout: 5,
+      action: { type: "stop" },
+    });
+    expect(exitCode).toBe(0);
+    expect((await stopped).running).toBe(false);
+    expect(tui.isRunning()).toBe(false);
+
+    tui.close();
+  });
+});
@@ -0,0 +1,256 @@
+/**
+ * Control CLI - steer a running agent from another shell or a script
+ *
+ * Talks to the project's daemon when one is running, otherwise drops the
+ * command in .ml-ralph/inbox/ for `ml-ralph run` and waits for pickup.
+ */
+
+import {
+  type ControlCommand,
+  connectDaemon,
+  type DaemonClient,
+  type DaemonStatus,
+  submitToInbox,
+  waitForPickup,
+} from "../application/daemon/index.ts";
+import { readRunnerState } from "../infrastructure/ralph/index.ts";
+
+export interface CtlOptions {
+  projectPath: string;
+  json: boolean;
+  /** Seconds to wait for an inbox command to be picked up */
+  timeout: number;
+  action: "status" | ControlCommand;
+}
+
+export const CTL_USAGE = `Usage: ml-ralph ctl <command> [options]
+
+Commands:
+  hint "<text>"          Give the agent a hint for its next iteration
+  stop                   Stop the agent
+  status                 Show what the agent is doing
+  iterations <+n|-n|n>   Change the current run's iteration limit
+
+Options:
+  --path <dir>           Project directory (default: current directory)
+  --json                 Print JSON
+  --timeout <s>          Wait this long for delivery without a daemon (default: 5)`;
+
+/**
+ * Parse `ctl` arguments. Returns an error message for bad input.
+ */
+export function parseCtlArgs(args: string[]): CtlOptions | string {
+  let projectPath = process.cwd();
+  let json = false;
+  let timeout = 5;
+  const positional: string[] = [];
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i]!;
+    if (arg === "--json") {
+      json = true;
+    } else if (arg === "--path") {
+      const value = args[++i];
+      if (!value) return "--path needs a directory";
+      projectPath = value;
+    } else if (arg === "--timeout") {
+      const value = Number(args[++i]);
+      if (!(value > 0)) return "--timeout needs a positive number of seconds";
+      timeout = value;
+    } else {
+      positional.push(arg);
+    }
+  }
+
+  const [command, value, ...rest] = positional;
+  const options = { projectPath, json, timeout };
+
+  switch (command) {
+    case "status":
+    case "stop":
+      if (value !== undefined) return `${command} takes no arguments`;
+      return {
+        ...options,
+        action: command === "status" ? "status" : { type: "stop" },
+      };
+    case "hint": {
+      const hint = [value, ...rest].join(" ").trim();
+      if (!hint) return 'hint needs text, e.g. ml-ralph ctl hint "try lr=1e-4"';
+      return { ...options, action: { type: "hint", hint } };
+    }
+    case "iterations": {
+      const match = value?.match(/^([+-]?)(\d+)$/);
+      if (!match || rest.length > 0) {
+        return "iterations needs +n, -n or n, e.g. ml-ralph ctl iterations +5";
+      }
+      const count = Number(match[2]);
+      if (match[1]) {
+        return {
+          ...options,
+          action: {
+            type: "add_iterations",
+            count: match[1] === "-" ? -count : count,
+          },
+        };
+      }
+      if (count < 1) return "iterations must be at least 1";
+      return {
+        ...options,
+        action: { type: "set_max_iterations", maxIterations: count },
+      };
+    }
+    case undefined:
+      return "Missing command";
+    default:
+      return `Unknown command: ${command}`;
+  }
+}
+
+function describeStatus(status: DaemonStatus): string {
+  const lines: string[] = [];
+  if (status.running) {
+    const state = status.paused
+      ? ` · paused${status.pauseReason ? `: ${status.pauseReason}` : ""}`
+      : status.pauseRequested
+        ? " · pausing after this iteration"
+        : "";
+    lines.push(
+      `Agent running · iteration ${status.iteration}/${status.maxIterations}${state}`,
+    );
+  } else {
+    lines.push(
+      `Agent idle${status.run ? ` · last run ${status.run.status}` : ""}`,
+    );
+  }
+  if (status.run) lines.push(`Run started ${status.run.startedAt}`);
+  if (status.workers.length > 0) {
+    lines.push(`Parallel workers (${status.workers.length}):`);
+    for (const worker of status.workers) {
+      const detail = worker.detail ? ` (${worker.detail})` : "";
+      lines.push(
+        `  ${worker.id}  ${worker.status}${detail} · iteration ${worker.iteration} · ${worker.taskId} on ${worker.branch}`,
+      );
+    }
+  }
+  if (status.pendingHints.length > 0) {
+    lines.push(`Pending hints (${status.pendingHints.length}):`);
+    for (const hint of status.pendingHints) lines.push(`  - ${hint}`);
+  }
+  const runningJobs = status.activeJobs.filter((j) => j.status === "running");
+  if (runningJobs.length > 0) {
+    lines.push(`Training jobs running: ${runningJobs.length}`);
+    for (const job of runningJobs) lines.push(`  ${job.id}  ${job.command}`);
+  }
+  lines.push(`Daemon pid ${status.pid}`);
+  return lines.join("\n");
+}
+
+/**
+ * What the daemon did with a command, for the confirmation message
+ */
+function describeDelivery(command: ControlCommand, status: DaemonStatus) {
+  switch (command.type) {
+    case "hint":
+      return status.running
+        ? `Hint delivered; ${status.pendingHints.length} pending for the next iteration.`
+        : "Hint queued; the agent isn't running, so the next run will use it.";
+    case "stop":
+      return "Agent stopped.";
+    case "add_iterations":
+    case "set_max_iterations":
+      return `Iteration limit is now ${status.maxIterations} (at iteration ${status.iteration}).`;
+  }
+}
+
+async function viaDaemon(
+  daemon: DaemonClient,
+  options: CtlOptions,
+): Promise<number> {
+  const { action, json } = options;
+
+  if (action === "status") {
+    const status = await daemon.getStatus();
+    console.log(
+      json ? JSON.stringify(status, null, 2) : describeStatus(status),
+    );
+    return 0;
+  }
+
+  const before = await daemon.getStatus();
+  if (
+    !before.running &&
+    (action.type === "stop" ||
+      action.type === "add_iterations" ||
+      action.type === "set_max_iterations")
+  ) {
+    const message = "The agent isn't running.";
+    console.error(
+      json ? JSON.stringify({ delivered: false, message }) : message,
+    );
+    return 1;
+  }
+
+  const status = await daemon.request<DaemonStatus>(action);
+  const message = describeDelivery(action, status);
+  console.log(
+    json ? JSON.stringify({ delivered: true, message, status }) : message,
+  );
+  return 0;
+}
+
+async function viaInbox(options: CtlOptions): Promise<number> {
+  const { action, json, projectPath } = options;
+
+  if (action === "status") {
+    // No daemon to ask; report what the last run persisted
+    const run = await readRunnerState(projectPath);
+    if (json) {
+      console.log(JSON.stringify({ daemon: false, run }, null, 2));
+    } else if (!run) {
+      console.log("No ml-ralph daemon or run found.");
+    } else {
+      console.log(
+        `No daemon · runner.json says ${run.status} at iteration ${run.iteration}/${run.maxIterations}` +
+          ` (updated ${run.updatedAt})`,
+      );
+    }
+    return 0;
+  }
+
+  const path = await submitToInbox(projectPath, action);
+  const delivered = await waitForPickup(path, options.timeout * 1000);
+  const message = delivered
+    ? "Delivered via .ml-ralph/inbox/."
+    : `No running ml-ralph picked it up within ${options.timeout}s; withdrawn.`;
+  if (json) {
+    console.log(JSON.stringify({ delivered, message }));
+  } else if (delivered) {
+    console.log(message);
+  } else {
+    console.error(message);
+  }
+  return delivered ? 0 : 1;
+}
+
+/**
+ * Run a ctl command and return the process exit code
+ */
+export async function runCtl(options: CtlOptions): Promise<number> {
+  const daemon = await connectDaemon(options.projectPath);
+  if (!daemon) return viaInbox(options);
+
+  try {
+    // An idle daemon next to a live run means `ml-ralph run` owns the loop
+    const status = await daemon.getStatus();
+    const run = await readRunnerState(options.projectPath);
+    if (
+      !status.running &&
+      (run?.status === "running" || run?.status === "paused")
+    ) {
+      return await viaInbox(options);
+    }
+    return await viaDaemon(daemon, options);
+  } finally {
+    daemon.close();
+  }
+}
@@ -0,0 +1,79 @@
+/**
+ * Tests for job argument parsing
+ */
+
+import { describe, expect, test } from "bun:test";
+import { parseJobArgs } from "./job.ts";
+
+describe("parseJobArgs", () => {
+  test("reads options and passes everything after -- through", () => {
+    expect(
+      parseJobArgs([
+        "start",
+        "--log",
+        "train.log",
+        "--experiment",
+        "baseline",
+        "--",
+        "python",
+        "train.py",
+        "--log",
+        "debug",
+      ]),
+    ).toEqual({
+      action: "start",
+      projectPath: process.cwd(),
+      command: ["python", "train.py", "--log", "debug"],
+      logPath: "train.log",
+      wandbRunId: null,
+      storyId: null,
+      experimentId: "baseline",
+    });
+  });
+
+  test("reads reservations and priority for submit", () => {
+    expect(
+      parseJobArgs([
+        "submit",
+        "--cpus",
+        "4",
+        "--memory",
+        "12.5",
+        "--priority",
+        "-1",
+        "--",
+        "python",
+        "train.py",
+      ]),
+    ).toMatchObject({
+      action: "submit",
+      command: ["python", "train.py"],
+      priority: -1,
+      cpus: 4,
+      memoryGb: 12.5,
+    });
+    expect(parseJobArgs(["submit", "--", "python", "train.py"])).toMatchObject({
+      priority: 0,
+      cpus: 1,
+      memoryGb: 0,
+    });
+  });
+
+  test("rejects bad input", () => {
+    expect(parseJobArgs([])).toBe("Missing job command");
+    expect(parseJobArgs(["run"])).toBe("Unknown job command: run");
+    expect(parseJobArgs(["start", "--gpu", "0"])).toBe("Unknown option: --gpu");
+    expect(parseJobArgs(["start", "--log"])).toBe("--log needs a value");
+    expect(parseJobArgs(["start", "--"])).toBe("Missing command after --");
+    expect(parseJobArgs(["start", "--cpus", "2"])).toBe(
+      "Unknown option: --cpus",
+    );
+    expect(parseJobArgs(["submit", "--cpus", "0"])).toBe("Invalid --cpus: 0");
+    expect(parseJobArgs(["submit", "--priority", "1.5"])).toBe(
+      "Invalid --priority: 1.5",
+    );
+    expect(parseJobArgs(["submit", "--memory", "lots"])).toBe(
+      "Invalid --memory: lots",
+    );
+  });
+});
@@ -0,0 +1,270 @@
+/**
+ * Job CLI - start training runs as tracked jobs, or submit them to the job
+ * queue, for the agent's Bash tool
+ */
+
+import { mkdir, open, stat } from "node:fs/promises";
+import { resolve } from "node:path";
+import { generateJobId } from "../domain/logic/index.ts";
+import { JsonFileStore } from "../infrastructure/file-store/index.ts";
+import {
+  BunJobManager,
+  dispatchQueue,
+  enqueueJob,
+  registerJob,
+} from "../infrastructure/process/index.ts";
+import { readKanbanFile } from "../infrastructure/ralph/index.ts";
+
+export interface JobStartOptions {
+  action: "start";
+  projectPath: string;
+  /** Program and arguments to run */
+  command: string[];
+  /** Log file (default: .ml-ralph/runs/<job id>.log) */
+  logPath: string | null;
+  /** Exported as WANDB_RUN_ID (default: $WANDB_RUN_ID or a new id) */
+  wandbRunId: string | null;
+  /** Kanban task the run belongs to (default: the current focus) */
+  storyId: string | null;
+  experimentId: string | null;
+}
+
+export interface JobSubmitOptions extends Omit<JobStartOptions, "action"> {
+  action: "submit";
+  /** Higher goes ahead of lower in the queue */
+  priority: number;
+  /** Cores reserved while it runs */
+  cpus: number;
+  /** Memory reserved while it runs, in GB */
+  memoryGb: number;
+}
+
+export type JobOptions = JobStartOptions | JobSubmitOptions;
+
+export const JOB_USAGE = `Usage: ml-ralph job start [options] -- <command...>
+       ml-ralph job submit [options] -- <command...>
+
+start   Starts a training run in the background and registers it in
+        .ml-ralph/runs/active.json, so the TUI can show its metrics and
+        stop it. Prints the job id, pid and log file, then returns.
+submit  Adds the run to .ml-ralph/runs/queue.json. It starts as soon as
+        the "jobs" limits in config.json leave room for it, in queue order.
+
+Options:
+  --path <dir>           Project directory (default: current directory)
+  --log <file>           Log file (default: .ml-ralph/runs/<job id>.log)
+  --wandb-run-id <id>    Exported as WANDB_RUN_ID (default: a new id)
+  --story <id>           Kanban task the run belongs to (default: current focus)
+  --experiment <name>    Experiment the run is for
+
+Submit options:
+  --priority <n>         Goes ahead of queued jobs with a lower priority (default: 0)
+  --cpus <n>             Cores to reserve while it runs (default: 1)
+  --memory <gb>          Memory to reserve while it runs (default: 0)`;
+
+const VALUE_OPTIONS = {
+  "--path": "projectPath",
+  "--log": "logPath",
+  "--wandb-run-id": "wandbRunId",
+  "--story": "storyId",
+  "--experiment": "experimentId",
+} as const;
+
+const SUBMIT_OPTIONS = {
+  "--priority": "priority",
+  "--cpus": "cpus",
+  "--memory": "memoryGb",
+} as const;
+
+function isValidResource(
+  key: (typeof SUBMIT_OPTIONS)[keyof typeof SUBMIT_OPTIONS],
+  value: number,
+): boolean {
+  if (key === "priority") return Number.isInteger(value);
+  return Number.isFinite(value) && (key === "cpus" ? value > 0 : value >= 0);
+}
+
+/**
+ * Parse `job` arguments. Returns an error message for bad input.
+ */
+export function parseJobArgs(args: string[]): JobOptions | string {
+  const [action, ...rest] = args;
+  if (action !== "start" && action !== "submit") {
+    return action ? `Unknown job command: ${action}` : "Missing job command";
+  }
+
+  const options: JobStartOptions = {
+    action: "start",
+    projectPath: process.cwd(),
+    command: [],
+    logPath: null,
+    wandbRunId: null,
+    storyId: null,
+    experimentId: null,
+  };
+  const resources = { priority: 0, cpus: 1, memoryGb: 0 };
+
+  for (let i = 0; i < rest.length; i++) {
+    const arg = rest[i]!;
+    if (arg === "--") {
+      options.command = rest.slice(i + 1);
+      break;
+    }
+    const isResource = action === "submit" && arg in SUBMIT_OPTIONS;
+    if (!(arg in VALUE_OPTIONS) && !isResource) {
+      return `Unknown option: ${arg}`;
+    }
+    const value = rest[++i];
+    if (!value) return `${arg} needs a value`;
+    if (isResource) {
+      const key = SUBMIT_OPTIONS[arg as keyof typeof SUBMIT_OPTIONS];
+      if (!isValidResource(key, Number(value))) {
+        return `Invalid ${arg}: ${value}`;
+      }
+      resources[key] = Number(value);
+    } else {
+      options[VALUE_OPTIONS[arg as keyof typeof VALUE_OPTIONS]] = value;
+    }
+  }
+
+  if (options.command.length === 0) return "Missing command after --";
+  return action === "submit" ? { ...options, action, ...resources } : options;
+}
+
+/**
+ * 8 lowercase letters and digits, like the ids wandb generates
+ */
+function newWandbRunId(): string {
+  const chars = "abcdefghijklmnopqrstuvwxyz0123456789";
+  return Array.from(
+    { length: 8 },
+    () => chars[Math.floor(Math.random() * chars.length)],
+  ).join("");
+}
+
+/**
+ * Create path unless it exists. False if it already did.
+ */
+async function claim(path: string): Promise<boolean> {
+  try {
+    await (await open(path, "wx")).close();
+    return true;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "EEXIST") return false;
+    throw error;
+  }
+}
+
+/**
+ * Start what fits of the queue and say whether the submitted job started
+ * or where it waits
+ */
+async function reportSubmitted(
+  projectPath: string,
+  id: string,
+  logPath: string,
+  wandbRunId: string,
+): Promise<number> {
+  const started = await dispatchQueue(projectPath, new BunJobManager());
+  const job = started.find((j) => j.id === id);
+  const queue = await new JsonFileStore(projectPath).readJobQueue();
+  const position = queue.findIndex((j) => j.id === id) + 1;
+
+  if (job) {
+    console.log(`Started ${id} (pid ${job.pid})`);
+  } else if (position > 0) {
+    console.log(`Queued ${id} (position ${position} of ${queue.length})`);
+  } else {
+    // Moved straight to the history as failed, or started by someone else
+    const ended = (await new JsonFileStore(projectPath).readJobHistory()).find(
+      (j) => j.id === id,
+    );
+    if (ended?.error) {
+      console.error(`${id}: ${ended.error}`);
+      return 1;
+    }
+    console.log(`Started ${id}`);
+  }
+  console.log(`Log: ${logPath}`);
+  console.log(`wandb run id: ${wandbRunId}`);
+  return 0;
+}
+
+/**
+ * Run a job command. Returns the exit code.
+ */
+export async function runJob(options: JobOptions): Promise<number> {
+  const projectPath = resolve(options.projectPath);
+  const stateDir = await stat(`${projectPath}/.ml-ralph`).catch(() => null);
+  if (!stateDir?.isDirectory()) {
+    console.error(`No ml-ralph project at ${projectPath}`);
+    return 1;
+  }
+
+  const wandbRunId =
+    options.wandbRunId ?? process.env.WANDB_RUN_ID ?? newWandbRunId();
+  const storyId =
+    options.storyId ??
+    (await readKanbanFile(projectPath))?.current_focus?.id ??
+    "";
+
+  try {
+    // Ids have one-second resolution; claim one by creating its (empty) exit
+    // file, so jobs started in the same second keep their files apart
+    const runsDir = `${projectPath}/.ml-ralph/runs`;
+    await mkdir(runsDir, { recursive: true });
+    const baseId = generateJobId();
+    let id = baseId;
+    for (let n = 2; !(await claim(`${runsDir}/${id}.exit.json`)); n++) {
+      id = `${baseId}_${n}`;
+    }
+    const logPath = options.logPath
+      ? resolve(process.cwd(), options.logPath)
+      : `${runsDir}/${id}.log`;
+    const exitFile = `${runsDir}/${id}.exit.json`;
+
+    if (options.action === "submit") {
+      await enqueueJob(projectPath, {
+        id,
+        storyId,
+        experimentId: options.experimentId ?? "",
+        command: options.command,
+        cwd: process.cwd(),
+        logPath,
+        exitFile,
+        wandbRunId,
+        priority: options.priority,
+        cpus: options.cpus,
+        memoryGb: options.memoryGb,
+        submittedAt: new Date().toISOString(),
+      });
+      return await reportSubmitted(projectPath, id, logPath, wandbRunId);
+    }
+
+    const job = await new BunJobManager().launch(options.command, {
+      storyId,
+      experimentId: options.experimentId ?? "",
+      cwd: process.cwd(),
+      logPath,
+      exitFile,
+      wandbRunId,
+      // Lets the job start queued ones when it ends
+      env: { WANDB_RUN_ID: wandbRunId, ML_RALPH_PROJECT: projectPath },
+    });
+
+    const registered = await registerJob(projectPath, { ...job, id });
+    if (!registered) {
+      console.error(`Started pid ${job.pid} but could not register it`);
+      return 1;
+    }
+    console.log(`Started ${registered.id} (pid ${registered.pid})`);
+    console.log(`Log: ${registered.logPath}`);
+    console.log(`wandb run id: ${wandbRunId}`);
+    return 0;
+  } catch (error) {
+    console.error(
+      `Could not ${options.action} the job: ${(error as Error).message}`,
+    );
+    return 1;
+  }
+}
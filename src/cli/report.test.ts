@@ -0,0 +1,25 @@
+/**
+ * Tests for report argument parsing
+ */
+
+import { describe, expect, test } from "bun:test";
+import { parseReportArgs } from "./report.ts";
+
+describe("parseReportArgs", () => {
+  test("reads the path and output directory", () => {
+    expect(parseReportArgs(["/work/proj", "--out", "/tmp/reports"])).toEqual({
+      projectPath: "/work/proj",
+      outDir: "/tmp/reports",
+    });
+    expect(parseReportArgs([])).toEqual({
+      projectPath: process.cwd(),
+      outDir: null,
+    });
+  });
+
+  test("rejects bad input", () => {
+    expect(parseReportArgs(["--out"])).toBe("--out needs a directory");
+    expect(parseReportArgs(["--html"])).toBe("Unknown option: --html");
+    expect(parseReportArgs(["a", "b"])).toBe("Unexpected argument: b");
+  });
+});
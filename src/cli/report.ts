@@ -0,0 +1,71 @@
+/**
+ * Report CLI - write the project report for people who don't run the TUI
+ */
+
+import { stat } from "node:fs/promises";
+import { writeProjectReport } from "../infrastructure/report/index.ts";
+
+export interface ReportOptions {
+  projectPath: string;
+  /** Directory to write to (default: .ml-ralph/reports/) */
+  outDir: string | null;
+}
+
+export const REPORT_USAGE = `Usage: ml-ralph report [path] [options]
+
+Writes the PRD, kanban journey, hypotheses with their experiments and
+decisions, learnings, research and PRD changes as a markdown file and a
+standalone HTML file with metric charts.
+
+Options:
+  --out <dir>    Directory to write to (default: .ml-ralph/reports/)`;
+
+/**
+ * Parse `report` arguments. Returns an error message for bad input.
+ */
+export function parseReportArgs(args: string[]): ReportOptions | string {
+  let projectPath: string | null = null;
+  let outDir: string | null = null;
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i]!;
+    if (arg === "--out") {
+      const value = args[++i];
+      if (!value) return "--out needs a directory";
+      outDir = value;
+    } else if (arg.startsWith("-")) {
+      return `Unknown option: ${arg}`;
+    } else if (projectPath === null) {
+      projectPath = arg;
+    } else {
+      return `Unexpected argument: ${arg}`;
+    }
+  }
+
+  return { projectPath: projectPath ?? process.cwd(), outDir };
+}
+
+/**
+ * Write the report. Returns the exit code.
+ */
+export async function runReport(options: ReportOptions): Promise<number> {
+  const stateDir = await stat(`${options.projectPath}/.ml-ralph`).catch(
+    () => null,
+  );
+  if (!stateDir?.isDirectory()) {
+    console.error(`No ml-ralph project at ${options.projectPath}`);
+    return 1;
+  }
+
+  const files = await writeProjectReport(
+    options.projectPath,
+    options.outDir ?? undefined,
+  );
+  if (!files) {
+    console.error("Could not write the report");
+    return 1;
+  }
+  console.log(`Wrote ${files.markdownPath}`);
+  console.log(`Wrote ${files.htmlPath}`);
+  return 0;
+}
@@ -0,0 +1,50 @@
+/**
+ * Tests for headless run argument parsing
+ */
+
+import { describe, expect, test } from "bun:test";
+import { parseRunArgs } from "./run.ts";
+
+describe("parseRunArgs", () => {
+  test("reads path, limits, backend and flags", () => {
+    expect(
+      parseRunArgs([
+        "/work/proj",
+        "--iterations",
+        "25",
+        "--budget",
+        "12.5",
+        "--hours",
+        "3",
+        "--iteration-minutes",
+        "40",
+        "--backend",
+        "codex",
+        "--resume",
+        "--json",
+      ]),
+    ).toEqual({
+      projectPath: "/work/proj",
+      iterations: 25,
+      resume: true,
+      json: true,
+      budget: { maxCostUsd: 12.5, maxHours: 3, maxIterationMinutes: 40 },
+      backend: "codex",
+    });
+  });
+
+  test("defaults to the current directory and 10 iterations", () => {
+    expect(parseRunArgs([])).toMatchObject({
+      projectPath: process.cwd(),
+      iterations: 10,
+      budget: {},
+    });
+  });
+
+  test("rejects bad values and unknown options", () => {
+    expect(parseRunArgs(["--iterations", "2.5"])).toBeString();
+    expect(parseRunArgs(["--budget"])).toBeString();
+    expect(parseRunArgs(["--backend", "gpt"])).toBeString();
+    expect(parseRunArgs(["--verbose"])).toBe("Unknown option: --verbose");
+  });
+});
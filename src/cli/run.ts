@@ -0,0 +1,273 @@
+/**
+ * Headless run - drives the agent loop without tmux or Ink
+ *
+ * For servers and CI: prints agent output as plain lines or NDJSON and
+ * exits with a code that says why the run ended.
+ */
+
+import {
+  applyControlCommand,
+  type ControlCommand,
+  connectDaemon,
+  watchInbox,
+} from "../application/daemon/index.ts";
+import { createOrchestrator } from "../application/orchestrator/index.ts";
+import type { AgentBackendName } from "../domain/types/index.ts";
+import { JsonFileStore } from "../infrastructure/file-store/index.ts";
+import {
+  type CompleteReason,
+  ensureInitialized,
+  type IterationStats,
+  type RunBudget,
+  type StreamEvent,
+} from "../infrastructure/ralph/index.ts";
+
+export const RUN_EXIT_CODES = {
+  project_complete: 0,
+  error: 1,
+  usage: 2,
+  max_iterations: 3,
+  budget: 4,
+  paused: 5,
+  stopped: 6,
+  interrupted: 130,
+} as const;
+
+export interface RunOptions {
+  projectPath: string;
+  iterations: number;
+  resume: boolean;
+  json: boolean;
+  budget: RunBudget;
+  backend?: AgentBackendName;
+}
+
+export const RUN_USAGE = `Usage: ml-ralph run [project-path] [options]
+
+Options:
+  --iterations <n>             Max iterations (default: 10)
+  --budget <usd>               Stop once the run has spent this much
+  --hours <h>                  Stop this many hours after the run starts
+  --iteration-minutes <m>      Kill an iteration that runs longer than this
+  --backend <claude|codex>     Agent CLI (default: agent.backend in config.json)
+  --resume                     Continue the run in .ml-ralph/runner.json
+                               (keeps that run's iteration limit)
+  --json                       Print NDJSON instead of text
+
+Budget flags override agent.maxCostUsd / maxHours / maxIterationMinutes.
+
+Exit codes:
+  0    project complete
+  1    error
+  2    bad arguments or project not ready
+  3    reached max iterations
+  4    budget used up
+  5    agent paused for input (continue with --resume)
+  6    stopped with ml-ralph ctl stop
+  130  interrupted`;
+
+/**
+ * Parse `run` arguments. Returns an error message for bad input.
+ */
+export function parseRunArgs(args: string[]): RunOptions | string {
+  const options: RunOptions = {
+    projectPath: process.cwd(),
+    iterations: 10,
+    resume: false,
+    json: false,
+    budget: {},
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i]!;
+    const takeNumber = (): number | null => {
+      const value = Number(args[++i]);
+      return Number.isFinite(value) && value > 0 ? value : null;
+    };
+
+    switch (arg) {
+      case "--json":
+        options.json = true;
+        break;
+      case "--resume":
+        options.resume = true;
+        break;
+      case "--iterations": {
+        const value = takeNumber();
+        if (value === null || !Number.isInteger(value)) {
+          return "--iterations needs a positive whole number";
+        }
+        options.iterations = value;
+        break;
+      }
+      case "--budget":
+      case "--hours":
+      case "--iteration-minutes": {
+        const value = takeNumber();
+        if (value === null) return `${arg} needs a positive number`;
+        if (arg === "--budget") options.budget.maxCostUsd = value;
+        if (arg === "--hours") options.budget.maxHours = value;
+        if (arg === "--iteration-minutes") {
+          options.budget.maxIterationMinutes = value;
+        }
+        break;
+      }
+      case "--backend": {
+        const value = args[++i];
+        if (value !== "claude" && value !== "codex") {
+          return "--backend must be claude or codex";
+        }
+        options.backend = value;
+        break;
+      }
+      default:
+        if (arg.startsWith("--")) return `Unknown option: ${arg}`;
+        options.projectPath = arg;
+    }
+  }
+
+  return options;
+}
+
+function formatControl(command: ControlCommand): string {
+  switch (command.type) {
+    case "hint":
+      return `  ⇢ hint from ctl: ${command.hint}`;
+    case "stop":
+      return "  ⇢ stop from ctl";
+    case "add_iterations":
+      return `  ⇢ ${command.count > 0 ? "+" : ""}${command.count} iterations from ctl`;
+    case "set_max_iterations":
+      return `  ⇢ max iterations set to ${command.maxIterations} from ctl`;
+  }
+}
+
+function formatStats(stats: IterationStats): string {
+  const tokens =
+    stats.inputTokens +
+    stats.outputTokens +
+    stats.cacheReadTokens +
+    stats.cacheCreationTokens;
+  return `  iteration ${stats.iteration}: $${stats.costUsd.toFixed(2)} · ${tokens} tokens · ${Math.round(stats.durationMs / 1000)}s`;
+}
+
+/**
+ * Human-readable line for a stream event, or null to skip it
+ */
+function formatEvent(event: StreamEvent): string | null {
+  switch (event.type) {
+    case "iteration_marker":
+      return `\n${event.content}`;
+    case "text":
+      return event.content.trim() || null;
+    case "tool_call":
+      return `  → ${event.toolName ?? "tool"} ${event.content ?? ""}`.trimEnd();
+    case "tool_result":
+      return event.isError ? "  ✗ failed" : null;
+    case "error":
+      return `error: ${event.content}`;
+  }
+}
+
+/**
+ * Run the loop to the end and return the process exit code
+ */
+export async function runHeadless(options: RunOptions): Promise<number> {
+  const { projectPath, json } = options;
+  const print = (line: unknown) => {
+    console.log(json ? JSON.stringify(line) : line);
+  };
+
+  if (!(await ensureInitialized(projectPath))) {
+    console.error(`Could not initialize ml-ralph in ${projectPath}`);
+    return RUN_EXIT_CODES.usage;
+  }
+  if (!(await Bun.file(`${projectPath}/.ml-ralph/prd.json`).exists())) {
+    console.error("No PRD yet. Create one in the TUI (ml-ralph) first.");
+    return RUN_EXIT_CODES.usage;
+  }
+
+  const daemon = await connectDaemon(projectPath);
+  if (daemon) {
+    const running = (await daemon.getStatus()).running;
+    daemon.close();
+    if (running) {
+      console.error("The ml-ralph daemon is already running the agent here.");
+      return RUN_EXIT_CODES.usage;
+    }
+  }
+
+  const config = await new JsonFileStore(projectPath).readConfig();
+  const orchestrator = createOrchestrator({
+    projectPath,
+    autoAdvance: config?.agent.autoAdvance ?? true,
+    maxIterations: options.iterations,
+    budget: { ...config?.agent, ...options.budget },
+    backend: options.backend ?? config?.agent.backend,
+  });
+
+  let outcome: CompleteReason | "paused" | "stopped" | "interrupted" | null =
+    null;
+  let detail: string | undefined;
+
+  orchestrator.onOutput((event) => {
+    if (json) {
+      print(event);
+      return;
+    }
+    const line = formatEvent(event);
+    if (line === null) return;
+    if (event.type === "error") console.error(line);
+    else print(line);
+  });
+  orchestrator.onIterationStats((stats) => {
+    print(json ? { type: "iteration_stats", ...stats } : formatStats(stats));
+  });
+  orchestrator.onComplete((reason, reasonDetail) => {
+    outcome = reason;
+    detail = reasonDetail;
+  });
+  // Nobody can press resume here, so stop and let --resume pick it up
+  orchestrator.onPauseChange((paused, reason) => {
+    if (!paused) return;
+    outcome = "paused";
+    detail = reason ?? undefined;
+    void orchestrator.stop();
+  });
+
+  const interrupt = () => {
+    outcome = "interrupted";
+    void orchestrator.stop();
+  };
+  process.on("SIGINT", interrupt);
+  process.on("SIGTERM", interrupt);
+  // `ml-ralph ctl` reaches us through .ml-ralph/inbox/
+  const stopWatchingInbox = watchInbox(projectPath, async (command) => {
+    print(json ? { type: "control", command } : formatControl(command));
+    if (command.type === "stop") outcome = "stopped";
+    await applyControlCommand(orchestrator, command);
+  });
+
+  try {
+    if (options.resume) {
+      await orchestrator.resume();
+    } else {
+      await orchestrator.start();
+    }
+  } finally {
+    stopWatchingInbox();
+    process.off("SIGINT", interrupt);
+    process.off("SIGTERM", interrupt);
+  }
+
+  const reason: keyof typeof RUN_EXIT_CODES = outcome ?? "error";
+  const code = RUN_EXIT_CODES[reason];
+  if (json) {
+    print({ type: "exit", reason, detail: detail ?? null, code });
+  } else {
+    print(
+      `\nFinished: ${reason.replace("_", " ")}${detail ? ` (${detail})` : ""}`,
+    );
+  }
+  return code;
+}
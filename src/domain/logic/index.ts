@@ -16,3 +16,4 @@ export {
   getCurrentStory,
   selectNextStory,
 } from "./story-selector.ts";
+export { selectParallelTasks } from "./task-selector.ts";
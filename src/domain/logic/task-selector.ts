@@ -0,0 +1,25 @@
+/**
+ * Task selection logic - pure functions for picking kanban tasks to run in parallel
+ */
+
+import type { Kanban, KanbanTask } from "../types/index.ts";
+
+/**
+ * Select up to `count` tasks from up_next that can run side by side.
+ * A task whose depends_on names a task that isn't completed yet is skipped,
+ * so no selected task waits on another one.
+ */
+export function selectParallelTasks(
+  kanban: Kanban,
+  count: number,
+): KanbanTask[] {
+  const completed = new Set(kanban.completed.map((task) => task.id));
+  const isReady = (task: KanbanTask) =>
+    !task.depends_on ||
+    task.depends_on
+      .split(/[\s,]+/)
+      .filter(Boolean)
+      .every((id) => completed.has(id));
+
+  return kanban.up_next.filter(isReady).slice(0, Math.max(0, count));
+}
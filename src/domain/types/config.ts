@@ -2,16 +2,28 @@
  * Project configuration types
  */
 
-import type { PackageManager } from "./enums.ts";
+import type { AgentBackendName, PackageManager } from "./enums.ts";
 
 export interface WandBConfig {
   project: string;
   entity?: string; // Team/user name
+  baseUrl?: string; // API URL for self-hosted W&B servers
 }
 
 export interface AgentConfig {
   autoAdvance: boolean; // Auto-start next story (default: true)
+  backend?: AgentBackendName; // CLI that runs each iteration (default: "claude")
   maxIterationsPerStory?: number; // Safety limit
+  maxCostUsd?: number; // Stop a run once it has spent this much
+  maxHours?: number; // Stop a run this many hours after it started
+  maxIterationMinutes?: number; // Kill an iteration that runs longer than this
+}
+
+export interface JobsConfig {
+  autoStop?: boolean; // SIGTERM jobs whose loss goes NaN or diverges (default: false)
+  maxConcurrent?: number; // Jobs running at once before queued ones wait (default: 1)
+  cpus?: number; // Cores running jobs may reserve (default: all of them)
+  memoryGb?: number; // Memory running jobs may reserve (default: all of it)
 }
 
 export interface RuntimeConfig {
@@ -30,6 +42,9 @@ export interface ProjectConfig {
   // Agent behavior
   agent: AgentConfig;
 
+  // Training jobs
+  jobs?: JobsConfig;
+
   // Tooling
   runtime: RuntimeConfig;
 }
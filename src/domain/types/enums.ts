@@ -45,6 +45,13 @@ export type ResearchType =
 // Job status
 export type JobStatus = "running" | "completed" | "failed" | "stopped"; // Manually stopped
 
+// Training problems the job health monitor flags
+export type JobHealthIssueKind =
+  | "nan" // Loss became NaN or Inf
+  | "divergence" // Loss exploded past its best value
+  | "overfitting" // Validation loss rising while train loss falls
+  | "plateau"; // Loss stopped improving
+
 // Progress decision
 export type ProgressDecision = "keep" | "revert" | "investigate";
 
@@ -63,6 +70,9 @@ export type ChatPurpose = "prd_creation" | "prd_refinement";
 // Package managers
 export type PackageManager = "uv" | "pip" | "poetry" | "conda";
 
+// Coding agent CLI that runs each loop iteration
+export type AgentBackendName = "claude" | "codex";
+
 // Agent status
 export type AgentStatus = "idle" | "running" | "paused";
 
@@ -70,4 +80,4 @@ export type AgentStatus = "idle" | "running" | "paused";
 export type AppMode = "planning" | "monitor";
 
 // Tab selection in planning mode
-export type PlanningTab = "prd" | "hypotheses" | "learnings" | "research" | "stories" | "kanban" | "experiments";
+export type PlanningTab = "prd" | "hypotheses" | "learnings" | "research" | "stories" | "kanban" | "experiments" | "verification" | "reasoning" | "costs" | "changes" | "jobs";
@@ -8,6 +8,7 @@ export { createChatMessage, createChatSession } from "./chat.ts";
 // Config
 export type {
   AgentConfig,
+  JobsConfig,
   ProjectConfig,
   RuntimeConfig,
   WandBConfig,
@@ -16,8 +17,21 @@ export { createDefaultConfig } from "./config.ts";
 // Enums
 export * from "./enums.ts";
 // Jobs
-export type { JobMetrics, TrainingJob } from "./job.ts";
+export type {
+  JobHealthIssue,
+  JobMetrics,
+  QueuedJob,
+  TrainingJob,
+} from "./job.ts";
 export { createTrainingJob } from "./job.ts";
+// Kanban
+export type {
+  AbandonedTask,
+  CompletedTask,
+  Kanban,
+  KanbanTask,
+} from "./kanban.ts";
+export { createEmptyKanban } from "./kanban.ts";
 // Learnings
 export type { Learning, LearningSource } from "./learning.ts";
 export { createLearning } from "./learning.ts";
@@ -42,6 +56,3 @@ export { createProgressEntry } from "./progress.ts";
 // Research
 export type { CodeSnippet, ResearchItem } from "./research.ts";
 export { createResearchItem } from "./research.ts";
-// Kanban
-export type { Kanban, KanbanTask, CompletedTask, AbandonedTask } from "./kanban.ts";
-export { createEmptyKanban } from "./kanban.ts";
@@ -2,7 +2,7 @@
  * Training job types - long-running training processes
  */
 
-import type { JobStatus } from "./enums.ts";
+import type { JobHealthIssueKind, JobStatus } from "./enums.ts";
 
 export interface JobMetrics {
   epoch?: number;
@@ -10,6 +10,14 @@ export interface JobMetrics {
   [key: string]: number | undefined;
 }
 
+export interface JobHealthIssue {
+  kind: JobHealthIssueKind;
+  metric: string; // Loss series it was seen in, e.g. "val_loss"
+  message: string; // "val_loss rose for 3 evaluations while train_loss fell"
+  critical: boolean; // NaN and divergence; these can stop the job
+  detectedAt: string; // ISO timestamp
+}
+
 export interface TrainingJob {
   id: string; // "job_20260126_103000"
   storyId: string;
@@ -19,6 +27,7 @@ export interface TrainingJob {
   pid: number;
   command: string; // What was executed
   logPath: string; // Path to log file
+  exitFile?: string; // Where the supervisor records the exit code
 
   // Tracking
   wandbRunId?: string;
@@ -33,11 +42,39 @@ export interface TrainingJob {
   exitCode?: number;
   error?: string;
 
+  // Resources reserved through the job queue
+  priority?: number;
+  cpus?: number;
+  memoryGb?: number;
+
+  // Training problems flagged so far, each logged once
+  healthIssues?: JobHealthIssue[];
+
   // Cached metrics (from W&B)
   latestMetrics?: JobMetrics;
   lastMetricsUpdate?: string; // ISO timestamp
 }
 
+/**
+ * A training run waiting in the job queue for a free slot
+ */
+export interface QueuedJob {
+  id: string; // Kept when it starts
+  storyId: string;
+  experimentId: string;
+  command: string[]; // Program and arguments
+  cwd: string;
+  logPath: string;
+  exitFile: string;
+  wandbRunId?: string;
+
+  // Scheduling
+  priority: number; // Higher goes ahead of lower when submitted (default: 0)
+  cpus: number; // Cores reserved while it runs (default: 1)
+  memoryGb: number; // Memory reserved while it runs (default: 0)
+  submittedAt: string; // ISO timestamp
+}
+
 /**
  * Create a new training job
  */
@@ -9,6 +9,97 @@ import { App } from "./ui/app.tsx";
 // Get project path from command line or use current directory
 const projectPath = process.argv[2] ?? process.cwd();
 
+// Check for headless run command (no tmux, no TUI)
+if (process.argv[2] === "run") {
+  const args = process.argv.slice(3);
+  const { parseRunArgs, runHeadless, RUN_USAGE, RUN_EXIT_CODES } = await import(
+    "./cli/run.ts"
+  );
+
+  if (args.includes("--help") || args.includes("-h")) {
+    console.log(RUN_USAGE);
+    process.exit(0);
+  }
+
+  const options = parseRunArgs(args);
+  if (typeof options === "string") {
+    console.error(`${options}\n\n${RUN_USAGE}`);
+    process.exit(RUN_EXIT_CODES.usage);
+  }
+
+  try {
+    process.exit(await runHeadless(options));
+  } catch (error) {
+    console.error("Run failed:", error);
+    process.exit(RUN_EXIT_CODES.error);
+  }
+}
+
+// Check for ctl command (talks to a running agent)
+if (process.argv[2] === "ctl") {
+  const args = process.argv.slice(3);
+  const { parseCtlArgs, runCtl, CTL_USAGE } = await import("./cli/ctl.ts");
+
+  if (args.includes("--help") || args.includes("-h")) {
+    console.log(CTL_USAGE);
+    process.exit(0);
+  }
+
+  const options = parseCtlArgs(args);
+  if (typeof options === "string") {
+    console.error(`${options}\n\n${CTL_USAGE}`);
+    process.exit(2);
+  }
+  process.exit(await runCtl(options));
+}
+
+// Check for report command (markdown and HTML for stakeholders)
+if (process.argv[2] === "report") {
+  const args = process.argv.slice(3);
+  const { parseReportArgs, runReport, REPORT_USAGE } = await import(
+    "./cli/report.ts"
+  );
+
+  if (args.includes("--help") || args.includes("-h")) {
+    console.log(REPORT_USAGE);
+    process.exit(0);
+  }
+
+  const options = parseReportArgs(args);
+  if (typeof options === "string") {
+    console.error(`${options}\n\n${REPORT_USAGE}`);
+    process.exit(2);
+  }
+  process.exit(await runReport(options));
+}
+
+// Check for job command (training runs started by the agent)
+if (process.argv[2] === "job") {
+  const args = process.argv.slice(3);
+  const { parseJobArgs, runJob, JOB_USAGE } = await import("./cli/job.ts");
+
+  // Flags after -- belong to the training command
+  const ownArgs = args.includes("--") ? args.slice(0, args.indexOf("--")) : args;
+  if (ownArgs.includes("--help") || ownArgs.includes("-h")) {
+    console.log(JOB_USAGE);
+    process.exit(0);
+  }
+
+  const options = parseJobArgs(args);
+  if (typeof options === "string") {
+    console.error(`${options}\n\n${JOB_USAGE}`);
+    process.exit(2);
+  }
+  process.exit(await runJob(options));
+}
+
+// Check for daemon command (started in the background by the TUI)
+if (process.argv[2] === "daemon") {
+  const targetPath = process.argv[3] ?? process.cwd();
+  const { runDaemon } = await import("./application/daemon/index.ts");
+  process.exit(await runDaemon(targetPath));
+}
+
 // Check for help flag
 if (process.argv.includes("--help") || process.argv.includes("-h")) {
   console.log(`
@@ -17,6 +108,13 @@ ml-ralph - Autonomous ML engineering agent with TUI
 Usage:
   ml-ralph [project-path]    Launch TUI for the specified project (default: current directory)
   ml-ralph init [name]       Initialize a new ml-ralph project
+  ml-ralph run [path]        Run the agent loop headless, without tmux (run --help for options)
+  ml-ralph ctl <command>     Hint, stop, check or extend a running agent (ctl --help for commands)
+  ml-ralph report [path]     Write a markdown and HTML project report (report --help for options)
+  ml-ralph job start ...     Start a training run as a tracked job (job --help for options)
+  ml-ralph job submit ...    Queue a training run to start when the job limits allow
+  ml-ralph daemon [path]     Run the agent daemon in the foreground (the TUI starts one automatically)
+  ml-ralph lint-log [path]   Check .ml-ralph/log.jsonl events against the schema (--json for JSON output)
   ml-ralph --help            Show this help message
 
 Keyboard shortcuts (in TUI):
@@ -25,6 +123,7 @@ Keyboard shortcuts (in TUI):
   f           Focus terminal pane (Planning mode)
   Esc         Exit / Dismiss errors
   s           Start/Stop the agent
+  g           Write the project report to .ml-ralph/reports/
   t           Stop active training job (Monitor mode)
   w           Open W&B dashboard (Monitor mode)
   q           Quit
@@ -59,6 +158,38 @@ if (process.argv[2] === "init") {
   process.exit(0);
 }
 
+// Check for lint-log command
+if (process.argv[2] === "lint-log") {
+  const args = process.argv.slice(3);
+  const json = args.includes("--json");
+  const targetPath = args.find((arg) => !arg.startsWith("--")) ?? process.cwd();
+  const { lintLogContent } = await import("./infrastructure/ralph/index.ts");
+
+  const logPath = `${targetPath}/.ml-ralph/log.jsonl`;
+  const file = Bun.file(logPath);
+  if (!(await file.exists())) {
+    console.error(`No log found at ${logPath}`);
+    process.exit(2);
+  }
+
+  const issues = lintLogContent(await file.text());
+  if (json) {
+    console.log(JSON.stringify(issues, null, 2));
+  } else {
+    for (const issue of issues) {
+      const messages = issue.errors.map((e) => e.message).join("; ");
+      console.log(`${logPath}:${issue.line}: ${issue.type ?? "?"}: ${messages}`);
+    }
+    console.log(
+      issues.length === 0
+        ? "log.jsonl: all events valid"
+        : `\n${issues.length} malformed event${issues.length === 1 ? "" : "s"}`
+    );
+  }
+
+  process.exit(issues.length === 0 ? 0 : 1);
+}
+
 // Check if tmux is available
 async function isTmuxAvailable(): Promise<boolean> {
   try {
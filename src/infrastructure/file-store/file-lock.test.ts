@@ -0,0 +1,43 @@
+/**
+ * Tests for advisory file locks
+ */
+
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdtemp, readdir, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { withFileLock } from "./file-lock.ts";
+
+let dir = "";
+
+beforeEach(async () => {
+  dir = await mkdtemp(join(tmpdir(), "ml-ralph-lock-"));
+});
+
+afterEach(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+describe("withFileLock", () => {
+  test("waiters on a stale lock take it one at a time", async () => {
+    const lockPath = join(dir, "log.jsonl.lock");
+    // Left behind by a process that no longer exists
+    await writeFile(lockPath, "999999999\n");
+
+    let holders = 0;
+    let most = 0;
+    await Promise.all(
+      Array.from({ length: 5 }, () =>
+        withFileLock(lockPath, async () => {
+          holders++;
+          most = Math.max(most, holders);
+          await Bun.sleep(20);
+          holders--;
+        }),
+      ),
+    );
+
+    expect(most).toBe(1);
+    expect(await readdir(dir)).toEqual([]);
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * Advisory file locks - a lock file created exclusively and holding the
+ * owner's pid, so writers in different processes can take turns
+ */
+
+import { link, open, readFile, rename, stat, unlink } from "node:fs/promises";
+
+export interface FileLockOptions {
+  /** Give up acquiring the lock after this many ms (default: 5000) */
+  timeoutMs?: number;
+  /** Treat a lock older than this as abandoned (default: 30000) */
+  staleMs?: number;
+}
+
+/**
+ * Whether a process with this pid is still running
+ */
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM means it exists but belongs to someone else
+    return (error as NodeJS.ErrnoException).code === "EPERM";
+  }
+}
+
+/**
+ * Remove the lock if its owner died or it has been held too long. Another
+ * waiter may find the same lock stale, clear it and take the lock before we
+ * get to it, so the lock is moved aside rather than unlinked and put back
+ * if it turns out not to be the file judged stale.
+ */
+async function clearStaleLock(
+  lockPath: string,
+  staleMs: number,
+): Promise<void> {
+  let stale: { ino: number; mtimeMs: number };
+  try {
+    const [content, stats] = await Promise.all([
+      readFile(lockPath, "utf-8"),
+      stat(lockPath),
+    ]);
+    const pid = Number.parseInt(content.trim(), 10);
+    const ownerGone = Number.isFinite(pid) && pid > 0 && !isProcessAlive(pid);
+    if (!ownerGone && Date.now() - stats.mtimeMs <= staleMs) return;
+    stale = stats;
+  } catch {
+    // Lock vanished in between or is unreadable; just retry
+    return;
+  }
+
+  // Only one waiter can move a given lock file
+  const aside = `${lockPath}.${process.pid}.${Date.now()}.stale`;
+  try {
+    await rename(lockPath, aside);
+  } catch {
+    return;
+  }
+  const moved = await stat(aside).catch(() => null);
+  if (moved && (moved.ino !== stale.ino || moved.mtimeMs !== stale.mtimeMs)) {
+    // A live lock taken since; link fails if yet another one replaced it
+    await link(aside, lockPath).catch(() => undefined);
+  }
+  await unlink(aside).catch(() => undefined);
+}
+
+/**
+ * Run fn while holding the lock at lockPath
+ */
+export async function withFileLock<T>(
+  lockPath: string,
+  fn: () => Promise<T>,
+  options: FileLockOptions = {},
+): Promise<T> {
+  const { timeoutMs = 5000, staleMs = 30000 } = options;
+  const deadline = Date.now() + timeoutMs;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      const handle = await open(lockPath, "wx");
+      await handle.writeFile(`${process.pid}\n`);
+      await handle.close();
+      break;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "EEXIST") throw error;
+      if (Date.now() >= deadline) {
+        throw new Error(`Timed out waiting for ${lockPath}`);
+      }
+      await clearStaleLock(lockPath, staleMs);
+      await Bun.sleep(Math.min(20 * 2 ** attempt, 200));
+    }
+  }
+
+  try {
+    return await fn();
+  } finally {
+    await unlink(lockPath).catch(() => undefined);
+  }
+}
@@ -2,5 +2,7 @@
  * FileStore exports
  */
 
+export type { FileLockOptions } from "./file-lock.ts";
+export { withFileLock } from "./file-lock.ts";
 export { JsonFileStore } from "./json-file-store.ts";
 export type { FileStore } from "./types.ts";
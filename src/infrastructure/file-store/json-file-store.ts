@@ -9,6 +9,7 @@ import type {
   PRD,
   ProgressEntry,
   ProjectConfig,
+  QueuedJob,
   ResearchItem,
   TrainingJob,
 } from "../../domain/types/index.ts";
@@ -86,6 +87,18 @@ export class JsonFileStore implements FileStore {
     );
   }
 
+  async readJobQueue(): Promise<QueuedJob[]> {
+    const data = await this.readJsonFile<{ jobs: QueuedJob[] }>(
+      `${this.basePath}/runs/queue.json`,
+    );
+    return data?.jobs ?? [];
+  }
+
+  async writeJobQueue(jobs: QueuedJob[]): Promise<void> {
+    await this.ensureDir(`${this.basePath}/runs`);
+    await this.writeJsonFile(`${this.basePath}/runs/queue.json`, { jobs });
+  }
+
   // === Config ===
 
   async readConfig(): Promise<ProjectConfig | null> {
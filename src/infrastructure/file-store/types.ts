@@ -8,6 +8,7 @@ import type {
   PRD,
   ProgressEntry,
   ProjectConfig,
+  QueuedJob,
   ResearchItem,
   TrainingJob,
 } from "../../domain/types/index.ts";
@@ -34,6 +35,8 @@ export interface FileStore {
   writeActiveJobs(jobs: TrainingJob[]): Promise<void>;
   appendJobHistory(job: TrainingJob): Promise<void>;
   readJobHistory(): Promise<TrainingJob[]>;
+  readJobQueue(): Promise<QueuedJob[]>;
+  writeJobQueue(jobs: QueuedJob[]): Promise<void>;
 
   // Config
   readConfig(): Promise<ProjectConfig | null>;
@@ -0,0 +1,13 @@
+/**
+ * Git exports
+ */
+
+export type { FileChange, RevertResult } from "./types.ts";
+export {
+  changedFiles,
+  diffText,
+  isGitRepo,
+  revertChanges,
+  snapshotWorkTree,
+} from "./work-tree.ts";
+export { addWorktree, commitWorkTree, removeWorktree } from "./worktrees.ts";
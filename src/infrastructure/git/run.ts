@@ -0,0 +1,45 @@
+/**
+ * Run git commands - shared by the git helpers, not exported from the module
+ */
+
+// Commits ml-ralph makes need an identity even if the user has none
+export const IDENTITY = {
+  GIT_AUTHOR_NAME: "ml-ralph",
+  GIT_AUTHOR_EMAIL: "ml-ralph@localhost",
+  GIT_COMMITTER_NAME: "ml-ralph",
+  GIT_COMMITTER_EMAIL: "ml-ralph@localhost",
+};
+
+export interface GitResult {
+  code: number;
+  stdout: string;
+  stderr: string;
+}
+
+export async function git(
+  cwd: string,
+  args: string[],
+  options: { env?: Record<string, string>; stdin?: string } = {},
+): Promise<GitResult> {
+  try {
+    const proc = Bun.spawn(["git", ...args], {
+      cwd,
+      env: { ...process.env, ...options.env },
+      stdin: options.stdin === undefined ? "ignore" : "pipe",
+      stdout: "pipe",
+      stderr: "pipe",
+    });
+    if (options.stdin !== undefined && proc.stdin) {
+      proc.stdin.write(options.stdin);
+      proc.stdin.end();
+    }
+    const [stdout, stderr, code] = await Promise.all([
+      new Response(proc.stdout).text(),
+      new Response(proc.stderr).text(),
+      proc.exited,
+    ]);
+    return { code, stdout, stderr };
+  } catch (error) {
+    return { code: -1, stdout: "", stderr: String(error) };
+  }
+}
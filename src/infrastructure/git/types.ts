@@ -0,0 +1,13 @@
+/**
+ * Git types
+ */
+
+export interface FileChange {
+  path: string;
+  status: "added" | "modified" | "deleted";
+  /** Lines added and removed (null for binary files) */
+  additions: number | null;
+  deletions: number | null;
+}
+
+export type RevertResult = { ok: true } | { ok: false; error: string };
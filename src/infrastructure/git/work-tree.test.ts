@@ -0,0 +1,153 @@
+/**
+ * Tests for work tree snapshots, using a throwaway git repository
+ */
+
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdir, mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  changedFiles,
+  diffText,
+  isGitRepo,
+  revertChanges,
+  snapshotWorkTree,
+} from "./work-tree.ts";
+
+let repo: string;
+
+const TRAIN =
+  "lr = 0.1\nbatch = 32\nseed = 0\nwarmup = 100\ndropout = 0.2\nepochs = 10\n";
+
+async function git(...args: string[]) {
+  const proc = Bun.spawn(
+    ["git", "-c", "user.name=test", "-c", "user.email=test@test", ...args],
+    { cwd: repo, stdout: "pipe", stderr: "pipe" },
+  );
+  const out = await new Response(proc.stdout).text();
+  await proc.exited;
+  return out;
+}
+
+beforeEach(async () => {
+  repo = await mkdtemp(join(tmpdir(), "ml-ralph-git-"));
+  await git("init", "-q");
+  await Bun.write(join(repo, "train.py"), TRAIN);
+  await Bun.write(join(repo, "README.md"), "# demo\n");
+  await git("add", "-A");
+  await git("commit", "-q", "-m", "init");
+});
+
+afterEach(async () => {
+  await rm(repo, { recursive: true, force: true });
+});
+
+describe("snapshotWorkTree", () => {
+  test("records edits, new and deleted files without touching the index", async () => {
+    const before = await snapshotWorkTree(
+      repo,
+      "refs/ml-ralph/t/1/before",
+      "before",
+    );
+    expect(before).not.toBeNull();
+
+    await Bun.write(join(repo, "train.py"), TRAIN.replace("0.1", "0.01"));
+    await Bun.write(join(repo, "eval.py"), "print('eval')\n");
+    await rm(join(repo, "README.md"));
+    await mkdir(join(repo, ".ml-ralph"));
+    await Bun.write(join(repo, ".ml-ralph/log.jsonl"), "{}\n");
+
+    const after = await snapshotWorkTree(
+      repo,
+      "refs/ml-ralph/t/1/after",
+      "after",
+    );
+    expect(after).not.toBeNull();
+
+    const files = await changedFiles(repo, before!, after!);
+    expect(files).toEqual([
+      { path: "README.md", status: "deleted", additions: 0, deletions: 1 },
+      { path: "eval.py", status: "added", additions: 1, deletions: 0 },
+      { path: "train.py", status: "modified", additions: 1, deletions: 1 },
+    ]);
+    expect(await diffText(repo, before!, after!, "train.py")).toContain(
+      "+lr = 0.01",
+    );
+
+    // The user's own index and refs are left alone
+    expect(await git("status", "--porcelain")).toContain("?? eval.py");
+    expect((await git("rev-parse", "refs/ml-ralph/t/1/after")).trim()).toBe(
+      after!,
+    );
+  });
+
+  test("returns null outside a git repository", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "ml-ralph-nogit-"));
+    try {
+      expect(await isGitRepo(dir)).toBe(false);
+      expect(await snapshotWorkTree(dir, "refs/ml-ralph/x", "x")).toBeNull();
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("revertChanges", () => {
+  test("restores the files an iteration changed", async () => {
+    const before = (await snapshotWorkTree(
+      repo,
+      "refs/ml-ralph/t/1/before",
+      "b",
+    ))!;
+    await Bun.write(join(repo, "train.py"), TRAIN.replace("0.1", "0.01"));
+    await Bun.write(join(repo, "eval.py"), "print('eval')\n");
+    const after = (await snapshotWorkTree(
+      repo,
+      "refs/ml-ralph/t/1/after",
+      "a",
+    ))!;
+
+    // Later, unrelated edits survive the revert
+    await Bun.write(
+      join(repo, "train.py"),
+      TRAIN.replace("0.1", "0.01").replace("epochs = 10", "epochs = 20"),
+    );
+
+    const result = await revertChanges(repo, before, after, [
+      "train.py",
+      "eval.py",
+    ]);
+    expect(result).toEqual({ ok: true });
+    expect(await Bun.file(join(repo, "train.py")).text()).toBe(
+      TRAIN.replace("epochs = 10", "epochs = 20"),
+    );
+    expect(await Bun.file(join(repo, "eval.py")).exists()).toBe(false);
+  });
+
+  test("changes nothing when a file was since edited in a conflicting way", async () => {
+    const before = (await snapshotWorkTree(
+      repo,
+      "refs/ml-ralph/t/1/before",
+      "b",
+    ))!;
+    await Bun.write(join(repo, "train.py"), TRAIN.replace("0.1", "0.01"));
+    await Bun.write(join(repo, "eval.py"), "print('eval')\n");
+    const after = (await snapshotWorkTree(
+      repo,
+      "refs/ml-ralph/t/1/after",
+      "a",
+    ))!;
+
+    await Bun.write(join(repo, "train.py"), TRAIN.replace("0.1", "0.5"));
+
+    const result = await revertChanges(repo, before, after, [
+      "train.py",
+      "eval.py",
+    ]);
+    expect(result.ok).toBe(false);
+    expect(await Bun.file(join(repo, "train.py")).text()).toBe(
+      TRAIN.replace("0.1", "0.5"),
+    );
+    expect(await Bun.file(join(repo, "eval.py")).exists()).toBe(true);
+  });
+});
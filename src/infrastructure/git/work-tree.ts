@@ -0,0 +1,198 @@
+/**
+ * Work tree snapshots - record the project's files as git commits kept
+ * under private refs, without touching HEAD, the branch or the index
+ *
+ * A snapshot is built in a throwaway index: tracked files as they are on
+ * disk plus untracked files that aren't ignored. Large untracked files
+ * (datasets, checkpoints) are left out so snapshots stay cheap.
+ */
+
+import { stat, unlink } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { git, IDENTITY } from "./run.ts";
+import type { FileChange, RevertResult } from "./types.ts";
+
+/** Untracked files bigger than this are not snapshotted */
+const MAX_UNTRACKED_BYTES = 10 * 1024 * 1024;
+
+/** ml-ralph's own state changes every iteration; never snapshot it */
+const EXCLUDE = ":(exclude).ml-ralph";
+
+// Parallel workers snapshot from the same process, so each gets its own index
+let indexCount = 0;
+
+// Paths relative to (and limited to) the project directory
+const DIFF_ARGS = ["--no-renames", "--relative"];
+
+/**
+ * Check if the directory is inside a git work tree
+ */
+export async function isGitRepo(cwd: string): Promise<boolean> {
+  const result = await git(cwd, ["rev-parse", "--is-inside-work-tree"]);
+  return result.code === 0 && result.stdout.trim() === "true";
+}
+
+/**
+ * Snapshot the work tree as a commit stored at `ref`.
+ * Returns the commit sha, or null if cwd isn't a git repo or git failed.
+ */
+export async function snapshotWorkTree(
+  cwd: string,
+  ref: string,
+  message: string,
+): Promise<string | null> {
+  if (!(await isGitRepo(cwd))) return null;
+
+  const indexPath = `${tmpdir()}/ml-ralph-index-${process.pid}-${++indexCount}`;
+  const env = { ...IDENTITY, GIT_INDEX_FILE: indexPath };
+
+  try {
+    // Start from HEAD (if there is one) so unchanged files cost nothing
+    const head = await git(cwd, ["rev-parse", "--verify", "-q", "HEAD"]);
+    const hasHead = head.code === 0;
+    if (hasHead) {
+      const read = await git(cwd, ["read-tree", "HEAD"], { env });
+      if (read.code !== 0) return null;
+      await git(cwd, ["add", "-u", "--", ".", EXCLUDE], { env });
+    }
+
+    const untracked = await git(
+      cwd,
+      ["ls-files", "-z", "--others", "--exclude-standard", "--", ".", EXCLUDE],
+      { env },
+    );
+    const small: string[] = [];
+    for (const path of untracked.stdout.split("\0").filter(Boolean)) {
+      const info = await stat(`${cwd}/${path}`).catch(() => null);
+      if (info?.isFile() && info.size <= MAX_UNTRACKED_BYTES) small.push(path);
+    }
+    if (small.length > 0) {
+      await git(cwd, ["add", "--pathspec-from-file=-", "--pathspec-file-nul"], {
+        env,
+        stdin: small.join("\0"),
+      });
+    }
+
+    const tree = await git(cwd, ["write-tree"], { env });
+    if (tree.code !== 0) return null;
+
+    const commit = await git(
+      cwd,
+      [
+        "commit-tree",
+        tree.stdout.trim(),
+        ...(hasHead ? ["-p", head.stdout.trim()] : []),
+        "-m",
+        message,
+      ],
+      { env },
+    );
+    if (commit.code !== 0) return null;
+
+    const sha = commit.stdout.trim();
+    const update = await git(cwd, ["update-ref", ref, sha]);
+    return update.code === 0 ? sha : null;
+  } finally {
+    await unlink(indexPath).catch(() => {});
+  }
+}
+
+/**
+ * Files that differ between two snapshots
+ */
+export async function changedFiles(
+  cwd: string,
+  from: string,
+  to: string,
+): Promise<FileChange[]> {
+  const [status, numstat] = await Promise.all([
+    git(cwd, ["diff", ...DIFF_ARGS, "--name-status", "-z", from, to]),
+    git(cwd, ["diff", ...DIFF_ARGS, "--numstat", "-z", from, to]),
+  ]);
+  if (status.code !== 0) return [];
+
+  // numstat -z: "<added>\t<deleted>\t<path>\0" ("-" counts for binary files)
+  const counts = new Map<string, [number | null, number | null]>();
+  for (const entry of numstat.stdout.split("\0").filter(Boolean)) {
+    const [added, deleted, ...path] = entry.split("\t");
+    const toCount = (n?: string) =>
+      n === "-" || n === undefined ? null : Number(n);
+    counts.set(path.join("\t"), [toCount(added), toCount(deleted)]);
+  }
+
+  // name-status -z: "<letter>\0<path>\0" pairs
+  const fields = status.stdout.split("\0");
+  const changes: FileChange[] = [];
+  for (let i = 0; i + 1 < fields.length; i += 2) {
+    const letter = fields[i]!;
+    const path = fields[i + 1]!;
+    if (!letter) continue;
+    const [additions, deletions] = counts.get(path) ?? [null, null];
+    changes.push({
+      path,
+      status:
+        letter === "A" ? "added" : letter === "D" ? "deleted" : "modified",
+      additions,
+      deletions,
+    });
+  }
+  return changes;
+}
+
+/**
+ * Unified diff between two snapshots, optionally for one file
+ */
+export async function diffText(
+  cwd: string,
+  from: string,
+  to: string,
+  path?: string,
+): Promise<string> {
+  const result = await git(cwd, [
+    "diff",
+    ...DIFF_ARGS,
+    "--no-color",
+    from,
+    to,
+    ...(path ? ["--", path] : []),
+  ]);
+  return result.code === 0 ? result.stdout : "";
+}
+
+/**
+ * Undo the changes from `before` to `after` to the given files (relative to
+ * cwd, as changedFiles reports them) in the work tree. Files changed
+ * again since then must still apply cleanly; if any don't, nothing is
+ * touched.
+ */
+export async function revertChanges(
+  cwd: string,
+  before: string,
+  after: string,
+  paths: string[],
+): Promise<RevertResult> {
+  if (paths.length === 0) return { ok: true };
+
+  // The patch has repo-root paths, so apply it from the top
+  const top = await git(cwd, ["rev-parse", "--show-toplevel"]);
+  if (top.code !== 0) return { ok: false, error: top.stderr.trim() };
+
+  const diff = await git(cwd, [
+    "diff",
+    "--no-renames",
+    "--binary",
+    after,
+    before,
+    "--",
+    ...paths,
+  ]);
+  if (diff.code !== 0) return { ok: false, error: diff.stderr.trim() };
+  if (!diff.stdout) return { ok: true };
+
+  const apply = await git(top.stdout.trim(), ["apply", "--whitespace=nowarn"], {
+    stdin: diff.stdout,
+  });
+  return apply.code === 0
+    ? { ok: true }
+    : { ok: false, error: apply.stderr.trim() || "git apply failed" };
+}
@@ -0,0 +1,100 @@
+/**
+ * Tests for worker worktrees, using a throwaway git repository
+ */
+
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdir, mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { snapshotWorkTree } from "./work-tree.ts";
+import { addWorktree, commitWorkTree, removeWorktree } from "./worktrees.ts";
+
+let repo: string;
+
+async function git(...args: string[]) {
+  const proc = Bun.spawn(
+    ["git", "-c", "user.name=test", "-c", "user.email=test@test", ...args],
+    { cwd: repo, stdout: "pipe", stderr: "pipe" },
+  );
+  const out = await new Response(proc.stdout).text();
+  await proc.exited;
+  return out;
+}
+
+beforeEach(async () => {
+  repo = await mkdtemp(join(tmpdir(), "ml-ralph-worktree-"));
+  await git("init", "-q");
+  await mkdir(join(repo, "project"));
+  await Bun.write(join(repo, "project/train.py"), "lr = 0.1\n");
+  await git("add", "-A");
+  await git("commit", "-q", "-m", "init");
+});
+
+afterEach(async () => {
+  await rm(repo, { recursive: true, force: true });
+});
+
+describe("worker worktrees", () => {
+  test("check out a snapshot, commit the worker's changes to its branch and clean up", async () => {
+    const project = join(repo, "project");
+    // Uncommitted edits are part of what the worker starts from
+    await Bun.write(join(project, "train.py"), "lr = 0.01\n");
+    const base = (await snapshotWorkTree(project, "refs/ml-ralph/base", "b"))!;
+
+    const dir = join(repo, ".worktrees/w1");
+    const workerPath = await addWorktree(project, dir, "ml-ralph/w1", base);
+    expect(workerPath).toBe(join(dir, "project"));
+    expect(await Bun.file(join(workerPath!, "train.py")).text()).toBe(
+      "lr = 0.01\n",
+    );
+
+    await Bun.write(join(workerPath!, "eval.py"), "print('eval')\n");
+    await mkdir(join(workerPath!, ".ml-ralph"));
+    await Bun.write(join(workerPath!, ".ml-ralph/log.jsonl"), "{}\n");
+    const sha = await commitWorkTree(workerPath!, "worker w1");
+    expect(sha).not.toBeNull();
+
+    expect(await removeWorktree(project, dir)).toBe(true);
+    expect(await Bun.file(join(dir, "project/train.py")).exists()).toBe(false);
+
+    // The branch keeps the work, without ml-ralph's own state
+    const files = await git("ls-tree", "-r", "--name-only", "ml-ralph/w1");
+    expect(files.trim().split("\n")).toEqual([
+      "project/eval.py",
+      "project/train.py",
+    ]);
+  });
+
+  test("returns null when the branch already exists", async () => {
+    await git("branch", "taken");
+    const base = (await git("rev-parse", "HEAD")).trim();
+    expect(
+      await addWorktree(repo, join(repo, ".worktrees/w2"), "taken", base),
+    ).toBeNull();
+  });
+
+  test("commits when .ml-ralph is gitignored", async () => {
+    await Bun.write(join(repo, ".gitignore"), ".ml-ralph/\n");
+    await git("add", ".gitignore");
+    await git("commit", "-q", "-m", "ignore state");
+    const base = (await git("rev-parse", "HEAD")).trim();
+
+    const dir = join(repo, ".worktrees/w4");
+    const workerPath = (await addWorktree(repo, dir, "ml-ralph/w4", base))!;
+    await mkdir(join(workerPath, ".ml-ralph"));
+    await Bun.write(join(workerPath, ".ml-ralph/log.jsonl"), "{}\n");
+    await Bun.write(join(workerPath, "eval.py"), "print('eval')\n");
+
+    expect(await commitWorkTree(workerPath, "worker w4")).not.toBeNull();
+    expect(await git("show", "--name-only", "--format=", "ml-ralph/w4")).toBe(
+      "eval.py\n",
+    );
+  });
+
+  test("has nothing to commit when the worker changed nothing", async () => {
+    const base = (await git("rev-parse", "HEAD")).trim();
+    const dir = join(repo, ".worktrees/w3");
+    const workerPath = await addWorktree(repo, dir, "ml-ralph/w3", base);
+    expect(await commitWorkTree(workerPath!, "worker w3")).toBeNull();
+  });
+});
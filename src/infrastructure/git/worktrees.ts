@@ -0,0 +1,77 @@
+/**
+ * Git worktrees - extra checkouts of the repository on their own branches,
+ * so parallel workers can change files without stepping on each other
+ */
+
+import { git, IDENTITY } from "./run.ts";
+
+/** ml-ralph's own state is per checkout and never committed */
+const STATE_DIR = ".ml-ralph";
+
+/**
+ * Check out `base` into `dir` on a new branch. Returns the project
+ * directory inside the new worktree (cwd may be a subdirectory of the
+ * repository), or null if git failed, e.g. because the branch exists.
+ */
+export async function addWorktree(
+  cwd: string,
+  dir: string,
+  branch: string,
+  base: string,
+): Promise<string | null> {
+  const prefix = await git(cwd, ["rev-parse", "--show-prefix"]);
+  if (prefix.code !== 0) return null;
+
+  const add = await git(cwd, [
+    "worktree",
+    "add",
+    "-q",
+    "-b",
+    branch,
+    dir,
+    base,
+  ]);
+  if (add.code !== 0) return null;
+
+  const subdir = prefix.stdout.trim().replace(/\/$/, "");
+  return subdir ? `${dir}/${subdir}` : dir;
+}
+
+/**
+ * Delete a worktree's checkout. Its branch is kept.
+ */
+export async function removeWorktree(
+  cwd: string,
+  dir: string,
+): Promise<boolean> {
+  const result = await git(cwd, ["worktree", "remove", "--force", dir]);
+  return result.code === 0;
+}
+
+/**
+ * Commit everything changed under cwd to the checked-out branch.
+ * Returns the new commit, or null if there was nothing to commit.
+ */
+export async function commitWorkTree(
+  cwd: string,
+  message: string,
+): Promise<string | null> {
+  // An exclude pathspec fails when .ml-ralph is gitignored, so stage
+  // everything and then put ml-ralph's state back the way HEAD has it
+  const add = await git(cwd, ["add", "-A", "--", "."]);
+  if (add.code !== 0) return null;
+  await git(cwd, ["reset", "-q", "--", STATE_DIR]);
+
+  const commit = await git(
+    cwd,
+    ["commit", "-q", "--no-verify", "-m", message],
+    {
+      env: IDENTITY,
+    },
+  );
+
+  if (commit.code !== 0) return null;
+
+  const head = await git(cwd, ["rev-parse", "HEAD"]);
+  return head.code === 0 ? head.stdout.trim() : null;
+}
@@ -2,5 +2,60 @@
  * Process manager exports
  */
 
+export type {
+  HealthAlert,
+  HealthFinding,
+  HealthThresholds,
+  LossSeries,
+  WatchHealthOptions,
+} from "./job-health.ts";
+export {
+  checkTrainingHealth,
+  DEFAULT_HEALTH_THRESHOLDS,
+  historyLosses,
+  parseLogLosses,
+  readJobLosses,
+  watchJobHealth,
+} from "./job-health.ts";
+export type { LogLineKind, LogTail } from "./job-log.ts";
+export {
+  classifyLogLines,
+  errorStarts,
+  lastLogError,
+  readLogTail,
+  searchLogLines,
+  stripAnsi,
+} from "./job-log.ts";
 export { BunJobManager } from "./job-manager.ts";
+export type { DispatchOptions, QueueLimits } from "./job-queue.ts";
+export {
+  cancelQueuedJob,
+  dispatchQueue,
+  enqueueJob,
+  insertByPriority,
+  jobsToStart,
+  moveQueuedJob,
+  queueLimits,
+  updateJobQueue,
+} from "./job-queue.ts";
+export type {
+  MatchOptions,
+  ProcessInfo,
+  TrackOptions,
+} from "./job-registry.ts";
+export {
+  findTrainingProcesses,
+  listProcesses,
+  processCwd,
+  registerJob,
+  trackTrainingCommand,
+} from "./job-registry.ts";
+export {
+  readJobExit,
+  reconcileJobs,
+  settleJob,
+  updateActiveJobs,
+} from "./job-supervisor.ts";
+export type { TrainingCommand } from "./training-command.ts";
+export { parseTrainingCommand } from "./training-command.ts";
 export type { JobManager, LaunchOptions } from "./types.ts";
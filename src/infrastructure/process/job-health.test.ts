@@ -0,0 +1,196 @@
+/**
+ * Tests for spotting unhealthy losses in training jobs
+ */
+
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdir, mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { TrainingJob } from "../../domain/types/index.ts";
+import { JsonFileStore } from "../file-store/index.ts";
+import {
+  checkTrainingHealth,
+  historyLosses,
+  parseLogLosses,
+  watchJobHealth,
+} from "./job-health.ts";
+
+let projectPath = "";
+
+beforeEach(async () => {
+  projectPath = await mkdtemp(join(tmpdir(), "ml-ralph-health-"));
+  await mkdir(join(projectPath, ".ml-ralph", "runs"), { recursive: true });
+});
+
+afterEach(async () => {
+  await rm(projectPath, { recursive: true, force: true });
+});
+
+describe("parseLogLosses", () => {
+  test("reads name=value and name: value pairs", () => {
+    expect(
+      parseLogLosses([
+        "epoch 1 \x1b[32mtrain_loss=0.9\x1b[0m val_loss: 1.1 acc=0.5",
+        "epoch 2 train_loss=0.7 val_loss: 1.0",
+        "100%|####| train/loss=nan",
+      ]),
+    ).toEqual({
+      train_loss: [0.9, 0.7],
+      val_loss: [1.1, 1.0],
+      "train/loss": [Number.NaN],
+    });
+  });
+});
+
+describe("loss scale", () => {
+  test("isn't read as a loss", () => {
+    // A healthy fp16 run: the loss falls while the scaler keeps doubling
+    const lines = [1, 0.8, 0.6, 0.5].map(
+      (loss, i) => `step ${i} loss=${loss} loss_scale=${2 ** (i * 2)}`,
+    );
+    const series = parseLogLosses(lines);
+    expect(Object.keys(series)).toEqual(["loss"]);
+    expect(checkTrainingHealth(series)).toEqual([]);
+
+    expect(
+      historyLosses([
+        { _step: 0, loss: 1, loss_scale: 1, "train/loss_scaler": 1 },
+        { _step: 1, loss: 0.8, loss_scale: 16, "train/loss_scaler": 16 },
+      ]),
+    ).toEqual({ loss: [1, 0.8] });
+  });
+});
+
+describe("historyLosses", () => {
+  test("orders by step and keeps NaN", () => {
+    expect(
+      historyLosses([
+        { _step: 1, loss: Number.NaN },
+        { _step: 0, loss: 0.5, acc: 0.9 },
+      ]),
+    ).toEqual({ loss: [0.5, Number.NaN] });
+  });
+});
+
+describe("checkTrainingHealth", () => {
+  test("flags NaN and Inf losses", () => {
+    expect(checkTrainingHealth({ loss: [1, 0.8, Number.NaN] })).toMatchObject([
+      { kind: "nan", metric: "loss", critical: true },
+    ]);
+  });
+
+  test("flags a loss that exploded past its best", () => {
+    expect(checkTrainingHealth({ loss: [2, 1, 0.5, 6] })).toMatchObject([
+      {
+        kind: "divergence",
+        critical: true,
+        message: "loss rose to 6, 12x its best (0.5)",
+      },
+    ]);
+    // A loss that starts high and comes down hasn't diverged
+    expect(checkTrainingHealth({ loss: [10, 2, 1, 0.5] })).toEqual([]);
+  });
+
+  test("flags validation loss rising while train loss falls", () => {
+    expect(
+      checkTrainingHealth({
+        train_loss: [1, 0.8, 0.6, 0.5, 0.4, 0.3],
+        val_loss: [1.1, 0.9, 0.95, 1.0, 1.1],
+      }),
+    ).toMatchObject([
+      {
+        kind: "overfitting",
+        metric: "val_loss",
+        critical: false,
+        message:
+          "val_loss rose for 3 evaluations (0.9 → 1.1) while train_loss fell",
+      },
+    ]);
+  });
+
+  test("flags a plateau", () => {
+    const flat = [1, 0.5, ...Array(10).fill(0.5)];
+    expect(checkTrainingHealth({ loss: flat })).toMatchObject([
+      { kind: "plateau", metric: "loss" },
+    ]);
+    const improving = Array.from({ length: 12 }, (_, i) => 1 / (i + 1));
+    expect(checkTrainingHealth({ loss: improving })).toEqual([]);
+  });
+});
+
+describe("watchJobHealth", () => {
+  function job(overrides: Partial<TrainingJob> = {}): TrainingJob {
+    return {
+      id: "job_1",
+      storyId: "T-001",
+      experimentId: "baseline",
+      pid: 4242,
+      command: "python train.py",
+      logPath: join(projectPath, "train.log"),
+      startedAt: "2026-01-01T10:00:00.000Z",
+      status: "running",
+      ...overrides,
+    };
+  }
+
+  test("records, logs and stops once per issue", async () => {
+    const store = new JsonFileStore(projectPath);
+    await store.writeActiveJobs([job()]);
+    await writeFile(job().logPath, "loss=1.0\nloss=0.8\nloss=nan\n");
+
+    const stopped: number[] = [];
+    const manager = {
+      stop: async (pid: number) => {
+        stopped.push(pid);
+        return true;
+      },
+    };
+
+    const alerts = await watchJobHealth(projectPath, manager, {
+      autoStop: true,
+    });
+    expect(alerts).toHaveLength(1);
+    expect(alerts[0]?.stopped).toBe(true);
+    expect(stopped).toEqual([4242]);
+
+    const [saved] = await store.readActiveJobs();
+    expect(saved).toMatchObject({
+      status: "stopped",
+      error: "Stopped by health check: loss is NaN after 3 points",
+      healthIssues: [{ kind: "nan", metric: "loss" }],
+    });
+
+    const events = (
+      await readFile(join(projectPath, ".ml-ralph", "log.jsonl"), "utf-8")
+    )
+      .trim()
+      .split("\n")
+      .map((line) => JSON.parse(line));
+    expect(events).toMatchObject([
+      {
+        type: "training_alert",
+        job_id: "job_1",
+        issue: "nan",
+        metric: "loss",
+        action: "stopped",
+      },
+    ]);
+
+    // Stopped jobs aren't checked again
+    expect(await watchJobHealth(projectPath, manager)).toEqual([]);
+  });
+
+  test("only flags without autoStop", async () => {
+    const store = new JsonFileStore(projectPath);
+    await store.writeActiveJobs([job()]);
+    await writeFile(job().logPath, "loss=1.0\nloss=0.8\nloss=inf\n");
+
+    const manager = { stop: async () => true };
+    const [alert] = await watchJobHealth(projectPath, manager);
+    expect(alert?.stopped).toBe(false);
+    expect((await store.readActiveJobs())[0]?.status).toBe("running");
+
+    // Already recorded
+    expect(await watchJobHealth(projectPath, manager)).toEqual([]);
+  });
+});
@@ -0,0 +1,308 @@
+/**
+ * Job health - watches the losses of running training jobs for NaNs,
+ * divergence, overfitting and plateaus. Losses come from the job's local
+ * wandb history, or from `loss=0.42`-style lines in its log.
+ */
+
+import type { JobHealthIssue, TrainingJob } from "../../domain/types/index.ts";
+import { JsonFileStore } from "../file-store/index.ts";
+import { appendEvent } from "../ralph/log-writer.ts";
+import { findLocalRun, type WandBHistoryRow } from "../wandb/index.ts";
+import { readLogTail, stripAnsi } from "./job-log.ts";
+import { updateActiveJobs } from "./job-supervisor.ts";
+import type { JobManager } from "./types.ts";
+
+/** Loss values by metric name, in step order */
+export type LossSeries = Record<string, number[]>;
+
+export type HealthFinding = Omit<JobHealthIssue, "detectedAt">;
+
+export interface HealthThresholds {
+  /** A loss this many times its best value has diverged */
+  divergenceFactor: number;
+  /** Evaluations in a row validation loss has to rise for */
+  overfitWindow: number;
+  /** Points without improvement before a loss has plateaued */
+  plateauPatience: number;
+  /** Relative improvement that counts as progress */
+  minImprovement: number;
+}
+
+export const DEFAULT_HEALTH_THRESHOLDS: HealthThresholds = {
+  divergenceFactor: 3,
+  overfitWindow: 3,
+  plateauPatience: 10,
+  minImprovement: 0.001,
+};
+
+export interface HealthAlert {
+  /** The job with the new issues recorded */
+  job: TrainingJob;
+  /** Issues found this time */
+  issues: JobHealthIssue[];
+  /** Whether the job was stopped because of them */
+  stopped: boolean;
+}
+
+export interface WatchHealthOptions {
+  /** SIGTERM jobs with a critical issue (NaN or divergence) */
+  autoStop?: boolean;
+  thresholds?: HealthThresholds;
+}
+
+// `loss=0.42`, `val_loss: nan`, `train/loss=1.2e-3`
+const LOSS_VALUE =
+  /((?:[A-Za-z][\w./-]*)?loss[\w./-]*)\s*[=:]\s*([-+]?(?:nan|inf(?:inity)?|\d+(?:\.\d*)?(?:e[-+]?\d+)?|\.\d+(?:e[-+]?\d+)?))/gi;
+
+// fp16/DeepSpeed dynamic loss scaling (`loss_scale`, `loss_scaler`) isn't a
+// loss; it doubles while training is healthy
+const SCALE_KEY = /scal(e|er|ing)/i;
+
+function isLossKey(key: string): boolean {
+  return /loss/i.test(key) && !SCALE_KEY.test(key);
+}
+
+const VALIDATION_KEY = /(^|[^a-z])(val|valid|validation|eval|test)/i;
+
+function parseValue(text: string): number {
+  const lower = text.toLowerCase();
+  if (lower.includes("nan")) return Number.NaN;
+  if (lower.includes("inf")) {
+    return lower.startsWith("-")
+      ? Number.NEGATIVE_INFINITY
+      : Number.POSITIVE_INFINITY;
+  }
+  return Number(text);
+}
+
+function format(value: number): string {
+  return Number.isFinite(value)
+    ? Number(value.toPrecision(4)).toString()
+    : String(value);
+}
+
+/**
+ * Losses printed in log lines, in the order they were printed
+ */
+export function parseLogLosses(lines: string[]): LossSeries {
+  const series: LossSeries = {};
+  for (const line of lines) {
+    for (const [, key, value] of stripAnsi(line).matchAll(LOSS_VALUE)) {
+      if (!key || !value || !isLossKey(key)) continue;
+      series[key] ??= [];
+      series[key].push(parseValue(value));
+    }
+  }
+  return series;
+}
+
+/**
+ * Losses in wandb history rows, NaN and Inf included
+ */
+export function historyLosses(history: WandBHistoryRow[]): LossSeries {
+  const rows = history
+    .map((row, index) => ({
+      row,
+      step: typeof row._step === "number" ? row._step : index,
+    }))
+    .sort((a, b) => a.step - b.step);
+
+  const series: LossSeries = {};
+  for (const { row } of rows) {
+    for (const [key, value] of Object.entries(row)) {
+      if (key.startsWith("_") || !isLossKey(key)) continue;
+      if (typeof value !== "number") continue;
+      series[key] ??= [];
+      series[key].push(value);
+    }
+  }
+  return series;
+}
+
+/**
+ * Whether validation loss rose for the last `window` evaluations while the
+ * training loss fell over the same part of the run. The two are logged at
+ * different rates, so they're lined up by how far into the series they are.
+ */
+function findOverfitting(
+  series: LossSeries,
+  window: number,
+): HealthFinding | null {
+  const keys = Object.keys(series);
+  const valKey = keys.find((k) => VALIDATION_KEY.test(k));
+  const trainKey =
+    keys.find((k) => /train/i.test(k)) ??
+    keys.find((k) => !VALIDATION_KEY.test(k));
+  if (!valKey || !trainKey) return null;
+
+  const val = series[valKey]!.filter(Number.isFinite);
+  const train = series[trainKey]!.filter(Number.isFinite);
+  if (val.length < window + 1 || train.length < 2) return null;
+
+  const recent = val.slice(-(window + 1));
+  const rising = recent.every((v, i) => i === 0 || v > recent[i - 1]!);
+  const start = Math.floor(
+    (train.length * (val.length - window - 1)) / val.length,
+  );
+  const trainFell = train[train.length - 1]! < train[start]!;
+  if (!rising || !trainFell) return null;
+
+  return {
+    kind: "overfitting",
+    metric: valKey,
+    message: `${valKey} rose for ${window} evaluations (${format(recent[0]!)} → ${format(recent[window]!)}) while ${trainKey} fell`,
+    critical: false,
+  };
+}
+
+/**
+ * What's wrong with a job's losses, judged from the whole series
+ */
+export function checkTrainingHealth(
+  series: LossSeries,
+  thresholds: HealthThresholds = DEFAULT_HEALTH_THRESHOLDS,
+): HealthFinding[] {
+  const findings: HealthFinding[] = [];
+
+  for (const [metric, values] of Object.entries(series)) {
+    const last = values[values.length - 1];
+    if (last === undefined) continue;
+    if (!Number.isFinite(last)) {
+      findings.push({
+        kind: "nan",
+        metric,
+        message: `${metric} is ${last} after ${values.length} points`,
+        critical: true,
+      });
+      continue;
+    }
+
+    const finite = values.filter(Number.isFinite);
+    const best = Math.min(...finite);
+    if (
+      finite.length >= 3 &&
+      best > 0 &&
+      last > best * thresholds.divergenceFactor &&
+      last > finite[0]!
+    ) {
+      findings.push({
+        kind: "divergence",
+        metric,
+        message: `${metric} rose to ${format(last)}, ${format(last / best)}x its best (${format(best)})`,
+        critical: true,
+      });
+      continue;
+    }
+
+    const patience = thresholds.plateauPatience;
+    if (finite.length > patience) {
+      const before = Math.min(...finite.slice(0, -patience));
+      const recent = Math.min(...finite.slice(-patience));
+      if (before - recent <= Math.abs(before) * thresholds.minImprovement) {
+        findings.push({
+          kind: "plateau",
+          metric,
+          message: `${metric} hasn't improved on ${format(before)} in ${patience} points`,
+          critical: false,
+        });
+      }
+    }
+  }
+
+  const overfitting = findOverfitting(series, thresholds.overfitWindow);
+  if (overfitting) findings.push(overfitting);
+  return findings;
+}
+
+/**
+ * A job's losses: its local wandb history if there is one, otherwise what
+ * its log printed
+ */
+export async function readJobLosses(
+  projectPath: string,
+  job: TrainingJob,
+): Promise<LossSeries> {
+  if (job.wandbRunId) {
+    const run = await findLocalRun(projectPath, job.wandbRunId).catch(
+      () => null,
+    );
+    if (run && run.history.length > 0) return historyLosses(run.history);
+  }
+  const tail = await readLogTail(job.logPath);
+  return tail ? parseLogLosses(tail.lines) : {};
+}
+
+function isKnown(job: TrainingJob, finding: HealthFinding): boolean {
+  return (job.healthIssues ?? []).some(
+    (issue) => issue.kind === finding.kind && issue.metric === finding.metric,
+  );
+}
+
+/**
+ * Check every running job, record new issues on it in active.json and log
+ * each one as a training_alert event so the agent sees it. With autoStop,
+ * a job with a NaN or diverging loss is marked stopped and sent SIGTERM.
+ * Each issue is reported once per job and metric.
+ */
+export async function watchJobHealth(
+  projectPath: string,
+  jobManager: Pick<JobManager, "stop">,
+  options: WatchHealthOptions = {},
+): Promise<HealthAlert[]> {
+  const { autoStop = false, thresholds = DEFAULT_HEALTH_THRESHOLDS } = options;
+  const store = new JsonFileStore(projectPath);
+  const running = (await store.readActiveJobs()).filter(
+    (job) => job.status === "running",
+  );
+
+  const found = new Map<string, HealthFinding[]>();
+  for (const job of running) {
+    const findings = checkTrainingHealth(
+      await readJobLosses(projectPath, job),
+      thresholds,
+    ).filter((finding) => !isKnown(job, finding));
+    if (findings.length > 0) found.set(job.id, findings);
+  }
+  if (found.size === 0) return [];
+
+  // The daemon and the TUI both watch; whoever records an issue reports it
+  const detectedAt = new Date().toISOString();
+  const alerts = await updateActiveJobs(projectPath, (jobs) => {
+    const alerts: HealthAlert[] = [];
+    const updated = jobs.map((job) => {
+      const issues = (found.get(job.id) ?? [])
+        .filter((finding) => !isKnown(job, finding))
+        .map((finding) => ({ ...finding, detectedAt }));
+      if (job.status !== "running" || issues.length === 0) return job;
+
+      const critical = issues.find((issue) => issue.critical);
+      const stopped = autoStop && critical !== undefined;
+      const next: TrainingJob = {
+        ...job,
+        healthIssues: [...(job.healthIssues ?? []), ...issues],
+        ...(stopped && {
+          status: "stopped" as const,
+          error: `Stopped by health check: ${critical.message}`,
+        }),
+      };
+      alerts.push({ job: next, issues, stopped });
+      return next;
+    });
+    return { jobs: updated, result: alerts };
+  });
+
+  for (const { job, issues, stopped } of alerts) {
+    if (stopped) await jobManager.stop(job.pid).catch(() => false);
+    for (const issue of issues) {
+      await appendEvent(projectPath, {
+        type: "training_alert",
+        job_id: job.id,
+        issue: issue.kind,
+        metric: issue.metric,
+        detail: issue.message,
+        action: stopped && issue.critical ? "stopped" : "flagged",
+      });
+    }
+  }
+  return alerts;
+}
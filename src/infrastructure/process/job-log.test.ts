@@ -0,0 +1,105 @@
+/**
+ * Tests for reading job logs and finding errors and matches in them
+ */
+
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  classifyLogLines,
+  errorStarts,
+  lastLogError,
+  readLogTail,
+  searchLogLines,
+  stripAnsi,
+} from "./job-log.ts";
+
+let dir = "";
+
+beforeEach(async () => {
+  dir = await mkdtemp(join(tmpdir(), "ml-ralph-job-log-"));
+});
+
+afterEach(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+const LOG = [
+  "\x1b[32mepoch 1\x1b[0m loss=2.31",
+  "UserWarning: dataloader has 0 workers",
+  "epoch 2 loss=nan",
+  "Traceback (most recent call last):",
+  '  File "train.py", line 42, in <module>',
+  "    loss.backward()",
+  "RuntimeError: CUDA out of memory. Tried to allocate 2 GiB",
+  "Killed",
+];
+
+describe("readLogTail", () => {
+  test("keeps what progress bars drew last", async () => {
+    const logPath = join(dir, "train.log");
+    await writeFile(
+      logPath,
+      "start\n 10%|#\r 50%|#####\r100%|##########\ndone\n",
+    );
+
+    expect(await readLogTail(logPath)).toMatchObject({
+      lines: ["start", "100%|##########", "done"],
+      truncated: false,
+    });
+  });
+
+  test("drops the line cut off by reading from the middle", async () => {
+    const logPath = join(dir, "train.log");
+    await writeFile(logPath, "first line\nsecond\nthird\n");
+
+    const tail = await readLogTail(logPath, 10);
+    expect(tail?.lines).toEqual(["third"]);
+    expect(tail?.truncated).toBe(true);
+  });
+
+  test("returns null for a missing log", async () => {
+    expect(await readLogTail(join(dir, "missing.log"))).toBeNull();
+    expect(await readLogTail("")).toBeNull();
+  });
+});
+
+describe("classifyLogLines", () => {
+  test("marks tracebacks, errors and warnings", () => {
+    expect(classifyLogLines(LOG)).toEqual([
+      "plain",
+      "warning",
+      "plain",
+      "traceback",
+      "traceback",
+      "traceback",
+      "error",
+      "error",
+    ]);
+  });
+
+  test("finds where each error starts", () => {
+    expect(errorStarts(classifyLogLines(LOG))).toEqual([3, 7]);
+  });
+});
+
+describe("searchLogLines", () => {
+  test("ignores case and colors", () => {
+    expect(searchLogLines(LOG, "EPOCH 1 loss")).toEqual([0]);
+    expect(searchLogLines(LOG, "loss")).toEqual([0, 2, 5]);
+    expect(searchLogLines(LOG, "")).toEqual([]);
+  });
+
+  test("strips escape codes", () => {
+    expect(stripAnsi(LOG[0]!)).toBe("epoch 1 loss=2.31");
+  });
+});
+
+describe("lastLogError", () => {
+  test("finds the last fatal line", async () => {
+    const logPath = join(dir, "train.log");
+    await writeFile(logPath, `${LOG.join("\n")}\n`);
+    expect(await lastLogError(logPath)).toBe("Killed");
+  });
+});
@@ -0,0 +1,137 @@
+/**
+ * Job logs - reads the end of a training job's log and finds what's worth
+ * jumping to: tracebacks, errors and search matches
+ */
+
+import { open } from "node:fs/promises";
+
+/** How much of a log the viewer reads (the most recent output) */
+const LOG_VIEW_BYTES = 256 * 1024;
+
+/** A failure reason is looked for this far back from the end of the log */
+const ERROR_TAIL_BYTES = 64 * 1024;
+
+/** Last lines of a crash worth showing: exceptions and fatal messages */
+const ERROR_LINE =
+  /^([A-Za-z_][\w.]*(Error|Exception|Interrupt)\b.*|Killed|Segmentation fault.*|.*CUDA out of memory.*)$/;
+
+const TRACEBACK_START = /^Traceback \(most recent call last\):/;
+const WARNING_LINE = /\b[A-Za-z]*Warning\b|^WARNING\b/;
+
+// CSI sequences (colors, cursor moves) and OSC sequences (titles, links)
+// biome-ignore lint/suspicious/noControlCharactersInRegex: matching escape codes
+const ANSI = /\x1b\[[0-?]*[ -/]*[@-~]|\x1b\][^\x07\x1b]*(\x07|\x1b\\)/g;
+
+export type LogLineKind = "traceback" | "error" | "warning" | "plain";
+
+export interface LogTail {
+  /** Lines as written, ANSI escapes included */
+  lines: string[];
+  /** Whether the log is longer than what was read */
+  truncated: boolean;
+  /** Size of the log in bytes, to tell when it grew */
+  size: number;
+}
+
+export function stripAnsi(text: string): string {
+  return text.replace(ANSI, "");
+}
+
+/**
+ * The last lines of a log, or null if it can't be read. Progress bars
+ * redraw a line with \r; only what was drawn last is kept.
+ */
+export async function readLogTail(
+  logPath: string,
+  maxBytes: number = LOG_VIEW_BYTES,
+): Promise<LogTail | null> {
+  if (!logPath) return null;
+  const handle = await open(logPath, "r").catch(() => null);
+  if (!handle) return null;
+
+  try {
+    const { size } = await handle.stat();
+    const length = Math.min(size, maxBytes);
+    const buffer = Buffer.alloc(length);
+    await handle.read(buffer, 0, length, size - length);
+
+    const lines = buffer.toString("utf-8").split(/\r?\n/);
+    // The first line is cut off when reading from the middle
+    if (length < size) lines.shift();
+    if (lines[lines.length - 1] === "") lines.pop();
+    return {
+      lines: lines.map((line) => line.split("\r").findLast(Boolean) ?? ""),
+      truncated: length < size,
+      size,
+    };
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * What each line is. A traceback runs from its "Traceback (most recent call
+ * last):" header to the exception it ends with; chained tracebacks are
+ * marked separately.
+ */
+export function classifyLogLines(lines: string[]): LogLineKind[] {
+  const kinds: LogLineKind[] = [];
+  let inTraceback = false;
+
+  for (const line of lines) {
+    const text = stripAnsi(line).trimEnd();
+    if (TRACEBACK_START.test(text)) {
+      inTraceback = true;
+      kinds.push("traceback");
+    } else if (inTraceback) {
+      // Frames and source lines are indented; the exception isn't
+      const ended = text !== "" && !/^\s/.test(text);
+      kinds.push(ended && ERROR_LINE.test(text) ? "error" : "traceback");
+      if (ended) inTraceback = false;
+    } else if (ERROR_LINE.test(text.trim())) {
+      kinds.push("error");
+    } else if (WARNING_LINE.test(text)) {
+      kinds.push("warning");
+    } else {
+      kinds.push("plain");
+    }
+  }
+  return kinds;
+}
+
+/**
+ * Where each error starts: a traceback's header, or an error line that
+ * isn't the end of a traceback
+ */
+export function errorStarts(kinds: LogLineKind[]): number[] {
+  return kinds.flatMap((kind, i) => {
+    const previous = kinds[i - 1];
+    if (kind === "traceback" && previous !== "traceback") return [i];
+    if (kind === "error" && previous !== "traceback") return [i];
+    return [];
+  });
+}
+
+/**
+ * Indexes of the lines containing the query, ignoring case and colors
+ */
+export function searchLogLines(lines: string[], query: string): number[] {
+  const needle = query.toLowerCase();
+  if (!needle) return [];
+  return lines.flatMap((line, i) =>
+    stripAnsi(line).toLowerCase().includes(needle) ? [i] : [],
+  );
+}
+
+/**
+ * The last exception or fatal error in a job's log, if it has one
+ */
+export async function lastLogError(logPath: string): Promise<string | null> {
+  const tail = await readLogTail(logPath, ERROR_TAIL_BYTES);
+  if (!tail) return null;
+  return (
+    tail.lines
+      .map((line) => stripAnsi(line).trim())
+      .findLast((line) => ERROR_LINE.test(line)) ?? null
+  );
+}
@@ -2,25 +2,37 @@
  * Job manager implementation
  */
 
+import { closeSync, openSync } from "node:fs";
+import { fileURLToPath } from "node:url";
 import { spawn } from "bun";
 import { generateJobId } from "../../domain/logic/index.ts";
 import type { TrainingJob } from "../../domain/types/index.ts";
+import { readJobExit } from "./job-supervisor.ts";
 import type { JobManager, LaunchOptions } from "./types.ts";
 
+/** Runs a job's command and writes its exit file */
+const SUPERVISOR = fileURLToPath(new URL("./supervise.ts", import.meta.url));
+
 export class BunJobManager implements JobManager {
   async launch(
     command: string[],
     options: LaunchOptions,
   ): Promise<TrainingJob> {
-    const logFile = Bun.file(options.logPath);
+    // One append-mode descriptor so stdout and stderr interleave in order
+    const logFd = openSync(options.logPath, "a");
 
-    // Spawn detached process
+    // Spawn in its own process group so it outlives the shell that started it
     const proc = spawn({
-      cmd: command,
+      cmd: options.exitFile
+        ? [process.execPath, SUPERVISOR, options.exitFile, ...command]
+        : command,
       cwd: options.cwd,
-      stdout: logFile,
-      stderr: logFile,
+      env: options.env ? { ...process.env, ...options.env } : undefined,
+      stdout: logFd,
+      stderr: logFd,
+      detached: true,
     });
+    closeSync(logFd);
 
     // Unref to allow parent to exit
     proc.unref();
@@ -32,6 +44,7 @@ export class BunJobManager implements JobManager {
       pid: proc.pid,
       command: command.join(" "),
       logPath: options.logPath,
+      exitFile: options.exitFile,
       wandbRunId: options.wandbRunId,
       wandbUrl: options.wandbUrl,
       startedAt: new Date().toISOString(),
@@ -58,9 +71,14 @@ export class BunJobManager implements JobManager {
       // Wait a bit for graceful shutdown
       await new Promise((resolve) => setTimeout(resolve, 1000));
 
-      // Check if still running and force kill if needed
+      // Check if still running and force kill if needed. Launched jobs lead
+      // their own process group, so the command dies with the supervisor.
       if (this.isRunning(pid)) {
-        process.kill(pid, "SIGKILL");
+        try {
+          process.kill(-pid, "SIGKILL");
+        } catch {
+          process.kill(pid, "SIGKILL");
+        }
       }
 
       return true;
@@ -69,9 +87,8 @@ export class BunJobManager implements JobManager {
     }
   }
 
-  getExitCode(_pid: number): number | null {
-    // Note: Getting exit code of a detached process is complex
-    // For now, we rely on the job status being updated when checked
-    return null;
+  async getExitCode(job: TrainingJob): Promise<number | null> {
+    if (!job.exitFile) return null;
+    return (await readJobExit(job.exitFile))?.exitCode ?? null;
   }
 }
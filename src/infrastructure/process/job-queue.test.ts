@@ -0,0 +1,232 @@
+/**
+ * Tests for queueing training jobs and starting them within the limits
+ */
+
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdir, mkdtemp, rm, stat, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  createDefaultConfig,
+  type QueuedJob,
+  type TrainingJob,
+} from "../../domain/types/index.ts";
+import { JsonFileStore } from "../file-store/index.ts";
+import {
+  cancelQueuedJob,
+  dispatchQueue,
+  enqueueJob,
+  insertByPriority,
+  jobsToStart,
+  moveQueuedJob,
+} from "./job-queue.ts";
+import type { LaunchOptions } from "./types.ts";
+
+let projectPath = "";
+
+beforeEach(async () => {
+  projectPath = await mkdtemp(join(tmpdir(), "ml-ralph-queue-"));
+  await mkdir(join(projectPath, ".ml-ralph", "runs"), { recursive: true });
+});
+
+afterEach(async () => {
+  await rm(projectPath, { recursive: true, force: true });
+});
+
+function queued(id: string, overrides: Partial<QueuedJob> = {}): QueuedJob {
+  return {
+    id,
+    storyId: "T-001",
+    experimentId: id,
+    command: ["python", "train.py"],
+    cwd: projectPath,
+    logPath: join(projectPath, `${id}.log`),
+    exitFile: join(projectPath, `${id}.exit.json`),
+    priority: 0,
+    cpus: 1,
+    memoryGb: 0,
+    submittedAt: "2026-01-01T10:00:00.000Z",
+    ...overrides,
+  };
+}
+
+function running(pid: number, overrides: Partial<TrainingJob> = {}) {
+  return {
+    id: `job_${pid}`,
+    storyId: "T-001",
+    experimentId: "baseline",
+    pid,
+    command: "python train.py",
+    logPath: "",
+    startedAt: "2026-01-01T09:00:00.000Z",
+    status: "running" as const,
+    ...overrides,
+  };
+}
+
+const ids = (jobs: { id: string }[]) => jobs.map((job) => job.id);
+
+describe("insertByPriority", () => {
+  test("goes ahead of lower priorities and behind equal ones", () => {
+    const queue = [
+      queued("a", { priority: 2 }),
+      queued("b", { priority: 1 }),
+      queued("c"),
+    ];
+    expect(ids(insertByPriority(queue, queued("d", { priority: 1 })))).toEqual([
+      "a",
+      "b",
+      "d",
+      "c",
+    ]);
+    expect(ids(insertByPriority(queue, queued("e")))).toEqual([
+      "a",
+      "b",
+      "c",
+      "e",
+    ]);
+  });
+});
+
+describe("jobsToStart", () => {
+  const limits = { maxConcurrent: 3, cpus: 8, memoryGb: 32 };
+
+  test("starts jobs in order while they fit", () => {
+    const queue = [
+      queued("a", { cpus: 4 }),
+      queued("b", { cpus: 2, memoryGb: 16 }),
+      queued("c", { cpus: 4 }),
+      queued("d", { cpus: 1 }),
+    ];
+    // c doesn't fit, so d waits behind it
+    expect(ids(jobsToStart(queue, [], limits))).toEqual(["a", "b"]);
+    expect(ids(jobsToStart(queue, [running(1, { cpus: 6 })], limits))).toEqual(
+      [],
+    );
+  });
+
+  test("counts running jobs against the limits", () => {
+    const queue = [queued("a"), queued("b"), queued("c")];
+    // Jobs started without the queue reserve one core
+    expect(ids(jobsToStart(queue, [running(1), running(2)], limits))).toEqual([
+      "a",
+    ]);
+    expect(
+      ids(jobsToStart(queue, [running(1, { memoryGb: 30 })], limits)),
+    ).toEqual(["a", "b"]);
+    expect(
+      ids(
+        jobsToStart(
+          [queued("a", { memoryGb: 8 })],
+          [running(1, { memoryGb: 30 })],
+          limits,
+        ),
+      ),
+    ).toEqual([]);
+  });
+
+  test("starts an oversized job when nothing is running", () => {
+    expect(
+      ids(jobsToStart([queued("a", { cpus: 64 }), queued("b")], [], limits)),
+    ).toEqual(["a"]);
+  });
+});
+
+describe("queue updates", () => {
+  test("enqueue, move and cancel", async () => {
+    expect(await enqueueJob(projectPath, queued("a"))).toBe(1);
+    expect(await enqueueJob(projectPath, queued("b"))).toBe(2);
+    expect(await enqueueJob(projectPath, queued("c", { priority: 1 }))).toBe(1);
+
+    const store = new JsonFileStore(projectPath);
+    expect(ids(await store.readJobQueue())).toEqual(["c", "a", "b"]);
+
+    expect(await moveQueuedJob(projectPath, "b", -1)).toBe(true);
+    expect(ids(await store.readJobQueue())).toEqual(["c", "b", "a"]);
+    expect(await moveQueuedJob(projectPath, "c", -1)).toBe(false);
+    expect(await moveQueuedJob(projectPath, "missing", 1)).toBe(false);
+
+    await writeFile(queued("a").exitFile, "");
+    expect((await cancelQueuedJob(projectPath, "a"))?.id).toBe("a");
+    expect(ids(await store.readJobQueue())).toEqual(["c", "b"]);
+    expect(await stat(queued("a").exitFile).catch(() => null)).toBeNull();
+    expect(await cancelQueuedJob(projectPath, "a")).toBeNull();
+  });
+});
+
+describe("dispatchQueue", () => {
+  function fakeManager(alive: number[] = []) {
+    const launched: { command: string[]; options: LaunchOptions }[] = [];
+    let nextPid = 100;
+    return {
+      launched,
+      isRunning: (pid: number) => alive.includes(pid) || pid >= 100,
+      launch: async (command: string[], options: LaunchOptions) => {
+        if (!options.cwd.startsWith(projectPath)) {
+          throw new Error(`no such directory: ${options.cwd}`);
+        }
+        launched.push({ command, options });
+        return running(nextPid++, {
+          id: "job_new",
+          logPath: options.logPath,
+          exitFile: options.exitFile,
+          wandbRunId: options.wandbRunId,
+        });
+      },
+    };
+  }
+
+  test("starts what fits and registers it under its queued id", async () => {
+    const store = new JsonFileStore(projectPath);
+    await store.writeConfig({
+      ...createDefaultConfig("queue-test"),
+      jobs: { maxConcurrent: 2, cpus: 8 },
+    });
+    await store.writeActiveJobs([running(7)]);
+    await enqueueJob(projectPath, queued("a", { wandbRunId: "abc123" }));
+    await enqueueJob(projectPath, queued("b"));
+
+    const manager = fakeManager([7]);
+    const started = await dispatchQueue(projectPath, manager);
+    expect(ids(started)).toEqual(["a"]);
+    expect(manager.launched[0]?.options.env).toEqual({
+      ML_RALPH_PROJECT: projectPath,
+      WANDB_RUN_ID: "abc123",
+    });
+
+    const active = await store.readActiveJobs();
+    expect(active.map((job) => [job.id, job.pid])).toEqual([
+      ["job_7", 7],
+      ["a", 100],
+    ]);
+    expect(ids(await store.readJobQueue())).toEqual(["b"]);
+
+    // The old job's supervisor is exiting, which leaves room for b
+    expect(
+      ids(await dispatchQueue(projectPath, manager, { exclude: [7] })),
+    ).toEqual(["b"]);
+    expect(await store.readJobQueue()).toEqual([]);
+  });
+
+  test("moves jobs that can't be launched to the history", async () => {
+    await enqueueJob(projectPath, queued("a", { cwd: "/gone" }));
+    await enqueueJob(projectPath, queued("b"));
+
+    const store = new JsonFileStore(projectPath);
+    await store.writeConfig({
+      ...createDefaultConfig("queue-test"),
+      jobs: { maxConcurrent: 2, cpus: 8 },
+    });
+
+    const started = await dispatchQueue(projectPath, fakeManager());
+    expect(ids(started)).toEqual(["b"]);
+    expect(await store.readJobHistory()).toMatchObject([
+      {
+        id: "a",
+        status: "failed",
+        error: "Could not start: no such directory: /gone",
+      },
+    ]);
+    expect(await store.readJobQueue()).toEqual([]);
+  });
+});
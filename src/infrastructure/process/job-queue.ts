@@ -0,0 +1,236 @@
+/**
+ * Job queue - training runs submitted with `ml-ralph job submit` wait in
+ * .ml-ralph/runs/queue.json until the project's job limits leave room for
+ * them. Jobs start in queue order; a job that doesn't fit holds back the
+ * ones behind it so big runs aren't starved by small ones.
+ */
+
+import { mkdir, unlink } from "node:fs/promises";
+import { availableParallelism, totalmem } from "node:os";
+import type {
+  JobsConfig,
+  QueuedJob,
+  TrainingJob,
+} from "../../domain/types/index.ts";
+import { JsonFileStore, withFileLock } from "../file-store/index.ts";
+import { registerJob } from "./job-registry.ts";
+import type { JobManager } from "./types.ts";
+
+export interface QueueLimits {
+  /** Jobs running at once */
+  maxConcurrent: number;
+  /** Cores running jobs may reserve */
+  cpus: number;
+  /** Memory running jobs may reserve, in GB */
+  memoryGb: number;
+}
+
+export interface DispatchOptions {
+  /** Pids to count as finished, e.g. a supervisor that is about to exit */
+  exclude?: number[];
+}
+
+/**
+ * The limits set in the project's config, with the machine's cores and
+ * memory as defaults
+ */
+export function queueLimits(config: JobsConfig | undefined): QueueLimits {
+  return {
+    maxConcurrent: Math.max(1, config?.maxConcurrent ?? 1),
+    cpus: config?.cpus ?? availableParallelism(),
+    memoryGb: config?.memoryGb ?? totalmem() / 1024 ** 3,
+  };
+}
+
+/**
+ * Run fn on the queue and save what it returns, holding queue.json's lock
+ * so the CLI, TUI and daemon don't start the same job twice
+ */
+export async function updateJobQueue<T>(
+  projectPath: string,
+  fn: (
+    queue: QueuedJob[],
+  ) =>
+    | { queue: QueuedJob[]; result: T }
+    | Promise<{ queue: QueuedJob[]; result: T }>,
+): Promise<T> {
+  const store = new JsonFileStore(projectPath);
+  await mkdir(`${projectPath}/.ml-ralph/runs`, { recursive: true });
+  return withFileLock(
+    `${projectPath}/.ml-ralph/runs/queue.json.lock`,
+    async () => {
+      const { queue, result } = await fn(await store.readJobQueue());
+      await store.writeJobQueue(queue);
+      return result;
+    },
+  );
+}
+
+/**
+ * Put a job ahead of every job with a lower priority and behind the rest
+ */
+export function insertByPriority(
+  queue: QueuedJob[],
+  job: QueuedJob,
+): QueuedJob[] {
+  const index = queue.findIndex((queued) => queued.priority < job.priority);
+  if (index === -1) return [...queue, job];
+  return [...queue.slice(0, index), job, ...queue.slice(index)];
+}
+
+/**
+ * The jobs at the head of the queue that fit next to the running ones.
+ * Jobs started without reservations count as one core. When nothing is
+ * running the first job always starts, even if it asks for more than the
+ * limits, so it can't wait forever.
+ */
+export function jobsToStart(
+  queue: QueuedJob[],
+  running: TrainingJob[],
+  limits: QueueLimits,
+): QueuedJob[] {
+  let count = running.length;
+  let cpus = running.reduce((sum, job) => sum + (job.cpus ?? 1), 0);
+  let memoryGb = running.reduce((sum, job) => sum + (job.memoryGb ?? 0), 0);
+
+  const start: QueuedJob[] = [];
+  for (const job of queue) {
+    const fits =
+      count === 0 ||
+      (count < limits.maxConcurrent &&
+        cpus + job.cpus <= limits.cpus &&
+        memoryGb + job.memoryGb <= limits.memoryGb);
+    if (!fits) break;
+    start.push(job);
+    count++;
+    cpus += job.cpus;
+    memoryGb += job.memoryGb;
+  }
+  return start;
+}
+
+/**
+ * Add a job to the queue. Returns its position, counting from 1.
+ */
+export async function enqueueJob(
+  projectPath: string,
+  job: QueuedJob,
+): Promise<number> {
+  return updateJobQueue(projectPath, (queue) => {
+    const next = insertByPriority(queue, job);
+    return { queue: next, result: next.indexOf(job) + 1 };
+  });
+}
+
+/**
+ * Take a job off the queue and delete the exit file that reserved its id.
+ * Null if it isn't queued (e.g. it has started).
+ */
+export async function cancelQueuedJob(
+  projectPath: string,
+  id: string,
+): Promise<QueuedJob | null> {
+  const cancelled = await updateJobQueue(projectPath, (queue) => ({
+    queue: queue.filter((job) => job.id !== id),
+    result: queue.find((job) => job.id === id) ?? null,
+  }));
+  if (cancelled) await unlink(cancelled.exitFile).catch(() => {});
+  return cancelled;
+}
+
+/**
+ * Move a queued job by offset places (negative is towards the front).
+ * False if it isn't queued or is already at that end.
+ */
+export async function moveQueuedJob(
+  projectPath: string,
+  id: string,
+  offset: number,
+): Promise<boolean> {
+  return updateJobQueue(projectPath, (queue) => {
+    const from = queue.findIndex((job) => job.id === id);
+    const to = Math.min(Math.max(from + offset, 0), queue.length - 1);
+    if (from === -1 || to === from) return { queue, result: false };
+
+    const next = queue.filter((job) => job.id !== id);
+    next.splice(to, 0, queue[from]!);
+    return { queue: next, result: true };
+  });
+}
+
+/**
+ * Start the queued jobs that fit within the project's limits and register
+ * them in active.json under their queued ids. A job that can't be launched
+ * goes to the history as failed. Returns the jobs started.
+ */
+export async function dispatchQueue(
+  projectPath: string,
+  jobManager: Pick<JobManager, "launch" | "isRunning">,
+  options: DispatchOptions = {},
+): Promise<TrainingJob[]> {
+  const { exclude = [] } = options;
+  const store = new JsonFileStore(projectPath);
+  const config = await store.readConfig().catch(() => null);
+  const limits = queueLimits(config?.jobs);
+
+  return updateJobQueue(projectPath, async (queue) => {
+    if (queue.length === 0) return { queue, result: [] };
+
+    const running = (await store.readActiveJobs()).filter(
+      (job) =>
+        job.status === "running" &&
+        !exclude.includes(job.pid) &&
+        jobManager.isRunning(job.pid),
+    );
+
+    const started: TrainingJob[] = [];
+    const removed = new Set<string>();
+    for (const queued of jobsToStart(queue, running, limits)) {
+      removed.add(queued.id);
+      let job: TrainingJob;
+      try {
+        job = await jobManager.launch(queued.command, {
+          storyId: queued.storyId,
+          experimentId: queued.experimentId,
+          cwd: queued.cwd,
+          logPath: queued.logPath,
+          exitFile: queued.exitFile,
+          wandbRunId: queued.wandbRunId,
+          env: {
+            ML_RALPH_PROJECT: projectPath,
+            ...(queued.wandbRunId && { WANDB_RUN_ID: queued.wandbRunId }),
+          },
+        });
+      } catch (error) {
+        // e.g. its directory is gone; recorded so it doesn't block the queue
+        await store.appendJobHistory({
+          id: queued.id,
+          storyId: queued.storyId,
+          experimentId: queued.experimentId,
+          pid: 0,
+          command: queued.command.join(" "),
+          logPath: queued.logPath,
+          wandbRunId: queued.wandbRunId,
+          startedAt: new Date().toISOString(),
+          completedAt: new Date().toISOString(),
+          status: "failed",
+          error: `Could not start: ${(error as Error).message}`,
+        });
+        continue;
+      }
+      const registered = await registerJob(projectPath, {
+        ...job,
+        id: queued.id,
+        priority: queued.priority,
+        cpus: queued.cpus,
+        memoryGb: queued.memoryGb,
+      });
+      started.push(registered ?? { ...job, id: queued.id });
+    }
+
+    return {
+      queue: queue.filter((job) => !removed.has(job.id)),
+      result: started,
+    };
+  });
+}
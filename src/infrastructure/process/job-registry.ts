@@ -0,0 +1,240 @@
+/**
+ * Job registry - adds training runs to .ml-ralph/runs/active.json so the
+ * TUI and daemon can watch and stop them
+ */
+
+import { readlink, realpath } from "node:fs/promises";
+import { spawn } from "bun";
+import { generateJobId } from "../../domain/logic/index.ts";
+import type { TrainingJob } from "../../domain/types/index.ts";
+import { JsonFileStore } from "../file-store/index.ts";
+import { updateActiveJobs } from "./job-supervisor.ts";
+import type { TrainingCommand } from "./training-command.ts";
+
+/** Programs whose command line embeds the training command without being it */
+const WRAPPERS = new Set([
+  "sh",
+  "bash",
+  "zsh",
+  "dash",
+  "nohup",
+  "setsid",
+  "timeout",
+  "env",
+  "tee",
+]);
+
+export interface ProcessInfo {
+  pid: number;
+  ppid: number;
+  /** When it started, in ms since the epoch (to the second) */
+  startedAt: number;
+  args: string;
+}
+
+export interface MatchOptions {
+  /** Pids that are already registered */
+  exclude?: number[];
+  /** Only processes started at or after this time (ms since the epoch) */
+  startedAfter?: number;
+}
+
+/**
+ * Seconds in a ps elapsed time, `[[dd-]hh:]mm:ss`
+ */
+function parseElapsed(etime: string): number {
+  const [days, clock] = etime.includes("-")
+    ? [Number(etime.split("-")[0]), etime.split("-")[1]!]
+    : [0, etime];
+  const seconds = clock
+    .split(":")
+    .reduce((total, part) => total * 60 + Number(part), 0);
+  return days * 86_400 + seconds;
+}
+
+/**
+ * Every process with its parent, start time and command line (empty if ps
+ * isn't available)
+ */
+export async function listProcesses(): Promise<ProcessInfo[]> {
+  try {
+    const proc = spawn(["ps", "-eo", "pid=,ppid=,etime=,args="], {
+      stdout: "pipe",
+      stderr: "ignore",
+    });
+    const output = await new Response(proc.stdout).text();
+    await proc.exited;
+    const now = Date.now();
+    return output.split("\n").flatMap((line) => {
+      const match = line.trim().match(/^(\d+)\s+(\d+)\s+([\d:-]+)\s+(.*)$/);
+      if (!match) return [];
+      return [
+        {
+          pid: Number(match[1]),
+          ppid: Number(match[2]),
+          startedAt: now - parseElapsed(match[3]!) * 1000,
+          args: match[4]!,
+        },
+      ];
+    });
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * A process's working directory (null if it can't be read). Linux has it
+ * in /proc; elsewhere lsof knows it.
+ */
+export async function processCwd(pid: number): Promise<string | null> {
+  const linked = await readlink(`/proc/${pid}/cwd`).catch(() => null);
+  if (linked) return linked;
+  try {
+    const proc = spawn(["lsof", "-a", "-p", String(pid), "-d", "cwd", "-Fn"], {
+      stdout: "pipe",
+      stderr: "ignore",
+    });
+    const output = await new Response(proc.stdout).text();
+    await proc.exited;
+    const name = output.split("\n").find((line) => line.startsWith("n"));
+    return name ? name.slice(1) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * The processes that may be running a training command, best first: those
+ * whose command line ends with the script and its arguments and isn't a
+ * shell wrapping it, newest first. Launchers like torchrun fork workers
+ * with the same arguments; only the launcher is kept, since it's the one
+ * to stop.
+ */
+export function findTrainingProcesses(
+  training: TrainingCommand,
+  processes: ProcessInfo[],
+  options: MatchOptions = {},
+): ProcessInfo[] {
+  const { exclude = [], startedAfter = 0 } = options;
+  const scriptIndex = training.argv.findIndex(
+    (arg, i) =>
+      arg === training.script ||
+      (arg === "-m" && `-m ${training.argv[i + 1]}` === training.script),
+  );
+  const tail = training.argv
+    .slice(Math.max(scriptIndex, 0))
+    .join(" ")
+    .replace(/\s+/g, " ");
+
+  const matches = processes.filter(({ pid, startedAt, args }) => {
+    if (exclude.includes(pid) || startedAt < startedAfter) return false;
+    const normalized = args.trim().replace(/\s+/g, " ");
+    const program = normalized.split(" ")[0]?.split("/").pop() ?? "";
+    return (
+      !WRAPPERS.has(program) &&
+      (normalized === tail || normalized.endsWith(` ${tail}`))
+    );
+  });
+  const pids = new Set(matches.map((p) => p.pid));
+  return matches
+    .filter((p) => !pids.has(p.ppid))
+    .sort((a, b) => b.startedAt - a.startedAt || b.pid - a.pid);
+}
+
+/**
+ * Whether path is dir or inside it
+ */
+function isWithin(path: string, dir: string): boolean {
+  return path === dir || path.startsWith(`${dir}/`);
+}
+
+/**
+ * Add a job to active.json unless a running job already has its pid. Job
+ * ids have one-second resolution, so a clashing id gets a suffix.
+ */
+export async function registerJob(
+  projectPath: string,
+  job: TrainingJob,
+): Promise<TrainingJob | null> {
+  try {
+    return await updateActiveJobs(projectPath, (jobs) => {
+      if (jobs.some((j) => j.pid === job.pid && j.status === "running")) {
+        return { jobs, result: null };
+      }
+      const ids = new Set(jobs.map((j) => j.id));
+      let id = job.id;
+      for (let n = 2; ids.has(id); n++) id = `${job.id}_${n}`;
+
+      const registered = { ...job, id };
+      return { jobs: [...jobs, registered], result: registered };
+    });
+  } catch {
+    return null;
+  }
+}
+
+export interface TrackOptions {
+  storyId?: string;
+  experimentId?: string;
+  /** How long to look for the process after the command was seen (ms) */
+  timeoutMs?: number;
+  pollMs?: number;
+}
+
+/**
+ * Wait for a detected training command's process to show up and register
+ * it. Only processes started since the command was seen and running in the
+ * project count, so a run of another project or an older one is never
+ * taken for it. Null if it never appears (e.g. it failed straight away) or
+ * is already registered.
+ */
+export async function trackTrainingCommand(
+  projectPath: string,
+  training: TrainingCommand,
+  options: TrackOptions = {},
+): Promise<TrainingJob | null> {
+  const { timeoutMs = 15_000, pollMs = 1000 } = options;
+  // ps start times are rounded to the second
+  const startedAfter = Date.now() - 2000;
+  const store = new JsonFileStore(projectPath);
+  const known = (await store.readActiveJobs().catch(() => []))
+    .filter((j) => j.status === "running")
+    .map((j) => j.pid);
+  const projectDir = await realpath(projectPath).catch(() => projectPath);
+
+  const deadline = Date.now() + timeoutMs;
+  let pid: number | null = null;
+  while (pid === null && Date.now() < deadline) {
+    await new Promise((resolve) => setTimeout(resolve, pollMs));
+    const candidates = findTrainingProcesses(training, await listProcesses(), {
+      exclude: known,
+      startedAfter,
+    });
+    for (const candidate of candidates) {
+      const cwd = await processCwd(candidate.pid);
+      if (cwd && isWithin(cwd, projectDir)) {
+        pid = candidate.pid;
+        break;
+      }
+    }
+  }
+  if (pid === null) return null;
+
+  const logPath = training.logPath
+    ? training.logPath.startsWith("/")
+      ? training.logPath
+      : `${projectPath}/${training.logPath}`
+    : "";
+  const job: TrainingJob = {
+    id: generateJobId(),
+    storyId: options.storyId ?? "",
+    experimentId: options.experimentId ?? "",
+    pid,
+    command: training.argv.join(" "),
+    logPath,
+    wandbRunId: training.wandbRunId ?? undefined,
+    startedAt: new Date().toISOString(),
+    status: "running",
+  };
+  return registerJob(projectPath, job);
+}
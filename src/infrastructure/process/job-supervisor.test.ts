@@ -0,0 +1,138 @@
+/**
+ * Tests for settling ended jobs and moving them into history
+ */
+
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { TrainingJob } from "../../domain/types/index.ts";
+import { JsonFileStore } from "../file-store/index.ts";
+import { BunJobManager } from "./job-manager.ts";
+import { reconcileJobs, settleJob } from "./job-supervisor.ts";
+
+let projectPath = "";
+
+function job(overrides: Partial<TrainingJob> = {}): TrainingJob {
+  return {
+    id: "job_1",
+    storyId: "T-001",
+    experimentId: "baseline",
+    pid: 4242,
+    command: "python train.py",
+    logPath: join(projectPath, "train.log"),
+    startedAt: "2026-01-01T10:00:00.000Z",
+    status: "running",
+    ...overrides,
+  };
+}
+
+const gone = () => false;
+
+beforeEach(async () => {
+  projectPath = await mkdtemp(join(tmpdir(), "ml-ralph-jobs-"));
+  await mkdir(join(projectPath, ".ml-ralph", "runs"), { recursive: true });
+});
+
+afterEach(async () => {
+  await rm(projectPath, { recursive: true, force: true });
+});
+
+describe("settleJob", () => {
+  test("leaves running jobs alone", async () => {
+    expect(await settleJob(job(), () => true)).toBeNull();
+  });
+
+  test("reads the exit file and the error from the log", async () => {
+    const exitFile = join(projectPath, "job_1.exit.json");
+    await writeFile(
+      exitFile,
+      '{"exitCode":1,"signal":null,"endedAt":"2026-01-01T10:05:00.000Z"}',
+    );
+    await writeFile(
+      job().logPath,
+      'epoch 1\nTraceback (most recent call last):\n  File "train.py"\nRuntimeError: CUDA out of memory. Tried to allocate 2 GiB\n',
+    );
+
+    // The exit file wins even if the pid was reused
+    expect(await settleJob(job({ exitFile }), () => true)).toMatchObject({
+      status: "failed",
+      exitCode: 1,
+      completedAt: "2026-01-01T10:05:00.000Z",
+      error:
+        "Exited with code 1: RuntimeError: CUDA out of memory. Tried to allocate 2 GiB",
+    });
+  });
+
+  test("judges jobs without an exit file by their log", async () => {
+    await writeFile(job().logPath, "epoch 1\nepoch 2\ndone\n");
+    expect((await settleJob(job(), gone))?.status).toBe("completed");
+
+    await writeFile(job().logPath, "epoch 1\nKilled\n");
+    expect(await settleJob(job(), gone)).toMatchObject({
+      status: "failed",
+      error: "Crashed: Killed",
+    });
+  });
+
+  test("keeps stopped jobs stopped", async () => {
+    const exitFile = join(projectPath, "job_1.exit.json");
+    await writeFile(
+      exitFile,
+      '{"exitCode":null,"signal":"SIGTERM","endedAt":"2026-01-01T10:05:00.000Z"}',
+    );
+    const settled = await settleJob(job({ status: "stopped", exitFile }), gone);
+    expect(settled?.status).toBe("stopped");
+    expect(settled?.error).toBeUndefined();
+  });
+});
+
+describe("reconcileJobs", () => {
+  test("moves ended jobs into history", async () => {
+    const store = new JsonFileStore(projectPath);
+    await store.writeActiveJobs([
+      job(),
+      job({ id: "job_2", pid: 4343, command: "python finetune.py" }),
+    ]);
+
+    const ended = await reconcileJobs(projectPath, (pid) => pid === 4343);
+    expect(ended.map((j) => j.id)).toEqual(["job_1"]);
+    expect((await store.readActiveJobs()).map((j) => j.id)).toEqual(["job_2"]);
+    expect(await store.readJobHistory()).toMatchObject([
+      { id: "job_1", status: "completed" },
+    ]);
+
+    // Nothing left to move
+    expect(await reconcileJobs(projectPath, (pid) => pid === 4343)).toEqual([]);
+  });
+});
+
+describe("BunJobManager", () => {
+  test("records the exit code of a supervised job", async () => {
+    const manager = new BunJobManager();
+    const launched = await manager.launch(
+      ["sh", "-c", "echo starting; echo 'ValueError: bad shape' >&2; exit 3"],
+      {
+        storyId: "T-001",
+        experimentId: "baseline",
+        cwd: projectPath,
+        logPath: join(projectPath, "run.log"),
+        exitFile: join(projectPath, "run.exit.json"),
+      },
+    );
+
+    for (
+      let i = 0;
+      i < 50 && (await manager.getExitCode(launched)) === null;
+      i++
+    ) {
+      await Bun.sleep(100);
+    }
+    expect(await manager.getExitCode(launched)).toBe(3);
+    expect(await settleJob(launched, gone)).toMatchObject({
+      status: "failed",
+      exitCode: 3,
+      error: "Exited with code 3: ValueError: bad shape",
+    });
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * Job supervisor - reconciles .ml-ralph/runs/active.json with the processes
+ * it lists, and moves jobs that ended into runs/history.jsonl
+ */
+
+import { mkdir, readFile } from "node:fs/promises";
+import type { TrainingJob } from "../../domain/types/index.ts";
+import { JsonFileStore, withFileLock } from "../file-store/index.ts";
+import { lastLogError } from "./job-log.ts";
+
+/** What supervise.ts records when a job's command exits */
+export interface JobExit {
+  exitCode: number | null;
+  /** Signal that killed the command (e.g. "SIGKILL" from the OOM killer) */
+  signal: string | null;
+  endedAt: string;
+}
+
+/**
+ * Run fn on the active jobs and save what it returns, holding
+ * active.json's lock so concurrent writers don't drop each other's jobs
+ */
+export async function updateActiveJobs<T>(
+  projectPath: string,
+  fn: (jobs: TrainingJob[]) => { jobs: TrainingJob[]; result: T },
+): Promise<T> {
+  const store = new JsonFileStore(projectPath);
+  await mkdir(`${projectPath}/.ml-ralph/runs`, { recursive: true });
+  return withFileLock(
+    `${projectPath}/.ml-ralph/runs/active.json.lock`,
+    async () => {
+      const { jobs, result } = fn(await store.readActiveJobs());
+      await store.writeActiveJobs(jobs);
+      return result;
+    },
+  );
+}
+
+export async function readJobExit(exitFile: string): Promise<JobExit | null> {
+  try {
+    const exit = JSON.parse(await readFile(exitFile, "utf-8"));
+    return exit && typeof exit.endedAt === "string" ? exit : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * The job as it ended, or null while it's still running. Jobs launched
+ * through supervise.ts have an exit file; for the rest (picked up from the
+ * agent's shell) the log decides between completed and failed.
+ */
+export async function settleJob(
+  job: TrainingJob,
+  isRunning: (pid: number) => boolean,
+): Promise<TrainingJob | null> {
+  const exit = job.exitFile ? await readJobExit(job.exitFile) : null;
+  // A pid can be reused once the job is gone, so the exit file wins
+  if (!exit && isRunning(job.pid)) return null;
+
+  const logError = await lastLogError(job.logPath);
+  const exitCode = exit?.exitCode ?? job.exitCode;
+  const crashed = exit
+    ? exit.exitCode !== 0 || exit.signal !== null
+    : logError !== null;
+
+  let error = job.error;
+  if (!error && job.status !== "stopped" && crashed) {
+    const how = exit?.signal
+      ? `Killed by ${exit.signal}`
+      : exitCode !== undefined && exitCode !== null
+        ? `Exited with code ${exitCode}`
+        : "Crashed";
+    error = logError ? `${how}: ${logError}` : how;
+  }
+
+  return {
+    ...job,
+    status:
+      job.status === "stopped" ? "stopped" : crashed ? "failed" : "completed",
+    completedAt: job.completedAt ?? exit?.endedAt ?? new Date().toISOString(),
+    exitCode: exitCode ?? undefined,
+    error,
+  };
+}
+
+/**
+ * Settle every job that ended, move it to history and drop it from
+ * active.json. Returns the jobs that ended.
+ */
+export async function reconcileJobs(
+  projectPath: string,
+  isRunning: (pid: number) => boolean,
+): Promise<TrainingJob[]> {
+  const store = new JsonFileStore(projectPath);
+  const jobs = await store.readActiveJobs();
+  const settled = (
+    await Promise.all(jobs.map((job) => settleJob(job, isRunning)))
+  ).filter((job): job is TrainingJob => job !== null);
+  if (settled.length === 0) return [];
+
+  // Another process may have reconciled first; only move what's still here
+  const ended = await updateActiveJobs(projectPath, (current) => {
+    const ended = settled.flatMap((job) => {
+      const latest = current.find((j) => j.id === job.id);
+      if (!latest) return [];
+      // Stopped from the TUI since it was read
+      return latest.status === "stopped" && job.status !== "stopped"
+        ? [{ ...job, status: "stopped" as const, error: latest.error }]
+        : [job];
+    });
+    const endedIds = new Set(ended.map((job) => job.id));
+    return {
+      jobs: current.filter((job) => !endedIds.has(job.id)),
+      result: ended,
+    };
+  });
+  for (const job of ended) {
+    await store.appendJobHistory(job);
+  }
+  return ended;
+}
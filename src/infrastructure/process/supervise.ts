@@ -0,0 +1,55 @@
+/**
+ * Job supervisor - runs a training command and records how it ended.
+ *
+ *   bun supervise.ts <exit file> <command...>
+ *
+ * BunJobManager launches jobs through this script. It passes its output
+ * through, forwards SIGTERM and SIGINT to the command, and when the command
+ * exits writes its exit code, signal and end time to the exit file, which
+ * the job supervisor reads once the job is gone. Jobs started from a
+ * project's queue (ML_RALPH_PROJECT set) then start the queued jobs that
+ * fit in the room they leave.
+ */
+
+import { writeFile } from "node:fs/promises";
+import { BunJobManager } from "./job-manager.ts";
+import { dispatchQueue } from "./job-queue.ts";
+import type { JobExit } from "./job-supervisor.ts";
+
+const [exitFile, ...command] = process.argv.slice(2);
+if (!exitFile || command.length === 0) {
+  console.error("Usage: bun supervise.ts <exit file> <command...>");
+  process.exit(2);
+}
+
+let exit: JobExit;
+try {
+  const child = Bun.spawn(command, {
+    stdin: "ignore",
+    stdout: "inherit",
+    stderr: "inherit",
+  });
+  for (const signal of ["SIGTERM", "SIGINT"] as const) {
+    process.on(signal, () => child.kill(signal));
+  }
+  const exitCode = await child.exited;
+  exit = {
+    exitCode: child.signalCode ? null : exitCode,
+    signal: child.signalCode ?? null,
+    endedAt: new Date().toISOString(),
+  };
+} catch (error) {
+  // The command couldn't start (e.g. not found)
+  console.error(`${command[0]}: ${(error as Error).message}`);
+  exit = { exitCode: 127, signal: null, endedAt: new Date().toISOString() };
+}
+
+await writeFile(exitFile, `${JSON.stringify(exit)}\n`);
+
+const projectPath = process.env.ML_RALPH_PROJECT;
+if (projectPath) {
+  await dispatchQueue(projectPath, new BunJobManager(), {
+    exclude: [process.pid],
+  }).catch(() => []);
+}
+process.exit(exit.exitCode ?? 1);
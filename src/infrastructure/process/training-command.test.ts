@@ -0,0 +1,112 @@
+/**
+ * Tests for spotting training runs in the agent's shell commands
+ */
+
+import { describe, expect, test } from "bun:test";
+import { findTrainingProcesses, type ProcessInfo } from "./job-registry.ts";
+import { parseTrainingCommand } from "./training-command.ts";
+
+describe("parseTrainingCommand", () => {
+  test("reads a backgrounded nohup run with its log", () => {
+    expect(
+      parseTrainingCommand(
+        "cd /work && WANDB_RUN_ID=abc123 nohup python train.py --lr 0.01 > logs/train.log 2>&1 &",
+      ),
+    ).toEqual({
+      argv: ["python", "train.py", "--lr", "0.01"],
+      script: "train.py",
+      logPath: "logs/train.log",
+      wandbRunId: "abc123",
+      background: true,
+    });
+  });
+
+  test("reads tee logs, modules, launchers and run id flags", () => {
+    const piped = parseTrainingCommand(
+      "python -m src.train --wandb-run-id=r1 2>&1 | tee out.log &",
+    );
+    expect(piped?.script).toBe("-m src.train");
+    expect(piped?.logPath).toBe("out.log");
+    expect(piped?.wandbRunId).toBe("r1");
+    expect(piped?.background).toBe(true);
+
+    const torchrun = parseTrainingCommand(
+      'torchrun --nproc_per_node 2 scripts/finetune_bert.py --name "big run"',
+    );
+    expect(torchrun?.argv).toEqual([
+      "torchrun",
+      "--nproc_per_node",
+      "2",
+      "scripts/finetune_bert.py",
+      "--name",
+      "big run",
+    ]);
+    expect(torchrun?.background).toBe(false);
+  });
+
+  test("ignores other commands and runs started through ml-ralph job", () => {
+    expect(parseTrainingCommand("python evaluate.py > eval.log &")).toBeNull();
+    expect(parseTrainingCommand("pip install torch && ls")).toBeNull();
+    expect(parseTrainingCommand("cat train.py")).toBeNull();
+    expect(
+      parseTrainingCommand("ml-ralph job start -- python train.py"),
+    ).toBeNull();
+  });
+});
+
+describe("findTrainingProcesses", () => {
+  const training = parseTrainingCommand(
+    "nohup python train.py --lr 0.01 > train.log 2>&1 &",
+  )!;
+  const pids = (processes: ProcessInfo[]) => processes.map((p) => p.pid);
+
+  const processes: ProcessInfo[] = [
+    { pid: 90, ppid: 1, startedAt: 5000, args: "python train.py --lr 0.1" },
+    {
+      pid: 100,
+      ppid: 1,
+      startedAt: 9000,
+      args: "/bin/bash -c nohup python train.py --lr 0.01 > train.log 2>&1 &",
+    },
+    {
+      pid: 101,
+      ppid: 100,
+      startedAt: 9000,
+      args: "/usr/bin/python3 train.py --lr 0.01",
+    },
+    { pid: 50, ppid: 1, startedAt: 1000, args: "python train.py --lr 0.01" },
+  ];
+
+  test("picks the training process over the shell that started it", () => {
+    expect(pids(findTrainingProcesses(training, processes))).toEqual([101, 50]);
+    expect(
+      pids(findTrainingProcesses(training, processes, { exclude: [101] })),
+    ).toEqual([50]);
+    expect(findTrainingProcesses(training, processes.slice(0, 2))).toEqual([]);
+  });
+
+  test("skips runs that started before the command", () => {
+    expect(
+      pids(findTrainingProcesses(training, processes, { startedAfter: 8000 })),
+    ).toEqual([101]);
+  });
+
+  test("keeps a launcher and not the workers it forks", () => {
+    const torchrun = parseTrainingCommand("torchrun train.py --lr 0.01")!;
+    const launched: ProcessInfo[] = [
+      {
+        pid: 200,
+        ppid: 1,
+        startedAt: 9000,
+        args: "torchrun train.py --lr 0.01",
+      },
+      {
+        pid: 201,
+        ppid: 200,
+        startedAt: 9000,
+        args: "python -u train.py --lr 0.01",
+      },
+    ];
+    expect(pids(findTrainingProcesses(torchrun, launched))).toEqual([200]);
+  });
+});
@@ -0,0 +1,220 @@
+/**
+ * Training command detection - spots training runs in the shell commands the
+ * agent runs through its Bash tool
+ */
+
+export interface TrainingCommand {
+  /** Program and arguments as executed, without env, nohup or redirections */
+  argv: string[];
+  /** Training script or module (e.g. "train.py", "-m src.train") */
+  script: string;
+  /** Where stdout goes, from "> file" or "| tee file" */
+  logPath: string | null;
+  /** From WANDB_RUN_ID=... or a --wandb-run-id style flag */
+  wandbRunId: string | null;
+  /** Started with & (or setsid/nohup), so the Bash call returns right away */
+  background: boolean;
+}
+
+/** Programs that run a training script given as an argument */
+const LAUNCHERS =
+  /^(python[\d.]*|torchrun|accelerate|deepspeed|uv|poetry|pipenv|conda|bun|node)$/;
+
+/** Prefixes that don't change what runs */
+const PASSTHROUGH = new Set(["nohup", "setsid", "exec", "time", "env", "nice"]);
+
+/** Script or module names that look like training rather than eval or setup */
+const TRAINING_SCRIPT =
+  /(^|[/._-])(train|training|finetune|fine_tune|pretrain|fit)([/._-]|\w*\.py$|$)/i;
+
+const RUN_ID_FLAGS = new Set([
+  "--wandb-run-id",
+  "--wandb_run_id",
+  "--run-id",
+  "--run_id",
+]);
+
+type Token = { word: string } | { op: string };
+
+/**
+ * Split a command line into words and operators, honoring quotes
+ */
+function tokenize(command: string): Token[] {
+  const tokens: Token[] = [];
+  let word = "";
+  let inWord = false;
+  const flush = () => {
+    if (inWord) tokens.push({ word });
+    word = "";
+    inWord = false;
+  };
+
+  for (let i = 0; i < command.length; i++) {
+    const ch = command[i]!;
+    if (ch === "'" || ch === '"') {
+      const end = command.indexOf(ch, i + 1);
+      const stop = end === -1 ? command.length : end;
+      word += command.slice(i + 1, stop);
+      inWord = true;
+      i = stop;
+    } else if (ch === "\\" && i + 1 < command.length) {
+      word += command[++i];
+      inWord = true;
+    } else if (ch === " " || ch === "\t") {
+      flush();
+    } else if (ch === "\n" || ch === ";") {
+      flush();
+      tokens.push({ op: ";" });
+    } else if (ch === "&" || ch === "|") {
+      // 2>&1 and &> are redirections, not operators
+      if (ch === "&" && (command[i - 1] === ">" || command[i + 1] === ">")) {
+        word += ch;
+        inWord = true;
+        continue;
+      }
+      flush();
+      if (command[i + 1] === ch) {
+        tokens.push({ op: ch + ch });
+        i++;
+      } else {
+        tokens.push({ op: ch });
+      }
+    } else {
+      word += ch;
+      inWord = true;
+    }
+  }
+  flush();
+  return tokens;
+}
+
+interface SimpleCommand {
+  words: string[];
+  /** Operator that ends it ("" at the end of the line) */
+  end: string;
+}
+
+function simpleCommands(tokens: Token[]): SimpleCommand[] {
+  const commands: SimpleCommand[] = [];
+  let words: string[] = [];
+  for (const token of tokens) {
+    if ("word" in token) {
+      words.push(token.word);
+    } else {
+      commands.push({ words, end: token.op });
+      words = [];
+    }
+  }
+  commands.push({ words, end: "" });
+  return commands.filter((c) => c.words.length > 0);
+}
+
+/**
+ * Strip env assignments, passthrough prefixes and redirections, keeping
+ * what they say about the run
+ */
+function unwrap(words: string[]): {
+  argv: string[];
+  env: Record<string, string>;
+  stdout: string | null;
+  detached: boolean;
+} {
+  const env: Record<string, string> = {};
+  const argv: string[] = [];
+  let stdout: string | null = null;
+  let detached = false;
+
+  for (let i = 0; i < words.length; i++) {
+    const word = words[i]!;
+    const redirect = word.match(/^(\d*|&)(>>?)(.*)$/);
+    if (redirect) {
+      const target = redirect[3] || words[++i] || "";
+      // 2>&1 and 2>file don't say where stdout goes
+      const fd = redirect[1];
+      if (!target.startsWith("&") && (fd === "" || fd === "1" || fd === "&")) {
+        stdout = target;
+      }
+      continue;
+    }
+    if (word.startsWith("<")) {
+      if (word === "<") i++;
+      continue;
+    }
+    if (argv.length === 0) {
+      const assignment = word.match(/^([A-Za-z_]\w*)=(.*)$/);
+      if (assignment) {
+        env[assignment[1]!] = assignment[2]!;
+        continue;
+      }
+      if (PASSTHROUGH.has(word)) {
+        if (word === "nohup" || word === "setsid") detached = true;
+        continue;
+      }
+    }
+    argv.push(word);
+  }
+  return { argv, env, stdout, detached };
+}
+
+/**
+ * The training script an argv runs, if it runs one
+ */
+function trainingScript(argv: string[]): string | null {
+  const program = argv[0]?.split("/").pop() ?? "";
+  const direct = program.endsWith(".py") ? argv[0]! : null;
+  if (!direct && !LAUNCHERS.test(program)) return null;
+
+  let script = direct;
+  for (let i = 1; !script && i < argv.length; i++) {
+    const arg = argv[i]!;
+    if (arg === "-m" && argv[i + 1]) script = `-m ${argv[i + 1]}`;
+    else if (arg.endsWith(".py")) script = arg;
+  }
+  if (!script) return null;
+  return TRAINING_SCRIPT.test(script.replace(/^-m /, "")) ? script : null;
+}
+
+function runIdFlag(argv: string[]): string | null {
+  for (let i = 0; i < argv.length; i++) {
+    const [flag, value] = argv[i]!.split("=", 2);
+    if (RUN_ID_FLAGS.has(flag!)) return value ?? argv[i + 1] ?? null;
+  }
+  return null;
+}
+
+/**
+ * The training run a shell command starts, or null if it doesn't start one.
+ * Commands that go through `ml-ralph job start` register themselves and
+ * aren't reported.
+ */
+export function parseTrainingCommand(command: string): TrainingCommand | null {
+  const commands = simpleCommands(tokenize(command));
+
+  for (const [index, simple] of commands.entries()) {
+    const { argv, env, stdout, detached } = unwrap(simple.words);
+    if (argv[0]?.endsWith("ml-ralph") && argv[1] === "job") return null;
+
+    const script = trainingScript(argv);
+    if (!script) continue;
+
+    // A pipeline runs in the background when its last command does
+    let last = index;
+    let logPath = stdout;
+    while (commands[last]?.end === "|" && commands[last + 1]) {
+      last++;
+      const next = unwrap(commands[last]!.words).argv;
+      if (next[0] === "tee") {
+        logPath = next.slice(1).find((a) => !a.startsWith("-")) ?? logPath;
+      }
+    }
+
+    return {
+      argv,
+      script,
+      logPath: logPath || null,
+      wandbRunId: env.WANDB_RUN_ID ?? runIdFlag(argv),
+      background: detached || commands[last]?.end === "&",
+    };
+  }
+  return null;
+}
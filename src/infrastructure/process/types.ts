@@ -21,9 +21,10 @@ export interface JobManager {
   stop(pid: number): Promise<boolean>;
 
   /**
-   * Get the exit code of a completed job
+   * Get the exit code of a completed job, from its exit file. Null while it
+   * runs or when it wasn't launched through the supervisor.
    */
-  getExitCode(pid: number): number | null;
+  getExitCode(job: TrainingJob): Promise<number | null>;
 }
 
 export interface LaunchOptions {
@@ -33,4 +34,8 @@ export interface LaunchOptions {
   logPath: string;
   wandbRunId?: string;
   wandbUrl?: string;
+  /** Run under supervise.ts, which records the exit code here */
+  exitFile?: string;
+  /** Added to the current environment */
+  env?: Record<string, string>;
 }
@@ -0,0 +1,114 @@
+/**
+ * Claude Code backend - `claude -p` with stream-json output
+ */
+
+import type { ResultMessage } from "../../claude-client/types.ts";
+import type {
+  AgentBackend,
+  IterationRequest,
+  ParsedLine,
+  StreamEvent,
+  StreamParser,
+} from "./types.ts";
+
+/**
+ * Short description of a tool call for the activity feed
+ */
+function describeToolUse(
+  toolName: string,
+  toolInput: Record<string, unknown>,
+): string {
+  if (toolName === "Bash") {
+    return (
+      (toolInput.description as string) ||
+      (toolInput.command as string)?.slice(0, 50) ||
+      ""
+    );
+  }
+  if (toolName === "Read" || toolName === "Write" || toolName === "Edit") {
+    return toolInput.file_path as string;
+  }
+  if (toolName === "Glob" || toolName === "Grep") {
+    return toolInput.pattern as string;
+  }
+  return "";
+}
+
+/**
+ * Turn a stream-json message into activity feed events
+ */
+function toStreamEvents(event: Record<string, unknown>): StreamEvent[] {
+  const events: StreamEvent[] = [];
+  const message = event.message as Record<string, unknown> | undefined;
+  const content = (message?.content as Array<Record<string, unknown>>) || [];
+
+  if (event.type === "assistant") {
+    for (const block of content) {
+      if (block.type === "text" && block.text) {
+        events.push({ type: "text", content: block.text as string });
+      } else if (block.type === "tool_use") {
+        const toolName = block.name as string;
+        const toolInput = block.input as Record<string, unknown>;
+        events.push({
+          type: "tool_call",
+          content: describeToolUse(toolName, toolInput),
+          toolName,
+          toolInput,
+        });
+      }
+    }
+  } else if (event.type === "user") {
+    for (const block of content) {
+      if (block.type === "tool_result") {
+        const isError = block.is_error as boolean;
+        events.push({
+          type: "tool_result",
+          content: isError ? "failed" : "success",
+          isError,
+        });
+      }
+    }
+  }
+
+  return events;
+}
+
+export const claudeBackend: AgentBackend = {
+  name: "claude",
+
+  buildCommand({ prompt, resumeSessionId }: IterationRequest): string[] {
+    return [
+      "claude",
+      "--dangerously-skip-permissions",
+      ...(resumeSessionId ? ["--resume", resumeSessionId] : []),
+      "-p",
+      prompt,
+      "--output-format",
+      "stream-json",
+    ];
+  },
+
+  createParser(): StreamParser {
+    return {
+      parseLine(line: string): ParsedLine {
+        let event: Record<string, unknown>;
+        try {
+          event = JSON.parse(line);
+        } catch {
+          return { events: [{ type: "text", content: line }] };
+        }
+
+        return {
+          events: toStreamEvents(event),
+          // Every stream message carries the session id
+          sessionId:
+            typeof event.session_id === "string" ? event.session_id : undefined,
+          result:
+            event.type === "result"
+              ? (event as Partial<ResultMessage>)
+              : undefined,
+        };
+      },
+    };
+  },
+};
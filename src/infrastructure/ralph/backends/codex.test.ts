@@ -0,0 +1,101 @@
+/**
+ * Tests for the Codex CLI backend
+ */
+
+import { describe, expect, test } from "bun:test";
+import { codexBackend } from "./codex.ts";
+
+const lines = [
+  { type: "thread.started", thread_id: "thread-1" },
+  { type: "turn.started" },
+  {
+    type: "item.started",
+    item: { id: "i1", type: "command_execution", command: "bash -lc ls" },
+  },
+  {
+    type: "item.completed",
+    item: {
+      id: "i1",
+      type: "command_execution",
+      command: "bash -lc ls",
+      exit_code: 2,
+      status: "completed",
+    },
+  },
+  {
+    type: "item.completed",
+    item: {
+      id: "i2",
+      type: "file_change",
+      changes: [{ path: "train.py", kind: "update" }],
+      status: "completed",
+    },
+  },
+  {
+    type: "item.completed",
+    item: { id: "i3", type: "agent_message", text: "<iteration_complete>" },
+  },
+  {
+    type: "turn.completed",
+    usage: { input_tokens: 1000, cached_input_tokens: 800, output_tokens: 50 },
+  },
+].map((line) => JSON.stringify(line));
+
+describe("codexBackend", () => {
+  test("builds exec and resume commands", () => {
+    expect(
+      codexBackend.buildCommand({ prompt: "go", resumeSessionId: null }),
+    ).toEqual([
+      "codex",
+      "exec",
+      "--json",
+      "--dangerously-bypass-approvals-and-sandbox",
+      "--skip-git-repo-check",
+      "go",
+    ]);
+    expect(
+      codexBackend
+        .buildCommand({ prompt: "go", resumeSessionId: "thread-1" })
+        .slice(-3),
+    ).toEqual(["resume", "thread-1", "go"]);
+  });
+
+  test("maps codex events onto stream events, session and result", () => {
+    const parser = codexBackend.createParser();
+    const parsed = lines.map((line) => parser.parseLine(line));
+
+    expect(parsed[0]?.sessionId).toBe("thread-1");
+    expect(parsed.flatMap((p) => p.events)).toEqual([
+      {
+        type: "tool_call",
+        content: "bash -lc ls",
+        toolName: "Bash",
+        toolInput: { command: "bash -lc ls" },
+      },
+      { type: "tool_result", content: "failed", isError: true },
+      {
+        type: "tool_call",
+        content: "train.py",
+        toolName: "Edit",
+        toolInput: { file_path: "train.py" },
+      },
+      { type: "tool_result", content: "success", isError: false },
+      { type: "text", content: "<iteration_complete>" },
+    ]);
+    expect(parsed.at(-1)?.result).toMatchObject({
+      result: "<iteration_complete>",
+      is_error: false,
+      usage: {
+        input_tokens: 200,
+        output_tokens: 50,
+        cache_read_input_tokens: 800,
+      },
+    });
+  });
+
+  test("passes non-JSON output through as text", () => {
+    expect(codexBackend.createParser().parseLine("warning: foo")).toEqual({
+      events: [{ type: "text", content: "warning: foo" }],
+    });
+  });
+});
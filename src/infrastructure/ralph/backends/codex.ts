@@ -0,0 +1,201 @@
+/**
+ * Codex CLI backend - `codex exec --json`
+ *
+ * Codex prints one JSON event per line: thread.started, item.started /
+ * item.completed for messages, commands, file changes and tool calls, and
+ * turn.completed with token usage. It doesn't report cost.
+ */
+
+import type {
+  AgentBackend,
+  IterationRequest,
+  ParsedLine,
+  StreamEvent,
+  StreamParser,
+} from "./types.ts";
+
+type CodexItem = Record<string, unknown> & { type?: string };
+
+/**
+ * Activity feed events for an item that just started
+ */
+function itemStarted(item: CodexItem): StreamEvent[] {
+  switch (item.type) {
+    case "command_execution": {
+      const command = String(item.command ?? "");
+      return [
+        {
+          type: "tool_call",
+          content: command.slice(0, 50),
+          toolName: "Bash",
+          toolInput: { command },
+        },
+      ];
+    }
+    case "mcp_tool_call":
+      return [
+        {
+          type: "tool_call",
+          content: `${item.server ?? ""}.${item.tool ?? ""}`,
+          toolName: String(item.tool ?? "mcp"),
+        },
+      ];
+    default:
+      return [];
+  }
+}
+
+/**
+ * Activity feed events for an item that finished
+ */
+function itemCompleted(item: CodexItem): StreamEvent[] {
+  const failed = item.status === "failed";
+
+  switch (item.type) {
+    case "agent_message":
+      return item.text ? [{ type: "text", content: String(item.text) }] : [];
+    case "command_execution": {
+      const isError =
+        failed || (typeof item.exit_code === "number" && item.exit_code !== 0);
+      return [
+        {
+          type: "tool_result",
+          content: isError ? "failed" : "success",
+          isError,
+        },
+      ];
+    }
+    case "mcp_tool_call":
+      return [
+        {
+          type: "tool_result",
+          content: failed ? "failed" : "success",
+          isError: failed,
+        },
+      ];
+    case "file_change": {
+      // Reported only once applied, so emit the call and its result together
+      const changes = Array.isArray(item.changes)
+        ? (item.changes as Array<{ path?: string; kind?: string }>)
+        : [];
+      return changes.flatMap((change): StreamEvent[] => [
+        {
+          type: "tool_call",
+          content: change.path ?? "",
+          toolName: change.kind === "add" ? "Write" : "Edit",
+          toolInput: { file_path: change.path },
+        },
+        {
+          type: "tool_result",
+          content: failed ? "failed" : "success",
+          isError: failed,
+        },
+      ]);
+    }
+    case "web_search":
+      return [
+        {
+          type: "tool_call",
+          content: String(item.query ?? ""),
+          toolName: "WebSearch",
+        },
+        { type: "tool_result", content: "success", isError: false },
+      ];
+    case "error":
+      return [
+        { type: "error", content: String(item.message ?? ""), isError: true },
+      ];
+    default:
+      return [];
+  }
+}
+
+export const codexBackend: AgentBackend = {
+  name: "codex",
+
+  buildCommand({ prompt, resumeSessionId }: IterationRequest): string[] {
+    return [
+      "codex",
+      "exec",
+      "--json",
+      "--dangerously-bypass-approvals-and-sandbox",
+      "--skip-git-repo-check",
+      ...(resumeSessionId ? ["resume", resumeSessionId] : []),
+      prompt,
+    ];
+  },
+
+  createParser(): StreamParser {
+    // The iteration's answer is the last agent message before turn.completed
+    let lastMessage = "";
+
+    return {
+      parseLine(line: string): ParsedLine {
+        let event: Record<string, unknown>;
+        try {
+          event = JSON.parse(line);
+        } catch {
+          return { events: [{ type: "text", content: line }] };
+        }
+
+        const item = (event.item ?? {}) as CodexItem;
+
+        switch (event.type) {
+          case "thread.started":
+            return {
+              events: [],
+              sessionId:
+                typeof event.thread_id === "string"
+                  ? event.thread_id
+                  : undefined,
+            };
+          case "item.started":
+            return { events: itemStarted(item) };
+          case "item.completed":
+            if (item.type === "agent_message" && item.text) {
+              lastMessage = String(item.text);
+            }
+            return { events: itemCompleted(item) };
+          case "turn.completed": {
+            const usage = (event.usage ?? {}) as Record<string, number>;
+            const cached = usage.cached_input_tokens ?? 0;
+            return {
+              events: [],
+              result: {
+                type: "result",
+                is_error: false,
+                result: lastMessage,
+                num_turns: 1,
+                usage: {
+                  // Codex counts cached tokens as part of input_tokens
+                  input_tokens: Math.max(0, (usage.input_tokens ?? 0) - cached),
+                  output_tokens: usage.output_tokens ?? 0,
+                  cache_read_input_tokens: cached,
+                },
+              },
+            };
+          }
+          case "turn.failed":
+          case "error": {
+            const error = event.error as { message?: string } | undefined;
+            const message = String(error?.message ?? event.message ?? "");
+            return {
+              events: [{ type: "error", content: message, isError: true }],
+              result:
+                event.type === "turn.failed"
+                  ? {
+                      type: "result",
+                      is_error: true,
+                      result: lastMessage,
+                      error: message,
+                    }
+                  : undefined,
+            };
+          }
+          default:
+            return { events: [] };
+        }
+      },
+    };
+  },
+};
@@ -0,0 +1,30 @@
+/**
+ * Agent backends - Claude Code and Codex CLI
+ */
+
+import type { AgentBackendName } from "../../../domain/types/index.ts";
+import { claudeBackend } from "./claude.ts";
+import { codexBackend } from "./codex.ts";
+import type { AgentBackend } from "./types.ts";
+
+export { claudeBackend } from "./claude.ts";
+export { codexBackend } from "./codex.ts";
+export type {
+  AgentBackend,
+  IterationRequest,
+  ParsedLine,
+  StreamEvent,
+  StreamParser,
+} from "./types.ts";
+
+const BACKENDS: Record<AgentBackendName, AgentBackend> = {
+  claude: claudeBackend,
+  codex: codexBackend,
+};
+
+/**
+ * Backend for a config value, defaulting to claude
+ */
+export function getBackend(name: AgentBackendName | undefined): AgentBackend {
+  return (name && BACKENDS[name]) || claudeBackend;
+}
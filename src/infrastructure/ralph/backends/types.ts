@@ -0,0 +1,49 @@
+/**
+ * Agent backend types - the coding agent CLI that runs each loop iteration
+ */
+
+import type { AgentBackendName } from "../../../domain/types/index.ts";
+import type { ResultMessage } from "../../claude-client/types.ts";
+
+export interface StreamEvent {
+  type: "text" | "tool_call" | "tool_result" | "error" | "iteration_marker";
+  content: string;
+  toolName?: string;
+  toolInput?: Record<string, unknown>;
+  isError?: boolean;
+}
+
+export interface IterationRequest {
+  prompt: string;
+  /** Session to continue instead of starting fresh (for an interrupted iteration) */
+  resumeSessionId: string | null;
+}
+
+/**
+ * What one line of agent output contributed
+ */
+export interface ParsedLine {
+  events: StreamEvent[];
+  /** Set when the line reveals the agent's session id */
+  sessionId?: string;
+  /**
+   * Set on the final line of an iteration. Backends other than claude map
+   * their usage report onto claude's result message shape.
+   */
+  result?: Partial<ResultMessage>;
+}
+
+/**
+ * Parses one iteration's stdout, line by line
+ */
+export interface StreamParser {
+  parseLine(line: string): ParsedLine;
+}
+
+export interface AgentBackend {
+  readonly name: AgentBackendName;
+  /** Command line that runs one iteration in the project directory */
+  buildCommand(request: IterationRequest): string[];
+  /** A fresh parser for one iteration's output */
+  createParser(): StreamParser;
+}
@@ -0,0 +1,48 @@
+/**
+ * Tests for run budgets
+ */
+
+import { describe, expect, test } from "bun:test";
+import { budgetExhausted, budgetLeft, iterationDeadline } from "./budget.ts";
+
+const HOUR = 60 * 60 * 1000;
+
+describe("budgetExhausted", () => {
+  test("stops once spend or run time reaches the limit", () => {
+    const budget = { maxCostUsd: 10, maxHours: 2 };
+
+    expect(budgetExhausted(budget, { costUsd: 9.99, elapsedMs: HOUR })).toBe(
+      null,
+    );
+    expect(budgetExhausted(budget, { costUsd: 10.4, elapsedMs: 0 })).toBe(
+      "Spent $10.40 of the $10.00 budget",
+    );
+    expect(budgetExhausted(budget, { costUsd: 0, elapsedMs: 2 * HOUR })).toBe(
+      "Used the 2h time budget",
+    );
+  });
+
+  test("ignores missing and non-positive limits", () => {
+    const usage = { costUsd: 1000, elapsedMs: 1000 * HOUR };
+    expect(budgetExhausted(undefined, usage)).toBeNull();
+    expect(budgetExhausted({ maxCostUsd: 0 }, usage)).toBeNull();
+    expect(budgetLeft({}, usage)).toEqual({ costUsd: null, ms: null });
+  });
+});
+
+describe("iterationDeadline", () => {
+  test("uses whichever of the per-iteration and run time limits is sooner", () => {
+    const budget = { maxHours: 1, maxIterationMinutes: 30 };
+
+    expect(iterationDeadline(budget, { costUsd: 0, elapsedMs: 0 })).toEqual({
+      ms: 30 * 60_000,
+      reason: "Iteration ran longer than 30m",
+    });
+    expect(
+      iterationDeadline(budget, { costUsd: 0, elapsedMs: 50 * 60_000 }),
+    ).toEqual({ ms: 10 * 60_000, reason: "Used the 1h time budget" });
+    expect(
+      iterationDeadline({ maxCostUsd: 5 }, { costUsd: 0, elapsedMs: 0 }),
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,108 @@
+/**
+ * Run budget - spend and time limits for the agent loop
+ *
+ * Time is wall-clock time since the run started, so pauses and the gap
+ * before a resume count too. Spend is only known once an iteration ends, so
+ * a run can overshoot the cost cap by at most one iteration.
+ */
+
+import type { AgentConfig } from "../../domain/types/index.ts";
+
+export type RunBudget = Pick<
+  AgentConfig,
+  "maxCostUsd" | "maxHours" | "maxIterationMinutes"
+>;
+
+export interface BudgetUsage {
+  costUsd: number;
+  /** Time since the run started */
+  elapsedMs: number;
+}
+
+export interface BudgetLeft {
+  /** null when there is no limit */
+  costUsd: number | null;
+  ms: number | null;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const MINUTE_MS = 60 * 1000;
+
+function limit(value: number | undefined): number | null {
+  return typeof value === "number" && value > 0 ? value : null;
+}
+
+/**
+ * Whether any limit is configured
+ */
+export function hasBudget(budget: RunBudget | undefined): boolean {
+  return (
+    limit(budget?.maxCostUsd) !== null ||
+    limit(budget?.maxHours) !== null ||
+    limit(budget?.maxIterationMinutes) !== null
+  );
+}
+
+/**
+ * Spend and time left for the run
+ */
+export function budgetLeft(
+  budget: RunBudget | undefined,
+  usage: BudgetUsage,
+): BudgetLeft {
+  const maxCost = limit(budget?.maxCostUsd);
+  const maxHours = limit(budget?.maxHours);
+  return {
+    costUsd: maxCost === null ? null : Math.max(0, maxCost - usage.costUsd),
+    ms:
+      maxHours === null
+        ? null
+        : Math.max(0, maxHours * HOUR_MS - usage.elapsedMs),
+  };
+}
+
+/**
+ * Why the run has to stop, or null if there is budget left
+ */
+export function budgetExhausted(
+  budget: RunBudget | undefined,
+  usage: BudgetUsage,
+): string | null {
+  const left = budgetLeft(budget, usage);
+  if (left.costUsd === 0) {
+    return `Spent $${usage.costUsd.toFixed(2)} of the $${budget?.maxCostUsd?.toFixed(2)} budget`;
+  }
+  if (left.ms === 0) {
+    return `Used the ${budget?.maxHours}h time budget`;
+  }
+  return null;
+}
+
+/**
+ * How long the next iteration may run before it is killed, and the reason
+ * to give if it is. null when neither time limit applies.
+ */
+export function iterationDeadline(
+  budget: RunBudget | undefined,
+  usage: BudgetUsage,
+): { ms: number; reason: string } | null {
+  const maxMinutes = limit(budget?.maxIterationMinutes);
+  const timeLeft = budgetLeft(budget, usage).ms;
+
+  if (
+    maxMinutes !== null &&
+    (timeLeft === null || maxMinutes * MINUTE_MS <= timeLeft)
+  ) {
+    return {
+      ms: maxMinutes * MINUTE_MS,
+      reason: `Iteration ran longer than ${maxMinutes}m`,
+    };
+  }
+  if (timeLeft !== null) {
+    return {
+      ms: timeLeft,
+      reason: `Used the ${budget?.maxHours}h time budget`,
+    };
+  }
+  return null;
+}
@@ -0,0 +1,78 @@
+/**
+ * Tests for log event validation
+ */
+
+import { describe, expect, test } from "bun:test";
+import {
+  EVENT_SCHEMAS,
+  lintLogContent,
+  validateEvent,
+} from "./event-schema.ts";
+import { RALPH_MD } from "./templates.ts";
+
+const TS = "2024-01-28T10:00:00Z";
+
+describe("validateEvent", () => {
+  test("accepts every example event in RALPH.md", () => {
+    const examples = RALPH_MD.split("\n")
+      .filter((line) => line.startsWith('{"ts":"..."'))
+      .map((line) => ({ ...JSON.parse(line), ts: TS }));
+
+    const types = new Set(examples.map((e) => e.type));
+    expect(types).toEqual(new Set(Object.keys(EVENT_SCHEMAS)));
+
+    for (const example of examples) {
+      expect({ type: example.type, ...validateEvent(example) }).toEqual({
+        type: example.type,
+        valid: true,
+        errors: [],
+      });
+    }
+  });
+
+  test("reports missing fields, bad enums and non-numeric metrics", () => {
+    const result = validateEvent({
+      ts: TS,
+      type: "experiment",
+      metrics: { auc: 0.8, f1: "0.7" },
+      observations: "ok",
+    });
+    expect(result.errors.map((e) => e.message)).toEqual([
+      "hypothesis_id is required",
+      "metrics.f1 must be a number",
+    ]);
+
+    expect(
+      validateEvent({
+        ts: TS,
+        type: "decision",
+        hypothesis_id: "H-001",
+        action: "ship",
+        reason: "done",
+      }).errors[0]?.message,
+    ).toBe("action must be one of keep, reject, iterate, pivot");
+  });
+
+  test("rejects unknown types and missing timestamps", () => {
+    expect(validateEvent({ type: "vibes" }).errors.map((e) => e.field)).toEqual(
+      ["ts", "type"],
+    );
+  });
+});
+
+describe("lintLogContent", () => {
+  test("reports bad lines with 1-based line numbers", () => {
+    const content = [
+      JSON.stringify({ ts: TS, type: "learning", insight: "fine" }),
+      "",
+      "{not json",
+      JSON.stringify({ ts: TS, type: "learning" }),
+    ].join("\n");
+
+    const issues = lintLogContent(content);
+    expect(issues.map((i) => [i.line, i.type])).toEqual([
+      [3, null],
+      [4, "learning"],
+    ]);
+  });
+});
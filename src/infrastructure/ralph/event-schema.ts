@@ -0,0 +1,287 @@
+/**
+ * Event schema - runtime validation of log.jsonl events
+ *
+ * One schema per event type in RALPH.md's Event Reference table. Fields the
+ * table lists are required unless the event interface in templates.ts marks
+ * them optional; optional fields are type-checked when present.
+ */
+
+import type {
+  ValidationError,
+  ValidationResult,
+} from "../../domain/validation/index.ts";
+import type { RalphEvent } from "./templates.ts";
+
+type FieldType =
+  | "string"
+  | "number"
+  | "string[]"
+  | "number-record" // { [name]: number }
+  | "object"
+  | "array"
+  | { enum: readonly string[] };
+
+interface FieldSpec {
+  type: FieldType;
+  optional?: boolean;
+}
+
+type EventSchema = Record<string, FieldSpec>;
+
+const required = (type: FieldType): FieldSpec => ({ type });
+const optional = (type: FieldType): FieldSpec => ({ type, optional: true });
+
+export const EVENT_SCHEMAS: Record<string, EventSchema> = {
+  phase: {
+    phase: required({
+      enum: ["UNDERSTAND", "STRATEGIZE", "EXECUTE", "REFLECT"],
+    }),
+    summary: required("string"),
+  },
+  thinking: {
+    subject: required("string"),
+    thoughts: required("string"),
+    conclusion: required("string"),
+  },
+  mental_model: {
+    domain: required("string"),
+    belief: required("string"),
+    confidence: required({ enum: ["high", "medium", "low"] }),
+    evidence: required("string[]"),
+  },
+  research: {
+    source: required("string"),
+    key_insights: optional("string[]"),
+    insight: optional("string"),
+    relevance: optional("string"),
+    url: optional("string"),
+  },
+  path_analysis: {
+    paths: required("array"),
+    chosen: required("string"),
+    rationale: required("string"),
+  },
+  hypothesis: {
+    id: required("string"),
+    hypothesis: required("string"),
+    expected: optional("string"),
+    rationale: optional("string"),
+  },
+  experiment: {
+    hypothesis_id: required("string"),
+    metrics: required("number-record"),
+    observations: required("string"),
+    name: optional("string"),
+    wandb_run_id: optional("string"),
+    wandb_url: optional("string"),
+    config: optional("object"),
+    surprises: optional("string"),
+  },
+  learning: {
+    insight: required("string"),
+    source: optional("string"),
+  },
+  decision: {
+    hypothesis_id: required("string"),
+    action: required({ enum: ["keep", "reject", "iterate", "pivot"] }),
+    reason: required("string"),
+    next_step: optional("string"),
+  },
+  strategic_retreat: {
+    trigger: required("string"),
+    action: required("string"),
+    focus: required("string"),
+  },
+  prd_updated: {
+    field: required("string"),
+    change: required("string"),
+    reason: required("string"),
+  },
+  kanban_updated: {
+    changes: required("string"),
+    reason: required("string"),
+  },
+  status: {
+    status: required({ enum: ["running", "paused", "stopped", "complete"] }),
+    reason: optional("string"),
+  },
+  data_verified: {
+    dataset: required("string"),
+    checks: required("object"),
+    issues: required("string[]"),
+    action: required("string"),
+  },
+  result_verification: {
+    result: required("string"),
+    verification_attempts: required("array"),
+    conclusion: required("string"),
+  },
+  success_verified: {
+    criteria_met: required("string[]"),
+    verification_checks: required("string[]"),
+    attempts_to_break: required("string[]"),
+    conclusion: optional("string"),
+  },
+  iteration_reverted: {
+    iteration: required("number"),
+    files: required("string[]"),
+    reason: required("string"),
+  },
+  completion_refused: {
+    unmet: required("string[]"),
+    reason: required("string"),
+  },
+  training_alert: {
+    job_id: required("string"),
+    issue: required({
+      enum: ["nan", "divergence", "overfitting", "plateau"],
+    }),
+    metric: required("string"),
+    detail: required("string"),
+    action: required({ enum: ["stopped", "flagged"] }),
+  },
+};
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Describe why value doesn't match the type, or null if it does
+ */
+function checkType(value: unknown, type: FieldType): string | null {
+  if (typeof type === "object") {
+    return typeof value === "string" && type.enum.includes(value)
+      ? null
+      : `must be one of ${type.enum.join(", ")}`;
+  }
+
+  switch (type) {
+    case "string":
+      return typeof value === "string" ? null : "must be a string";
+    case "number":
+      return typeof value === "number" ? null : "must be a number";
+    case "string[]":
+      return Array.isArray(value) && value.every((v) => typeof v === "string")
+        ? null
+        : "must be an array of strings";
+    case "array":
+      return Array.isArray(value) ? null : "must be an array";
+    case "object":
+      return isPlainObject(value) ? null : "must be an object";
+    case "number-record": {
+      if (!isPlainObject(value)) return "must be an object of numbers";
+      const bad = Object.entries(value).find(([, v]) => typeof v !== "number");
+      return bad ? `.${bad[0]} must be a number` : null;
+    }
+  }
+}
+
+/**
+ * Validate a parsed log event against the schema for its type
+ */
+export function validateEvent(value: unknown): ValidationResult {
+  const errors: ValidationError[] = [];
+
+  if (!isPlainObject(value)) {
+    return {
+      valid: false,
+      errors: [{ field: "", message: "Event must be a JSON object" }],
+    };
+  }
+
+  if (typeof value.ts !== "string" || Number.isNaN(Date.parse(value.ts))) {
+    errors.push({ field: "ts", message: "ts must be an ISO timestamp" });
+  }
+
+  const schema =
+    typeof value.type === "string" ? EVENT_SCHEMAS[value.type] : undefined;
+  if (!schema) {
+    errors.push({
+      field: "type",
+      message: `Unknown event type: ${JSON.stringify(value.type)}`,
+    });
+    return { valid: false, errors };
+  }
+
+  for (const [field, spec] of Object.entries(schema)) {
+    const fieldValue = value[field];
+    if (fieldValue === undefined || fieldValue === null) {
+      if (!spec.optional) {
+        errors.push({ field, message: `${field} is required` });
+      }
+      continue;
+    }
+    const problem = checkType(fieldValue, spec.type);
+    if (problem) {
+      errors.push({
+        field,
+        message: problem.startsWith(".")
+          ? `${field}${problem}`
+          : `${field} ${problem}`,
+      });
+    }
+  }
+
+  return { valid: errors.length === 0, errors };
+}
+
+export interface LogLintIssue {
+  line: number; // 1-based line number in log.jsonl
+  type: string | null; // Event type, if the line parsed
+  errors: ValidationError[];
+  text: string;
+}
+
+/**
+ * Parse and validate one log line. Blank lines are neither events nor issues.
+ */
+export function lintLine(
+  text: string,
+  line: number,
+): { event: RalphEvent | null; issue: LogLintIssue | null } {
+  const trimmed = text.trim();
+  if (!trimmed) return { event: null, issue: null };
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(trimmed);
+  } catch {
+    return {
+      event: null,
+      issue: {
+        line,
+        type: null,
+        errors: [{ field: "", message: "Invalid JSON" }],
+        text: trimmed,
+      },
+    };
+  }
+
+  const result = validateEvent(parsed);
+  if (result.valid) {
+    return { event: parsed as RalphEvent, issue: null };
+  }
+  const type = isPlainObject(parsed) ? parsed.type : null;
+  return {
+    event: null,
+    issue: {
+      line,
+      type: typeof type === "string" ? type : null,
+      errors: result.errors,
+      text: trimmed,
+    },
+  };
+}
+
+/**
+ * Lint the full contents of a log.jsonl file
+ */
+export function lintLogContent(content: string): LogLintIssue[] {
+  const issues: LogLintIssue[] = [];
+  content.split("\n").forEach((text, index) => {
+    const { issue } = lintLine(text, index + 1);
+    if (issue) issues.push(issue);
+  });
+  return issues;
+}
@@ -0,0 +1,119 @@
+/**
+ * Tests for experiment comparison and its markdown export
+ */
+
+import { describe, expect, test } from "bun:test";
+import {
+  compareExperiments,
+  comparisonMarkdown,
+  metricDirection,
+} from "./experiment-comparison.ts";
+import type { ExperimentEvent } from "./templates.ts";
+
+function experiment(
+  name: string,
+  ts: string,
+  config: Record<string, unknown>,
+  metrics: Record<string, number>,
+): ExperimentEvent {
+  return {
+    ts,
+    type: "experiment",
+    name,
+    hypothesis_id: "H-001",
+    config,
+    metrics,
+  };
+}
+
+const baseline = experiment(
+  "baseline",
+  "2026-01-26T10:00:00Z",
+  { lr: 0.1, batch: 32, model: "gbm" },
+  { auc: 0.8, val_loss: 0.5 },
+);
+const tuned = experiment(
+  "tuned",
+  "2026-01-27T10:00:00Z",
+  { lr: 0.01, batch: 32, model: "gbm", depth: 6 },
+  { auc: 0.88, val_loss: 0.6, train_time: 120 },
+);
+
+describe("metricDirection", () => {
+  test("treats losses, errors and times as lower-is-better", () => {
+    expect(metricDirection("val_loss")).toBe("lower");
+    expect(metricDirection("rmse")).toBe("lower");
+    expect(metricDirection("inference_time_ms")).toBe("lower");
+    expect(metricDirection("auc_roc")).toBe("higher");
+    expect(metricDirection("f1")).toBe("higher");
+  });
+
+  test("matches whole name parts", () => {
+    expect(metricDirection("eval/wer")).toBe("lower");
+    expect(metricDirection("inferenceTime")).toBe("lower");
+    expect(metricDirection("nllloss")).toBe("lower");
+    expect(metricDirection("answer_accuracy")).toBe("higher");
+    expect(metricDirection("cancer_recall")).toBe("higher");
+    expect(metricDirection("timeliness")).toBe("higher");
+  });
+});
+
+describe("compareExperiments", () => {
+  test("uses the oldest experiment as the baseline", () => {
+    const comparison = compareExperiments([tuned, baseline]);
+    expect(comparison.experiments.map((e) => e.name)).toEqual([
+      "baseline",
+      "tuned",
+    ]);
+  });
+
+  test("lists only config keys that differ", () => {
+    const { config } = compareExperiments([baseline, tuned]);
+    expect(config).toEqual([
+      { key: "lr", values: ["0.1", "0.01"] },
+      { key: "depth", values: [null, "6"] },
+    ]);
+  });
+
+  test("scores metric deltas by direction", () => {
+    const { metrics } = compareExperiments([baseline, tuned]);
+    const byKey = Object.fromEntries(metrics.map((m) => [m.key, m]));
+
+    expect(byKey.auc?.deltas[1]).toBeCloseTo(0.08);
+    expect(byKey.auc?.verdicts).toEqual([null, "better"]);
+    expect(byKey.val_loss?.verdicts).toEqual([null, "worse"]);
+    expect(byKey.train_time?.values).toEqual([null, 120]);
+    expect(byKey.train_time?.verdicts).toEqual([null, null]);
+  });
+});
+
+describe("comparisonMarkdown", () => {
+  test("renders config and metric tables", () => {
+    const markdown = comparisonMarkdown(compareExperiments([baseline, tuned]));
+
+    expect(markdown).toContain("# Experiment comparison: baseline vs tuned");
+    expect(markdown).toContain("| lr | `0.1` | `0.01` |");
+    expect(markdown).toContain("| depth | — | `6` |");
+    expect(markdown).toContain(
+      "| auc (↑) | 0.8000 | 0.8800 (+0.0800, +10.0%) ✅ |",
+    );
+    expect(markdown).toContain(
+      "| val_loss (↓) | 0.5000 | 0.6000 (+0.1000, +20.0%) ❌ |",
+    );
+    expect(markdown).not.toContain("## Training curves");
+  });
+
+  test("summarizes training curves the experiments share", () => {
+    const history = (losses: number[]) =>
+      losses.map((loss, step) => ({ _step: step, train_loss: loss }));
+    const markdown = comparisonMarkdown(compareExperiments([baseline, tuned]), [
+      history([1, 0.6, 0.4]),
+      history([1, 0.5, 0.3, 0.2]),
+    ]);
+
+    expect(markdown).toContain("## Training curves");
+    expect(markdown).toContain(
+      "| train_loss | final 0.4000, min 0.4000 (3 steps) | final 0.2000, min 0.2000 (4 steps) |",
+    );
+  });
+});
@@ -0,0 +1,312 @@
+/**
+ * Experiment comparison - config and metric differences between experiments
+ *
+ * The first experiment (the oldest) is the baseline; every other one is
+ * compared against it. Comparisons can be exported as markdown to
+ * .ml-ralph/comparisons/.
+ */
+
+import { mkdir } from "node:fs/promises";
+import {
+  getCurveKeys,
+  getMetricSeries,
+  type WandBHistoryRow,
+} from "../wandb/index.ts";
+import type { ExperimentEvent } from "./templates.ts";
+
+/** Whether a bigger value of the metric is an improvement */
+export type MetricDirection = "higher" | "lower";
+
+export type MetricVerdict = "better" | "worse" | "same";
+
+export interface ConfigDiffRow {
+  key: string;
+  /** One per experiment; null when the experiment doesn't set the key */
+  values: (string | null)[];
+}
+
+export interface MetricDiffRow {
+  key: string;
+  direction: MetricDirection;
+  /** One per experiment; null when the experiment didn't report the metric */
+  values: (number | null)[];
+  /** Change from the baseline (null for the baseline itself) */
+  deltas: (number | null)[];
+  verdicts: (MetricVerdict | null)[];
+}
+
+export interface ExperimentComparison {
+  /** Oldest first; the first one is the baseline */
+  experiments: ExperimentEvent[];
+  /** Config keys whose values differ between the experiments */
+  config: ConfigDiffRow[];
+  /** Every metric any of the experiments reported */
+  metrics: MetricDiffRow[];
+}
+
+// Name parts of metrics where smaller is better; everything else is
+// assumed to be a score
+const LOWER_IS_BETTER = new Set([
+  "loss",
+  "error",
+  "err",
+  "mse",
+  "mae",
+  "rmse",
+  "perplexity",
+  "ppl",
+  "wer",
+  "cer",
+  "latency",
+  "time",
+  "runtime",
+  "duration",
+  "fpr",
+  "fnr",
+]);
+
+/**
+ * Key an experiment is marked by; stable as new experiments are logged
+ */
+export function experimentKey(experiment: ExperimentEvent): string {
+  return `${experiment.hypothesis_id}@${experiment.ts}`;
+}
+
+/**
+ * Whether a metric should go down, judged from the parts of its name
+ * (val_loss, eval/wer, inferenceTime) so answer_accuracy isn't read as err
+ */
+export function metricDirection(key: string): MetricDirection {
+  const parts = key
+    .replace(/([a-z0-9])([A-Z])/g, "$1_$2")
+    .toLowerCase()
+    .split(/[^a-z0-9]+/);
+  return parts.some((part) => LOWER_IS_BETTER.has(part) || /loss$/.test(part))
+    ? "lower"
+    : "higher";
+}
+
+function formatConfigValue(value: unknown): string | null {
+  if (value === undefined) return null;
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+function verdict(delta: number, direction: MetricDirection): MetricVerdict {
+  if (delta === 0) return "same";
+  return delta > 0 === (direction === "higher") ? "better" : "worse";
+}
+
+/**
+ * Compare experiments against the oldest of them
+ */
+export function compareExperiments(
+  experiments: ExperimentEvent[],
+): ExperimentComparison {
+  const sorted = [...experiments].sort(
+    (a, b) => Date.parse(a.ts) - Date.parse(b.ts),
+  );
+
+  const configKeys = new Set<string>();
+  const metricKeys = new Set<string>();
+  for (const experiment of sorted) {
+    for (const key of Object.keys(experiment.config ?? {})) configKeys.add(key);
+    for (const key of Object.keys(experiment.metrics ?? {}))
+      metricKeys.add(key);
+  }
+
+  const config: ConfigDiffRow[] = [];
+  for (const key of configKeys) {
+    const values = sorted.map((e) => formatConfigValue(e.config?.[key]));
+    if (new Set(values).size > 1) config.push({ key, values });
+  }
+
+  const metrics = Array.from(metricKeys, (key): MetricDiffRow => {
+    const direction = metricDirection(key);
+    const values = sorted.map((e) => {
+      const value = e.metrics?.[key];
+      return typeof value === "number" && Number.isFinite(value) ? value : null;
+    });
+    const base = values[0] ?? null;
+    const deltas = values.map((value, i) =>
+      i === 0 || value === null || base === null ? null : value - base,
+    );
+    return {
+      key,
+      direction,
+      values,
+      deltas,
+      verdicts: deltas.map((delta) =>
+        delta === null ? null : verdict(delta, direction),
+      ),
+    };
+  });
+
+  return { experiments: sorted, config, metrics };
+}
+
+/**
+ * Loss-like curve keys that every given history has, train loss first
+ */
+export function sharedCurveKeys(histories: WandBHistoryRow[][]): string[] {
+  const [first, ...rest] = histories;
+  if (!first) return [];
+  return getCurveKeys(first).filter((key) =>
+    rest.every((history) => getMetricSeries(history, key).length >= 2),
+  );
+}
+
+function formatNumber(value: number): string {
+  if (Number.isInteger(value)) return String(value);
+  const abs = Math.abs(value);
+  if (abs !== 0 && (abs < 0.001 || abs >= 1e6)) return value.toExponential(3);
+  return value.toFixed(4);
+}
+
+function formatDelta(delta: number, base: number | null): string {
+  const sign = delta > 0 ? "+" : "";
+  const percent =
+    base !== null && base !== 0
+      ? `, ${sign}${((delta / Math.abs(base)) * 100).toFixed(1)}%`
+      : "";
+  return `${sign}${formatNumber(delta)}${percent}`;
+}
+
+function escapeCell(text: string): string {
+  return text.replace(/\|/g, "\\|").replace(/\n/g, " ");
+}
+
+function table(header: string[], rows: string[][]): string[] {
+  return [
+    `| ${header.map(escapeCell).join(" | ")} |`,
+    `| ${header.map(() => "---").join(" | ")} |`,
+    ...rows.map((row) => `| ${row.map(escapeCell).join(" | ")} |`),
+  ];
+}
+
+/**
+ * The comparison as a markdown document. `histories` holds each
+ * experiment's training history (same order as comparison.experiments),
+ * when its wandb run is available locally.
+ */
+export function comparisonMarkdown(
+  comparison: ExperimentComparison,
+  histories: (WandBHistoryRow[] | null)[] = [],
+): string {
+  const { experiments } = comparison;
+  const names = experiments.map((e) => e.name || e.hypothesis_id);
+  const lines: string[] = [
+    `# Experiment comparison: ${names.join(" vs ")}`,
+    "",
+    `Baseline: **${names[0] ?? ""}**. Deltas are against the baseline.`,
+    "",
+    ...table(
+      ["Experiment", "Hypothesis", "Logged", "wandb"],
+      experiments.map((e, i) => [
+        names[i] ?? "",
+        e.hypothesis_id,
+        e.ts,
+        e.wandb_url ?? e.wandb_run_id ?? "",
+      ]),
+    ),
+    "",
+    "## Config differences",
+    "",
+  ];
+
+  if (comparison.config.length === 0) {
+    lines.push("The experiments use the same config.", "");
+  } else {
+    lines.push(
+      ...table(
+        ["Key", ...names],
+        comparison.config.map((row) => [
+          row.key,
+          ...row.values.map((value) => (value === null ? "—" : `\`${value}\``)),
+        ]),
+      ),
+      "",
+    );
+  }
+
+  lines.push("## Metrics", "");
+  if (comparison.metrics.length === 0) {
+    lines.push("No metrics were logged.", "");
+  } else {
+    lines.push(
+      ...table(
+        ["Metric", ...names],
+        comparison.metrics.map((row) => [
+          `${row.key} (${row.direction === "higher" ? "↑" : "↓"})`,
+          ...row.values.map((value, i) => {
+            if (value === null) return "—";
+            const delta = row.deltas[i];
+            if (delta === null || delta === undefined)
+              return formatNumber(value);
+            const mark =
+              row.verdicts[i] === "better"
+                ? " ✅"
+                : row.verdicts[i] === "worse"
+                  ? " ❌"
+                  : "";
+            return `${formatNumber(value)} (${formatDelta(delta, row.values[0] ?? null)})${mark}`;
+          }),
+        ]),
+      ),
+      "",
+    );
+  }
+
+  const available = histories.filter(
+    (history): history is WandBHistoryRow[] => (history?.length ?? 0) > 0,
+  );
+  const curveKeys = sharedCurveKeys(available);
+  if (available.length >= 2 && curveKeys.length > 0) {
+    lines.push("## Training curves", "");
+    lines.push(
+      ...table(
+        ["Curve", ...names],
+        curveKeys.map((key) => [
+          key,
+          ...experiments.map((_, i) => {
+            const series = getMetricSeries(histories[i] ?? [], key);
+            const last = series[series.length - 1];
+            if (last === undefined) return "—";
+            return `final ${formatNumber(last)}, min ${formatNumber(Math.min(...series))} (${series.length} steps)`;
+          }),
+        ]),
+      ),
+      "",
+    );
+  }
+
+  for (const [i, experiment] of experiments.entries()) {
+    if (!experiment.observations && !experiment.surprises) continue;
+    lines.push(`### ${names[i]}`, "");
+    if (experiment.observations) lines.push(experiment.observations, "");
+    if (experiment.surprises) {
+      lines.push(`Surprises: ${experiment.surprises}`, "");
+    }
+  }
+
+  return `${lines.join("\n").trimEnd()}\n`;
+}
+
+/**
+ * Write a comparison to .ml-ralph/comparisons/. Returns the file's path,
+ * or null if it couldn't be written.
+ */
+export async function writeComparisonMarkdown(
+  projectPath: string,
+  markdown: string,
+): Promise<string | null> {
+  const dir = `${projectPath}/.ml-ralph/comparisons`;
+  const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+  const path = `${dir}/${stamp}.md`;
+  try {
+    await mkdir(dir, { recursive: true });
+    await Bun.write(path, markdown);
+    return path;
+  } catch {
+    return null;
+  }
+}
@@ -6,17 +6,83 @@ export { initRalph, isInitialized, ensureInitialized } from "./init.ts";
 export type { InitOptions, InitResult } from "./init.ts";
 
 export { RalphRunner, createRunner } from "./runner.ts";
-export type { RunnerConfig, StreamEvent } from "./runner.ts";
+export type { RunnerConfig, StreamEvent, CompleteReason } from "./runner.ts";
+
+export { claudeBackend, codexBackend, getBackend } from "./backends/index.ts";
+export type { AgentBackend, IterationRequest, ParsedLine, StreamParser } from "./backends/index.ts";
+
+export { hasBudget, budgetLeft, budgetExhausted, iterationDeadline } from "./budget.ts";
+export type { RunBudget, BudgetUsage, BudgetLeft } from "./budget.ts";
+
+export { readRunnerState, writeRunnerState, isResumable } from "./runner-state.ts";
+export type { RunnerState } from "./runner-state.ts";
+
+export {
+  iterationStatsFromResult,
+  appendIterationStats,
+  readIterationStats,
+  sumIterationStats,
+  costByHypothesis,
+} from "./iteration-stats.ts";
+export type { IterationStats, IterationTotals, HypothesisCost } from "./iteration-stats.ts";
+
+export {
+  snapshotRef,
+  appendIterationSnapshot,
+  readIterationSnapshots,
+  revertIteration,
+} from "./iteration-snapshots.ts";
+export type { IterationSnapshot } from "./iteration-snapshots.ts";
+
+export {
+  experimentKey,
+  metricDirection,
+  compareExperiments,
+  sharedCurveKeys,
+  comparisonMarkdown,
+  writeComparisonMarkdown,
+} from "./experiment-comparison.ts";
+export type {
+  ExperimentComparison,
+  ConfigDiffRow,
+  MetricDiffRow,
+  MetricDirection,
+  MetricVerdict,
+} from "./experiment-comparison.ts";
+
+export {
+  parseCriterion,
+  toMetricCriterion,
+  criterionLabel,
+  matchingMetricKeys,
+  evaluateCriterion,
+  evaluateCriteria,
+  unmetMustCriteria,
+} from "./success-criteria.ts";
+export type { CriterionBest, CriterionProgress } from "./success-criteria.ts";
 
 export {
   readLogFile,
   readPrdFile,
   readKanbanFile,
   aggregateEvents,
-  watchLogFile,
-  appendEvent,
+  LogAggregator,
 } from "./log-parser.ts";
-export type { HypothesisWithStatus, PrdChange, LogSummary, Kanban, KanbanTask, CompletedTask, AbandonedTask } from "./log-parser.ts";
+export type { HypothesisWithStatus, PrdChange, LogSummary, DatasetVerification, MentalModel, Kanban, KanbanTask, CompletedTask, AbandonedTask } from "./log-parser.ts";
+
+export {
+  validateEvent,
+  lintLine,
+  lintLogContent,
+  EVENT_SCHEMAS,
+} from "./event-schema.ts";
+export type { LogLintIssue } from "./event-schema.ts";
+
+export { LogTailer, getLogTailer, watchLogFile } from "./log-tailer.ts";
+export type { LogTailerOptions } from "./log-tailer.ts";
+
+export { appendEvent, appendEvents, withLogLock, quarantineTrailingLine } from "./log-writer.ts";
+export type { LogLockOptions, QuarantinedLine } from "./log-writer.ts";
 
 export type {
   RalphEvent,
@@ -29,4 +95,21 @@ export type {
   DecisionEvent,
   PrdUpdatedEvent,
   StatusEvent,
+  DataCheck,
+  DataVerifiedEvent,
+  VerificationAttempt,
+  ResultVerificationEvent,
+  SuccessVerifiedEvent,
+  ThinkingEvent,
+  MentalModelEvent,
+  PathAnalysisEvent,
+  StrategicRetreatEvent,
+  IterationRevertedEvent,
+  CompletionRefusedEvent,
+  TrainingAlertEvent,
+  MetricCriterion,
+  CriterionComparator,
+  CriterionSplit,
+  CriterionPriority,
+  SuccessCriterionEntry,
 } from "./templates.ts";
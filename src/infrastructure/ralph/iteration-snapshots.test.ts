@@ -0,0 +1,67 @@
+/**
+ * Tests for the per-iteration snapshot record
+ */
+
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdir, mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  appendIterationSnapshot,
+  type IterationSnapshot,
+  readIterationSnapshots,
+  snapshotRef,
+} from "./iteration-snapshots.ts";
+
+let project: string;
+
+function snapshot(iteration: number): IterationSnapshot {
+  return {
+    iteration,
+    runStartedAt: "2024-01-28T10:00:00.000Z",
+    before: `before-${iteration}`,
+    after: `after-${iteration}`,
+    files: [
+      { path: "train.py", status: "modified", additions: 1, deletions: 1 },
+    ],
+    takenAt: "2024-01-28T10:05:00.000Z",
+  };
+}
+
+beforeEach(async () => {
+  project = await mkdtemp(join(tmpdir(), "ml-ralph-snapshots-"));
+  await mkdir(join(project, ".ml-ralph"));
+});
+
+afterEach(async () => {
+  await rm(project, { recursive: true, force: true });
+});
+
+describe("snapshotRef", () => {
+  test("turns the run timestamp into a valid ref name", () => {
+    expect(snapshotRef("2024-01-28T10:00:00.000Z", 3, "before")).toBe(
+      "refs/ml-ralph/2024-01-28T10-00-00-000Z/3/before",
+    );
+  });
+});
+
+describe("readIterationSnapshots", () => {
+  test("keeps iteration order and lets a later line update an iteration", async () => {
+    await appendIterationSnapshot(project, snapshot(1));
+    await appendIterationSnapshot(project, snapshot(2));
+    await appendIterationSnapshot(project, {
+      ...snapshot(1),
+      revertedAt: "2024-01-28T11:00:00.000Z",
+    });
+
+    const snapshots = await readIterationSnapshots(project);
+    expect(snapshots.map((s) => [s.iteration, s.revertedAt])).toEqual([
+      [1, "2024-01-28T11:00:00.000Z"],
+      [2, undefined],
+    ]);
+  });
+
+  test("returns nothing when no iteration was recorded", async () => {
+    expect(await readIterationSnapshots(project)).toEqual([]);
+  });
+});
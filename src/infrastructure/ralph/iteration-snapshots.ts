@@ -0,0 +1,135 @@
+/**
+ * Iteration snapshots - the project's files before and after each iteration
+ *
+ * Both sides are git commits under refs/ml-ralph/ (see git/work-tree.ts),
+ * so they never show up on a branch or in `git stash list`. One line per
+ * iteration in .ml-ralph/snapshots.jsonl; a revert appends the same
+ * iteration again with revertedAt set, and the last line wins.
+ */
+
+import { appendFile } from "node:fs/promises";
+import {
+  type FileChange,
+  type RevertResult,
+  revertChanges,
+} from "../git/index.ts";
+import { appendEvent } from "./log-writer.ts";
+
+export interface IterationSnapshot {
+  iteration: number;
+  /** startedAt of the run this iteration belongs to (see runner.json) */
+  runStartedAt: string;
+  /** Snapshot commits taken just before and just after the iteration */
+  before: string;
+  after: string;
+  files: FileChange[];
+  takenAt: string;
+  /** Set once the iteration's changes were rolled back */
+  revertedAt?: string;
+}
+
+function snapshotsPath(projectPath: string): string {
+  return `${projectPath}/.ml-ralph/snapshots.jsonl`;
+}
+
+/**
+ * Ref a snapshot is kept under, e.g.
+ * refs/ml-ralph/2026-01-01T10-00-00-000Z/3/before. Parallel workers share
+ * the repository's refs, so their runs also carry the worker id.
+ */
+export function snapshotRef(
+  runStartedAt: string,
+  iteration: number,
+  side: "before" | "after",
+  workerId?: string,
+): string {
+  const run = runStartedAt.replace(/[^0-9A-Za-z]/g, "-");
+  const owner = workerId ? `${run}-${workerId}` : run;
+  return `refs/ml-ralph/${owner}/${iteration}/${side}`;
+}
+
+/**
+ * Append one iteration's snapshot to snapshots.jsonl
+ */
+export async function appendIterationSnapshot(
+  projectPath: string,
+  snapshot: IterationSnapshot,
+): Promise<boolean> {
+  try {
+    await appendFile(
+      snapshotsPath(projectPath),
+      `${JSON.stringify(snapshot)}\n`,
+    );
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Read all recorded iterations, oldest first. Later lines for the same
+ * run and iteration replace earlier ones.
+ */
+export async function readIterationSnapshots(
+  projectPath: string,
+): Promise<IterationSnapshot[]> {
+  try {
+    const file = Bun.file(snapshotsPath(projectPath));
+    if (!(await file.exists())) return [];
+
+    const byKey = new Map<string, IterationSnapshot>();
+    for (const line of (await file.text()).split("\n")) {
+      if (!line.trim()) continue;
+      try {
+        const snapshot = JSON.parse(line) as IterationSnapshot;
+        const key = `${snapshot.runStartedAt}#${snapshot.iteration}`;
+        // Map keeps the first insertion's position for a rewritten key
+        byKey.set(key, snapshot);
+      } catch {
+        // Skip partial or malformed lines
+      }
+    }
+    return [...byKey.values()];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Roll back the files an iteration changed and record it in the log as an
+ * iteration_reverted event. Fails without touching anything if a file was
+ * changed again since in a way that conflicts.
+ */
+export async function revertIteration(
+  projectPath: string,
+  snapshot: IterationSnapshot,
+  reason = "Reverted by the user",
+): Promise<RevertResult> {
+  if (snapshot.revertedAt) {
+    return {
+      ok: false,
+      error: `Iteration ${snapshot.iteration} was already reverted`,
+    };
+  }
+
+  const paths = snapshot.files.map((f) => f.path);
+  const result = await revertChanges(
+    projectPath,
+    snapshot.before,
+    snapshot.after,
+    paths,
+  );
+  if (!result.ok) return result;
+
+  await appendEvent(projectPath, {
+    type: "iteration_reverted",
+    iteration: snapshot.iteration,
+    files: paths,
+    reason,
+  });
+  await appendIterationSnapshot(projectPath, {
+    ...snapshot,
+    revertedAt: new Date().toISOString(),
+  });
+  return result;
+}
@@ -0,0 +1,104 @@
+/**
+ * Tests for per-iteration cost accounting
+ */
+
+import { describe, expect, test } from "bun:test";
+import {
+  costByHypothesis,
+  type IterationStats,
+  iterationStatsFromResult,
+  sumIterationStats,
+} from "./iteration-stats.ts";
+
+const context = {
+  iteration: 1,
+  runStartedAt: "2024-01-28T10:00:00.000Z",
+  startedAt: "2024-01-28T10:00:00.000Z",
+  endedAt: "2024-01-28T10:05:00.000Z",
+  hypothesisIds: [],
+};
+
+function stats(costUsd: number, hypothesisIds: string[]): IterationStats {
+  return {
+    ...iterationStatsFromResult(
+      {
+        total_cost_usd: costUsd,
+        usage: { input_tokens: 100, output_tokens: 0 },
+      },
+      context,
+    ),
+    hypothesisIds,
+  };
+}
+
+describe("iterationStatsFromResult", () => {
+  test("copies cost, usage and timing from the result message", () => {
+    const result = iterationStatsFromResult(
+      {
+        type: "result",
+        is_error: false,
+        duration_ms: 42_000,
+        duration_api_ms: 30_000,
+        num_turns: 12,
+        total_cost_usd: 0.37,
+        session_id: "s1",
+        usage: {
+          input_tokens: 10,
+          output_tokens: 500,
+          cache_read_input_tokens: 9000,
+        },
+        modelUsage: {
+          "claude-sonnet": {
+            inputTokens: 10,
+            outputTokens: 500,
+            costUSD: 0.37,
+          },
+        },
+      },
+      context,
+    );
+
+    expect(result).toMatchObject({
+      durationMs: 42_000,
+      apiDurationMs: 30_000,
+      numTurns: 12,
+      costUsd: 0.37,
+      inputTokens: 10,
+      outputTokens: 500,
+      cacheReadTokens: 9000,
+      cacheCreationTokens: 0,
+      modelCosts: { "claude-sonnet": 0.37 },
+      sessionId: "s1",
+      isError: false,
+    });
+  });
+
+  test("falls back to wall-clock duration without a result", () => {
+    const result = iterationStatsFromResult(null, context);
+    expect(result.durationMs).toBe(5 * 60_000);
+    expect(result.costUsd).toBe(0);
+    expect(result.isError).toBe(true);
+  });
+});
+
+describe("costByHypothesis", () => {
+  test("splits shared iterations evenly and keeps the grand total", () => {
+    const all = [
+      stats(1, ["H-001"]),
+      stats(2, ["H-001", "H-002"]),
+      stats(0.5, []),
+    ];
+
+    const rows = costByHypothesis(all);
+    expect(
+      rows.map((r) => [r.hypothesisId, r.iterations, r.costUsd, r.tokens]),
+    ).toEqual([
+      ["H-001", 2, 2, 150],
+      ["H-002", 1, 1, 50],
+      [null, 1, 0.5, 100],
+    ]);
+
+    const sum = rows.reduce((acc, r) => acc + r.costUsd, 0);
+    expect(sum).toBe(sumIterationStats(all).costUsd);
+  });
+});
@@ -0,0 +1,193 @@
+/**
+ * Iteration stats - cost, token and duration accounting for the agent loop
+ *
+ * One line per finished iteration in .ml-ralph/iterations.jsonl, built from
+ * the final `result` message of each iteration (claude's, or the equivalent
+ * the agent backend maps its own usage report onto).
+ */
+
+import { appendFile } from "node:fs/promises";
+import type { AgentBackendName } from "../../domain/types/index.ts";
+import type { ResultMessage } from "../claude-client/types.ts";
+
+export interface IterationStats {
+  iteration: number;
+  /** Agent CLI that ran the iteration (missing in older files: claude) */
+  backend?: AgentBackendName;
+  /** startedAt of the run this iteration belongs to (see runner.json) */
+  runStartedAt: string;
+  /** Parallel worker that ran the iteration (missing for the main loop) */
+  worker?: string;
+  startedAt: string;
+  endedAt: string;
+  durationMs: number;
+  apiDurationMs: number;
+  numTurns: number;
+  costUsd: number;
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadTokens: number;
+  cacheCreationTokens: number;
+  /** Cost per model, from the result's modelUsage */
+  modelCosts: Record<string, number>;
+  /** Hypotheses the agent logged events for during the iteration */
+  hypothesisIds: string[];
+  sessionId: string | null;
+  isError: boolean;
+}
+
+export interface IterationTotals {
+  iterations: number;
+  costUsd: number;
+  /** All tokens, including cache reads and writes */
+  tokens: number;
+  durationMs: number;
+}
+
+export interface HypothesisCost extends IterationTotals {
+  /** null collects iterations that didn't touch any hypothesis */
+  hypothesisId: string | null;
+}
+
+function statsPath(projectPath: string): string {
+  return `${projectPath}/.ml-ralph/iterations.jsonl`;
+}
+
+function num(value: unknown): number {
+  return typeof value === "number" && Number.isFinite(value) ? value : 0;
+}
+
+/**
+ * Build iteration stats from the iteration's result message. Missing fields count
+ * as zero; duration falls back to wall-clock time.
+ */
+export function iterationStatsFromResult(
+  result: Partial<ResultMessage> | null,
+  context: {
+    iteration: number;
+    backend?: AgentBackendName;
+    runStartedAt: string;
+    worker?: string;
+    startedAt: string;
+    endedAt: string;
+    hypothesisIds: string[];
+  },
+): IterationStats {
+  const usage = result?.usage;
+  const modelCosts: Record<string, number> = {};
+  for (const [model, modelUsage] of Object.entries(result?.modelUsage ?? {})) {
+    modelCosts[model] = num(modelUsage?.costUSD);
+  }
+
+  return {
+    iteration: context.iteration,
+    backend: context.backend,
+    runStartedAt: context.runStartedAt,
+    ...(context.worker ? { worker: context.worker } : {}),
+    startedAt: context.startedAt,
+    endedAt: context.endedAt,
+    durationMs:
+      num(result?.duration_ms) ||
+      Date.parse(context.endedAt) - Date.parse(context.startedAt),
+    apiDurationMs: num(result?.duration_api_ms),
+    numTurns: num(result?.num_turns),
+    costUsd: num(result?.total_cost_usd),
+    inputTokens: num(usage?.input_tokens),
+    outputTokens: num(usage?.output_tokens),
+    cacheReadTokens: num(usage?.cache_read_input_tokens),
+    cacheCreationTokens: num(usage?.cache_creation_input_tokens),
+    modelCosts,
+    hypothesisIds: context.hypothesisIds,
+    sessionId: result?.session_id ?? null,
+    isError: result?.is_error ?? result === null,
+  };
+}
+
+/**
+ * Append one iteration's stats to iterations.jsonl
+ */
+export async function appendIterationStats(
+  projectPath: string,
+  stats: IterationStats,
+): Promise<boolean> {
+  try {
+    await appendFile(statsPath(projectPath), `${JSON.stringify(stats)}\n`);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Read all recorded iterations, skipping lines that don't parse
+ */
+export async function readIterationStats(
+  projectPath: string,
+): Promise<IterationStats[]> {
+  try {
+    const file = Bun.file(statsPath(projectPath));
+    if (!(await file.exists())) return [];
+
+    const stats: IterationStats[] = [];
+    for (const line of (await file.text()).split("\n")) {
+      if (!line.trim()) continue;
+      try {
+        stats.push(JSON.parse(line) as IterationStats);
+      } catch {
+        // Skip partial or malformed lines
+      }
+    }
+    return stats;
+  } catch {
+    return [];
+  }
+}
+
+function emptyTotals(): IterationTotals {
+  return { iterations: 0, costUsd: 0, tokens: 0, durationMs: 0 };
+}
+
+function addTo(totals: IterationTotals, stats: IterationStats, share = 1) {
+  totals.iterations += 1;
+  totals.costUsd += stats.costUsd * share;
+  totals.tokens +=
+    (stats.inputTokens +
+      stats.outputTokens +
+      stats.cacheReadTokens +
+      stats.cacheCreationTokens) *
+    share;
+  totals.durationMs += stats.durationMs * share;
+}
+
+/**
+ * Sum cost, tokens and duration over iterations
+ */
+export function sumIterationStats(stats: IterationStats[]): IterationTotals {
+  const totals = emptyTotals();
+  for (const s of stats) addTo(totals, s);
+  return totals;
+}
+
+/**
+ * Spend per hypothesis. An iteration that touched several hypotheses is
+ * split evenly between them, so cost, tokens and time add up to the overall
+ * total (iteration counts don't).
+ * Sorted by cost, most expensive first.
+ */
+export function costByHypothesis(stats: IterationStats[]): HypothesisCost[] {
+  const byId = new Map<string | null, HypothesisCost>();
+
+  for (const s of stats) {
+    const ids = s.hypothesisIds.length > 0 ? s.hypothesisIds : [null];
+    for (const id of ids) {
+      let row = byId.get(id);
+      if (!row) {
+        row = { hypothesisId: id, ...emptyTotals() };
+        byId.set(id, row);
+      }
+      addTo(row, s, 1 / ids.length);
+    }
+  }
+
+  return Array.from(byId.values()).sort((a, b) => b.costUsd - a.costUsd);
+}
@@ -0,0 +1,150 @@
+/**
+ * Tests for log.jsonl aggregation
+ */
+
+import { describe, expect, test } from "bun:test";
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { aggregateEvents, readLogFile } from "./log-parser.ts";
+import type { RalphEvent } from "./templates.ts";
+
+describe("aggregateEvents verification", () => {
+  test("groups data verification per dataset and keeps history", () => {
+    const events = [
+      {
+        ts: "2024-01-28T10:00:00Z",
+        type: "data_verified",
+        dataset: "train",
+        checks: { row_count: { expected: 100, actual: 90, status: "fail" } },
+        issues: ["10 rows dropped"],
+        action: "investigate loader",
+      },
+      {
+        ts: "2024-01-28T11:00:00Z",
+        type: "data_verified",
+        dataset: "train",
+        checks: { row_count: { expected: 100, actual: 100, status: "ok" } },
+      },
+      {
+        ts: "2024-01-28T11:05:00Z",
+        type: "data_verified",
+        dataset: "test",
+        checks: { leakage: { status: "FAIL" } },
+        issues: [],
+        action: "dedupe ids",
+      },
+    ] as unknown as RalphEvent[];
+
+    const { dataVerifications } = aggregateEvents(events);
+
+    expect(dataVerifications.map((d) => [d.dataset, d.passed])).toEqual([
+      ["train", true],
+      ["test", false],
+    ]);
+    expect(dataVerifications[0]?.history).toHaveLength(2);
+    expect(dataVerifications[0]?.latest.checks.row_count?.status).toBe("PASS");
+    expect(dataVerifications[0]?.latest.issues).toEqual([]);
+  });
+
+  test("collects result checks and the latest success verification", () => {
+    const events = [
+      {
+        ts: "2024-01-28T12:00:00Z",
+        type: "result_verification",
+        result: "AUC 0.91",
+        verification_attempts: [
+          { check: "leakage", method: "shuffle labels", finding: "AUC 0.5" },
+        ],
+        conclusion: "holds",
+      },
+      {
+        ts: "2024-01-28T13:00:00Z",
+        type: "success_verified",
+        criteria_met: ["auc > 0.85"],
+        verification_checks: ["held-out set"],
+      },
+    ] as unknown as RalphEvent[];
+
+    const summary = aggregateEvents(events);
+
+    expect(summary.resultVerifications).toHaveLength(1);
+    expect(summary.successVerification?.verification_checks).toEqual([
+      "held-out set",
+    ]);
+    expect(summary.successVerification?.attempts_to_break).toEqual([]);
+  });
+
+  test("defaults to no verification", () => {
+    const summary = aggregateEvents([]);
+    expect(summary.dataVerifications).toEqual([]);
+    expect(summary.resultVerifications).toEqual([]);
+    expect(summary.successVerification).toBeNull();
+  });
+});
+
+describe("aggregateEvents reasoning", () => {
+  test("keeps the latest belief per domain with evidence history", () => {
+    const events = [
+      {
+        ts: "2024-01-28T10:00:00Z",
+        type: "mental_model",
+        domain: "features",
+        belief: "Temporal features dominate",
+        confidence: "medium",
+        evidence: ["EDA correlation"],
+      },
+      {
+        ts: "2024-01-28T12:00:00Z",
+        type: "mental_model",
+        domain: "features",
+        belief: "Temporal and user features both matter",
+        confidence: "high",
+        evidence: ["EDA correlation", "H-002 ablation"],
+      },
+      {
+        ts: "2024-01-28T12:30:00Z",
+        type: "strategic_retreat",
+        trigger: "3 flat experiments",
+        action: "Returning to UNDERSTAND phase",
+        focus: "error analysis",
+      },
+    ] as unknown as RalphEvent[];
+
+    const summary = aggregateEvents(events);
+
+    expect(summary.mentalModels).toHaveLength(1);
+    expect(summary.mentalModels[0]).toMatchObject({
+      domain: "features",
+      belief: "Temporal and user features both matter",
+      confidence: "high",
+      evidence: ["EDA correlation", "H-002 ablation"],
+      updatedAt: "2024-01-28T12:00:00Z",
+    });
+    expect(summary.mentalModels[0]?.history).toHaveLength(2);
+    expect(summary.strategicRetreats).toHaveLength(1);
+  });
+});
+
+describe("readLogFile", () => {
+  test("skips events that don't match the schema", async () => {
+    const projectPath = await mkdtemp(join(tmpdir(), "ml-ralph-log-"));
+    try {
+      await mkdir(join(projectPath, ".ml-ralph"));
+      await writeFile(
+        join(projectPath, ".ml-ralph", "log.jsonl"),
+        [
+          '{"ts":"2026-01-01T00:00:00Z","type":"learning","insight":"kept"}',
+          '{"type":"learning","insight":"no ts"}',
+          '{"ts":"2026-01-01T00:00:00Z","type":"data_verified","checks":[]}',
+          "not json",
+        ].join("\n"),
+      );
+      expect(await readLogFile(projectPath)).toMatchObject([
+        { type: "learning", insight: "kept" },
+      ]);
+    } finally {
+      await rm(projectPath, { recursive: true, force: true });
+    }
+  });
+});
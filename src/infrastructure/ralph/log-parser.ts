@@ -13,7 +13,16 @@ import type {
   DecisionEvent,
   PrdUpdatedEvent,
   PhaseEvent,
+  DataVerifiedEvent,
+  ResultVerificationEvent,
+  SuccessVerifiedEvent,
+  ThinkingEvent,
+  MentalModelEvent,
+  PathAnalysisEvent,
+  StrategicRetreatEvent,
+  StatusEvent,
 } from "./templates.ts";
+import { type LogLintIssue, lintLine } from "./event-schema.ts";
 
 export interface HypothesisWithStatus {
   id: string;
@@ -32,6 +41,22 @@ export interface PrdChange {
   reason: string;
 }
 
+export interface DatasetVerification {
+  dataset: string;
+  latest: DataVerifiedEvent;
+  history: DataVerifiedEvent[];
+  passed: boolean; // Every check in the latest verification passed
+}
+
+export interface MentalModel {
+  domain: string;
+  belief: string; // Latest belief for this domain
+  confidence: MentalModelEvent["confidence"];
+  evidence: string[]; // All evidence cited across updates, oldest first
+  history: MentalModelEvent[];
+  updatedAt: string;
+}
+
 export interface LogSummary {
   hypotheses: HypothesisWithStatus[];
   experiments: ExperimentEvent[];
@@ -40,24 +65,21 @@ export interface LogSummary {
   prdChanges: PrdChange[];
   currentPhase: string | null;
   phases: PhaseEvent[];
-  latestStatus: "running" | "paused" | "complete" | null;
+  latestStatus: StatusEvent["status"] | null;
+  dataVerifications: DatasetVerification[];
+  resultVerifications: ResultVerificationEvent[];
+  successVerification: SuccessVerifiedEvent | null;
+  thinking: ThinkingEvent[];
+  mentalModels: MentalModel[];
+  pathAnalyses: PathAnalysisEvent[];
+  strategicRetreats: StrategicRetreatEvent[];
+  malformed: LogLintIssue[]; // Lines that failed to parse or validate
 }
 
 /**
- * Parse a single line of JSONL
- */
-function parseLine(line: string): RalphEvent | null {
-  try {
-    const trimmed = line.trim();
-    if (!trimmed) return null;
-    return JSON.parse(trimmed) as RalphEvent;
-  } catch {
-    return null;
-  }
-}
-
-/**
- * Read and parse the log file
+ * Read the log file. Lines are validated like the TUI's LogAggregator does,
+ * so reports and criteria see the same events as the panels; malformed
+ * ones are left to `ml-ralph lint-log`.
  */
 export async function readLogFile(projectPath: string): Promise<RalphEvent[]> {
   const logPath = `${projectPath}/.ml-ralph/log.jsonl`;
@@ -72,8 +94,8 @@ export async function readLogFile(projectPath: string): Promise<RalphEvent[]> {
     const lines = content.split("\n");
     const events: RalphEvent[] = [];
 
-    for (const line of lines) {
-      const event = parseLine(line);
+    for (const [index, line] of lines.entries()) {
+      const { event } = lintLine(line, index + 1);
       if (event) {
         events.push(event);
       }
@@ -157,22 +179,48 @@ export async function readKanbanFile(projectPath: string): Promise<Kanban | null
 }
 
 /**
- * Aggregate events into a summary for the TUI
+ * Incrementally folds events into a LogSummary, so a tailer only has to
+ * feed it newly appended lines
  */
-export function aggregateEvents(events: RalphEvent[]): LogSummary {
-  const hypothesesMap = new Map<string, HypothesisWithStatus>();
-  const experiments: ExperimentEvent[] = [];
-  const learnings: LearningEvent[] = [];
-  const research: ResearchEvent[] = [];
-  const prdChanges: PrdChange[] = [];
-  const phases: PhaseEvent[] = [];
-  let latestStatus: "running" | "paused" | "complete" | null = null;
+export class LogAggregator {
+  private hypothesesMap = new Map<string, HypothesisWithStatus>();
+  private experiments: ExperimentEvent[] = [];
+  private learnings: LearningEvent[] = [];
+  private research: ResearchEvent[] = [];
+  private prdChanges: PrdChange[] = [];
+  private phases: PhaseEvent[] = [];
+  private latestStatus: StatusEvent["status"] | null = null;
+  private datasetsMap = new Map<string, DatasetVerification>();
+  private resultVerifications: ResultVerificationEvent[] = [];
+  private successVerification: SuccessVerifiedEvent | null = null;
+  private thinking: ThinkingEvent[] = [];
+  private mentalModelsMap = new Map<string, MentalModel>();
+  private pathAnalyses: PathAnalysisEvent[] = [];
+  private strategicRetreats: StrategicRetreatEvent[] = [];
+  private malformed: LogLintIssue[] = [];
+  private lineCount = 0;
+
+  /**
+   * Validate one raw log line and fold it in if it is a well-formed event
+   */
+  addLine(text: string): void {
+    this.lineCount++;
+    const { event, issue } = lintLine(text, this.lineCount);
+    if (event) {
+      this.add(event);
+    } else if (issue) {
+      this.malformed.push(issue);
+    }
+  }
 
-  for (const event of events) {
+  /**
+   * Fold one event into the summary
+   */
+  add(event: RalphEvent): void {
     switch (event.type) {
       case "hypothesis": {
         const h = event as HypothesisEvent;
-        hypothesesMap.set(h.id, {
+        this.hypothesesMap.set(h.id, {
           id: h.id,
           hypothesis: h.hypothesis,
           expected: h.expected,
@@ -185,8 +233,8 @@ export function aggregateEvents(events: RalphEvent[]): LogSummary {
 
       case "experiment": {
         const e = event as ExperimentEvent;
-        experiments.push(e);
-        const hyp = hypothesesMap.get(e.hypothesis_id);
+        this.experiments.push(e);
+        const hyp = this.hypothesesMap.get(e.hypothesis_id);
         if (hyp) {
           hyp.experiments.push(e);
         }
@@ -195,7 +243,7 @@ export function aggregateEvents(events: RalphEvent[]): LogSummary {
 
       case "decision": {
         const d = event as DecisionEvent;
-        const hyp = hypothesesMap.get(d.hypothesis_id);
+        const hyp = this.hypothesesMap.get(d.hypothesis_id);
         if (hyp) {
           hyp.status = d.action;
           hyp.decision = d;
@@ -204,18 +252,18 @@ export function aggregateEvents(events: RalphEvent[]): LogSummary {
       }
 
       case "learning": {
-        learnings.push(event as LearningEvent);
+        this.learnings.push(event as LearningEvent);
         break;
       }
 
       case "research": {
-        research.push(event as ResearchEvent);
+        this.research.push(event as ResearchEvent);
         break;
       }
 
       case "prd_updated": {
         const p = event as PrdUpdatedEvent;
-        prdChanges.push({
+        this.prdChanges.push({
           ts: p.ts,
           field: p.field,
           change: p.change,
@@ -225,107 +273,145 @@ export function aggregateEvents(events: RalphEvent[]): LogSummary {
       }
 
       case "phase": {
-        phases.push(event as PhaseEvent);
+        this.phases.push(event as PhaseEvent);
         break;
       }
 
       case "status": {
-        latestStatus = (event as { status: "running" | "paused" | "complete" }).status;
+        this.latestStatus = (event as StatusEvent).status;
         break;
       }
-    }
-  }
 
-  // Convert map to array, sorted by creation time
-  const hypotheses = Array.from(hypothesesMap.values()).sort(
-    (a, b) => a.createdAt.localeCompare(b.createdAt)
-  );
+      case "data_verified": {
+        const v = normalizeDataVerified(event as DataVerifiedEvent);
+        const existing = this.datasetsMap.get(v.dataset);
+        const history = existing ? [...existing.history, v] : [v];
+        this.datasetsMap.set(v.dataset, {
+          dataset: v.dataset,
+          latest: v,
+          history,
+          passed: Object.values(v.checks).every((c) => c.status === "PASS"),
+        });
+        break;
+      }
 
-  // Get current phase (latest)
-  const lastPhase = phases[phases.length - 1];
-  const currentPhase = lastPhase?.phase ?? null;
+      case "result_verification": {
+        const r = event as ResultVerificationEvent;
+        this.resultVerifications.push({
+          ...r,
+          verification_attempts: r.verification_attempts ?? [],
+        });
+        break;
+      }
 
-  return {
-    hypotheses,
-    experiments,
-    learnings,
-    research,
-    prdChanges,
-    currentPhase,
-    phases,
-    latestStatus,
-  };
-}
+      case "success_verified": {
+        const sv = event as SuccessVerifiedEvent;
+        this.successVerification = {
+          ...sv,
+          criteria_met: sv.criteria_met ?? [],
+          verification_checks: sv.verification_checks ?? [],
+          attempts_to_break: sv.attempts_to_break ?? [],
+        };
+        break;
+      }
 
-/**
- * Watch the log file for changes and call callback
- */
-export function watchLogFile(
-  projectPath: string,
-  callback: (summary: LogSummary) => void
-): () => void {
-  const logPath = `${projectPath}/.ml-ralph/log.jsonl`;
-  let watcher: ReturnType<typeof Bun.file.prototype.watch> | null = null;
+      case "thinking": {
+        this.thinking.push(event as ThinkingEvent);
+        break;
+      }
 
-  const refresh = async () => {
-    const events = await readLogFile(projectPath);
-    const summary = aggregateEvents(events);
-    callback(summary);
-  };
+      case "mental_model": {
+        const m = event as MentalModelEvent;
+        const evidence = m.evidence ?? [];
+        const existing = this.mentalModelsMap.get(m.domain);
+        this.mentalModelsMap.set(m.domain, {
+          domain: m.domain,
+          belief: m.belief,
+          confidence: m.confidence,
+          evidence: existing
+            ? [...existing.evidence, ...evidence.filter((e) => !existing.evidence.includes(e))]
+            : [...evidence],
+          history: existing ? [...existing.history, m] : [m],
+          updatedAt: m.ts,
+        });
+        break;
+      }
 
-  // Initial load
-  refresh();
-
-  // Set up file watcher using polling (more reliable across platforms)
-  let lastSize = 0;
-  const interval = setInterval(async () => {
-    try {
-      const file = Bun.file(logPath);
-      if (await file.exists()) {
-        const size = file.size;
-        if (size !== lastSize) {
-          lastSize = size;
-          await refresh();
-        }
+      case "path_analysis": {
+        const pa = event as PathAnalysisEvent;
+        this.pathAnalyses.push({ ...pa, paths: pa.paths ?? [] });
+        break;
       }
-    } catch {
-      // Ignore errors
-    }
-  }, 1000); // Poll every second
 
-  // Return cleanup function
-  return () => {
-    clearInterval(interval);
-    if (watcher) {
-      // Clean up watcher if we add native watching later
+      case "strategic_retreat": {
+        this.strategicRetreats.push(event as StrategicRetreatEvent);
+        break;
+      }
     }
-  };
+  }
+
+  /**
+   * Snapshot the current state (fresh arrays, safe to hand to React)
+   */
+  summary(): LogSummary {
+    // Convert map to array, sorted by creation time
+    const hypotheses = Array.from(this.hypothesesMap.values())
+      .map((h) => ({ ...h, experiments: [...h.experiments] }))
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+    // Get current phase (latest)
+    const lastPhase = this.phases[this.phases.length - 1];
+    const currentPhase = lastPhase?.phase ?? null;
+
+    return {
+      hypotheses,
+      experiments: [...this.experiments],
+      learnings: [...this.learnings],
+      research: [...this.research],
+      prdChanges: [...this.prdChanges],
+      currentPhase,
+      phases: [...this.phases],
+      latestStatus: this.latestStatus,
+      dataVerifications: Array.from(this.datasetsMap.values()),
+      resultVerifications: [...this.resultVerifications],
+      successVerification: this.successVerification,
+      thinking: [...this.thinking],
+      mentalModels: Array.from(this.mentalModelsMap.values()),
+      pathAnalyses: [...this.pathAnalyses],
+      strategicRetreats: [...this.strategicRetreats],
+      malformed: [...this.malformed],
+    };
+  }
 }
 
 /**
- * Append an event to the log file
+ * Aggregate events into a summary for the TUI
  */
-export async function appendEvent(
-  projectPath: string,
-  event: Omit<RalphEvent, "ts">
-): Promise<boolean> {
-  const logPath = `${projectPath}/.ml-ralph/log.jsonl`;
+export function aggregateEvents(events: RalphEvent[]): LogSummary {
+  const aggregator = new LogAggregator();
+  for (const event of events) {
+    aggregator.add(event);
+  }
+  return aggregator.summary();
+}
 
-  try {
-    const eventWithTs = {
-      ts: new Date().toISOString(),
-      ...event,
+/**
+ * Normalize check statuses to PASS/FAIL so "pass", "ok" etc. render consistently
+ */
+function normalizeDataVerified(event: DataVerifiedEvent): DataVerifiedEvent {
+  const checks: DataVerifiedEvent["checks"] = {};
+  for (const [name, check] of Object.entries(event.checks ?? {})) {
+    const status = String(check?.status ?? "").toUpperCase();
+    checks[name] = {
+      ...check,
+      status: status === "PASS" || status === "OK" ? "PASS" : "FAIL",
     };
-
-    const line = JSON.stringify(eventWithTs) + "\n";
-
-    // Append to file
-    const file = Bun.file(logPath);
-    const existing = (await file.exists()) ? await file.text() : "";
-    await Bun.write(logPath, existing + line);
-
-    return true;
-  } catch {
-    return false;
   }
+
+  return {
+    ...event,
+    dataset: event.dataset ?? "unknown",
+    checks,
+    issues: event.issues ?? [],
+  };
 }
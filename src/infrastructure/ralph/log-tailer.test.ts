@@ -0,0 +1,97 @@
+/**
+ * Tests for the incremental log tailer
+ */
+
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import {
+  appendFile,
+  mkdir,
+  mkdtemp,
+  rename,
+  rm,
+  writeFile,
+} from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { LogTailer } from "./log-tailer.ts";
+
+let projectPath = "";
+let logPath = "";
+
+function learning(insight: string): string {
+  return `${JSON.stringify({ ts: "2024-01-28T10:00:00Z", type: "learning", insight })}\n`;
+}
+
+beforeEach(async () => {
+  projectPath = await mkdtemp(join(tmpdir(), "ml-ralph-tailer-"));
+  await mkdir(join(projectPath, ".ml-ralph"));
+  logPath = join(projectPath, ".ml-ralph", "log.jsonl");
+});
+
+afterEach(async () => {
+  await rm(projectPath, { recursive: true, force: true });
+});
+
+describe("LogTailer", () => {
+  test("parses only appended lines and waits for partial lines", async () => {
+    const tailer = new LogTailer(projectPath);
+    await tailer.poll();
+    expect(tailer.summary?.learnings).toEqual([]);
+
+    await writeFile(logPath, learning("a") + learning("b"));
+    await tailer.poll();
+    expect(tailer.summary?.learnings.map((l) => l.insight)).toEqual(["a", "b"]);
+
+    const line = learning("c");
+    await appendFile(logPath, line.slice(0, 10));
+    await tailer.poll();
+    expect(tailer.summary?.learnings).toHaveLength(2);
+
+    await appendFile(logPath, line.slice(10));
+    await tailer.poll();
+    expect(tailer.summary?.learnings.map((l) => l.insight)).toEqual([
+      "a",
+      "b",
+      "c",
+    ]);
+  });
+
+  test("re-reads from the start after truncation", async () => {
+    const tailer = new LogTailer(projectPath);
+    await writeFile(logPath, learning("a") + learning("b"));
+    await tailer.poll();
+
+    await writeFile(logPath, learning("x"));
+    await tailer.poll();
+    expect(tailer.summary?.learnings.map((l) => l.insight)).toEqual(["x"]);
+  });
+
+  test("re-reads from the start after rotation", async () => {
+    const tailer = new LogTailer(projectPath);
+    await writeFile(logPath, learning("a"));
+    await tailer.poll();
+
+    await rename(logPath, `${logPath}.1`);
+    await writeFile(logPath, learning("new-1") + learning("new-2"));
+    await tailer.poll();
+    expect(tailer.summary?.learnings.map((l) => l.insight)).toEqual([
+      "new-1",
+      "new-2",
+    ]);
+  });
+
+  test("notifies every subscriber from one poll", async () => {
+    const tailer = new LogTailer(projectPath, { pollInterval: 60_000 });
+    const seen: number[] = [];
+    const unsubA = tailer.subscribe((s) => seen.push(s.learnings.length));
+    const unsubB = tailer.subscribe((s) => seen.push(s.learnings.length * 10));
+    await tailer.poll();
+
+    await writeFile(logPath, learning("a"));
+    await tailer.poll();
+    unsubA();
+    unsubB();
+
+    expect(seen.slice(-2)).toEqual([1, 10]);
+  });
+});
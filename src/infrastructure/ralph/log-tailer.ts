@@ -0,0 +1,192 @@
+/**
+ * Log tailer - incremental reader for .ml-ralph/log.jsonl
+ *
+ * Tracks a byte offset into the log and only parses lines appended since
+ * the last poll. Truncation (file shrank or its head changed) and rotation
+ * (a new inode at the same path) reset the tailer and re-read from the start.
+ * One tailer per project is shared by every subscriber.
+ */
+
+import { stat } from "node:fs/promises";
+import { LogAggregator, type LogSummary } from "./log-parser.ts";
+
+const NEWLINE = 0x0a;
+
+// Bytes from the start of the file used to detect in-place rewrites
+const HEAD_FINGERPRINT_BYTES = 256;
+
+export interface LogTailerOptions {
+  /** Polling interval in ms (default: 1000) */
+  pollInterval?: number;
+}
+
+type SummaryCallback = (summary: LogSummary) => void;
+
+export class LogTailer {
+  private logPath: string;
+  private pollInterval: number;
+  private aggregator = new LogAggregator();
+  private subscribers = new Set<SummaryCallback>();
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private polling: Promise<void> | null = null;
+
+  // Position of the first byte not yet consumed (always just after a newline)
+  private offset = 0;
+  private inode: number | null = null;
+  private head = new Uint8Array(0);
+  private current: LogSummary | null = null;
+
+  constructor(projectPath: string, options: LogTailerOptions = {}) {
+    this.logPath = `${projectPath}/.ml-ralph/log.jsonl`;
+    this.pollInterval = options.pollInterval ?? 1000;
+  }
+
+  /**
+   * Latest summary, or null before the first poll completes
+   */
+  get summary(): LogSummary | null {
+    return this.current;
+  }
+
+  /**
+   * Subscribe to summary updates. Polling runs while anyone is subscribed.
+   */
+  subscribe(callback: SummaryCallback): () => void {
+    this.subscribers.add(callback);
+    if (this.current) {
+      callback(this.current);
+    }
+    if (!this.timer) {
+      this.poll();
+      this.timer = setInterval(() => this.poll(), this.pollInterval);
+    }
+
+    return () => {
+      this.subscribers.delete(callback);
+      if (this.subscribers.size === 0 && this.timer) {
+        clearInterval(this.timer);
+        this.timer = null;
+      }
+    };
+  }
+
+  /**
+   * Read anything new and notify subscribers if the summary changed.
+   * Concurrent calls share the same in-flight read.
+   */
+  poll(): Promise<void> {
+    if (!this.polling) {
+      this.polling = this.readNew().finally(() => {
+        this.polling = null;
+      });
+    }
+    return this.polling;
+  }
+
+  // === Private helpers ===
+
+  private async readNew(): Promise<void> {
+    let changed = false;
+
+    try {
+      const stats = await stat(this.logPath).catch(() => null);
+      if (!stats) {
+        // Log removed (or not created yet): start over when it reappears
+        if (this.offset > 0 || !this.current) {
+          this.reset();
+          changed = true;
+        }
+        return;
+      }
+
+      if (await this.wasReplaced(stats.ino, stats.size)) {
+        this.reset();
+        changed = true;
+      }
+      this.inode = stats.ino;
+
+      if (stats.size > this.offset) {
+        const bytes = new Uint8Array(
+          await Bun.file(this.logPath)
+            .slice(this.offset, stats.size)
+            .arrayBuffer(),
+        );
+
+        // Only consume complete lines; a partial trailing line waits for the next poll
+        const lastNewline = bytes.lastIndexOf(NEWLINE);
+        if (lastNewline >= 0) {
+          if (this.offset === 0) {
+            this.head = bytes.slice(
+              0,
+              Math.min(lastNewline + 1, HEAD_FINGERPRINT_BYTES),
+            );
+          }
+          const text = new TextDecoder().decode(bytes.subarray(0, lastNewline));
+          for (const line of text.split("\n")) {
+            this.aggregator.addLine(line);
+          }
+          this.offset += lastNewline + 1;
+          changed = true;
+        }
+      }
+    } catch {
+      // Keep the last good summary; the next poll will retry
+    } finally {
+      if (changed || !this.current) {
+        this.current = this.aggregator.summary();
+        for (const callback of this.subscribers) {
+          callback(this.current);
+        }
+      }
+    }
+  }
+
+  /**
+   * Detect rotation (new inode), truncation (shrunk) or an in-place rewrite
+   * (same size or larger, but the first bytes differ)
+   */
+  private async wasReplaced(inode: number, size: number): Promise<boolean> {
+    if (this.offset === 0) return false;
+    if (this.inode !== null && inode !== this.inode) return true;
+    if (size < this.offset) return true;
+
+    const head = new Uint8Array(
+      await Bun.file(this.logPath).slice(0, this.head.length).arrayBuffer(),
+    );
+    return (
+      head.length !== this.head.length ||
+      !head.every((byte, i) => byte === this.head[i])
+    );
+  }
+
+  private reset(): void {
+    this.aggregator = new LogAggregator();
+    this.offset = 0;
+    this.inode = null;
+    this.head = new Uint8Array(0);
+  }
+}
+
+const tailers = new Map<string, LogTailer>();
+
+/**
+ * Get the shared tailer for a project (created on first use)
+ */
+export function getLogTailer(projectPath: string): LogTailer {
+  let tailer = tailers.get(projectPath);
+  if (!tailer) {
+    tailer = new LogTailer(projectPath);
+    tailers.set(projectPath, tailer);
+  }
+  return tailer;
+}
+
+/**
+ * Watch the log file for changes and call callback
+ */
+export function watchLogFile(
+  projectPath: string,
+  callback: (summary: LogSummary) => void,
+): () => void {
+  return getLogTailer(projectPath).subscribe(callback);
+}
@@ -0,0 +1,107 @@
+/**
+ * Tests for locked, append-only log writes
+ */
+
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdir, mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  appendEvent,
+  quarantineTrailingLine,
+  withLogLock,
+} from "./log-writer.ts";
+
+let projectPath = "";
+let logPath = "";
+
+async function readLines(path: string): Promise<string[]> {
+  return (await readFile(path, "utf-8")).split("\n").filter(Boolean);
+}
+
+beforeEach(async () => {
+  projectPath = await mkdtemp(join(tmpdir(), "ml-ralph-writer-"));
+  await mkdir(join(projectPath, ".ml-ralph"));
+  logPath = join(projectPath, ".ml-ralph", "log.jsonl");
+});
+
+afterEach(async () => {
+  await rm(projectPath, { recursive: true, force: true });
+});
+
+describe("appendEvent", () => {
+  test("appends concurrent events without losing any", async () => {
+    await writeFile(
+      logPath,
+      '{"ts":"t0","type":"learning","insight":"first"}\n',
+    );
+
+    const results = await Promise.all(
+      Array.from({ length: 20 }, (_, i) =>
+        appendEvent(projectPath, {
+          type: "learning",
+          insight: `n${i}`,
+        } as never),
+      ),
+    );
+
+    expect(results.every(Boolean)).toBe(true);
+    const lines = await readLines(logPath);
+    expect(lines).toHaveLength(21);
+    expect(lines.every((line) => JSON.parse(line).type === "learning")).toBe(
+      true,
+    );
+    expect(await Bun.file(`${logPath}.lock`).exists()).toBe(false);
+  });
+
+  test("quarantines a partial trailing line before appending", async () => {
+    const good = '{"ts":"t0","type":"learning","insight":"ok"}\n';
+    await writeFile(logPath, `${good}{"ts":"t1","type":"lear`);
+
+    await appendEvent(projectPath, {
+      type: "learning",
+      insight: "next",
+    } as never);
+
+    const lines = await readLines(logPath);
+    expect(lines).toHaveLength(2);
+    expect(JSON.parse(lines[1]!).insight).toBe("next");
+
+    const quarantine = await readLines(
+      join(projectPath, ".ml-ralph", "log.quarantine.jsonl"),
+    );
+    expect(JSON.parse(quarantine[0]!)).toMatchObject({
+      offset: good.length,
+      line: '{"ts":"t1","type":"lear',
+    });
+  });
+});
+
+describe("quarantineTrailingLine", () => {
+  test("leaves a valid log untouched", async () => {
+    await writeFile(logPath, '{"ts":"t0","type":"learning","insight":"ok"}\n');
+    expect(await quarantineTrailingLine(projectPath)).toBeNull();
+  });
+
+  test("quarantines a terminated but malformed last line", async () => {
+    await writeFile(logPath, '{"ts":"t0","type":"learning"}\nnot json\n');
+    expect((await quarantineTrailingLine(projectPath))?.line).toBe("not json");
+    expect(await readLines(logPath)).toEqual(['{"ts":"t0","type":"learning"}']);
+  });
+});
+
+describe("withLogLock", () => {
+  test("takes over a lock left by a dead process", async () => {
+    await writeFile(`${logPath}.lock`, "999999999\n");
+    expect(
+      await withLogLock(projectPath, async () => "ran", { timeoutMs: 1000 }),
+    ).toBe("ran");
+  });
+
+  test("times out while another live process holds the lock", async () => {
+    await writeFile(`${logPath}.lock`, `${process.pid}\n`);
+    await expect(
+      withLogLock(projectPath, async () => "ran", { timeoutMs: 100 }),
+    ).rejects.toThrow("Timed out");
+  });
+});
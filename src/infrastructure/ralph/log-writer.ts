@@ -0,0 +1,156 @@
+/**
+ * Log writer - concurrency-safe appends to .ml-ralph/log.jsonl
+ *
+ * Writers (the TUI and the agent's shell) coordinate through an advisory
+ * lock file, `log.jsonl.lock`, created exclusively and holding the owner's
+ * pid. The agent-side convention is documented in RALPH.md:
+ *
+ *   until (set -C; echo $$ > .ml-ralph/log.jsonl.lock) 2>/dev/null; do sleep 0.1; done
+ *   echo '{...}' >> .ml-ralph/log.jsonl
+ *   rm -f .ml-ralph/log.jsonl.lock
+ */
+
+import { appendFile, open } from "node:fs/promises";
+import { type FileLockOptions, withFileLock } from "../file-store/index.ts";
+import type { RalphEvent } from "./templates.ts";
+
+export type LogLockOptions = FileLockOptions;
+
+export interface QuarantinedLine {
+  ts: string;
+  offset: number; // Byte offset of the line in log.jsonl
+  line: string;
+}
+
+// Omit distributed over the event union, so each event keeps its own fields
+type WithoutTs<E> = E extends unknown ? Omit<E, "ts"> : never;
+
+// The trailing line is found by scanning back at most this far from the end
+const TAIL_SCAN_BYTES = 64 * 1024;
+
+function logPathFor(projectPath: string): string {
+  return `${projectPath}/.ml-ralph/log.jsonl`;
+}
+
+/**
+ * Run fn while holding the log's advisory lock
+ */
+export function withLogLock<T>(
+  projectPath: string,
+  fn: () => Promise<T>,
+  options: LogLockOptions = {},
+): Promise<T> {
+  return withFileLock(`${logPathFor(projectPath)}.lock`, fn, options);
+}
+
+/**
+ * Move a malformed trailing line (e.g. from a writer that crashed mid-line)
+ * to log.quarantine.jsonl and truncate it off the log.
+ * Call with the log lock held. Returns the quarantined line, if any.
+ */
+export async function quarantineTrailingLine(
+  projectPath: string,
+): Promise<QuarantinedLine | null> {
+  const logPath = logPathFor(projectPath);
+  const handle = await open(logPath, "r+").catch(() => null);
+  if (!handle) return null;
+
+  try {
+    const { size } = await handle.stat();
+    if (size === 0) return null;
+
+    const start = Math.max(0, size - TAIL_SCAN_BYTES);
+    const buffer = Buffer.alloc(size - start);
+    await handle.read(buffer, 0, buffer.length, start);
+
+    // Find where the last line begins (ignoring its own terminating newline)
+    const terminated = buffer[buffer.length - 1] === 0x0a;
+    const body = terminated ? buffer.subarray(0, -1) : buffer;
+    const lastNewline = body.lastIndexOf(0x0a);
+    if (lastNewline < 0 && start > 0) return null; // Line longer than the scan window
+
+    const line = body.subarray(lastNewline + 1).toString("utf-8");
+    if (terminated && isValidJsonLine(line)) return null;
+    if (!terminated && line.trim() === "") return null;
+
+    const offset = start + lastNewline + 1;
+    const quarantined: QuarantinedLine = {
+      ts: new Date().toISOString(),
+      offset,
+      line,
+    };
+    await appendFile(
+      `${projectPath}/.ml-ralph/log.quarantine.jsonl`,
+      `${JSON.stringify(quarantined)}\n`,
+    );
+    await handle.truncate(offset);
+    await handle.sync();
+    return quarantined;
+  } finally {
+    await handle.close();
+  }
+}
+
+function isValidJsonLine(line: string): boolean {
+  if (line.trim() === "") return true;
+  try {
+    JSON.parse(line);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Append an event to the log file
+ */
+export async function appendEvent(
+  projectPath: string,
+  event: WithoutTs<RalphEvent>,
+): Promise<boolean> {
+  const eventWithTs = {
+    ts: new Date().toISOString(),
+    ...event,
+  };
+  return appendLines(projectPath, `${JSON.stringify(eventWithTs)}\n`);
+}
+
+/**
+ * Append events that already carry their timestamps (e.g. copied from
+ * another log), in one locked write
+ */
+export async function appendEvents(
+  projectPath: string,
+  events: RalphEvent[],
+): Promise<boolean> {
+  if (events.length === 0) return true;
+  return appendLines(
+    projectPath,
+    events.map((event) => `${JSON.stringify(event)}\n`).join(""),
+  );
+}
+
+async function appendLines(
+  projectPath: string,
+  lines: string,
+): Promise<boolean> {
+  const logPath = logPathFor(projectPath);
+
+  try {
+    await withLogLock(projectPath, async () => {
+      await quarantineTrailingLine(projectPath);
+
+      const handle = await open(logPath, "a");
+      try {
+        await handle.write(lines);
+        await handle.sync();
+      } finally {
+        await handle.close();
+      }
+    });
+
+    return true;
+  } catch {
+    return false;
+  }
+}
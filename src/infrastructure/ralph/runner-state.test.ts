@@ -0,0 +1,62 @@
+/**
+ * Tests for persisted runner state
+ */
+
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdir, mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  isResumable,
+  type RunnerState,
+  readRunnerState,
+  writeRunnerState,
+} from "./runner-state.ts";
+
+let projectPath = "";
+
+const STATE: RunnerState = {
+  status: "running",
+  iteration: 4,
+  iterationComplete: false,
+  maxIterations: 10,
+  remainingIterations: 7,
+  pendingHints: ["try a smaller learning rate"],
+  startedAt: "2026-01-26T10:00:00Z",
+  updatedAt: "2026-01-26T10:00:00Z",
+  lastSessionId: "session-1",
+};
+
+beforeEach(async () => {
+  projectPath = await mkdtemp(join(tmpdir(), "ml-ralph-runner-"));
+  await mkdir(join(projectPath, ".ml-ralph"));
+});
+
+afterEach(async () => {
+  await rm(projectPath, { recursive: true, force: true });
+});
+
+describe("runner state", () => {
+  test("round-trips through runner.json", async () => {
+    expect(await readRunnerState(projectPath)).toBeNull();
+    expect(await writeRunnerState(projectPath, STATE)).toBe(true);
+
+    const state = await readRunnerState(projectPath);
+    expect({ ...state, updatedAt: STATE.updatedAt }).toEqual(STATE);
+  });
+
+  test("only unfinished runs with budget left are resumable", () => {
+    expect(isResumable(STATE)).toBe(true);
+    expect(isResumable({ ...STATE, status: "stopped" })).toBe(true);
+    expect(isResumable({ ...STATE, status: "complete" })).toBe(false);
+    expect(isResumable({ ...STATE, remainingIterations: 0 })).toBe(false);
+    expect(
+      isResumable({
+        ...STATE,
+        status: "stopped",
+        budgetStop: "Used the 2h time budget",
+      }),
+    ).toBe(false);
+    expect(isResumable(null)).toBe(false);
+  });
+});
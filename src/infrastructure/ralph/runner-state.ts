@@ -0,0 +1,81 @@
+/**
+ * Runner state - persists the agent loop to .ml-ralph/runner.json
+ * so a run can be resumed after the TUI restarts or crashes
+ */
+
+import { rename } from "node:fs/promises";
+import type { AgentBackendName } from "../../domain/types/index.ts";
+
+export interface RunnerState {
+  status: "running" | "paused" | "stopped" | "complete";
+  /** Last iteration that was started */
+  iteration: number;
+  /** Whether `iteration` finished (false if the run died mid-iteration) */
+  iterationComplete: boolean;
+  maxIterations: number;
+  /** Iterations left in the budget, counting an unfinished `iteration` */
+  remainingIterations: number;
+  /** Hints not yet handed to the agent */
+  pendingHints: string[];
+  startedAt: string;
+  updatedAt: string;
+  /** Agent session of the latest iteration (for --resume) */
+  lastSessionId: string | null;
+  /** Backend that owns lastSessionId (missing in files from older versions) */
+  backend?: AgentBackendName;
+  /** Budget that ran out; a run stopped by its budget isn't resumed */
+  budgetStop?: string;
+}
+
+function statePath(projectPath: string): string {
+  return `${projectPath}/.ml-ralph/runner.json`;
+}
+
+/**
+ * Read persisted runner state, or null if there is none
+ */
+export async function readRunnerState(
+  projectPath: string,
+): Promise<RunnerState | null> {
+  try {
+    const file = Bun.file(statePath(projectPath));
+    if (!(await file.exists())) return null;
+    return (await file.json()) as RunnerState;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Write runner state atomically (temp file + rename)
+ */
+export async function writeRunnerState(
+  projectPath: string,
+  state: RunnerState,
+): Promise<boolean> {
+  const path = statePath(projectPath);
+  const tmpPath = `${path}.${process.pid}.tmp`;
+
+  try {
+    await Bun.write(
+      tmpPath,
+      JSON.stringify(
+        { ...state, updatedAt: new Date().toISOString() },
+        null,
+        2,
+      ),
+    );
+    await rename(tmpPath, path);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Whether a persisted run can be continued
+ */
+export function isResumable(state: RunnerState | null): state is RunnerState {
+  if (!state || state.status === "complete" || state.budgetStop) return false;
+  return state.remainingIterations > 0;
+}
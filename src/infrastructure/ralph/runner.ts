@@ -2,32 +2,112 @@
  * ML-Ralph runner - executes the autonomous agent loop
  */
 
+import { open } from "node:fs/promises";
 import type { Subprocess } from "bun";
+import type { ResultMessage } from "../claude-client/types.ts";
+import { changedFiles, snapshotWorkTree } from "../git/index.ts";
+import {
+  parseTrainingCommand,
+  trackTrainingCommand,
+} from "../process/index.ts";
+import {
+  type AgentBackend,
+  claudeBackend,
+  type StreamEvent,
+} from "./backends/index.ts";
+import {
+  type BudgetUsage,
+  budgetExhausted,
+  iterationDeadline,
+  type RunBudget,
+} from "./budget.ts";
+import {
+  appendIterationSnapshot,
+  snapshotRef,
+} from "./iteration-snapshots.ts";
+import {
+  appendIterationStats,
+  type IterationStats,
+  iterationStatsFromResult,
+  readIterationStats,
+  sumIterationStats,
+} from "./iteration-stats.ts";
+import { readKanbanFile } from "./log-parser.ts";
+import { appendEvent } from "./log-writer.ts";
+import {
+  isResumable,
+  type RunnerState,
+  readRunnerState,
+  writeRunnerState,
+} from "./runner-state.ts";
+import { unmetMustCriteria } from "./success-criteria.ts";
+
+export type CompleteReason = "project_complete" | "max_iterations" | "budget";
 
 export interface RunnerConfig {
   projectPath: string;
   maxIterations?: number;
+  /** Coding agent CLI that runs each iteration (default: claude) */
+  backend?: AgentBackend;
+  /** Spend and time limits; the run stops when one is used up */
+  budget?: RunBudget;
+  /** Parallel worker this runner is; tags its snapshots and iteration stats */
+  workerId?: string;
+  /** Appended to every iteration's prompt, e.g. a worker's assignment */
+  instructions?: string;
+  /** Output that ends the run as complete (default: <project_complete>) */
+  completeMarker?: string;
   onOutput?: (event: StreamEvent) => void;
   onIterationStart?: (iteration: number) => void;
   onIterationEnd?: (iteration: number, result: string) => void;
-  onComplete?: (reason: "project_complete" | "max_iterations") => void;
+  /** Cost, tokens and duration of a finished iteration */
+  onIterationStats?: (stats: IterationStats) => void;
+  /** detail says which budget ran out when reason is "budget" */
+  onComplete?: (reason: CompleteReason, detail?: string) => void;
+  /** Loop is blocked between iterations; reason is set if the agent asked */
+  onPause?: (reason: string | null) => void;
+  onResume?: () => void;
   onError?: (error: Error) => void;
 }
 
-export interface StreamEvent {
-  type: "text" | "tool_call" | "tool_result" | "error" | "iteration_marker";
-  content: string;
-  toolName?: string;
-  toolInput?: Record<string, unknown>;
-  isError?: boolean;
-}
+export type { StreamEvent };
+
+const BASE_PROMPT = `Read .ml-ralph/RALPH.md for instructions.
+
+Execute one iteration of the cognitive loop. Update state files as needed.
+When done, output exactly: <iteration_complete>
+
+If the project is complete (success criteria met), output: <project_complete>`;
+
+const RESUME_PROMPT = `Your previous iteration was interrupted before it finished.
+Check .ml-ralph/log.jsonl and kanban.json for what you already did, then finish the iteration.
+When done, output exactly: <iteration_complete>
+
+If the project is complete (success criteria met), output: <project_complete>`;
 
 export class RalphRunner {
   private config: RunnerConfig;
   private running = false;
   private currentProcess: Subprocess | null = null;
   private currentIteration = 0;
+  private iterationComplete = true;
   private pendingHints: string[] = [];
+  private startedAt: string | null = null;
+  private lastSessionId: string | null = null;
+  private status: RunnerState["status"] = "stopped";
+  private pauseRequested = false;
+  // Set while the loop is paused; calling it lets the loop continue
+  private releasePause: (() => void) | null = null;
+  // Spend recorded for the run so far
+  private costUsd = 0;
+  // Set when an iteration is killed for running past its time limit
+  private budgetKill: string | null = null;
+  // Set when a budget ends the run, which then can't be resumed
+  private budgetStop: string | null = null;
+  // Writes to runner.json are chained so they land in order
+  private persisting: Promise<unknown> = Promise.resolve();
+  // Training runs being looked up; an iteration waits for them before ending
+  private tracking: Promise<unknown>[] = [];
 
   constructor(config: RunnerConfig) {
     this.config = {
@@ -50,6 +130,212 @@ export class RalphRunner {
   async start(): Promise<void> {
     if (this.running) return;
 
+    this.startedAt = new Date().toISOString();
+    this.lastSessionId = null;
+    this.costUsd = 0;
+    this.budgetStop = null;
+    await this.run(1, null);
+  }
+
+  /**
+   * Continue the run persisted in .ml-ralph/runner.json.
+   * An iteration that was interrupted is re-entered via its agent session,
+   * as long as the same backend is configured.
+   */
+  async resume(): Promise<void> {
+    if (this.running) return;
+
+    const state = await readRunnerState(this.config.projectPath);
+    if (!isResumable(state)) {
+      this.config.onError?.(new Error("No interrupted run to resume."));
+      return;
+    }
+
+    this.config.maxIterations = state.maxIterations;
+    this.pendingHints = [
+      ...state.pendingHints,
+      ...this.pendingHints.filter((h) => !state.pendingHints.includes(h)),
+    ];
+    this.startedAt = state.startedAt;
+    this.lastSessionId = state.lastSessionId;
+    this.costUsd = (await this.getRunUsage(state.startedAt)).costUsd;
+    this.budgetStop = null;
+
+    // Sessions can't move between backends; older state files predate the field
+    const sameBackend = (state.backend ?? "claude") === this.backend().name;
+
+    if (state.iterationComplete) {
+      await this.run(state.iteration + 1, null);
+    } else {
+      await this.run(
+        state.iteration,
+        sameBackend ? state.lastSessionId : null
+      );
+    }
+  }
+
+  /**
+   * Spend recorded for the run started at startedAt, and the time since
+   */
+  async getRunUsage(startedAt: string): Promise<BudgetUsage> {
+    const stats = await readIterationStats(this.config.projectPath);
+    const totals = sumIterationStats(
+      stats.filter((s) => s.runStartedAt === startedAt)
+    );
+    return {
+      costUsd: totals.costUsd,
+      elapsedMs: Date.now() - Date.parse(startedAt),
+    };
+  }
+
+  /**
+   * Persisted state of the last run, if it can be resumed
+   */
+  async getResumableState(): Promise<RunnerState | null> {
+    const state = await readRunnerState(this.config.projectPath);
+    return isResumable(state) ? state : null;
+  }
+
+  /**
+   * Stop the running loop
+   */
+  stop(): void {
+    this.running = false;
+    this.pauseRequested = false;
+    if (this.currentProcess) {
+      this.currentProcess.kill();
+      this.currentProcess = null;
+    }
+    this.status = "stopped";
+    this.releasePause?.();
+    void this.persistState();
+  }
+
+  /**
+   * Pause the loop once the current iteration finishes
+   */
+  pause(): void {
+    if (!this.running) return;
+    this.pauseRequested = true;
+  }
+
+  /**
+   * Cancel a pending pause, or continue a paused loop
+   */
+  unpause(): void {
+    this.pauseRequested = false;
+    this.releasePause?.();
+  }
+
+  /**
+   * Check if the loop is blocked between iterations
+   */
+  isPaused(): boolean {
+    return this.releasePause !== null;
+  }
+
+  /**
+   * Check if a pause will take effect after the current iteration
+   */
+  isPauseRequested(): boolean {
+    return this.pauseRequested;
+  }
+
+  /**
+   * Check if the runner is currently running
+   */
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  /**
+   * Set the max iterations for the next run
+   */
+  setMaxIterations(maxIterations: number): void {
+    this.config.maxIterations = maxIterations;
+    if (this.running) {
+      void this.persistState();
+    }
+  }
+
+  /**
+   * Get the max iterations of the current (or next) run
+   */
+  getMaxIterations(): number {
+    return this.config.maxIterations!;
+  }
+
+  /**
+   * Set the coding agent CLI, taking effect at the next iteration
+   */
+  setBackend(backend: AgentBackend): void {
+    this.config.backend = backend;
+  }
+
+  /**
+   * Set the spend and time limits, taking effect at the next iteration
+   */
+  setBudget(budget: RunBudget): void {
+    this.config.budget = budget;
+  }
+
+  /**
+   * Add a hint to the pending hints queue
+   * All pending hints will be consumed at the start of the next iteration
+   */
+  addHint(hint: string): void {
+    this.pendingHints.push(hint);
+    if (this.running) {
+      void this.persistState();
+    }
+  }
+
+  /**
+   * Get the number of pending hints
+   */
+  getPendingHintsCount(): number {
+    return this.pendingHints.length;
+  }
+
+  /**
+   * Get the hints waiting for the next iteration
+   */
+  getPendingHints(): string[] {
+    return [...this.pendingHints];
+  }
+
+  /**
+   * Consume and clear all pending hints, returning them formatted for the prompt
+   */
+  private consumeHints(): string | null {
+    if (this.pendingHints.length === 0) return null;
+
+    const hints = this.pendingHints.slice();
+    this.pendingHints = [];
+
+    if (hints.length === 1) {
+      return `\n\nUser hint for this iteration:\n${hints[0]}`;
+    }
+
+    const formattedHints = hints.map((h, i) => `${i + 1}. ${h}`).join("\n");
+    return `\n\nUser hints for this iteration:\n${formattedHints}`;
+  }
+
+  /**
+   * Get current iteration number
+   */
+  getCurrentIteration(): number {
+    return this.currentIteration;
+  }
+
+  /**
+   * Run iterations firstIteration..maxIterations. If resumeSessionId is set,
+   * the first iteration continues that agent session instead of starting fresh.
+   */
+  private async run(
+    firstIteration: number,
+    resumeSessionId: string | null
+  ): Promise<void> {
     const initialized = await this.isInitialized();
     if (!initialized) {
       this.config.onError?.(new Error("Not initialized. Run init first."));
@@ -57,143 +343,369 @@ export class RalphRunner {
     }
 
     this.running = true;
-    this.currentIteration = 0;
-
-    const basePrompt = `Read .ml-ralph/RALPH.md for instructions.
-
-Execute one iteration of the cognitive loop. Update state files as needed.
-When done, output exactly: <iteration_complete>
-
-If the project is complete (success criteria met), output: <project_complete>`;
+    this.status = "running";
+    this.currentIteration = firstIteration - 1;
+    this.iterationComplete = true;
+    let stoppedBy: string | null = null;
 
     try {
-      for (let i = 1; i <= this.config.maxIterations!; i++) {
+      for (let i = firstIteration; i <= this.config.maxIterations!; i++) {
         if (!this.running) break;
 
+        stoppedBy = budgetExhausted(this.config.budget, this.usage());
+        if (stoppedBy) break;
+
         this.currentIteration = i;
+        this.iterationComplete = false;
         this.config.onIterationStart?.(i);
 
         // Build prompt with any pending hints
         const hints = this.consumeHints();
-        const prompt = hints ? basePrompt + hints : basePrompt;
+        const resuming = i === firstIteration && resumeSessionId !== null;
+        const basePrompt = resuming ? RESUME_PROMPT : BASE_PROMPT;
+        const instructions = this.config.instructions
+          ? `\n\n${this.config.instructions}`
+          : "";
+        const prompt = basePrompt + instructions + (hints ?? "");
+        const logOffset = Bun.file(this.logPath()).size;
+        const iterationStartedAt = new Date().toISOString();
+        await this.persistState();
 
         // Emit iteration marker
         this.config.onOutput?.({
           type: "iteration_marker",
-          content: `═══ Iteration ${i} ═══`,
+          content: resuming
+            ? `═══ Iteration ${i} (resumed) ═══`
+            : `═══ Iteration ${i} ═══`,
         });
 
-        const result = await this.runIteration(prompt);
+        // Kill the iteration if it outlives its share of the time budget
+        this.budgetKill = null;
+        const deadline = iterationDeadline(this.config.budget, this.usage());
+        const timer = deadline
+          ? setTimeout(() => {
+              this.budgetKill = deadline.reason;
+              this.currentProcess?.kill();
+            }, deadline.ms)
+          : null;
 
+        const before = await this.snapshot(i, "before");
+
+        let resultMessage: Partial<ResultMessage> | null;
+        try {
+          resultMessage = await this.runIteration(
+            prompt,
+            resuming ? resumeSessionId : null
+          );
+        } finally {
+          if (timer) clearTimeout(timer);
+        }
+        // Stopped iterations changed files too, so record them first
+        if (before) await this.recordSnapshot(i, before);
+        if (!this.running) break;
+        const result = resultMessage?.result ?? "";
+
+        // A killed iteration didn't finish its work
+        this.iterationComplete = this.budgetKill === null;
+        await this.persistState();
+
+        const events = await this.readEventsSince(logOffset);
+        const stats = iterationStatsFromResult(resultMessage, {
+          iteration: i,
+          backend: this.backend().name,
+          runStartedAt: this.startedAt!,
+          worker: this.config.workerId,
+          startedAt: iterationStartedAt,
+          endedAt: new Date().toISOString(),
+          hypothesisIds: hypothesisIdsIn(events),
+        });
+        await appendIterationStats(this.config.projectPath, stats);
+        this.costUsd += stats.costUsd;
+        this.config.onIterationStats?.(stats);
+
+        stoppedBy = this.budgetKill;
+        if (stoppedBy) break;
         this.config.onIterationEnd?.(i, result);
 
-        if (result.includes("<project_complete>")) {
+        if (
+          result.includes(this.config.completeMarker ?? "<project_complete>") &&
+          (await this.acceptCompletion())
+        ) {
+          this.status = "complete";
           this.config.onComplete?.("project_complete");
           break;
         }
+
+        // The agent can ask for a pause by logging a "paused" status
+        const agentPause = agentPauseIn(events);
+        if (agentPause !== null) {
+          this.pauseRequested = true;
+        }
+        if (
+          this.pauseRequested &&
+          i < this.config.maxIterations! &&
+          !budgetExhausted(this.config.budget, this.usage())
+        ) {
+          await this.waitWhilePaused(agentPause);
+        }
       }
 
-      if (this.currentIteration >= this.config.maxIterations!) {
+      if (stoppedBy) {
+        this.status = "stopped";
+        this.budgetStop = stoppedBy;
+        await appendEvent(this.config.projectPath, {
+          type: "status",
+          status: "stopped",
+          reason: `Budget: ${stoppedBy}`,
+        });
+        this.config.onComplete?.("budget", stoppedBy);
+      } else if (
+        this.status !== "complete" &&
+        this.iterationComplete &&
+        this.currentIteration >= this.config.maxIterations!
+      ) {
+        this.status = "stopped";
         this.config.onComplete?.("max_iterations");
       }
     } catch (error) {
+      this.status = "stopped";
       this.config.onError?.(
         error instanceof Error ? error : new Error(String(error))
       );
     } finally {
       this.running = false;
       this.currentProcess = null;
+      await this.persistState();
     }
   }
 
   /**
-   * Stop the running loop
+   * Block until unpause() or stop() is called. agentPause is the pause the
+   * agent logged, or null if the user asked for it.
    */
-  stop(): void {
-    this.running = false;
-    if (this.currentProcess) {
-      this.currentProcess.kill();
-      this.currentProcess = null;
+  private async waitWhilePaused(
+    agentPause: { reason: string | null } | null
+  ): Promise<void> {
+    this.pauseRequested = false;
+    const released = new Promise<void>((resolve) => {
+      this.releasePause = resolve;
+    });
+
+    this.status = "paused";
+    await this.persistState();
+    // A pause the agent asked for is already in the log
+    if (!agentPause) {
+      await appendEvent(this.config.projectPath, {
+        type: "status",
+        status: "paused",
+        reason: "Paused by user",
+      });
     }
+    this.config.onPause?.(agentPause?.reason ?? null);
+
+    await released;
+    this.releasePause = null;
+    if (!this.running) return;
+
+    this.status = "running";
+    await this.persistState();
+    await appendEvent(this.config.projectPath, {
+      type: "status",
+      status: "running",
+      reason: "Resumed by user",
+    });
+    this.config.onResume?.();
   }
 
   /**
-   * Check if the runner is currently running
+   * Whether <project_complete> ends the run. It doesn't while "must" success
+   * criteria are unmet; the agent learns why from a completion_refused event.
+   * Custom markers (a worker's task) aren't checked.
    */
-  isRunning(): boolean {
-    return this.running;
+  private async acceptCompletion(): Promise<boolean> {
+    if (this.config.completeMarker) return true;
+
+    const unmet = await unmetMustCriteria(this.config.projectPath);
+    if (unmet.length === 0) return true;
+
+    await appendEvent(this.config.projectPath, {
+      type: "completion_refused",
+      unmet,
+      reason: "Must criteria are not met by any logged experiment",
+    });
+    this.config.onOutput?.({
+      type: "error",
+      content: `Completion refused, unmet criteria: ${unmet.join("; ")}`,
+      isError: true,
+    });
+    return false;
   }
 
   /**
-   * Set the max iterations for the next run
+   * Register the training run a Bash command starts as a job, so it can be
+   * watched and stopped. Runs started with `ml-ralph job start` register
+   * themselves.
    */
-  setMaxIterations(maxIterations: number): void {
-    this.config.maxIterations = maxIterations;
+  private async trackTraining(command: string): Promise<void> {
+    const training = parseTrainingCommand(command);
+    if (!training) return;
+
+    const kanban = await readKanbanFile(this.config.projectPath);
+    const job = await trackTrainingCommand(this.config.projectPath, training, {
+      storyId: kanban?.current_focus?.id
+    });
+    if (!job) return;
+
+    this.config.onOutput?.({
+      type: "text",
+      content: `Tracking training job ${job.id} (pid ${job.pid}): ${job.command}`
+    });
   }
 
   /**
-   * Add a hint to the pending hints queue
-   * All pending hints will be consumed at the start of the next iteration
+   * Parse the events appended to log.jsonl after offset
    */
-  addHint(hint: string): void {
-    this.pendingHints.push(hint);
+  private async readEventsSince(
+    offset: number
+  ): Promise<Record<string, unknown>[]> {
+    const handle = await open(this.logPath(), "r").catch(() => null);
+    if (!handle) return [];
+
+    try {
+      const { size } = await handle.stat();
+      if (size <= offset) return [];
+
+      const buffer = Buffer.alloc(size - offset);
+      await handle.read(buffer, 0, buffer.length, offset);
+
+      const events: Record<string, unknown>[] = [];
+      for (const line of buffer.toString("utf-8").split("\n")) {
+        try {
+          const event = JSON.parse(line);
+          if (event && typeof event === "object") events.push(event);
+        } catch {
+          // Partial or malformed line; the log writer quarantines these
+        }
+      }
+      return events;
+    } finally {
+      await handle.close();
+    }
   }
 
   /**
-   * Get the number of pending hints
+   * Snapshot the work tree under this iteration's ref. Null outside git.
    */
-  getPendingHintsCount(): number {
-    return this.pendingHints.length;
+  private snapshot(
+    iteration: number,
+    side: "before" | "after"
+  ): Promise<string | null> {
+    return snapshotWorkTree(
+      this.config.projectPath,
+      snapshotRef(this.startedAt!, iteration, side, this.config.workerId),
+      `ml-ralph iteration ${iteration} (${side})`
+    );
   }
 
   /**
-   * Consume and clear all pending hints, returning them formatted for the prompt
+   * Take the after snapshot and record what the iteration changed
    */
-  private consumeHints(): string | null {
-    if (this.pendingHints.length === 0) return null;
-
-    const hints = this.pendingHints.slice();
-    this.pendingHints = [];
+  private async recordSnapshot(iteration: number, before: string) {
+    const after = await this.snapshot(iteration, "after");
+    if (!after) return;
+
+    await appendIterationSnapshot(this.config.projectPath, {
+      iteration,
+      runStartedAt: this.startedAt!,
+      before,
+      after,
+      files: await changedFiles(this.config.projectPath, before, after),
+      takenAt: new Date().toISOString(),
+    });
+  }
 
-    if (hints.length === 1) {
-      return `\n\nUser hint for this iteration:\n${hints[0]}`;
-    }
+  /**
+   * Spend and wall-clock time of the current run
+   */
+  private usage(): BudgetUsage {
+    return {
+      costUsd: this.costUsd,
+      elapsedMs: this.startedAt ? Date.now() - Date.parse(this.startedAt) : 0,
+    };
+  }
 
-    const formattedHints = hints.map((h, i) => `${i + 1}. ${h}`).join("\n");
-    return `\n\nUser hints for this iteration:\n${formattedHints}`;
+  private logPath(): string {
+    return `${this.config.projectPath}/.ml-ralph/log.jsonl`;
   }
 
   /**
-   * Get current iteration number
+   * Save the loop position to .ml-ralph/runner.json
    */
-  getCurrentIteration(): number {
-    return this.currentIteration;
+  private async persistState(): Promise<void> {
+    if (!this.startedAt) return;
+
+    const maxIterations = this.config.maxIterations!;
+    const completed = this.iterationComplete
+      ? this.currentIteration
+      : this.currentIteration - 1;
+
+    const state: RunnerState = {
+      status: this.status,
+      iteration: this.currentIteration,
+      iterationComplete: this.iterationComplete,
+      maxIterations,
+      remainingIterations: Math.max(0, maxIterations - completed),
+      pendingHints: [...this.pendingHints],
+      startedAt: this.startedAt,
+      updatedAt: new Date().toISOString(),
+      lastSessionId: this.lastSessionId,
+      backend: this.backend().name,
+      ...(this.budgetStop && { budgetStop: this.budgetStop }),
+    };
+    this.persisting = this.persisting.then(() =>
+      writeRunnerState(this.config.projectPath, state)
+    );
+    await this.persisting;
   }
 
   /**
-   * Run a single iteration
+   * Run a single iteration, returning the backend's final result message
    */
-  private async runIteration(prompt: string): Promise<string> {
-    const cmd = [
-      "claude",
-      "--dangerously-skip-permissions",
-      "-p",
-      prompt,
-      "--output-format",
-      "stream-json",
-    ];
-
-    const proc = Bun.spawn(cmd, {
+  private async runIteration(
+    prompt: string,
+    resumeSessionId: string | null
+  ): Promise<Partial<ResultMessage> | null> {
+    const backend = this.backend();
+    const proc = Bun.spawn(backend.buildCommand({ prompt, resumeSessionId }), {
       cwd: this.config.projectPath,
       stdout: "pipe",
       stderr: "pipe",
     });
     this.currentProcess = proc;
 
-    let fullResult = "";
+    const parser = backend.createParser();
+    let resultMessage: Partial<ResultMessage> | null = null;
+    const handleLine = (line: string) => {
+      const parsed = parser.parseLine(line);
+      for (const event of parsed.events) {
+        this.config.onOutput?.(event);
+        if (event.type === "tool_call" && event.toolName === "Bash") {
+          this.tracking.push(
+            this.trackTraining(String(event.toolInput?.command ?? ""))
+          );
+        }
+      }
+      if (parsed.result) resultMessage = parsed.result;
+      // Remember the session for --resume as soon as it's known
+      if (parsed.sessionId && parsed.sessionId !== this.lastSessionId) {
+        this.lastSessionId = parsed.sessionId;
+        void this.persistState();
+      }
+    };
+
     const stdout = proc.stdout;
     if (!stdout || typeof stdout === "number") {
-      throw new Error("Failed to capture stdout from claude process");
+      throw new Error(`Failed to capture stdout from ${backend.name} process`);
     }
     const reader = stdout.getReader();
     const decoder = new TextDecoder();
@@ -209,115 +721,47 @@ If the project is complete (success criteria met), output: <project_complete>`;
         buffer = lines.pop() || "";
 
         for (const line of lines) {
-          if (!line.trim()) continue;
-
-          try {
-            const event = JSON.parse(line);
-            this.handleStreamEvent(event);
-
-            if (event.type === "result") {
-              fullResult = event.result || "";
-            }
-          } catch {
-            // Not JSON, emit as text
-            this.config.onOutput?.({
-              type: "text",
-              content: line,
-            });
-          }
+          if (line.trim()) handleLine(line);
         }
       }
 
       // Process remaining buffer
-      if (buffer.trim()) {
-        try {
-          const event = JSON.parse(buffer);
-          this.handleStreamEvent(event);
-          if (event.type === "result") {
-            fullResult = event.result || "";
-          }
-        } catch {
-          this.config.onOutput?.({
-            type: "text",
-            content: buffer,
-          });
-        }
-      }
+      if (buffer.trim()) handleLine(buffer);
     } finally {
       reader.releaseLock();
     }
 
     await proc.exited;
-    return fullResult;
+    await Promise.all(this.tracking.splice(0));
+    return resultMessage;
   }
 
-  /**
-   * Handle a streaming JSON event from Claude Code
-   */
-  private handleStreamEvent(event: Record<string, unknown>): void {
-    const eventType = event.type as string;
-
-    if (eventType === "assistant") {
-      const message = event.message as Record<string, unknown> | undefined;
-      const content = (message?.content as Array<Record<string, unknown>>) || [];
-
-      for (const block of content) {
-        const blockType = block.type as string;
-
-        if (blockType === "text") {
-          const text = block.text as string;
-          if (text) {
-            this.config.onOutput?.({
-              type: "text",
-              content: text,
-            });
-          }
-        } else if (blockType === "tool_use") {
-          const toolName = block.name as string;
-          const toolInput = block.input as Record<string, unknown>;
-
-          let description = "";
-          if (toolName === "Bash") {
-            description =
-              (toolInput.description as string) ||
-              (toolInput.command as string)?.slice(0, 50) ||
-              "";
-          } else if (
-            toolName === "Read" ||
-            toolName === "Write" ||
-            toolName === "Edit"
-          ) {
-            description = toolInput.file_path as string;
-          } else if (toolName === "Glob" || toolName === "Grep") {
-            description = toolInput.pattern as string;
-          }
-
-          this.config.onOutput?.({
-            type: "tool_call",
-            content: description,
-            toolName,
-            toolInput,
-          });
-        }
-      }
-    } else if (eventType === "user") {
-      const message = event.message as Record<string, unknown> | undefined;
-      const content = (message?.content as Array<Record<string, unknown>>) || [];
-
-      for (const block of content) {
-        if ((block.type as string) === "tool_result") {
-          const isError = block.is_error as boolean;
-          this.config.onOutput?.({
-            type: "tool_result",
-            content: isError ? "failed" : "success",
-            isError,
-          });
-        }
-      }
-    } else if (eventType === "result") {
-      // Final result - nothing to emit
-    }
+  private backend(): AgentBackend {
+    return this.config.backend ?? claudeBackend;
+  }
+}
+
+/**
+ * The pause the agent asked for, if its latest status event is "paused"
+ */
+function agentPauseIn(
+  events: Record<string, unknown>[]
+): { reason: string | null } | null {
+  const latest = events.filter((e) => e.type === "status").pop();
+  if (latest?.status !== "paused") return null;
+  return { reason: typeof latest.reason === "string" ? latest.reason : null };
+}
+
+/**
+ * Ids of the hypotheses that events refer to, in order of first mention
+ */
+function hypothesisIdsIn(events: Record<string, unknown>[]): string[] {
+  const ids = new Set<string>();
+  for (const event of events) {
+    const id = event.type === "hypothesis" ? event.id : event.hypothesis_id;
+    if (typeof id === "string" && id) ids.add(id);
   }
+  return Array.from(ids);
 }
 
 /**
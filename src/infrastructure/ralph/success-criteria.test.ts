@@ -0,0 +1,131 @@
+/**
+ * Tests for parsing success criteria and tracking them against experiments
+ */
+
+import { describe, expect, test } from "bun:test";
+import {
+  evaluateCriteria,
+  matchingMetricKeys,
+  parseCriterion,
+} from "./success-criteria.ts";
+import type { ExperimentEvent } from "./templates.ts";
+
+function experiment(
+  name: string,
+  metrics: Record<string, number>,
+): ExperimentEvent {
+  return {
+    ts: "2026-01-26T10:00:00Z",
+    type: "experiment",
+    name,
+    hypothesis_id: "H-001",
+    metrics,
+  };
+}
+
+describe("parseCriterion", () => {
+  test("parses metric thresholds with splits, units and priorities", () => {
+    expect(parseCriterion("Test AUC > 0.85")).toEqual({
+      metric: "AUC",
+      comparator: ">",
+      threshold: 0.85,
+      split: "test",
+      priority: "must",
+    });
+    expect(parseCriterion("F1 >= 0.7 on validation set")).toMatchObject({
+      metric: "F1",
+      comparator: ">=",
+      split: "val",
+    });
+    expect(parseCriterion("should: Inference latency < 50ms")).toEqual({
+      metric: "Inference latency",
+      comparator: "<",
+      threshold: 50,
+      unit: "ms",
+      priority: "should",
+    });
+    expect(parseCriterion("Accuracy ≥ 90%")).toMatchObject({
+      comparator: ">=",
+      threshold: 90,
+      unit: "%",
+    });
+  });
+
+  test("doesn't take 'Training time' for a split", () => {
+    expect(parseCriterion("Training time < 4 hours")).toEqual({
+      metric: "Training time",
+      comparator: "<",
+      threshold: 4,
+      unit: "hours",
+      priority: "must",
+    });
+  });
+
+  test("returns null for criteria that aren't thresholds", () => {
+    expect(parseCriterion("Model must be interpretable")).toBeNull();
+  });
+});
+
+describe("matchingMetricKeys", () => {
+  const keys = ["train_auc", "val_auc", "test_auc", "auc_roc", "val_loss"];
+
+  test("matches the requested split", () => {
+    const criterion = parseCriterion("Validation AUC > 0.8")!;
+    expect(matchingMetricKeys(criterion, keys)).toEqual(["val_auc"]);
+  });
+
+  test("prefers keys without a split, then validation ones", () => {
+    const auc = parseCriterion("AUC > 0.8")!;
+    expect(matchingMetricKeys(auc, keys)).toEqual(["auc_roc"]);
+    const loss = parseCriterion("loss < 0.3")!;
+    expect(matchingMetricKeys(loss, [...keys, "train_loss"])).toEqual([
+      "val_loss",
+    ]);
+  });
+});
+
+describe("evaluateCriteria", () => {
+  const experiments = [
+    experiment("baseline", { test_auc: 0.78, latency_ms: 40 }),
+    experiment("tuned", { test_auc: 0.83, latency_ms: 65, accuracy: 0.91 }),
+  ];
+
+  test("tracks each criterion against the best experiment", () => {
+    const [auc, latency, accuracy, prose] = evaluateCriteria(
+      {
+        success_criteria: [
+          "Test AUC > 0.85",
+          { metric: "latency_ms", comparator: "<", threshold: 50 },
+          "Accuracy > 90%",
+          "Model must be interpretable",
+        ],
+      },
+      experiments,
+    );
+
+    expect(auc?.status).toBe("unmet");
+    expect(auc?.best?.experiment.name).toBe("tuned");
+    expect(auc?.progress).toBeCloseTo(0.83 / 0.85);
+
+    expect(latency?.status).toBe("met");
+    expect(latency?.best?.value).toBe(40);
+    expect(latency?.label).toBe("latency_ms < 50");
+
+    expect(accuracy?.status).toBe("met");
+    expect(accuracy?.best?.value).toBeCloseTo(91);
+
+    expect(prose?.status).toBe("unknown");
+  });
+
+  test("can't track a metric no experiment logs", () => {
+    const [map, beat] = evaluateCriteria(
+      { success_criteria: ["MAP@10 > 0.3", "Beat baseline by > 5%"] },
+      experiments,
+    );
+    expect(map?.status).toBe("unknown");
+    expect(map?.best).toBeNull();
+    expect(map?.progress).toBeNull();
+    expect(beat?.criterion?.metric).toBe("Beat baseline by");
+    expect(beat?.status).toBe("unknown");
+  });
+});
@@ -0,0 +1,299 @@
+/**
+ * Success criteria - PRD criteria as metric thresholds, tracked against
+ * the experiments logged so far
+ *
+ * A criterion in prd.json is either a string like "Test AUC > 0.85" or a
+ * structured object. Strings are parsed when they have the shape
+ * "<metric> <comparator> <number>"; the ones that don't can't be tracked.
+ */
+
+import { aggregateEvents, readLogFile, readPrdFile } from "./log-parser.ts";
+import type {
+  CriterionComparator,
+  CriterionPriority,
+  CriterionSplit,
+  ExperimentEvent,
+  MetricCriterion,
+  PRD,
+  SuccessCriterionEntry,
+} from "./templates.ts";
+
+/** The experiment metric that comes closest to meeting a criterion */
+export interface CriterionBest {
+  experiment: ExperimentEvent;
+  metricKey: string;
+  value: number;
+}
+
+export interface CriterionProgress {
+  label: string;
+  priority: CriterionPriority;
+  /** Null when the criterion couldn't be parsed */
+  criterion: MetricCriterion | null;
+  /**
+   * "unknown" when it can't be tracked: it isn't a metric threshold, or no
+   * experiment logs a metric it matches
+   */
+  status: "met" | "unmet" | "unknown";
+  best: CriterionBest | null;
+  /** How close the best value is to the threshold, 0-1 */
+  progress: number | null;
+}
+
+// Synonyms collapse to one token so "validation_auc" matches "val AUC"
+const TOKEN_ALIASES: Record<string, string> = {
+  training: "train",
+  validation: "val",
+  valid: "val",
+  dev: "val",
+  holdout: "test",
+  heldout: "test",
+};
+
+const SPLIT_TOKENS = new Set<string>(["train", "val", "test"]);
+
+const COMPARATORS: Record<string, CriterionComparator> = {
+  ">": ">",
+  ">=": ">=",
+  "≥": ">=",
+  "<": "<",
+  "<=": "<=",
+  "≤": "<=",
+};
+
+const CRITERION_PATTERN =
+  /^(.+?)\s*(>=|<=|≥|≤|>|<)\s*(-?\d+(?:\.\d+)?(?:e-?\d+)?)\s*(%?)(.*)$/i;
+
+// "(should)", "should:", "nice to have:" and the like mark a soft criterion
+const SOFT_PATTERN =
+  /^\s*(?:should|nice[\s-]to[\s-]have|stretch)\s*:\s*|\s*\((?:should|nice[\s-]to[\s-]have|stretch|optional)\)\s*$/i;
+const MUST_PREFIX = /^\s*must\s*:\s*/i;
+
+// A split named in the criterion text: "Test AUC", "F1 on validation set"
+const SPLIT_PATTERN =
+  /\b(?:on\s+(?:the\s+)?)?(val|valid|validation|dev|test|holdout|held-out)\b(?:\s+(?:set|split|data))?|\btrain(?:ing)?\s+(?:set|split|data)\b/i;
+
+function tokens(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/held-out/g, "heldout")
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean)
+    .map((token) => TOKEN_ALIASES[token] ?? token);
+}
+
+/**
+ * Parse a criterion like "Test AUC > 0.85" or "should: latency < 50 ms".
+ * Null when it isn't a metric threshold.
+ */
+export function parseCriterion(text: string): MetricCriterion | null {
+  const soft = SOFT_PATTERN.test(text);
+  const stripped = text.replace(SOFT_PATTERN, "").replace(MUST_PREFIX, "");
+  const match = CRITERION_PATTERN.exec(stripped.trim());
+  if (!match) return null;
+
+  const [, metricText = "", op = "", number = "", percent, rest = ""] = match;
+  const threshold = Number(number);
+  const comparator = COMPARATORS[op];
+  if (!comparator || !Number.isFinite(threshold)) return null;
+
+  // tokens() maps "validation", "holdout" etc. to the split's name
+  const splitMatch = SPLIT_PATTERN.exec(`${metricText} ${rest}`);
+  const split = splitMatch
+    ? ((splitMatch[1] ? tokens(splitMatch[1])[0] : "train") as CriterionSplit)
+    : undefined;
+  const metric = metricText
+    .replace(SPLIT_PATTERN, " ")
+    .replace(/[()]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+  if (!metric) return null;
+
+  const unit = percent
+    ? "%"
+    : /^[a-zμ/]+$/i.exec(rest.replace(SPLIT_PATTERN, " ").trim())?.[0];
+  return {
+    metric,
+    comparator,
+    threshold,
+    ...(split ? { split } : {}),
+    ...(unit ? { unit } : {}),
+    priority: soft ? "should" : "must",
+  };
+}
+
+/**
+ * A PRD entry as a criterion, or null if it can't be tracked
+ */
+export function toMetricCriterion(
+  entry: SuccessCriterionEntry,
+): MetricCriterion | null {
+  if (typeof entry === "string") return parseCriterion(entry);
+  if (
+    typeof entry?.metric !== "string" ||
+    !(entry.comparator in COMPARATORS) ||
+    typeof entry.threshold !== "number"
+  ) {
+    return null;
+  }
+  // Structured criteria may use ≥ and ≤ too
+  return { ...entry, comparator: COMPARATORS[entry.comparator]! };
+}
+
+export function criterionLabel(entry: SuccessCriterionEntry): string {
+  if (typeof entry === "string") return entry;
+  if (entry.description) return entry.description;
+  const split = entry.split ? `${entry.split} ` : "";
+  return `${split}${entry.metric} ${entry.comparator} ${entry.threshold}${entry.unit ?? ""}`;
+}
+
+/**
+ * Experiment metric keys the criterion can be checked against, best match
+ * first. Without a split, keys that don't name one are preferred over
+ * validation ones, and those over the rest.
+ */
+export function matchingMetricKeys(
+  criterion: MetricCriterion,
+  keys: string[],
+): string[] {
+  const wanted = tokens(criterion.metric);
+  if (criterion.split) wanted.push(criterion.split);
+
+  const ranked: { key: string; rank: number }[] = [];
+  for (const key of keys) {
+    const keyTokens = tokens(key);
+    if (!wanted.every((token) => keyTokens.includes(token))) continue;
+
+    const extraSplits = keyTokens.filter(
+      (token) => SPLIT_TOKENS.has(token) && !wanted.includes(token),
+    );
+    const rank =
+      extraSplits.length === 0 ? 0 : extraSplits.includes("val") ? 1 : 2;
+    ranked.push({ key, rank });
+  }
+
+  const bestRank = Math.min(...ranked.map((r) => r.rank));
+  return ranked.filter((r) => r.rank === bestRank).map((r) => r.key);
+}
+
+function higherIsBetter(comparator: CriterionComparator): boolean {
+  return comparator === ">" || comparator === ">=";
+}
+
+function meets(value: number, criterion: MetricCriterion): boolean {
+  switch (criterion.comparator) {
+    case ">":
+      return value > criterion.threshold;
+    case ">=":
+      return value >= criterion.threshold;
+    case "<":
+      return value < criterion.threshold;
+    case "<=":
+      return value <= criterion.threshold;
+  }
+}
+
+function progressTowards(value: number, criterion: MetricCriterion): number {
+  if (meets(value, criterion)) return 1;
+  const { threshold } = criterion;
+  const ratio = higherIsBetter(criterion.comparator)
+    ? threshold > 0 && value > 0
+      ? value / threshold
+      : 0
+    : value > 0 && threshold > 0
+      ? threshold / value
+      : 0;
+  return Math.min(1, Math.max(0, ratio));
+}
+
+/**
+ * Check one criterion against every experiment's final metrics
+ */
+export function evaluateCriterion(
+  entry: SuccessCriterionEntry,
+  experiments: ExperimentEvent[],
+): CriterionProgress {
+  const criterion = toMetricCriterion(entry);
+  const label = criterionLabel(entry);
+  if (!criterion) {
+    return {
+      label,
+      priority:
+        typeof entry === "string"
+          ? SOFT_PATTERN.test(entry)
+            ? "should"
+            : "must"
+          : (entry.priority ?? "must"),
+      criterion: null,
+      status: "unknown",
+      best: null,
+      progress: null,
+    };
+  }
+
+  const higher = higherIsBetter(criterion.comparator);
+  let best: CriterionBest | null = null;
+  let matched = false;
+  for (const experiment of experiments) {
+    const metrics = experiment.metrics ?? {};
+    for (const metricKey of matchingMetricKeys(
+      criterion,
+      Object.keys(metrics),
+    )) {
+      matched = true;
+      let value = metrics[metricKey];
+      if (typeof value !== "number" || !Number.isFinite(value)) continue;
+      // A 0-1 metric checked against a percentage
+      if (criterion.unit === "%" && Math.abs(value) <= 1) value *= 100;
+      if (!best || (higher ? value > best.value : value < best.value)) {
+        best = { experiment, metricKey, value };
+      }
+    }
+  }
+
+  // e.g. "Beat baseline by > 5%" parses, but no metric is called that
+  if (!matched) {
+    return {
+      label,
+      priority: criterion.priority ?? "must",
+      criterion,
+      status: "unknown",
+      best: null,
+      progress: null,
+    };
+  }
+
+  return {
+    label,
+    priority: criterion.priority ?? "must",
+    criterion,
+    status: best && meets(best.value, criterion) ? "met" : "unmet",
+    best,
+    progress: best ? progressTowards(best.value, criterion) : 0,
+  };
+}
+
+export function evaluateCriteria(
+  prd: Pick<PRD, "success_criteria"> | null,
+  experiments: ExperimentEvent[],
+): CriterionProgress[] {
+  const entries = Array.isArray(prd?.success_criteria)
+    ? prd.success_criteria
+    : [];
+  return entries.map((entry) => evaluateCriterion(entry, experiments));
+}
+
+/**
+ * Labels of the "must" criteria the project's experiments don't meet yet.
+ * Criteria that can't be tracked don't count as unmet.
+ */
+export async function unmetMustCriteria(
+  projectPath: string,
+): Promise<string[]> {
+  const prd = await readPrdFile(projectPath);
+  if (!prd) return [];
+  const { experiments } = aggregateEvents(await readLogFile(projectPath));
+  return evaluateCriteria(prd, experiments)
+    .filter((c) => c.priority === "must" && c.status === "unmet")
+    .map((c) => c.label);
+}
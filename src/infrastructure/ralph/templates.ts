@@ -253,7 +253,7 @@ Every single iteration MUST follow this structure:
    - Update last_updated and update_reason
 
 6. LOG the kanban update
-   - {"type":"kanban_updated","changes":"...","reason":"..."}
+   - {"ts":"...","type":"kanban_updated","changes":"...","reason":"..."}
 \`\`\`
 
 ### Why This Matters
@@ -302,7 +302,8 @@ Before you write a single line of training code, you MUST verify your data:
 │    - Are they from the same distribution?                    │
 │    - If cross-dataset eval: is that actually valid?          │
 │                                                              │
-│  Log: {"type":"data_verified","checks":[...],"issues":[...]} │
+│  Log: {"ts":"...","type":"data_verified","dataset":"...",    │
+│        "checks":{...},"issues":[...],"action":"..."}         │
 └─────────────────────────────────────────────────────────────┘
 \`\`\`
 
@@ -458,7 +459,25 @@ The answer is: **go back to UNDERSTAND.**
 
 ## Event Types
 
-Append events to \`.ml-ralph/log.jsonl\`:
+Append events to \`.ml-ralph/log.jsonl\`. The TUI writes to the same file, so take the
+lock file around every append and write each event as one complete line:
+
+\`\`\`bash
+lock=.ml-ralph/log.jsonl.lock; got=
+for i in $(seq 50); do
+  if (set -C; echo $$ > "$lock") 2>/dev/null; then got=1; break; fi
+  # Left behind by a process that died, or held for over a minute
+  owner=$(cat "$lock" 2>/dev/null)
+  if { [ -n "$owner" ] && ! kill -0 "$owner" 2>/dev/null; } || [ -n "$(find "$lock" -mmin +1 2>/dev/null)" ]; then
+    rm -f "$lock"
+  fi
+  sleep 0.1
+done
+echo '{"ts":"...","type":"learning","insight":"..."}' >> .ml-ralph/log.jsonl
+if [ -n "$got" ]; then rm -f "$lock"; fi
+\`\`\`
+
+It waits at most 5 seconds for the lock, then appends anyway, and only removes the lock it took.
 
 ### Phase Transitions
 \`\`\`jsonl
@@ -515,6 +534,21 @@ Append events to \`.ml-ralph/log.jsonl\`:
 {"ts":"...","type":"status","status":"paused","reason":"Need user input on constraint change"}
 \`\`\`
 
+### Reverted Iterations
+\`\`\`jsonl
+{"ts":"...","type":"iteration_reverted","iteration":4,"files":["src/train.py","configs/base.yaml"],"reason":"Reverted by the user"}
+\`\`\`
+
+### Refused Completion
+\`\`\`jsonl
+{"ts":"...","type":"completion_refused","unmet":["Test AUC > 0.85"],"reason":"Must criteria are not met by any logged experiment"}
+\`\`\`
+
+### Training Alerts
+\`\`\`jsonl
+{"ts":"...","type":"training_alert","job_id":"job_20240128103000","issue":"nan","metric":"train_loss","detail":"train_loss is NaN after 412 points","action":"stopped"}
+\`\`\`
+
 ### Kanban Updates
 \`\`\`jsonl
 {"ts":"...","type":"kanban_updated","changes":"Completed T-007, moved T-008 to current_focus, added T-012 for ensemble exploration","reason":"Distribution shift understood, ready to implement fix. Also realized ensembles might help with edge cases."}
@@ -540,6 +574,31 @@ Append events to \`.ml-ralph/log.jsonl\`:
 | \`prd_updated\` | field, change, reason | PRD modification |
 | \`kanban_updated\` | changes, reason | Plan evolution (every iteration) |
 | \`status\` | status, reason | Status change |
+| \`iteration_reverted\` | iteration, files, reason | Logged by ml-ralph, not by you |
+| \`completion_refused\` | unmet, reason | Logged by ml-ralph, not by you |
+| \`training_alert\` | job_id, issue, metric, detail, action | Logged by ml-ralph, not by you |
+
+Every event also needs \`ts\` (ISO timestamp) and \`type\`. The TUI validates each line against this
+table and flags malformed events; run \`ml-ralph lint-log\` to see which lines are wrong.
+
+Logging \`{"ts":"...","type":"status","status":"paused","reason":"..."}\` pauses the loop after the current
+iteration finishes. The next iteration only starts once the user resumes it from the TUI, so use it
+when you need their input (put the question in \`reason\`).
+
+An \`iteration_reverted\` event means the user rolled back the file changes an earlier iteration
+made. The listed files are back to how they were before that iteration: don't assume that work is
+still in place, and treat the revert as a rejection of it.
+
+A \`completion_refused\` event means you output \`<project_complete>\` while "must" success criteria
+were unmet: no logged \`experiment\` has metrics that meet them, so the run went on. Keep working on
+the listed criteria, or, if one turned out to be wrong, change it in \`prd.json\` and log a
+\`prd_updated\` event.
+
+A \`training_alert\` event means ml-ralph saw something wrong in a training job's losses:
+\`nan\` (NaN or Inf), \`divergence\` (loss several times its best value), \`overfitting\` (validation
+loss rising while training loss falls) or \`plateau\` (no improvement in a while). \`"action":"stopped"\`
+means the job was sent SIGTERM. Treat it as the result of that run: fix the cause (learning rate,
+normalization, regularization, early stopping) before launching it again.
 
 ---
 
@@ -685,7 +744,40 @@ If wandb.login() fails (user not logged in):
 3. User can sync later with \`wandb sync ./wandb/offline-run-*\`
 4. TUI reads from local wandb files regardless of online/offline
 
-### Viewing Runs in TUI
+### Long-running Training
+
+Start runs that outlive a tool call with \`ml-ralph job start\`:
+
+\`\`\`bash
+ml-ralph job start --experiment autoencoder-semantic-features -- python train.py --epochs 50
+# Started job_20240128103000 (pid 4242)
+# Log: .ml-ralph/runs/job_20240128103000.log
+# wandb run id: k3j9x2ab
+\`\`\`
+
+It returns at once, logs stdout and stderr to the printed file, exports
+\`WANDB_RUN_ID\` (use it as the \`wandb_run_id\` of the experiment event) and
+registers the job so the user can watch its curves and stop it from the TUI.
+A plain \`nohup python train.py > train.log 2>&1 &\` is picked up too, but the
+wrapper is more reliable.
+
+To run several experiments, submit them to the job queue instead. Each one
+starts when the project's job limits leave room for it, in queue order:
+
+\`\`\`bash
+ml-ralph job submit --cpus 4 --memory 16 --experiment lr-sweep-1e-3 -- python train.py --lr 1e-3
+# Queued job_20240128103005 (position 2 of 2)
+\`\`\`
+
+Reserve the cores and GB of memory the run needs; \`--priority 1\` puts it
+ahead of jobs submitted with a lower priority. The user can reorder and cancel
+queued jobs from the TUI.
+
+Running jobs are checked for NaN, diverging, overfitting and plateaued losses,
+read from the run's wandb history or from \`loss=0.42\`-style lines in its log,
+so print losses as \`name=value\`. Problems are logged as \`training_alert\`
+events.
+
 
 The TUI reads experiment data from:
 1. \`.ml-ralph/log.jsonl\` - Quick summary
@@ -777,7 +869,10 @@ jq -s '[.[] | select(.type=="kanban_updated")]' .ml-ralph/log.jsonl
 The PRD is a **living document**. Update it when evidence demands:
 
 **Can change freely:**
-- \`success_criteria\` - Refine based on what's achievable/meaningful
+- \`success_criteria\` - Refine based on what's achievable/meaningful. Keep each one a metric threshold
+  (\`"Test AUC > 0.85"\`, or \`{"metric":"auc","comparator":">","threshold":0.85,"split":"test"}\`) named
+  like the metrics your experiments log: ml-ralph checks them against logged experiments and refuses
+  \`<project_complete>\` while a "must" criterion is unmet
 - \`constraints\` - Add discovered constraints
 - \`scope\` - Adjust based on learnings
 
@@ -799,8 +894,8 @@ Always log changes with rationale!
 4. **Document verification** - Log what you checked and what you found
 
 Only after genuine verification attempt:
-1. Log: \`{"type":"success_verified","checks":["data integrity","no leakage","same distribution"],"attempts_to_break":["..."]}\`
-2. Log: \`{"type":"status","status":"complete","reason":"All criteria met AND verified"}\`
+1. Log: \`{"ts":"...","type":"success_verified","criteria_met":["..."],"verification_checks":["data integrity","no leakage","same distribution"],"attempts_to_break":["..."]}\`
+2. Log: \`{"ts":"...","type":"status","status":"complete","reason":"All criteria met AND verified"}\`
 3. Update \`prd.json\`: \`status: "complete"\`
 4. Output: \`<project_complete>\`
 
@@ -949,8 +1044,8 @@ Write to \`.ml-ralph/prd.json\`:
   "problem": "What we're solving",
   "goal": "High-level objective",
   "success_criteria": [
-    "AUC > 0.85",
-    "Training time < 4 hours"
+    "Test AUC > 0.85",
+    { "metric": "inference_ms", "comparator": "<", "threshold": 50, "priority": "should" }
   ],
   "constraints": [
     "No deep learning",
@@ -963,6 +1058,12 @@ Write to \`.ml-ralph/prd.json\`:
 }
 \`\`\`
 
+Write each success criterion as \`<metric> <comparator> <number>\` ("Test AUC > 0.85", "val F1 >= 0.7",
+"Accuracy > 90%"), or as an object with \`metric\`, \`comparator\` (\`>\`, \`>=\`, \`<\`, \`<=\`),
+\`threshold\` and optionally \`split\` (\`train\`, \`val\`, \`test\`), \`priority\` and \`description\`.
+The TUI tracks these against the metrics of logged experiments, so use the metric names the
+experiments will log. Criteria are "must" unless marked "should" (\`priority\`, or a "should:" prefix).
+
 ## Kanban Format
 
 Initialize \`.ml-ralph/kanban.json\`:
@@ -1030,6 +1131,8 @@ export const DEFAULT_KANBAN = {
 export interface BaseEvent {
   ts: string;
   type: string;
+  /** Parallel worker that logged the event (added when merged into the main log) */
+  worker?: string;
 }
 
 export interface PhaseEvent extends BaseEvent {
@@ -1124,7 +1227,7 @@ export interface PrdUpdatedEvent extends BaseEvent {
 
 export interface StatusEvent extends BaseEvent {
   type: "status";
-  status: "running" | "paused" | "complete";
+  status: "running" | "paused" | "stopped" | "complete";
   reason?: string;
 }
 
@@ -1134,6 +1237,66 @@ export interface KanbanUpdatedEvent extends BaseEvent {
   reason: string;
 }
 
+export interface DataCheck {
+  expected?: string | number;
+  actual?: string | number;
+  status: "PASS" | "FAIL";
+}
+
+export interface DataVerifiedEvent extends BaseEvent {
+  type: "data_verified";
+  dataset: string;
+  checks: Record<string, DataCheck>;
+  issues: string[];
+  action: string;
+}
+
+export interface VerificationAttempt {
+  check: string;
+  method: string;
+  finding: string;
+}
+
+export interface ResultVerificationEvent extends BaseEvent {
+  type: "result_verification";
+  result: string;
+  verification_attempts: VerificationAttempt[];
+  conclusion: string;
+}
+
+export interface SuccessVerifiedEvent extends BaseEvent {
+  type: "success_verified";
+  criteria_met: string[];
+  verification_checks: string[];
+  attempts_to_break: string[];
+  conclusion?: string;
+}
+
+/** Written by ml-ralph when the user rolls back an iteration's file changes */
+export interface IterationRevertedEvent extends BaseEvent {
+  type: "iteration_reverted";
+  iteration: number;
+  files: string[];
+  reason: string;
+}
+
+/** Written by ml-ralph when a running job's losses look unhealthy */
+export interface TrainingAlertEvent extends BaseEvent {
+  type: "training_alert";
+  job_id: string;
+  issue: "nan" | "divergence" | "overfitting" | "plateau";
+  metric: string;
+  detail: string;
+  action: "stopped" | "flagged";
+}
+
+/** Written by ml-ralph when <project_complete> comes with "must" criteria unmet */
+export interface CompletionRefusedEvent extends BaseEvent {
+  type: "completion_refused";
+  unmet: string[];
+  reason: string;
+}
+
 export type RalphEvent =
   | PhaseEvent
   | ThinkingEvent
@@ -1147,14 +1310,44 @@ export type RalphEvent =
   | StrategicRetreatEvent
   | PrdUpdatedEvent
   | StatusEvent
-  | KanbanUpdatedEvent;
+  | KanbanUpdatedEvent
+  | DataVerifiedEvent
+  | ResultVerificationEvent
+  | SuccessVerifiedEvent
+  | IterationRevertedEvent
+  | CompletionRefusedEvent
+  | TrainingAlertEvent;
+
+export type CriterionComparator = ">" | ">=" | "<" | "<=";
+
+export type CriterionSplit = "train" | "val" | "test";
+
+/** Only unmet "must" criteria block completion */
+export type CriterionPriority = "must" | "should";
+
+export interface MetricCriterion {
+  /** Metric name, matched loosely against experiment metric keys */
+  metric: string;
+  comparator: CriterionComparator;
+  threshold: number;
+  /** Data split the metric has to be measured on */
+  split?: CriterionSplit;
+  /** "%" when the threshold is a percentage; 0-1 metrics are scaled up */
+  unit?: string;
+  /** Default: "must" */
+  priority?: CriterionPriority;
+  description?: string;
+}
+
+/** Either free text like "Test AUC > 0.85" or a structured criterion */
+export type SuccessCriterionEntry = string | MetricCriterion;
 
 export interface PRD {
   project: string;
   status: "draft" | "approved" | "complete";
   problem: string;
   goal: string;
-  success_criteria: string[];
+  success_criteria: SuccessCriterionEntry[];
   constraints: string[];
   scope: {
     in: string[];
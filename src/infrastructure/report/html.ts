@@ -0,0 +1,325 @@
+/**
+ * Project report as a self-contained HTML page: inline styles and inline
+ * SVG charts, so it can be mailed or attached as one file
+ */
+
+import {
+  type CriterionProgress,
+  type ExperimentEvent,
+  matchingMetricKeys,
+} from "../ralph/index.ts";
+import { getCurveKeys, getMetricSeries } from "../wandb/index.ts";
+import { formatMetrics } from "./markdown.ts";
+import {
+  formatValue,
+  type ProjectReport,
+  sharedMetricKeys,
+  unlinkedExperiments,
+} from "./project-report.ts";
+import { escapeXml as esc, lineChartSvg } from "./svg-chart.ts";
+
+/** Most metrics charted across experiments */
+const MAX_METRIC_CHARTS = 8;
+
+const STYLE = `
+body { font-family: -apple-system, "Segoe UI", Helvetica, Arial, sans-serif; max-width: 960px; margin: 2rem auto; padding: 0 1rem; color: #222; line-height: 1.45; }
+h1 { border-bottom: 2px solid #4e79a7; padding-bottom: .3rem; }
+h2 { margin-top: 2rem; border-bottom: 1px solid #ddd; padding-bottom: .2rem; }
+table { border-collapse: collapse; width: 100%; margin: .5rem 0 1rem; font-size: .92rem; }
+th, td { border: 1px solid #ddd; padding: .35rem .5rem; text-align: left; vertical-align: top; }
+th { background: #f5f7fa; }
+.meta { color: #666; }
+.badge { display: inline-block; padding: 0 .45rem; border-radius: .6rem; font-size: .8rem; color: #fff; background: #888; }
+.met, .keep { background: #59a14f; }
+.unmet, .reject { background: #e15759; }
+.iterate, .pivot { background: #f28e2b; }
+.pending { background: #4e79a7; }
+.gauge { display: inline-block; width: 120px; height: 10px; background: #eee; border-radius: 5px; overflow: hidden; vertical-align: middle; }
+.gauge > span { display: block; height: 100%; }
+.charts { display: flex; flex-wrap: wrap; gap: .5rem; }
+.hypothesis { border-left: 3px solid #4e79a7; padding-left: .8rem; margin: 1.2rem 0; }
+`;
+
+function badge(text: string, kind = text): string {
+  return `<span class="badge ${esc(kind)}">${esc(text)}</span>`;
+}
+
+function table(header: string[], rows: string[][]): string {
+  return `<table><thead><tr>${header.map((h) => `<th>${esc(h)}</th>`).join("")}</tr></thead><tbody>${rows
+    .map((row) => `<tr>${row.map((c) => `<td>${c}</td>`).join("")}</tr>`)
+    .join("")}</tbody></table>`;
+}
+
+function day(ts: string | undefined): string {
+  return ts ? esc(ts.slice(0, 10)) : "";
+}
+
+function link(text: string, url: string | undefined): string {
+  return url && /^https?:\/\//.test(url)
+    ? `<a href="${esc(url)}">${esc(text)}</a>`
+    : esc(text);
+}
+
+function gauge(progress: CriterionProgress): string {
+  if (progress.status === "unknown") return "not tracked";
+  const percent = Math.round((progress.progress ?? 0) * 100);
+  const color = progress.status === "met" ? "#59a14f" : "#e15759";
+  return `<span class="gauge"><span style="width:${percent}%;background:${color}"></span></span> ${percent}%`;
+}
+
+/**
+ * Threshold to draw on a metric's chart, if a criterion is about it
+ */
+function thresholdFor(
+  key: string,
+  values: number[],
+  criteria: CriterionProgress[],
+): number | null {
+  for (const { criterion } of criteria) {
+    if (!criterion || matchingMetricKeys(criterion, [key]).length === 0) {
+      continue;
+    }
+    // Percent criteria are checked against 0-1 metrics scaled up
+    const scaledDown =
+      criterion.unit === "%" && values.every((v) => Math.abs(v) <= 1);
+    return scaledDown ? criterion.threshold / 100 : criterion.threshold;
+  }
+  return null;
+}
+
+function metricCharts(report: ProjectReport): string {
+  const experiments = [...report.log.experiments].sort(
+    (a, b) => Date.parse(a.ts) - Date.parse(b.ts),
+  );
+  const names = experiments.map((e) => e.name || e.hypothesis_id);
+  const charts = sharedMetricKeys(experiments)
+    .slice(0, MAX_METRIC_CHARTS)
+    .map((key) => {
+      const values = experiments.map((e) => {
+        const value = e.metrics?.[key];
+        return typeof value === "number" && Number.isFinite(value)
+          ? value
+          : null;
+      });
+      const present = values.filter((v): v is number => v !== null);
+      return lineChartSvg([{ name: key, values }], {
+        title: key,
+        xLabels: names,
+        width: 460,
+        threshold: thresholdFor(key, present, report.criteria),
+      });
+    })
+    .filter(Boolean);
+  return charts.length > 0
+    ? `<div class="charts">${charts.join("")}</div>`
+    : "";
+}
+
+function curveChart(
+  experiment: ExperimentEvent,
+  report: ProjectReport,
+): string {
+  const history = experiment.wandb_run_id
+    ? report.histories.get(experiment.wandb_run_id)
+    : undefined;
+  if (!history) return "";
+  const keys = getCurveKeys(history).slice(0, 3);
+  return lineChartSvg(
+    keys.map((key) => ({ name: key, values: getMetricSeries(history, key) })),
+    { title: `${experiment.name || experiment.hypothesis_id} training curves` },
+  );
+}
+
+function experimentsTable(experiments: ExperimentEvent[]): string {
+  return table(
+    ["Experiment", "Logged", "Metrics", "wandb"],
+    experiments.map((e) => [
+      esc(e.name || "(unnamed)"),
+      day(e.ts),
+      esc(formatMetrics(e.metrics)),
+      e.wandb_url
+        ? link(e.wandb_run_id ?? "run", e.wandb_url)
+        : esc(e.wandb_run_id ?? ""),
+    ]),
+  );
+}
+
+export function reportHtml(report: ProjectReport): string {
+  const { prd, kanban, log, criteria } = report;
+  const title = `${prd?.project || "ML project"} - project report`;
+  const body: string[] = [
+    `<h1>${esc(title)}</h1>`,
+    `<p class="meta">Generated ${esc(report.generatedAt)}${prd ? ` · PRD ${badge(prd.status, "pending")}` : ""}${log.currentPhase ? ` · phase ${esc(log.currentPhase)}` : ""}${log.latestStatus ? ` · agent ${esc(log.latestStatus)}` : ""}</p>`,
+  ];
+
+  if (prd) {
+    if (prd.problem)
+      body.push("<h2>Problem</h2>", `<p>${esc(prd.problem)}</p>`);
+    if (prd.goal) body.push("<h2>Goal</h2>", `<p>${esc(prd.goal)}</p>`);
+    if (criteria.length > 0) {
+      body.push(
+        "<h2>Success criteria</h2>",
+        table(
+          ["Criterion", "Priority", "Status", "Progress", "Best so far"],
+          criteria.map((c) => [
+            esc(c.label),
+            esc(c.priority),
+            c.status === "unknown" ? "" : badge(c.status),
+            gauge(c),
+            c.best
+              ? esc(
+                  `${formatValue(c.best.value)} ${c.best.metricKey} (${c.best.experiment.name || c.best.experiment.hypothesis_id})`,
+                )
+              : "",
+          ]),
+        ),
+      );
+    }
+    if (prd.constraints?.length) {
+      body.push(
+        "<h2>Constraints</h2>",
+        `<ul>${prd.constraints.map((c) => `<li>${esc(c)}</li>`).join("")}</ul>`,
+      );
+    }
+    if (prd.scope?.in?.length || prd.scope?.out?.length) {
+      body.push(
+        "<h2>Scope</h2>",
+        `<p><strong>In:</strong> ${esc((prd.scope.in ?? []).join(", "))}</p>`,
+        `<p><strong>Out:</strong> ${esc((prd.scope.out ?? []).join(", "))}</p>`,
+      );
+    }
+  }
+
+  body.push("<h2>Journey</h2>");
+  if (!kanban) {
+    body.push("<p>No kanban yet.</p>");
+  } else {
+    if (kanban.current_focus) {
+      body.push(
+        `<p><strong>Current focus:</strong> ${esc(`${kanban.current_focus.id} ${kanban.current_focus.title}`)}</p>`,
+      );
+    }
+    body.push(`<h3>Completed (${kanban.completed.length})</h3>`);
+    if (kanban.completed.length > 0) {
+      body.push(
+        table(
+          ["Task", "Title", "Outcome", "Completed"],
+          kanban.completed.map((t) => [
+            esc(t.id),
+            esc(t.title),
+            esc(t.outcome ?? ""),
+            day(t.completed_at),
+          ]),
+        ),
+      );
+    }
+    body.push(`<h3>Abandoned (${kanban.abandoned.length})</h3>`);
+    if (kanban.abandoned.length > 0) {
+      body.push(
+        table(
+          ["Task", "Title", "Reason", "Abandoned"],
+          kanban.abandoned.map((t) => [
+            esc(t.id),
+            esc(t.title),
+            esc(t.reason ?? ""),
+            day(t.abandoned_at),
+          ]),
+        ),
+      );
+    }
+    if (kanban.up_next.length > 0) {
+      body.push(
+        "<h3>Up next</h3>",
+        `<ul>${kanban.up_next.map((t) => `<li>${esc(`${t.id} ${t.title}`)}</li>`).join("")}</ul>`,
+      );
+    }
+  }
+
+  const charts = metricCharts(report);
+  if (charts) body.push("<h2>Metrics across experiments</h2>", charts);
+
+  body.push(`<h2>Hypotheses (${log.hypotheses.length})</h2>`);
+  for (const h of log.hypotheses) {
+    const parts = [
+      `<h3>${esc(h.id)}: ${esc(h.hypothesis)} ${badge(h.status)}</h3>`,
+    ];
+    if (h.expected) parts.push(`<p><em>Expected:</em> ${esc(h.expected)}</p>`);
+    if (h.experiments.length > 0) {
+      parts.push(experimentsTable(h.experiments));
+      const notes = h.experiments.flatMap((e) => [
+        ...(e.observations
+          ? [`<li>${esc(`${e.name}: ${e.observations}`)}</li>`]
+          : []),
+        ...(e.surprises
+          ? [`<li>${esc(`${e.name} (surprise): ${e.surprises}`)}</li>`]
+          : []),
+      ]);
+      if (notes.length > 0) parts.push(`<ul>${notes.join("")}</ul>`);
+      const curves = h.experiments
+        .map((e) => curveChart(e, report))
+        .filter(Boolean);
+      if (curves.length > 0)
+        parts.push(`<div class="charts">${curves.join("")}</div>`);
+    }
+    if (h.decision) {
+      parts.push(
+        `<p><strong>Decision:</strong> ${badge(h.decision.action)} ${esc(h.decision.reason)}${h.decision.next_step ? ` <em>Next:</em> ${esc(h.decision.next_step)}` : ""}</p>`,
+      );
+    }
+    body.push(`<div class="hypothesis">${parts.join("")}</div>`);
+  }
+  const unlinked = unlinkedExperiments(log);
+  if (unlinked.length > 0) {
+    body.push("<h3>Other experiments</h3>", experimentsTable(unlinked));
+  }
+
+  body.push(`<h2>Learnings (${log.learnings.length})</h2>`);
+  if (log.learnings.length > 0) {
+    body.push(
+      `<ul>${log.learnings.map((l) => `<li>${esc(l.insight)}${l.source ? ` <span class="meta">(${esc(l.source)})</span>` : ""}</li>`).join("")}</ul>`,
+    );
+  }
+
+  body.push(`<h2>Research (${log.research.length})</h2>`);
+  if (log.research.length > 0) {
+    body.push(
+      `<ul>${log.research
+        .map((r) => {
+          const insights = (r.key_insights ?? [])
+            .map((i) => `<li>${esc(i)}</li>`)
+            .join("");
+          return `<li><strong>${link(r.source, r.url)}</strong>: ${esc(r.insight ?? "")}${insights ? `<ul>${insights}</ul>` : ""}</li>`;
+        })
+        .join("")}</ul>`,
+    );
+  }
+
+  body.push(`<h2>PRD changes (${log.prdChanges.length})</h2>`);
+  if (log.prdChanges.length > 0) {
+    body.push(
+      table(
+        ["Date", "Field", "Change", "Reason"],
+        log.prdChanges.map((c) => [
+          day(c.ts),
+          esc(c.field),
+          esc(c.change),
+          esc(c.reason),
+        ]),
+      ),
+    );
+  }
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${esc(title)}</title>
+<style>${STYLE}</style>
+</head>
+<body>
+${body.join("\n")}
+</body>
+</html>
+`;
+}
@@ -0,0 +1,17 @@
+/**
+ * Project report exports
+ */
+
+export { reportHtml } from "./html.ts";
+export { reportMarkdown } from "./markdown.ts";
+export type { ProjectReport } from "./project-report.ts";
+export {
+  buildProjectReport,
+  formatValue,
+  sharedMetricKeys,
+  unlinkedExperiments,
+} from "./project-report.ts";
+export type { ChartOptions, ChartSeries } from "./svg-chart.ts";
+export { lineChartSvg } from "./svg-chart.ts";
+export type { ReportFiles } from "./write-report.ts";
+export { writeProjectReport } from "./write-report.ts";
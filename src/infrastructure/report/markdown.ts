@@ -0,0 +1,232 @@
+/**
+ * Project report as a standalone markdown document
+ */
+
+import type { ExperimentEvent } from "../ralph/index.ts";
+import {
+  formatValue,
+  type ProjectReport,
+  sharedMetricKeys,
+  unlinkedExperiments,
+} from "./project-report.ts";
+
+function cell(text: string): string {
+  return text.replace(/\|/g, "\\|").replace(/\s*\n\s*/g, " ");
+}
+
+function table(header: string[], rows: string[][]): string[] {
+  return [
+    `| ${header.map(cell).join(" | ")} |`,
+    `| ${header.map(() => "---").join(" | ")} |`,
+    ...rows.map((row) => `| ${row.map(cell).join(" | ")} |`),
+  ];
+}
+
+function day(ts: string | undefined): string {
+  return ts ? ts.slice(0, 10) : "";
+}
+
+export function formatMetrics(metrics: Record<string, number>): string {
+  return Object.entries(metrics ?? {})
+    .map(([key, value]) =>
+      typeof value === "number" ? `${key}=${formatValue(value)}` : key,
+    )
+    .join(", ");
+}
+
+function experimentsTable(experiments: ExperimentEvent[]): string[] {
+  return table(
+    ["Experiment", "Logged", "Metrics", "wandb"],
+    experiments.map((e) => [
+      e.name || "(unnamed)",
+      day(e.ts),
+      formatMetrics(e.metrics),
+      e.wandb_url ?? e.wandb_run_id ?? "",
+    ]),
+  );
+}
+
+export function reportMarkdown(report: ProjectReport): string {
+  const { prd, kanban, log, criteria } = report;
+  const lines: string[] = [
+    `# ${prd?.project || "ML project"} - project report`,
+    "",
+    `Generated ${report.generatedAt}. ` +
+      [
+        prd ? `PRD: ${prd.status}` : "No PRD",
+        log.currentPhase ? `phase: ${log.currentPhase}` : null,
+        log.latestStatus ? `agent: ${log.latestStatus}` : null,
+      ]
+        .filter(Boolean)
+        .join(" · "),
+    "",
+  ];
+
+  if (prd) {
+    if (prd.problem) lines.push("## Problem", "", prd.problem, "");
+    if (prd.goal) lines.push("## Goal", "", prd.goal, "");
+    if (criteria.length > 0) {
+      lines.push(
+        "## Success criteria",
+        "",
+        ...table(
+          ["Criterion", "Priority", "Status", "Best so far"],
+          criteria.map((c) => [
+            c.label,
+            c.priority,
+            c.status === "met"
+              ? "✅ met"
+              : c.status === "unmet"
+                ? "❌ unmet"
+                : "not tracked",
+            c.best
+              ? `${formatValue(c.best.value)} ${c.best.metricKey} (${c.best.experiment.name || c.best.experiment.hypothesis_id})`
+              : "",
+          ]),
+        ),
+        "",
+      );
+    }
+    if (prd.constraints?.length) {
+      lines.push(
+        "## Constraints",
+        "",
+        ...prd.constraints.map((c) => `- ${c}`),
+        "",
+      );
+    }
+    if (prd.scope?.in?.length || prd.scope?.out?.length) {
+      lines.push("## Scope", "");
+      if (prd.scope.in?.length)
+        lines.push(`**In:** ${prd.scope.in.join(", ")}`, "");
+      if (prd.scope.out?.length)
+        lines.push(`**Out:** ${prd.scope.out.join(", ")}`, "");
+    }
+  }
+
+  lines.push("## Journey", "");
+  if (!kanban) {
+    lines.push("No kanban yet.", "");
+  } else {
+    if (kanban.current_focus) {
+      lines.push(
+        `**Current focus:** ${kanban.current_focus.id} ${kanban.current_focus.title}`,
+        "",
+      );
+    }
+    lines.push(`### Completed (${kanban.completed.length})`, "");
+    if (kanban.completed.length > 0) {
+      lines.push(
+        ...table(
+          ["Task", "Title", "Outcome", "Completed"],
+          kanban.completed.map((t) => [
+            t.id,
+            t.title,
+            t.outcome ?? "",
+            day(t.completed_at),
+          ]),
+        ),
+        "",
+      );
+    }
+    lines.push(`### Abandoned (${kanban.abandoned.length})`, "");
+    if (kanban.abandoned.length > 0) {
+      lines.push(
+        ...table(
+          ["Task", "Title", "Reason", "Abandoned"],
+          kanban.abandoned.map((t) => [
+            t.id,
+            t.title,
+            t.reason ?? "",
+            day(t.abandoned_at),
+          ]),
+        ),
+        "",
+      );
+    }
+    if (kanban.up_next.length > 0) {
+      lines.push(
+        "### Up next",
+        "",
+        ...kanban.up_next.map((t) => `- ${t.id} ${t.title}`),
+        "",
+      );
+    }
+  }
+
+  const experiments = [...log.experiments].sort(
+    (a, b) => Date.parse(a.ts) - Date.parse(b.ts),
+  );
+  const metricKeys = sharedMetricKeys(experiments);
+  if (metricKeys.length > 0) {
+    lines.push(
+      "## Metrics across experiments",
+      "",
+      ...table(
+        ["Experiment", ...metricKeys],
+        experiments.map((e) => [
+          e.name || e.hypothesis_id,
+          ...metricKeys.map((key) => {
+            const value = e.metrics?.[key];
+            return typeof value === "number" ? formatValue(value) : "";
+          }),
+        ]),
+      ),
+      "",
+    );
+  }
+
+  lines.push(`## Hypotheses (${log.hypotheses.length})`, "");
+  for (const h of log.hypotheses) {
+    lines.push(`### ${h.id}: ${h.hypothesis}`, "", `Status: **${h.status}**`);
+    if (h.expected) lines.push(`Expected: ${h.expected}`);
+    lines.push("");
+    if (h.experiments.length > 0) {
+      lines.push(...experimentsTable(h.experiments), "");
+      for (const e of h.experiments) {
+        if (e.observations) lines.push(`- ${e.name}: ${e.observations}`);
+        if (e.surprises) lines.push(`- ${e.name} (surprise): ${e.surprises}`);
+      }
+      if (h.experiments.some((e) => e.observations || e.surprises))
+        lines.push("");
+    }
+    if (h.decision) {
+      lines.push(
+        `Decision: **${h.decision.action}** - ${h.decision.reason}` +
+          (h.decision.next_step ? ` Next: ${h.decision.next_step}` : ""),
+        "",
+      );
+    }
+  }
+  const unlinked = unlinkedExperiments(log);
+  if (unlinked.length > 0) {
+    lines.push("### Other experiments", "", ...experimentsTable(unlinked), "");
+  }
+
+  lines.push(`## Learnings (${log.learnings.length})`, "");
+  for (const l of log.learnings) {
+    lines.push(`- ${l.insight}${l.source ? ` _(${l.source})_` : ""}`);
+  }
+  if (log.learnings.length > 0) lines.push("");
+
+  lines.push(`## Research (${log.research.length})`, "");
+  for (const r of log.research) {
+    const source = r.url ? `[${r.source}](${r.url})` : r.source;
+    lines.push(`- **${source}**: ${r.insight ?? ""}`);
+    for (const insight of r.key_insights ?? []) lines.push(`  - ${insight}`);
+  }
+  if (log.research.length > 0) lines.push("");
+
+  lines.push(`## PRD changes (${log.prdChanges.length})`, "");
+  if (log.prdChanges.length > 0) {
+    lines.push(
+      ...table(
+        ["Date", "Field", "Change", "Reason"],
+        log.prdChanges.map((c) => [day(c.ts), c.field, c.change, c.reason]),
+      ),
+      "",
+    );
+  }
+
+  return `${lines.join("\n").trimEnd()}\n`;
+}
@@ -0,0 +1,144 @@
+/**
+ * Tests for the markdown and HTML project report
+ */
+
+import { describe, expect, test } from "bun:test";
+import {
+  aggregateEvents,
+  evaluateCriteria,
+  type PRD,
+  type RalphEvent,
+} from "../ralph/index.ts";
+import { reportHtml } from "./html.ts";
+import { reportMarkdown } from "./markdown.ts";
+import type { ProjectReport } from "./project-report.ts";
+
+const prd: PRD = {
+  project: "churn",
+  status: "approved",
+  problem: "Customers leave",
+  goal: "Predict churn",
+  success_criteria: ["Test AUC > 0.85", "Model must be interpretable"],
+  constraints: ["No deep learning"],
+  scope: { in: ["GBMs"], out: ["External data"] },
+};
+
+const events = [
+  {
+    ts: "2026-01-26T10:00:00Z",
+    type: "hypothesis",
+    id: "H-001",
+    hypothesis: "Tenure features <help>",
+    expected: "AUC +0.05",
+  },
+  {
+    ts: "2026-01-26T11:00:00Z",
+    type: "experiment",
+    name: "baseline",
+    hypothesis_id: "H-001",
+    metrics: { test_auc: 0.8 },
+  },
+  {
+    ts: "2026-01-26T12:00:00Z",
+    type: "experiment",
+    name: "tenure",
+    hypothesis_id: "H-001",
+    metrics: { test_auc: 0.87 },
+    observations: "Tenure dominates",
+  },
+  {
+    ts: "2026-01-26T13:00:00Z",
+    type: "decision",
+    hypothesis_id: "H-001",
+    action: "keep",
+    reason: "Beat the target",
+  },
+  {
+    ts: "2026-01-26T14:00:00Z",
+    type: "learning",
+    insight: "Tenure | contract type interact",
+    source: "H-001",
+  },
+  {
+    ts: "2026-01-26T15:00:00Z",
+    type: "prd_updated",
+    field: "constraints",
+    change: "Added latency limit",
+    reason: "Serving team asked",
+  },
+] as RalphEvent[];
+
+function report(): ProjectReport {
+  const log = aggregateEvents(events);
+  return {
+    generatedAt: "2026-01-27T00:00:00Z",
+    prd,
+    kanban: {
+      last_updated: "",
+      update_reason: "",
+      current_focus: null,
+      up_next: [],
+      backlog: [],
+      completed: [
+        {
+          id: "T-001",
+          title: "Explore data",
+          why: "",
+          outcome: "Found leakage",
+          completed_at: "2026-01-26T09:00:00Z",
+        },
+      ],
+      abandoned: [
+        {
+          id: "T-002",
+          title: "Try RNNs",
+          why: "",
+          reason: "Out of scope",
+          abandoned_at: "2026-01-26T09:30:00Z",
+        },
+      ],
+    },
+    log,
+    criteria: evaluateCriteria(prd, log.experiments),
+    histories: new Map(),
+  };
+}
+
+describe("reportMarkdown", () => {
+  test("covers the PRD, journey, hypotheses and history", () => {
+    const markdown = reportMarkdown(report());
+
+    expect(markdown).toContain("# churn - project report");
+    expect(markdown).toContain(
+      "| Test AUC > 0.85 | must | ✅ met | 0.87 test_auc (tenure) |",
+    );
+    expect(markdown).toContain(
+      "| T-001 | Explore data | Found leakage | 2026-01-26 |",
+    );
+    expect(markdown).toContain(
+      "| T-002 | Try RNNs | Out of scope | 2026-01-26 |",
+    );
+    expect(markdown).toContain("### H-001: Tenure features <help>");
+    expect(markdown).toContain("Decision: **keep** - Beat the target");
+    expect(markdown).toContain("- tenure: Tenure dominates");
+    expect(markdown).toContain("- Tenure | contract type interact _(H-001)_");
+    expect(markdown).toContain(
+      "| 2026-01-26 | constraints | Added latency limit | Serving team asked |",
+    );
+  });
+});
+
+describe("reportHtml", () => {
+  test("is a standalone page with escaped text and inline charts", () => {
+    const html = reportHtml(report());
+
+    expect(html).toStartWith("<!DOCTYPE html>");
+    expect(html).toContain("Tenure features &lt;help&gt;");
+    expect(html).not.toContain("<help>");
+    expect(html).not.toContain("<script");
+    expect(html).not.toContain('<link rel="stylesheet"');
+    // test_auc is charted across both experiments, with the criterion's target
+    expect(html).toContain("<svg");
+    expect(html).toContain("target 0.85");
+  });
+});
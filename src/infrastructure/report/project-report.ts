@@ -0,0 +1,90 @@
+/**
+ * Project report - everything a stakeholder needs to follow the project,
+ * gathered from .ml-ralph/
+ */
+
+import {
+  aggregateEvents,
+  type CriterionProgress,
+  type ExperimentEvent,
+  evaluateCriteria,
+  type Kanban,
+  type LogSummary,
+  type PRD,
+  readKanbanFile,
+  readLogFile,
+  readPrdFile,
+} from "../ralph/index.ts";
+import { readLocalRuns, type WandBHistoryRow } from "../wandb/index.ts";
+
+export interface ProjectReport {
+  generatedAt: string;
+  prd: PRD | null;
+  kanban: Kanban | null;
+  log: LogSummary;
+  criteria: CriterionProgress[];
+  /** Training history of experiments whose wandb run is local, by run id */
+  histories: Map<string, WandBHistoryRow[]>;
+}
+
+/**
+ * Read the PRD, kanban, log and local wandb runs into a report
+ */
+export async function buildProjectReport(
+  projectPath: string,
+): Promise<ProjectReport> {
+  const [prd, kanban, events] = await Promise.all([
+    readPrdFile(projectPath),
+    readKanbanFile(projectPath),
+    readLogFile(projectPath),
+  ]);
+  const log = aggregateEvents(events);
+
+  const runs = await readLocalRuns(
+    projectPath,
+    log.experiments.flatMap((e) => (e.wandb_run_id ? [e.wandb_run_id] : [])),
+  );
+  const histories = new Map<string, WandBHistoryRow[]>();
+  for (const [id, run] of runs) {
+    if (run.history.length > 0) histories.set(id, run.history);
+  }
+
+  return {
+    generatedAt: new Date().toISOString(),
+    prd,
+    kanban,
+    log,
+    criteria: evaluateCriteria(prd, log.experiments),
+    histories,
+  };
+}
+
+/**
+ * Experiments whose hypothesis was never logged
+ */
+export function unlinkedExperiments(log: LogSummary): ExperimentEvent[] {
+  const ids = new Set(log.hypotheses.map((h) => h.id));
+  return log.experiments.filter((e) => !ids.has(e.hypothesis_id));
+}
+
+/**
+ * Metric keys logged by at least two experiments, in first-seen order
+ */
+export function sharedMetricKeys(experiments: ExperimentEvent[]): string[] {
+  const counts = new Map<string, number>();
+  for (const experiment of experiments) {
+    for (const [key, value] of Object.entries(experiment.metrics ?? {})) {
+      if (typeof value === "number" && Number.isFinite(value)) {
+        counts.set(key, (counts.get(key) ?? 0) + 1);
+      }
+    }
+  }
+  return [...counts].filter(([, n]) => n >= 2).map(([key]) => key);
+}
+
+export function formatValue(value: number): string {
+  if (Number.isInteger(value)) return String(value);
+  const abs = Math.abs(value);
+  if (abs !== 0 && (abs < 0.001 || abs >= 1e6)) return value.toExponential(3);
+  return String(Number(value.toPrecision(4)));
+}
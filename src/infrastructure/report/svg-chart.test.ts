@@ -0,0 +1,38 @@
+/**
+ * Tests for the report's SVG line charts
+ */
+
+import { describe, expect, test } from "bun:test";
+import { lineChartSvg } from "./svg-chart.ts";
+
+describe("lineChartSvg", () => {
+  test("draws a path per series, breaking at gaps", () => {
+    const svg = lineChartSvg(
+      [
+        { name: "a", values: [1, 2, null, 4] },
+        { name: "b <x>", values: [2, 1, 0, 1] },
+      ],
+      { title: "loss", xLabels: ["e1", "e2", "e3", "e4"] },
+    );
+
+    const paths = [...svg.matchAll(/<path d="([^"]*)"/g)].map((m) => m[1]);
+    expect(paths).toHaveLength(2);
+    expect(paths[0]?.match(/M/g)).toHaveLength(2);
+    expect(svg).toContain("b &lt;x&gt;");
+    expect(svg).toContain(">e3<");
+  });
+
+  test("downsamples long series", () => {
+    const values = Array.from({ length: 1000 }, (_, i) => Math.sin(i));
+    const svg = lineChartSvg([{ name: "train_loss", values }]);
+    const path = /<path d="([^"]*)"/.exec(svg)?.[1] ?? "";
+    expect(path.split(/[ML]/).filter(Boolean).length).toBeLessThanOrEqual(200);
+    // Step axis shows the real step count
+    expect(svg).toContain(">999<");
+  });
+
+  test("returns an empty string with nothing to plot", () => {
+    expect(lineChartSvg([{ name: "a", values: [null] }])).toBe("");
+    expect(lineChartSvg([])).toBe("");
+  });
+});
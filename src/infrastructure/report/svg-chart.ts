@@ -0,0 +1,177 @@
+/**
+ * SVG line charts for the HTML report - standalone markup with no scripts
+ * or external styles, so the report stays a single file
+ */
+
+export interface ChartSeries {
+  name: string;
+  /** One value per x position; null leaves a gap */
+  values: (number | null)[];
+}
+
+export interface ChartOptions {
+  title?: string;
+  width?: number;
+  height?: number;
+  /** Label per x position (e.g. experiment names); steps when omitted */
+  xLabels?: string[];
+  /** Drawn as a dashed line, e.g. a success criterion's threshold */
+  threshold?: number | null;
+}
+
+export const CHART_COLORS = [
+  "#4e79a7",
+  "#f28e2b",
+  "#59a14f",
+  "#e15759",
+  "#76b7b2",
+  "#b07aa1",
+];
+
+/** Most points drawn per series; longer ones are downsampled */
+const MAX_POINTS = 200;
+
+const MARGIN = { top: 32, right: 16, bottom: 40, left: 56 };
+
+export function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function formatTick(value: number): string {
+  if (value === 0) return "0";
+  const abs = Math.abs(value);
+  if (abs < 0.001 || abs >= 1e5) return value.toExponential(1);
+  return String(Number(value.toPrecision(3)));
+}
+
+/**
+ * A line chart of one or more series sharing the x axis. Empty string when
+ * there's nothing to plot.
+ */
+export function lineChartSvg(
+  series: ChartSeries[],
+  options: ChartOptions = {},
+): string {
+  const width = options.width ?? 560;
+  const height = options.height ?? 240;
+  const threshold = options.threshold ?? null;
+
+  // Every nth point, with the same n for every series so they stay aligned
+  const steps = Math.max(...series.map((s) => s.values.length));
+  const stride = Math.ceil(steps / MAX_POINTS);
+  const points = series.map((s) =>
+    stride > 1 ? s.values.filter((_, i) => i % stride === 0) : s.values,
+  );
+  const finite = points
+    .flat()
+    .filter((v): v is number => v !== null && Number.isFinite(v));
+  if (finite.length === 0) return "";
+
+  const xCount = Math.max(...points.map((p) => p.length));
+  let min = Math.min(...finite, ...(threshold !== null ? [threshold] : []));
+  let max = Math.max(...finite, ...(threshold !== null ? [threshold] : []));
+  if (min === max) {
+    min -= Math.abs(min) * 0.1 || 1;
+    max += Math.abs(max) * 0.1 || 1;
+  }
+
+  const plotWidth = width - MARGIN.left - MARGIN.right;
+  const plotHeight = height - MARGIN.top - MARGIN.bottom;
+  const x = (i: number) =>
+    MARGIN.left +
+    (xCount <= 1 ? plotWidth / 2 : (i / (xCount - 1)) * plotWidth);
+  const y = (v: number) =>
+    MARGIN.top + plotHeight - ((v - min) / (max - min)) * plotHeight;
+  const px = (n: number) => n.toFixed(1);
+
+  const parts: string[] = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" font-family="sans-serif" font-size="11">`,
+    `<rect width="${width}" height="${height}" fill="#fff"/>`,
+  ];
+  if (options.title) {
+    parts.push(
+      `<text x="${MARGIN.left}" y="16" font-size="13" font-weight="bold" fill="#222">${escapeXml(options.title)}</text>`,
+    );
+  }
+
+  // Y axis: gridlines and ticks
+  for (let t = 0; t <= 4; t++) {
+    const value = min + ((max - min) * t) / 4;
+    const ty = px(y(value));
+    parts.push(
+      `<line x1="${MARGIN.left}" y1="${ty}" x2="${width - MARGIN.right}" y2="${ty}" stroke="#eee"/>`,
+      `<text x="${MARGIN.left - 6}" y="${ty}" text-anchor="end" dominant-baseline="middle" fill="#666">${formatTick(value)}</text>`,
+    );
+  }
+
+  // X axis labels: all of them when named and few, otherwise first and last
+  // (unnamed positions are steps, counted before downsampling)
+  const labels = options.xLabels;
+  const labelAt = (i: number) =>
+    labels ? (labels[i] ?? "") : i === 0 ? "0" : String(steps - 1);
+  const labelled =
+    labels && labels.length <= 12
+      ? labels.map((_, i) => i)
+      : xCount > 1
+        ? [0, xCount - 1]
+        : [0];
+  for (const i of labelled) {
+    const text = labelAt(i);
+    const label = text.length > 14 ? `${text.slice(0, 13)}…` : text;
+    parts.push(
+      `<text x="${px(x(i))}" y="${height - MARGIN.bottom + 16}" text-anchor="middle" fill="#666">${escapeXml(label)}</text>`,
+    );
+  }
+
+  if (threshold !== null) {
+    const ty = px(y(threshold));
+    parts.push(
+      `<line x1="${MARGIN.left}" y1="${ty}" x2="${width - MARGIN.right}" y2="${ty}" stroke="#c00" stroke-dasharray="4 3"/>`,
+      `<text x="${width - MARGIN.right}" y="${Number(ty) - 4}" text-anchor="end" fill="#c00">target ${formatTick(threshold)}</text>`,
+    );
+  }
+
+  for (const [s, values] of points.entries()) {
+    const color = CHART_COLORS[s % CHART_COLORS.length];
+    // A gap (null) starts a new subpath
+    let path = "";
+    let drawing = false;
+    for (const [i, v] of values.entries()) {
+      if (v === null || !Number.isFinite(v)) {
+        drawing = false;
+        continue;
+      }
+      path += `${drawing ? "L" : "M"}${px(x(i))} ${px(y(v))} `;
+      drawing = true;
+    }
+    parts.push(
+      `<path d="${path.trim()}" fill="none" stroke="${color}" stroke-width="2"/>`,
+    );
+    if (values.length <= 30) {
+      for (const [i, v] of values.entries()) {
+        if (v === null || !Number.isFinite(v)) continue;
+        parts.push(
+          `<circle cx="${px(x(i))}" cy="${px(y(v))}" r="3" fill="${color}"><title>${escapeXml(`${series[s]?.name}: ${v}`)}</title></circle>`,
+        );
+      }
+    }
+  }
+
+  // Legend along the bottom
+  let lx = MARGIN.left;
+  for (const [s, { name }] of series.entries()) {
+    const color = CHART_COLORS[s % CHART_COLORS.length];
+    parts.push(
+      `<rect x="${lx}" y="${height - 14}" width="10" height="10" fill="${color}"/>`,
+      `<text x="${lx + 14}" y="${height - 5}" fill="#333">${escapeXml(name)}</text>`,
+    );
+    lx += 24 + name.length * 6.5;
+  }
+
+  parts.push("</svg>");
+  return parts.join("");
+}
@@ -0,0 +1,38 @@
+/**
+ * Write a project report as markdown and standalone HTML
+ */
+
+import { mkdir } from "node:fs/promises";
+import { reportHtml } from "./html.ts";
+import { reportMarkdown } from "./markdown.ts";
+import { buildProjectReport } from "./project-report.ts";
+
+export interface ReportFiles {
+  markdownPath: string;
+  htmlPath: string;
+}
+
+/**
+ * Write the report to outDir (default .ml-ralph/reports/) as
+ * report-<timestamp>.md and .html. Returns null if it couldn't be built or
+ * written.
+ */
+export async function writeProjectReport(
+  projectPath: string,
+  outDir = `${projectPath}/.ml-ralph/reports`,
+): Promise<ReportFiles | null> {
+  try {
+    const report = await buildProjectReport(projectPath);
+    const stamp = report.generatedAt.replace(/[:.]/g, "-");
+    const files = {
+      markdownPath: `${outDir}/report-${stamp}.md`,
+      htmlPath: `${outDir}/report-${stamp}.html`,
+    };
+    await mkdir(outDir, { recursive: true });
+    await Bun.write(files.markdownPath, reportMarkdown(report));
+    await Bun.write(files.htmlPath, reportHtml(report));
+    return files;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,203 @@
+/**
+ * Tests for the W&B GraphQL client against a local mock server
+ */
+
+import {
+  afterAll,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  test,
+} from "bun:test";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  createWandBClient,
+  GraphQLWandBClient,
+  readNetrcApiKey,
+} from "./client.ts";
+
+const RAW_RUN = {
+  name: "abc123",
+  displayName: "autoencoder-semantic-features",
+  state: "finished",
+  config: JSON.stringify({
+    lr: { value: 0.001, desc: null },
+    _wandb: { value: { cli_version: "0.16" } },
+  }),
+  summaryMetrics: JSON.stringify({ auc_roc: 0.847, _step: 49, note: "ok" }),
+  createdAt: "2024-01-28T10:30:00",
+};
+
+let server: ReturnType<typeof Bun.serve>;
+let requests: Array<{
+  auth: string | null;
+  query: string;
+  variables: Record<string, unknown>;
+}> = [];
+let failuresBeforeSuccess = 0;
+
+beforeAll(() => {
+  server = Bun.serve({
+    port: 0,
+    async fetch(req) {
+      const body = (await req.json()) as {
+        query: string;
+        variables: Record<string, unknown>;
+      };
+      requests.push({ auth: req.headers.get("authorization"), ...body });
+
+      if (failuresBeforeSuccess > 0) {
+        failuresBeforeSuccess--;
+        return new Response("busy", {
+          status: 429,
+          headers: { "Retry-After": "0" },
+        });
+      }
+      if (
+        req.headers.get("authorization") !== `Basic ${btoa("api:test-key")}`
+      ) {
+        return new Response("unauthorized", { status: 401 });
+      }
+
+      if (body.query.includes("viewer")) {
+        return Response.json({ data: { viewer: { entity: "team" } } });
+      }
+      if (body.query.includes("runs(")) {
+        return Response.json({
+          data: { project: { runs: { edges: [{ node: RAW_RUN }] } } },
+        });
+      }
+      const run = body.variables.name === "abc123" ? RAW_RUN : null;
+      return Response.json({ data: { project: { run } } });
+    },
+  });
+});
+
+afterAll(() => {
+  server.stop(true);
+});
+
+beforeEach(() => {
+  requests = [];
+  failuresBeforeSuccess = 0;
+});
+
+function createClient(apiKey = "test-key", entity?: string) {
+  return new GraphQLWandBClient("my-project", entity, {
+    baseUrl: server.url.origin,
+    appUrl: "https://wandb.example",
+    apiKey,
+    minRequestIntervalMs: 0,
+  });
+}
+
+describe("GraphQLWandBClient", () => {
+  test("getRun maps the GraphQL run and unwraps config", async () => {
+    const run = await createClient("test-key", "team").getRun("abc123");
+
+    expect(run).toEqual({
+      id: "abc123",
+      name: "autoencoder-semantic-features",
+      state: "finished",
+      url: "https://wandb.example/team/my-project/runs/abc123",
+      config: { lr: 0.001 },
+      summary: { auc_roc: 0.847, _step: 49, note: "ok" },
+      createdAt: "2024-01-28T10:30:00",
+    });
+    expect(requests[0]?.variables).toEqual({
+      entity: "team",
+      project: "my-project",
+      name: "abc123",
+    });
+  });
+
+  test("resolves the default entity from the viewer", async () => {
+    const runs = await createClient().listRuns(5);
+
+    expect(runs).toHaveLength(1);
+    expect(runs[0]?.url).toBe(
+      "https://wandb.example/team/my-project/runs/abc123",
+    );
+    expect(requests.map((r) => r.query.includes("viewer"))).toEqual([
+      true,
+      false,
+    ]);
+    expect(requests[1]?.variables.first).toBe(5);
+  });
+
+  test("getMetrics drops internal keys", async () => {
+    const metrics = await createClient("test-key", "team").getMetrics("abc123");
+    expect(metrics).toEqual({ auc_roc: 0.847, note: "ok" });
+  });
+
+  test("returns null for unknown runs", async () => {
+    expect(await createClient("test-key", "team").getRun("missing")).toBeNull();
+  });
+
+  test("retries rate-limited requests", async () => {
+    failuresBeforeSuccess = 2;
+    const run = await createClient("test-key", "team").getRun("abc123");
+
+    expect(run?.id).toBe("abc123");
+    expect(requests).toHaveLength(3);
+  });
+
+  test("does not retry auth failures", async () => {
+    const client = createClient("wrong-key", "team");
+
+    expect(await client.isAvailable()).toBe(false);
+    expect(await client.getRun("abc123")).toBeNull();
+    expect(requests).toHaveLength(2);
+  });
+
+  test("isAvailable succeeds with a valid key", async () => {
+    expect(await createClient().isAvailable()).toBe(true);
+  });
+});
+
+describe("createWandBClient", () => {
+  test("talks to the base URL from the project config", async () => {
+    const client = createWandBClient(
+      { project: "my-project", entity: "team", baseUrl: server.url.origin },
+      { apiKey: "test-key", minRequestIntervalMs: 0 },
+    );
+    expect(await client.getMetrics("abc123")).toEqual({
+      auc_roc: 0.847,
+      note: "ok",
+    });
+    expect(requests[0]?.variables.entity).toBe("team");
+  });
+});
+
+describe("readNetrcApiKey", () => {
+  let dir = "";
+
+  beforeAll(async () => {
+    dir = await mkdtemp(join(tmpdir(), "ml-ralph-netrc-"));
+  });
+
+  afterAll(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  test("reads the password for the matching machine", async () => {
+    const path = join(dir, "netrc");
+    await Bun.write(
+      path,
+      "machine github.com login me password gh-token\n" +
+        "machine api.wandb.ai\n  login user\n  password wandb-key\n",
+    );
+
+    expect(await readNetrcApiKey("api.wandb.ai", path)).toBe("wandb-key");
+    expect(await readNetrcApiKey("wandb.example", path)).toBeNull();
+  });
+
+  test("returns null when the file is missing", async () => {
+    expect(
+      await readNetrcApiKey("api.wandb.ai", join(dir, "missing")),
+    ).toBeNull();
+  });
+});
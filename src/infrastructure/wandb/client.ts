@@ -1,51 +1,370 @@
 /**
- * W&B client implementation
+ * W&B client implementation - talks to the W&B GraphQL API
  *
- * Note: This is a stub implementation. In production, this would use
- * the wandb npm package or the W&B API directly.
+ * Authenticates with HTTP basic auth (`api:<key>`), the same scheme the
+ * wandb SDK uses. The key comes from WANDB_API_KEY or ~/.netrc.
  */
 
-import type { WandBClient, WandBMetrics, WandBRun } from "./types.ts";
+import { homedir } from "node:os";
+import { join } from "node:path";
+import type { WandBConfig } from "../../domain/types/index.ts";
+import type {
+  WandBClient,
+  WandBClientOptions,
+  WandBMetrics,
+  WandBRun,
+} from "./types.ts";
 
-export class StubWandBClient implements WandBClient {
+const DEFAULT_BASE_URL = "https://api.wandb.ai";
+
+const RUN_FIELDS = `
+  name
+  displayName
+  state
+  config
+  summaryMetrics
+  createdAt
+`;
+
+const RUN_QUERY = `
+query Run($entity: String, $project: String!, $name: String!) {
+  project(name: $project, entityName: $entity) {
+    run(name: $name) {${RUN_FIELDS}}
+  }
+}`;
+
+const RUNS_QUERY = `
+query Runs($entity: String, $project: String!, $first: Int) {
+  project(name: $project, entityName: $entity) {
+    runs(first: $first, order: "-created_at") {
+      edges { node {${RUN_FIELDS}} }
+    }
+  }
+}`;
+
+const VIEWER_QUERY = `
+query Viewer {
+  viewer { entity }
+}`;
+
+interface RawRun {
+  name: string;
+  displayName?: string | null;
+  state?: string | null;
+  config?: string | null;
+  summaryMetrics?: string | null;
+  createdAt?: string | null;
+}
+
+interface GraphQLResponse<T> {
+  data?: T;
+  errors?: Array<{ message: string }>;
+}
+
+/**
+ * Read a W&B API key from a netrc file (`machine api.wandb.ai ... password <key>`)
+ */
+export async function readNetrcApiKey(
+  host: string,
+  netrcPath: string = join(homedir(), ".netrc"),
+): Promise<string | null> {
+  const file = Bun.file(netrcPath);
+  if (!(await file.exists())) return null;
+
+  const tokens = (await file.text()).split(/\s+/).filter(Boolean);
+  let inMachine = false;
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (token === "machine") {
+      inMachine = tokens[i + 1] === host;
+      i++;
+    } else if (token === "default") {
+      inMachine = false;
+    } else if (inMachine && token === "password") {
+      return tokens[i + 1] ?? null;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Resolve the API key: explicit option, then WANDB_API_KEY, then ~/.netrc
+ */
+export async function resolveApiKey(
+  baseUrl: string,
+  explicit?: string,
+): Promise<string | null> {
+  if (explicit) return explicit;
+  if (process.env.WANDB_API_KEY) return process.env.WANDB_API_KEY;
+
+  try {
+    return await readNetrcApiKey(new URL(baseUrl).hostname);
+  } catch {
+    return null;
+  }
+}
+
+export class GraphQLWandBClient implements WandBClient {
   private project: string;
   private entity?: string;
+  private baseUrl: string;
+  private appUrl: string;
+  private apiKey: string | null | undefined;
+  private maxRetries: number;
+  private minRequestIntervalMs: number;
+  private timeoutMs: number;
+  private options: WandBClientOptions;
 
-  constructor(project: string, entity?: string) {
+  // Requests are serialized through this chain to enforce the rate limit
+  private queue: Promise<unknown> = Promise.resolve();
+  private lastRequestAt = 0;
+
+  constructor(
+    project: string,
+    entity?: string,
+    options: WandBClientOptions = {},
+  ) {
     this.project = project;
     this.entity = entity;
+    this.options = options;
+    this.baseUrl = (
+      options.baseUrl ??
+      process.env.WANDB_BASE_URL ??
+      DEFAULT_BASE_URL
+    ).replace(/\/$/, "");
+    this.appUrl = (
+      options.appUrl ?? this.baseUrl.replace("://api.", "://")
+    ).replace(/\/$/, "");
+    this.maxRetries = options.maxRetries ?? 3;
+    this.minRequestIntervalMs = options.minRequestIntervalMs ?? 250;
+    this.timeoutMs = options.timeoutMs ?? 15000;
   }
 
   async getRun(runId: string): Promise<WandBRun | null> {
-    // TODO: Implement actual W&B API call
-    console.log(`[W&B Stub] getRun: ${runId} (project: ${this.project})`);
-    return null;
+    try {
+      const entity = await this.getEntity();
+      const data = await this.query<{ project: { run: RawRun | null } | null }>(
+        RUN_QUERY,
+        { entity, project: this.project, name: runId },
+      );
+      const raw = data.project?.run;
+      return raw ? this.toRun(raw, entity) : null;
+    } catch {
+      return null;
+    }
   }
 
   async getMetrics(runId: string): Promise<WandBMetrics | null> {
-    // TODO: Implement actual W&B API call
-    console.log(`[W&B Stub] getMetrics: ${runId}`);
-    return null;
+    const run = await this.getRun(runId);
+    if (!run) return null;
+
+    const metrics: WandBMetrics = {};
+    for (const [key, value] of Object.entries(run.summary)) {
+      if (key.startsWith("_")) continue;
+      if (typeof value === "number" || typeof value === "string") {
+        metrics[key] = value;
+      }
+    }
+    return metrics;
   }
 
-  async listRuns(_limit?: number): Promise<WandBRun[]> {
-    // TODO: Implement actual W&B API call
-    console.log(`[W&B Stub] listRuns (entity: ${this.entity})`);
-    return [];
+  async listRuns(limit = 20): Promise<WandBRun[]> {
+    try {
+      const entity = await this.getEntity();
+      const data = await this.query<{
+        project: { runs: { edges: Array<{ node: RawRun }> } } | null;
+      }>(RUNS_QUERY, { entity, project: this.project, first: limit });
+      const edges = data.project?.runs.edges ?? [];
+      return edges.map((edge) => this.toRun(edge.node, entity));
+    } catch {
+      return [];
+    }
   }
 
   async isAvailable(): Promise<boolean> {
-    // TODO: Check if W&B API key is configured
-    return false;
+    if (!(await this.getApiKey())) return false;
+    try {
+      await this.query<{ viewer: { entity: string } | null }>(VIEWER_QUERY, {});
+      return true;
+    } catch {
+      return false;
+    }
   }
+
+  // === Private helpers ===
+
+  private async getApiKey(): Promise<string | null> {
+    if (this.apiKey === undefined) {
+      this.apiKey = await resolveApiKey(this.baseUrl, this.options.apiKey);
+    }
+    return this.apiKey;
+  }
+
+  /**
+   * Use the configured entity, falling back to the API key owner's default
+   */
+  private async getEntity(): Promise<string | undefined> {
+    if (this.entity) return this.entity;
+    const data = await this.query<{ viewer: { entity: string } | null }>(
+      VIEWER_QUERY,
+      {},
+    );
+    this.entity = data.viewer?.entity ?? undefined;
+    return this.entity;
+  }
+
+  private async query<T>(
+    query: string,
+    variables: Record<string, unknown>,
+  ): Promise<T> {
+    const apiKey = await this.getApiKey();
+    if (!apiKey) {
+      throw new Error(
+        "W&B API key not found (set WANDB_API_KEY or run `wandb login`)",
+      );
+    }
+
+    const body = JSON.stringify({ query, variables });
+    const headers = {
+      "Content-Type": "application/json",
+      Authorization: `Basic ${Buffer.from(`api:${apiKey}`).toString("base64")}`,
+    };
+
+    for (let attempt = 0; ; attempt++) {
+      let retryAfterMs: number | null = null;
+
+      try {
+        const response = await this.schedule(() =>
+          fetch(`${this.baseUrl}/graphql`, {
+            method: "POST",
+            headers,
+            body,
+            signal: AbortSignal.timeout(this.timeoutMs),
+          }),
+        );
+
+        if (response.status === 429 || response.status >= 500) {
+          retryAfterMs = parseRetryAfter(response.headers.get("retry-after"));
+          throw new Error(`W&B API returned ${response.status}`);
+        }
+        if (!response.ok) {
+          // Auth and request errors won't succeed on retry
+          throw nonRetryable(`W&B API returned ${response.status}`);
+        }
+
+        const json = (await response.json()) as GraphQLResponse<T>;
+        if (json.errors?.length) {
+          throw nonRetryable(json.errors.map((e) => e.message).join("; "));
+        }
+        if (!json.data) {
+          throw new Error("W&B API returned no data");
+        }
+        return json.data;
+      } catch (error) {
+        const retryable =
+          (error as { retryable?: boolean }).retryable !== false;
+        if (!retryable || attempt >= this.maxRetries) {
+          throw error;
+        }
+        const backoffMs = retryAfterMs ?? 500 * 2 ** attempt;
+        await Bun.sleep(backoffMs);
+      }
+    }
+  }
+
+  /**
+   * Run a request after the previous one, at most one per minRequestIntervalMs
+   */
+  private schedule<T>(request: () => Promise<T>): Promise<T> {
+    const run = this.queue.then(async () => {
+      const wait = this.lastRequestAt + this.minRequestIntervalMs - Date.now();
+      if (wait > 0) await Bun.sleep(wait);
+      this.lastRequestAt = Date.now();
+      return request();
+    });
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  private toRun(raw: RawRun, entity?: string): WandBRun {
+    return {
+      id: raw.name,
+      name: raw.displayName || raw.name,
+      state: normalizeState(raw.state),
+      url: `${this.appUrl}/${entity ?? "-"}/${this.project}/runs/${raw.name}`,
+      config: unwrapConfig(parseJsonObject(raw.config)),
+      summary: parseJsonObject(raw.summaryMetrics),
+      createdAt: raw.createdAt ?? "",
+    };
+  }
+}
+
+function nonRetryable(message: string): Error {
+  return Object.assign(new Error(message), { retryable: false });
+}
+
+function parseJsonObject(text?: string | null): Record<string, unknown> {
+  if (!text) return {};
+  try {
+    const parsed = JSON.parse(text) as unknown;
+    return parsed && typeof parsed === "object" && !Array.isArray(parsed)
+      ? (parsed as Record<string, unknown>)
+      : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * W&B stores config as `{ key: { value, desc } }` - flatten to `{ key: value }`
+ */
+function unwrapConfig(
+  config: Record<string, unknown>,
+): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  for (const [key, entry] of Object.entries(config)) {
+    if (key.startsWith("_wandb")) continue;
+    result[key] =
+      entry && typeof entry === "object" && "value" in entry
+        ? (entry as { value: unknown }).value
+        : entry;
+  }
+  return result;
+}
+
+function normalizeState(state?: string | null): WandBRun["state"] {
+  switch (state) {
+    case "running":
+    case "pending":
+      return "running";
+    case "finished":
+      return "finished";
+    case "failed":
+      return "failed";
+    default:
+      // crashed, killed, preempted
+      return "crashed";
+  }
+}
+
+function parseRetryAfter(header: string | null): number | null {
+  if (!header) return null;
+  const seconds = Number(header);
+  return Number.isFinite(seconds) ? seconds * 1000 : null;
 }
 
 /**
- * Create a W&B client from project config
+ * Create a W&B client from project config. The config's baseUrl is used
+ * unless options sets one.
  */
 export function createWandBClient(
-  project: string,
-  entity?: string,
+  config: WandBConfig,
+  options: WandBClientOptions = {},
 ): WandBClient {
-  return new StubWandBClient(project, entity);
+  return new GraphQLWandBClient(config.project, config.entity, {
+    ...options,
+    baseUrl: options.baseUrl ?? config.baseUrl,
+  });
 }
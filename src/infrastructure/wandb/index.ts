@@ -2,5 +2,27 @@
  * W&B client exports
  */
 
-export { createWandBClient, StubWandBClient } from "./client.ts";
-export type { WandBClient, WandBMetrics, WandBRun } from "./types.ts";
+export {
+  createWandBClient,
+  GraphQLWandBClient,
+  readNetrcApiKey,
+  resolveApiKey,
+} from "./client.ts";
+export {
+  findLocalRun,
+  getCurveKeys,
+  getMetricSeries,
+  listLocalRunDirs,
+  parseRunDirName,
+  readLocalRun,
+  readLocalRuns,
+} from "./local-reader.ts";
+export type {
+  LocalWandBRun,
+  LocalWandBRunDir,
+  WandBClient,
+  WandBClientOptions,
+  WandBHistoryRow,
+  WandBMetrics,
+  WandBRun,
+} from "./types.ts";
@@ -0,0 +1,129 @@
+/**
+ * Tests for the local wandb reader
+ */
+
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { mkdir, mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  findLocalRun,
+  getCurveKeys,
+  getMetricSeries,
+  listLocalRunDirs,
+  parseRunDirName,
+  readLocalRun,
+  readLocalRuns,
+} from "./local-reader.ts";
+
+let projectPath = "";
+
+async function writeRun(
+  dirName: string,
+  summary: Record<string, unknown> | null,
+  historyLines: string[],
+): Promise<void> {
+  const filesDir = join(projectPath, "wandb", dirName, "files");
+  await mkdir(filesDir, { recursive: true });
+  if (summary) {
+    await Bun.write(
+      join(filesDir, "wandb-summary.json"),
+      JSON.stringify(summary),
+    );
+  }
+  await Bun.write(
+    join(filesDir, "wandb-history.jsonl"),
+    historyLines.join("\n"),
+  );
+}
+
+beforeAll(async () => {
+  projectPath = await mkdtemp(join(tmpdir(), "ml-ralph-wandb-"));
+
+  await writeRun("offline-run-20240128_103000-abc123", { "final/auc": 0.84 }, [
+    '{"_step":0,"train_loss":1.2,"val_loss":1.3}',
+    '{"_step":1,"train_loss":0.8,"val_loss":0.9}',
+    '{"_step":2,"train_loss":NaN,"val_loss":Infinity}',
+    '{"_step":3,"train_loss":0.5,"val_',
+  ]);
+  await writeRun("run-20240129_090000-abc123", { "final/auc": 0.86 }, [
+    '{"_step":1,"loss":0.7}',
+    '{"_step":0,"loss":0.9}',
+  ]);
+  await writeRun("run-20240130_120000-def456", null, []);
+  await mkdir(join(projectPath, "wandb", "latest-run"), { recursive: true });
+});
+
+afterAll(async () => {
+  await rm(projectPath, { recursive: true, force: true });
+});
+
+describe("parseRunDirName", () => {
+  test("parses offline and online run directories", () => {
+    expect(parseRunDirName("offline-run-20240128_103000-abc123")).toEqual({
+      id: "abc123",
+      mode: "offline",
+      startedAt: "2024-01-28T10:30:00",
+    });
+    expect(parseRunDirName("run-20240129_090000-xyz")?.mode).toBe("online");
+  });
+
+  test("ignores non-run entries", () => {
+    expect(parseRunDirName("latest-run")).toBeNull();
+    expect(parseRunDirName("debug.log")).toBeNull();
+  });
+});
+
+describe("local runs", () => {
+  test("lists run directories oldest first", async () => {
+    const dirs = await listLocalRunDirs(projectPath);
+    expect(dirs.map((d) => d.startedAt)).toEqual([
+      "2024-01-28T10:30:00",
+      "2024-01-29T09:00:00",
+      "2024-01-30T12:00:00",
+    ]);
+  });
+
+  test("returns an empty list when ./wandb is missing", async () => {
+    expect(await listLocalRunDirs(join(projectPath, "missing"))).toEqual([]);
+  });
+
+  test("prefers the newest directory for a repeated run id", async () => {
+    const run = await findLocalRun(projectPath, "abc123");
+    expect(run?.mode).toBe("online");
+    expect(run?.summary["final/auc"]).toBe(0.86);
+  });
+
+  test("reads runs by id and tolerates missing files", async () => {
+    const runs = await readLocalRuns(projectPath, ["def456", "nope"]);
+    expect(Array.from(runs.keys())).toEqual(["def456"]);
+    expect(runs.get("def456")?.summary).toEqual({});
+    expect(runs.get("def456")?.history).toEqual([]);
+  });
+
+  test("parses non-finite values and skips a partial trailing line", async () => {
+    const dirs = await listLocalRunDirs(projectPath);
+    const run = await readLocalRun(dirs[0]!);
+
+    expect(run.history).toHaveLength(3);
+    expect(Number.isNaN(run.history[2]?.train_loss)).toBe(true);
+    expect(run.history[2]?.val_loss).toBe(Number.POSITIVE_INFINITY);
+  });
+});
+
+describe("series helpers", () => {
+  const history = [
+    { _step: 2, train_loss: 0.5, val_loss: 0.6, lr: 0.01 },
+    { _step: 0, train_loss: 1.0, val_loss: 1.1 },
+    { _step: 1, train_loss: Number.NaN, val_loss: 0.8 },
+  ];
+
+  test("orders by step and drops non-finite values", () => {
+    expect(getMetricSeries(history, "train_loss")).toEqual([1.0, 0.5]);
+    expect(getMetricSeries(history, "val_loss")).toEqual([1.1, 0.8, 0.6]);
+  });
+
+  test("picks loss keys with train before validation", () => {
+    expect(getCurveKeys(history)).toEqual(["train_loss", "val_loss"]);
+  });
+});
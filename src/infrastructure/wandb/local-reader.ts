@@ -0,0 +1,239 @@
+/**
+ * Local wandb reader - reads run directories written by the wandb SDK
+ *
+ * Both online (`run-*`) and offline (`offline-run-*`) runs keep their
+ * summary and history under `./wandb/<run-dir>/files/`, so training curves
+ * can be drawn without touching the network.
+ */
+
+import { readdir, stat } from "node:fs/promises";
+import type {
+  LocalWandBRun,
+  LocalWandBRunDir,
+  WandBHistoryRow,
+} from "./types.ts";
+
+const RUN_DIR_PATTERN = /^(offline-run|run)-(\d{8}_\d{6})-([A-Za-z0-9]+)$/;
+
+interface CachedFile<T> {
+  mtimeMs: number;
+  size: number;
+  data: T;
+}
+
+// Parsed files keyed by path, invalidated when mtime or size changes
+const fileCache = new Map<string, CachedFile<unknown>>();
+
+/**
+ * Parse a wandb run directory name like `offline-run-20240128_103000-abc123`
+ */
+export function parseRunDirName(
+  name: string,
+): Omit<LocalWandBRunDir, "path"> | null {
+  const match = name.match(RUN_DIR_PATTERN);
+  if (!match) return null;
+
+  const stamp = match[2]!;
+  const startedAt = `${stamp.slice(0, 4)}-${stamp.slice(4, 6)}-${stamp.slice(6, 8)}T${stamp.slice(9, 11)}:${stamp.slice(11, 13)}:${stamp.slice(13, 15)}`;
+
+  return {
+    id: match[3]!,
+    mode: match[1] === "offline-run" ? "offline" : "online",
+    startedAt,
+  };
+}
+
+/**
+ * List all run directories under `<projectPath>/wandb`, oldest first
+ */
+export async function listLocalRunDirs(
+  projectPath: string,
+): Promise<LocalWandBRunDir[]> {
+  const wandbDir = `${projectPath}/wandb`;
+
+  let entries: string[];
+  try {
+    entries = await readdir(wandbDir);
+  } catch {
+    return [];
+  }
+
+  const dirs: LocalWandBRunDir[] = [];
+  for (const entry of entries) {
+    const parsed = parseRunDirName(entry);
+    if (parsed) {
+      dirs.push({ ...parsed, path: `${wandbDir}/${entry}` });
+    }
+  }
+
+  return dirs.sort((a, b) => a.startedAt.localeCompare(b.startedAt));
+}
+
+/**
+ * Read summary and history for a single run directory
+ */
+export async function readLocalRun(
+  dir: LocalWandBRunDir,
+): Promise<LocalWandBRun> {
+  const [summary, history] = await Promise.all([
+    readCached(`${dir.path}/files/wandb-summary.json`, parseSummary),
+    readCached(`${dir.path}/files/wandb-history.jsonl`, parseHistory),
+  ]);
+
+  return {
+    ...dir,
+    summary: summary ?? {},
+    history: history ?? [],
+  };
+}
+
+/**
+ * Find a run by its wandb run id. When the same id appears more than once
+ * (e.g. an offline run that was later resumed online), the newest wins.
+ */
+export async function findLocalRun(
+  projectPath: string,
+  runId: string,
+): Promise<LocalWandBRun | null> {
+  const dirs = await listLocalRunDirs(projectPath);
+  const match = dirs.filter((d) => d.id === runId).pop();
+  return match ? readLocalRun(match) : null;
+}
+
+/**
+ * Read every run whose id is in `runIds`, keyed by run id
+ */
+export async function readLocalRuns(
+  projectPath: string,
+  runIds: Iterable<string>,
+): Promise<Map<string, LocalWandBRun>> {
+  const wanted = new Set(runIds);
+  const latest = new Map<string, LocalWandBRunDir>();
+
+  for (const dir of await listLocalRunDirs(projectPath)) {
+    if (wanted.has(dir.id)) {
+      latest.set(dir.id, dir);
+    }
+  }
+
+  const runs = await Promise.all(
+    Array.from(latest.values()).map((dir) => readLocalRun(dir)),
+  );
+
+  return new Map(runs.map((run) => [run.id, run]));
+}
+
+/**
+ * Extract a numeric series for one metric key, ordered by step
+ */
+export function getMetricSeries(
+  history: WandBHistoryRow[],
+  key: string,
+): number[] {
+  const points: Array<{ step: number; value: number }> = [];
+
+  history.forEach((row, index) => {
+    const value = row[key];
+    if (typeof value !== "number" || !Number.isFinite(value)) return;
+    const step = typeof row._step === "number" ? row._step : index;
+    points.push({ step, value });
+  });
+
+  return points.sort((a, b) => a.step - b.step).map((p) => p.value);
+}
+
+/**
+ * Pick the loss-like keys worth plotting (train first, then validation)
+ */
+export function getCurveKeys(history: WandBHistoryRow[]): string[] {
+  const keys = new Set<string>();
+  for (const row of history) {
+    for (const key of Object.keys(row)) {
+      if (!key.startsWith("_") && /loss/i.test(key)) {
+        keys.add(key);
+      }
+    }
+  }
+
+  const rank = (key: string) => {
+    const lower = key.toLowerCase();
+    if (lower.includes("train")) return 0;
+    if (lower === "loss") return 1;
+    if (lower.includes("val")) return 2;
+    return 3;
+  };
+
+  return Array.from(keys).sort(
+    (a, b) => rank(a) - rank(b) || a.localeCompare(b),
+  );
+}
+
+// === Private helpers ===
+
+async function readCached<T>(
+  path: string,
+  parse: (text: string) => T,
+): Promise<T | null> {
+  try {
+    const info = await stat(path);
+    const cached = fileCache.get(path) as CachedFile<T> | undefined;
+    if (
+      cached &&
+      cached.mtimeMs === info.mtimeMs &&
+      cached.size === info.size
+    ) {
+      return cached.data;
+    }
+
+    const data = parse(await Bun.file(path).text());
+    fileCache.set(path, { mtimeMs: info.mtimeMs, size: info.size, data });
+    return data;
+  } catch {
+    return null;
+  }
+}
+
+function parseSummary(text: string): Record<string, unknown> {
+  const parsed = JSON.parse(text) as unknown;
+  return parsed && typeof parsed === "object" && !Array.isArray(parsed)
+    ? (parsed as Record<string, unknown>)
+    : {};
+}
+
+function parseHistory(text: string): WandBHistoryRow[] {
+  const rows: WandBHistoryRow[] = [];
+  for (const line of text.split("\n")) {
+    const trimmed = line.trim();
+    if (!trimmed) continue;
+    try {
+      rows.push(parseHistoryLine(trimmed));
+    } catch {
+      // wandb may be mid-write on the last line; skip it until next read
+    }
+  }
+  return rows;
+}
+
+/**
+ * wandb serializes non-finite floats as bare NaN/Infinity tokens, which
+ * JSON.parse rejects. Quote them, parse, then restore the numeric values.
+ */
+function parseHistoryLine(line: string): WandBHistoryRow {
+  try {
+    return JSON.parse(line) as WandBHistoryRow;
+  } catch (error) {
+    if (!/NaN|Infinity/.test(line)) throw error;
+  }
+
+  const quoted = line.replace(
+    /([:,[]\s*)(-?Infinity|NaN)(?=\s*[,}\]])/g,
+    '$1"__nonfinite:$2"',
+  );
+  const row = JSON.parse(quoted) as WandBHistoryRow;
+  for (const [key, value] of Object.entries(row)) {
+    if (typeof value === "string" && value.startsWith("__nonfinite:")) {
+      row[key] = Number(value.slice("__nonfinite:".length));
+    }
+  }
+  return row;
+}
@@ -16,6 +16,21 @@ export interface WandBMetrics {
   [key: string]: number | string | undefined;
 }
 
+export interface WandBClientOptions {
+  /** API base URL (default: WANDB_BASE_URL or https://api.wandb.ai) */
+  baseUrl?: string;
+  /** Web UI base URL for run links (default: derived from baseUrl) */
+  appUrl?: string;
+  /** API key (default: WANDB_API_KEY, then ~/.netrc) */
+  apiKey?: string;
+  /** Retries for network errors, 429 and 5xx responses (default: 3) */
+  maxRetries?: number;
+  /** Minimum gap between requests in ms (default: 250) */
+  minRequestIntervalMs?: number;
+  /** Per-request timeout in ms (default: 15000) */
+  timeoutMs?: number;
+}
+
 export interface WandBClient {
   /**
    * Get a specific run by ID
@@ -37,3 +52,30 @@ export interface WandBClient {
    */
   isAvailable(): Promise<boolean>;
 }
+
+/**
+ * One row of wandb-history.jsonl (one `wandb.log` call)
+ */
+export interface WandBHistoryRow {
+  _step?: number;
+  _timestamp?: number;
+  [key: string]: unknown;
+}
+
+/**
+ * A run directory under ./wandb, e.g. `offline-run-20240128_103000-abc123`
+ */
+export interface LocalWandBRunDir {
+  id: string;
+  mode: "online" | "offline";
+  startedAt: string; // Local time parsed from the directory name
+  path: string;
+}
+
+/**
+ * A local run with its parsed summary and history files
+ */
+export interface LocalWandBRun extends LocalWandBRunDir {
+  summary: Record<string, unknown>;
+  history: WandBHistoryRow[];
+}
@@ -4,16 +4,75 @@
 
 import { Box, Text, useApp, useInput, useStdout } from "ink";
 import { useEffect, useRef, useState, useCallback } from "react";
-import type { AgentOrchestrator } from "../application/orchestrator/index.ts";
+import {
+  type AttachResult,
+  DaemonClient,
+  ensureDaemon,
+} from "../application/daemon/index.ts";
+import type {
+  AgentOrchestrator,
+  WorkerInfo,
+} from "../application/orchestrator/index.ts";
 import { createOrchestrator } from "../application/orchestrator/index.ts";
 import { useAppStore } from "../application/state/index.ts";
-import { ensureInitialized, type StreamEvent } from "../infrastructure/ralph/index.ts";
+import {
+  aggregateEvents,
+  type BudgetUsage,
+  budgetLeft,
+  type CompleteReason,
+  compareExperiments,
+  comparisonMarkdown,
+  ensureInitialized,
+  experimentKey,
+  hasBudget,
+  type IterationSnapshot,
+  readIterationSnapshots,
+  readLogFile,
+  revertIteration,
+  type RunBudget,
+  type RunnerState,
+  type StreamEvent,
+  writeComparisonMarkdown,
+} from "../infrastructure/ralph/index.ts";
+import { readLocalRuns } from "../infrastructure/wandb/index.ts";
+import { writeProjectReport } from "../infrastructure/report/index.ts";
 import { useTmuxLayout } from "./hooks/index.ts";
 import { MonitorScreen } from "./screens/monitor.tsx";
 import { PlanningScreen } from "./screens/planning.tsx";
 import { colors } from "./theme/colors.ts";
 // import { Logo } from "./widgets/logo.tsx";
 import { ModeTabs } from "./widgets/tabs.tsx";
+import { selectedChange } from "./widgets/changes-panel.tsx";
+import { findJob, healthAlertsSince, selectedJob } from "./widgets/jobs-panel.tsx";
+import { comparisonHistories } from "./widgets/experiment-comparison.tsx";
+import { sortExperiments } from "./widgets/experiments-panel.tsx";
+import { formatCost, formatDuration } from "./widgets/costs-panel.tsx";
+
+/**
+ * Write the comparison of the marked experiments to .ml-ralph/comparisons/.
+ * Returns the file's path, or null if nothing could be written.
+ */
+async function exportComparison(
+  projectPath: string,
+  markedKeys: string[]
+): Promise<string | null> {
+  const { experiments } = aggregateEvents(await readLogFile(projectPath));
+  const marked = experiments.filter((e) => markedKeys.includes(experimentKey(e)));
+  if (marked.length < 2) return null;
+
+  const comparison = compareExperiments(marked);
+  const runs = await readLocalRuns(
+    projectPath,
+    marked.flatMap((e) => (e.wandb_run_id ? [e.wandb_run_id] : []))
+  );
+  return writeComparisonMarkdown(
+    projectPath,
+    comparisonMarkdown(comparison, comparisonHistories(comparison, runs))
+  );
+}
+
+/** Most parallel workers the start dialog offers */
+const MAX_WORKERS = 4;
 
 interface AppProps {
   projectPath: string;
@@ -32,6 +91,10 @@ export function App({ projectPath }: AppProps) {
   const [showStartConfirm, setShowStartConfirm] = useState(false);
   // Max iterations for agent run
   const [maxIterations, setMaxIterations] = useState(10);
+  // Previous run that can be resumed (offered in the start dialog)
+  const [resumeState, setResumeState] = useState<RunnerState | null>(null);
+  // Spend and iteration time already used by that run
+  const [resumeUsage, setResumeUsage] = useState<BudgetUsage | null>(null);
   // Stop confirmation state
   const [showStopConfirm, setShowStopConfirm] = useState(false);
   // No PRD dialog state
@@ -40,6 +103,8 @@ export function App({ projectPath }: AppProps) {
   const [showHintDialog, setShowHintDialog] = useState(false);
   const [hintText, setHintText] = useState("");
   const [pendingHints, setPendingHints] = useState<string[]>([]);
+  // Iteration waiting for revert confirmation (Changes tab)
+  const [revertTarget, setRevertTarget] = useState<IterationSnapshot | null>(null);
   // Initialization state
   const [isInitialized, setIsInitialized] = useState(false);
   // Agent output for monitor screen
@@ -48,6 +113,21 @@ export function App({ projectPath }: AppProps) {
   const [currentIteration, setCurrentIteration] = useState(0);
   // Agent start time for elapsed timer
   const [agentStartTime, setAgentStartTime] = useState(0);
+  // Pause requested but the current iteration is still running
+  const [pauseRequested, setPauseRequested] = useState(false);
+  // Reason the agent gave for pausing (null when paused by the user)
+  const [pauseReason, setPauseReason] = useState<string | null>(null);
+  // Parallel workers to start (1 runs the normal single loop)
+  const [workerCount, setWorkerCount] = useState(1);
+  // Parallel workers of the current or last worker run, and their output
+  const [workers, setWorkers] = useState<WorkerInfo[]>([]);
+  const [workerOutput, setWorkerOutput] = useState<Record<string, StreamEvent[]>>({});
+  // Worker whose activity the monitor shows (null for the main loop)
+  const [selectedWorker, setSelectedWorker] = useState<string | null>(null);
+  // Where the last project report was written (Esc to dismiss)
+  const [reportNotice, setReportNotice] = useState<string | null>(null);
+  // Training health alerts after this time are shown (Esc moves it to now)
+  const [alertsSeenAt, setAlertsSeenAt] = useState(() => new Date().toISOString());
 
   useEffect(() => {
     const handleResize = () => {
@@ -76,6 +156,7 @@ export function App({ projectPath }: AppProps) {
     config,
     activeJobs,
     stopTrainingJob,
+    refreshData,
     inputMode,
     setInputMode,
     scrollUp,
@@ -97,7 +178,29 @@ export function App({ projectPath }: AppProps) {
     selectPrevExperiment,
     toggleExpandedExperiment,
     setExpandedExperimentId,
+    markedExperimentKeys,
+    toggleMarkedExperiment,
+    clearMarkedExperiments,
+    comparisonOpen,
+    setComparisonOpen,
+    setComparisonExportPath,
+    selectedChangeIndex,
+    selectedChangeFileIndex,
+    selectNextChange,
+    selectPrevChange,
+    selectNextChangeFile,
+    selectPrevChangeFile,
+    jobHistory,
+    jobQueue,
+    cancelQueuedJob,
+    moveQueuedJob,
+    selectedJobIndex,
+    selectNextJob,
+    selectPrevJob,
+    openJobLogId,
+    setOpenJobLogId,
   } = useAppStore();
+  const healthAlerts = healthAlertsSince([...activeJobs, ...jobHistory], alertsSeenAt);
 
   // Tmux layout manager
   const tmuxLayout = useTmuxLayout({
@@ -123,6 +226,14 @@ export function App({ projectPath }: AppProps) {
     loadProject();
   }, [projectPath, setProjectPath, loadProject]);
 
+  // Pick up training jobs the agent registers while it runs
+  useEffect(() => {
+    const interval = setInterval(() => {
+      refreshData();
+    }, 3000);
+    return () => clearInterval(interval);
+  }, [refreshData]);
+
   // Handle output from orchestrator
   const handleOutput = useCallback((event: StreamEvent) => {
     setAgentOutput((prev) => [...prev, event]);
@@ -137,14 +248,20 @@ export function App({ projectPath }: AppProps) {
 
   // Handle completion
   const handleComplete = useCallback(
-    (reason: "project_complete" | "max_iterations") => {
+    (reason: CompleteReason, detail?: string) => {
       setAgentStatus("idle");
       setPendingHints([]);
+      setPauseRequested(false);
       if (reason === "project_complete") {
         setAgentOutput((prev) => [
           ...prev,
           { type: "text", content: "\n═══ Project complete! ═══\n" },
         ]);
+      } else if (reason === "budget") {
+        setAgentOutput((prev) => [
+          ...prev,
+          { type: "text", content: `\n═══ Stopped: ${detail ?? "budget used up"} ═══\n` },
+        ]);
       } else {
         setAgentOutput((prev) => [
           ...prev,
@@ -155,19 +272,164 @@ export function App({ projectPath }: AppProps) {
     [setAgentStatus]
   );
 
-  // Create orchestrator when config is loaded
+  // The daemon's loop ended without a complete event (an error, an
+  // uninitialized project, or `ml-ralph ctl stop` from another shell)
+  const handleRunStopped = useCallback(() => {
+    const { agentStatus } = useAppStore.getState();
+    if (agentStatus !== "running" && agentStatus !== "paused") return;
+
+    setAgentStatus("idle");
+    setPendingHints([]);
+    setPauseRequested(false);
+    setAgentOutput((prev) => [
+      ...prev,
+      { type: "text", content: "\n═══ Stopped ═══\n" },
+    ]);
+  }, [setAgentStatus]);
+
+  // Handle the loop pausing between iterations or resuming
+  const handlePauseChange = useCallback(
+    (paused: boolean, reason: string | null) => {
+      setAgentStatus(paused ? "paused" : "running");
+      setPauseRequested(false);
+      setPauseReason(reason);
+      setAgentOutput((prev) => [
+        ...prev,
+        {
+          type: "text",
+          content: paused
+            ? `\n═══ Paused${reason ? `: ${reason}` : ""} ═══\n`
+            : "\n═══ Resumed ═══\n",
+        },
+      ]);
+    },
+    [setAgentStatus]
+  );
+
+  // Handle output from a parallel worker
+  const handleWorkerOutput = useCallback((workerId: string, event: StreamEvent) => {
+    setWorkerOutput((prev) => ({
+      ...prev,
+      [workerId]: [...(prev[workerId] ?? []), event],
+    }));
+  }, []);
+
+  // Handle workers starting, finishing or changing iteration
+  const handleWorkersChange = useCallback(
+    (next: WorkerInfo[]) => {
+      setWorkers(next);
+      const active = next.some(
+        (w) => w.status === "running" || w.status === "paused"
+      );
+      if (active) return;
+
+      setAgentStatus("idle");
+      setPendingHints([]);
+      setPauseRequested(false);
+      if (next.length > 0) {
+        setAgentOutput((prev) => [
+          ...prev,
+          { type: "text", content: "\n═══ All workers finished ═══\n" },
+        ]);
+      }
+    },
+    [setAgentStatus]
+  );
+
+  // Pick up a run the daemon was already doing before we attached
+  const restoreFromDaemon = useCallback(
+    ({ status, history, workerHistory }: AttachResult) => {
+      setAgentOutput(history);
+      setCurrentIteration(status.iteration);
+      setWorkers(status.workers);
+      setWorkerOutput(workerHistory);
+      setSelectedWorker(status.workers[0]?.id ?? null);
+      if (!status.running) return;
+
+      setAgentStatus(status.paused ? "paused" : "running");
+      setPauseRequested(status.pauseRequested);
+      setPauseReason(status.pauseReason);
+      setMaxIterations(status.maxIterations);
+      setPendingHints(status.pendingHints);
+      if (status.run) {
+        setAgentStartTime(Date.parse(status.run.startedAt) || Date.now());
+      }
+      setMode("monitor");
+    },
+    [setAgentStatus, setMode]
+  );
+
+  // Connect to the project's agent daemon (starting it if needed) when config
+  // is loaded; run the loop in-process if the daemon can't be started
+  const connectingRef = useRef(false);
+  // Set while a start or resume request is in flight, so a status sent
+  // before the daemon took it doesn't end the new run
+  const startingRef = useRef(false);
   useEffect(() => {
-    if (config && !orchestratorRef.current) {
-      orchestratorRef.current = createOrchestrator({
-        projectPath,
-        autoAdvance: config.agent.autoAdvance,
-      });
+    if (!config || orchestratorRef.current || connectingRef.current) return;
+    connectingRef.current = true;
+
+    const connect = async () => {
+      const daemon = await ensureDaemon(projectPath);
+      const orchestrator =
+        daemon ??
+        createOrchestrator({
+          projectPath,
+          autoAdvance: config.agent.autoAdvance,
+          budget: config.agent,
+          backend: config.agent.backend,
+        });
       // Subscribe to events
-      orchestratorRef.current.onOutput(handleOutput);
-      orchestratorRef.current.onIterationChange(handleIterationChange);
-      orchestratorRef.current.onComplete(handleComplete);
-    }
-  }, [config, projectPath, handleOutput, handleIterationChange, handleComplete]);
+      orchestrator.onOutput(handleOutput);
+      orchestrator.onIterationChange(handleIterationChange);
+      orchestrator.onComplete(handleComplete);
+      orchestrator.onPauseChange(handlePauseChange);
+      orchestrator.onWorkerOutput(handleWorkerOutput);
+      orchestrator.onWorkersChange(handleWorkersChange);
+      orchestratorRef.current = orchestrator;
+
+      if (daemon) {
+        daemon.onDisconnect(() => {
+          setAgentStatus("idle");
+          setError("Lost connection to the ml-ralph daemon. Restart ml-ralph to reconnect.");
+        });
+        // Hints, iteration changes and stops can also come from `ml-ralph ctl`
+        daemon.onStatus((status) => {
+          if (!status.running) {
+            if (!startingRef.current) handleRunStopped();
+            return;
+          }
+          setPendingHints(status.pendingHints);
+          setMaxIterations(status.maxIterations);
+        });
+        try {
+          restoreFromDaemon(await daemon.attach());
+        } catch {
+          // Disconnect handler reports it
+        }
+      } else {
+        handleOutput({
+          type: "error",
+          content: "Could not start the ml-ralph daemon (see .ml-ralph/daemon.log); the agent will stop when you quit.",
+          isError: true,
+        });
+      }
+    };
+    connect();
+  }, [
+    config,
+    projectPath,
+    handleOutput,
+    handleIterationChange,
+    handleComplete,
+    handlePauseChange,
+    handleWorkerOutput,
+    handleWorkersChange,
+    handleRunStopped,
+    restoreFromDaemon,
+    setAgentStatus,
+    setError,
+  ]);
 
   // Handle mode changes - create/destroy tmux split
   useEffect(() => {
@@ -185,10 +447,17 @@ export function App({ projectPath }: AppProps) {
     tmuxLayout.enterMonitorMode,
   ]);
 
-  // Perform actual quit - kill tmux session too
+  // Perform actual quit - kill tmux session too. A daemon keeps a running
+  // agent going; an idle one is shut down.
   const doQuit = async () => {
-    if (orchestratorRef.current?.isRunning()) {
-      orchestratorRef.current.stop();
+    const orchestrator = orchestratorRef.current;
+    if (orchestrator instanceof DaemonClient) {
+      if (!orchestrator.isRunning()) {
+        await orchestrator.shutdown().catch(() => {});
+      }
+      orchestrator.close();
+    } else if (orchestrator?.isRunning()) {
+      orchestrator.stop();
     }
     // Kill the entire tmux session
     const sessionName = `ml-ralph-${projectPath.split("/").pop() || "default"}`;
@@ -204,21 +473,72 @@ export function App({ projectPath }: AppProps) {
     exit();
   };
 
+  // A daemon run can end before the start request is answered; its
+  // not-running status was held back while startingRef was set
+  const endIfDaemonStopped = () => {
+    const orchestrator = orchestratorRef.current;
+    if (orchestrator instanceof DaemonClient && !orchestrator.isRunning()) {
+      handleRunStopped();
+    }
+  };
+
   // Start the agent
   const doStart = async () => {
     setShowStartConfirm(false);
     setAgentStatus("running");
     setAgentOutput([]); // Clear previous output
+    setWorkers([]);
+    setWorkerOutput({});
+    setSelectedWorker(workerCount > 1 ? "w1" : null);
     setCurrentIteration(0);
     setAgentStartTime(Date.now()); // Track start time for elapsed timer
     setMode("monitor"); // Switch to monitor mode to see output
+    startingRef.current = true;
     try {
       orchestratorRef.current?.setMaxIterations(maxIterations);
-      await orchestratorRef.current?.start();
+      if (config) {
+        orchestratorRef.current?.setBudget(config.agent);
+        orchestratorRef.current?.setBackend(config.agent.backend ?? "claude");
+      }
+      if (workerCount > 1) {
+        await orchestratorRef.current?.startWorkers(workerCount);
+      } else {
+        await orchestratorRef.current?.start();
+      }
+      endIfDaemonStopped();
     } catch (err) {
       const errorMsg = err instanceof Error ? err.message : (err ? String(err) : "Unknown error starting agent");
       setError(errorMsg);
       setAgentStatus("idle");
+    } finally {
+      startingRef.current = false;
+    }
+  };
+
+  // Resume the previous run from .ml-ralph/runner.json
+  const doResume = async (state: RunnerState) => {
+    setShowStartConfirm(false);
+    setAgentStatus("running");
+    setAgentOutput([]);
+    setCurrentIteration(state.iteration);
+    setMaxIterations(state.maxIterations);
+    setPendingHints(state.pendingHints);
+    setAgentStartTime(Date.parse(state.startedAt) || Date.now());
+    setMode("monitor");
+    startingRef.current = true;
+    try {
+      if (config) {
+        orchestratorRef.current?.setBudget(config.agent);
+        orchestratorRef.current?.setBackend(config.agent.backend ?? "claude");
+      }
+      await orchestratorRef.current?.resume();
+      endIfDaemonStopped();
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : (err ? String(err) : "Unknown error resuming agent");
+      setError(errorMsg);
+      setAgentStatus("idle");
+    } finally {
+      startingRef.current = false;
     }
   };
 
@@ -243,10 +563,19 @@ export function App({ projectPath }: AppProps) {
         doStart();
         return;
       }
+      if ((input === "r" || input === "R") && resumeState) {
+        doResume(resumeState);
+        return;
+      }
       if (input === "n" || input === "N" || key.escape) {
         setShowStartConfirm(false);
         return;
       }
+      // w cycles the number of parallel workers
+      if (input === "w" || input === "W") {
+        setWorkerCount((prev) => (prev % MAX_WORKERS) + 1);
+        return;
+      }
       // Handle number input for max iterations
       if (/^\d$/.test(input)) {
         setMaxIterations((prev) => {
@@ -269,6 +598,7 @@ export function App({ projectPath }: AppProps) {
         orchestratorRef.current?.stop();
         setAgentStatus("idle");
         setPendingHints([]);
+        setPauseRequested(false);
         setShowStopConfirm(false);
         return;
       }
@@ -279,6 +609,33 @@ export function App({ projectPath }: AppProps) {
       return; // Ignore other keys while dialog is open
     }
 
+    // Handle revert confirmation dialog
+    if (revertTarget) {
+      if (input === "y" || input === "Y") {
+        const target = revertTarget;
+        setRevertTarget(null);
+        revertIteration(projectPath, target).then((result) => {
+          if (!result.ok) {
+            setError(`Revert of iteration ${target.iteration} failed: ${result.error}`);
+            return;
+          }
+          setAgentOutput((prev) => [
+            ...prev,
+            {
+              type: "text",
+              content: `\nReverted iteration ${target.iteration} (${target.files.length} file${target.files.length === 1 ? "" : "s"}).\n`,
+            },
+          ]);
+        });
+        return;
+      }
+      if (input === "n" || input === "N" || key.escape) {
+        setRevertTarget(null);
+        return;
+      }
+      return; // Ignore other keys while dialog is open
+    }
+
     // Handle no PRD dialog
     if (showNoPrdDialog) {
       if (key.escape || input === "o" || input === "O") {
@@ -322,6 +679,11 @@ export function App({ projectPath }: AppProps) {
       return;
     }
 
+    // The job log viewer handles its own keys until Esc closes it
+    if (selectedTab === "jobs" && findJob(activeJobs, jobHistory, openJobLogId)) {
+      return;
+    }
+
     // Escape: exit input mode, clear error, or cancel quit
     if (key.escape) {
       if (inputMode) {
@@ -332,6 +694,14 @@ export function App({ projectPath }: AppProps) {
         setError(null);
         return;
       }
+      if (reportNotice) {
+        setReportNotice(null);
+        return;
+      }
+      if (healthAlerts.length > 0) {
+        setAlertsSeenAt(new Date().toISOString());
+        return;
+      }
     }
 
     // When in input mode, don't process global shortcuts
@@ -370,6 +740,11 @@ export function App({ projectPath }: AppProps) {
     if (input === "4") setSelectedTab("hypotheses");
     if (input === "5") setSelectedTab("learnings");
     if (input === "6") setSelectedTab("research");
+    if (input === "7") setSelectedTab("verification");
+    if (input === "8") setSelectedTab("reasoning");
+    if (input === "9") setSelectedTab("costs");
+    if (input === "0") setSelectedTab("changes");
+    if (input === "-") setSelectedTab("jobs");
 
     // Toggle backlog expansion (only on kanban tab)
     if (input === "b" && selectedTab === "kanban") {
@@ -425,6 +800,26 @@ export function App({ projectPath }: AppProps) {
       }
     }
 
+    // Comparison of the marked experiments
+    if (selectedTab === "experiments" && comparisonOpen) {
+      if (key.escape) {
+        setComparisonOpen(false);
+        return;
+      }
+      if (input === "x") {
+        clearMarkedExperiments();
+        return;
+      }
+      // e to export the comparison as markdown
+      if (input === "e") {
+        exportComparison(projectPath, markedExperimentKeys).then((path) => {
+          if (path) setComparisonExportPath(path);
+          else setError("Could not write the comparison to .ml-ralph/comparisons/.");
+        });
+        return;
+      }
+    }
+
     // Experiments tab navigation
     if (selectedTab === "experiments") {
       // j/k to navigate experiment selection
@@ -448,6 +843,111 @@ export function App({ projectPath }: AppProps) {
         setExpandedExperimentId(null);
         return;
       }
+      // m to mark the selected experiment for comparison
+      if (input === "m") {
+        readLogFile(projectPath).then((events) => {
+          const experiments = sortExperiments(aggregateEvents(events).experiments);
+          const experiment =
+            experiments[Math.min(selectedExperimentIndex, experiments.length - 1)];
+          if (experiment) toggleMarkedExperiment(experimentKey(experiment));
+        });
+        return;
+      }
+      // c to compare the marked experiments
+      if (input === "c") {
+        if (markedExperimentKeys.length < 2) {
+          setError("Mark at least two experiments with m to compare them.");
+        } else {
+          setComparisonOpen(true);
+        }
+        return;
+      }
+      if (input === "x") {
+        clearMarkedExperiments();
+        return;
+      }
+    }
+
+    // Changes tab navigation
+    if (selectedTab === "changes") {
+      // j/k to pick the iteration, ←/→ the file, J/K to scroll its diff
+      if (input === "j" || key.downArrow) {
+        selectNextChange();
+        return;
+      }
+      if (input === "k" || key.upArrow) {
+        selectPrevChange();
+        return;
+      }
+      if (key.rightArrow) {
+        selectNextChangeFile();
+        return;
+      }
+      if (key.leftArrow) {
+        selectPrevChangeFile();
+        return;
+      }
+      if (input === "J") {
+        scrollDown();
+        return;
+      }
+      if (input === "K") {
+        scrollUp();
+        return;
+      }
+      // r to roll the selected iteration back
+      if (input === "r") {
+        if (agentStatus === "running") {
+          setError("Pause or stop the agent before reverting an iteration.");
+          return;
+        }
+        readIterationSnapshots(projectPath).then((snapshots) => {
+          const change = selectedChange(
+            snapshots,
+            selectedChangeIndex,
+            selectedChangeFileIndex
+          );
+          if (!change) return;
+          if (change.snapshot.revertedAt) {
+            setError(`Iteration ${change.snapshot.iteration} was already reverted.`);
+          } else if (change.snapshot.files.length > 0) {
+            setRevertTarget(change.snapshot);
+          }
+        });
+        return;
+      }
+    }
+
+    // Jobs tab navigation
+    if (selectedTab === "jobs") {
+      // j/k to pick the job, Enter to follow its log
+      if (input === "j" || key.downArrow) {
+        selectNextJob();
+        return;
+      }
+      if (input === "k" || key.upArrow) {
+        selectPrevJob();
+        return;
+      }
+      const item = selectedJob(jobQueue, activeJobs, jobHistory, selectedJobIndex);
+      if (key.return) {
+        if (item?.kind === "job") setOpenJobLogId(item.job.id);
+        return;
+      }
+      // Queued jobs: J/K move it later/earlier (the selection follows), x cancels
+      if (item?.kind === "queued") {
+        if (input === "J" || input === "K") {
+          const offset = input === "J" ? 1 : -1;
+          moveQueuedJob(item.job.id, offset).then((moved) => {
+            if (moved) (offset > 0 ? selectNextJob : selectPrevJob)();
+          });
+          return;
+        }
+        if (input === "x") {
+          cancelQueuedJob(item.job.id);
+          return;
+        }
+      }
     }
 
     // Scroll knowledge panel (j/k or arrow keys) - for other tabs
@@ -462,7 +962,7 @@ export function App({ projectPath }: AppProps) {
 
     // Start/stop agent
     if (input === "s") {
-      if (agentStatus === "running") {
+      if (agentStatus === "running" || agentStatus === "paused") {
         setShowStopConfirm(true);
       } else {
         // Check if PRD exists before allowing start
@@ -470,6 +970,14 @@ export function App({ projectPath }: AppProps) {
           const prdPath = `${projectPath}/.ml-ralph/prd.json`;
           const prdExists = await Bun.file(prdPath).exists();
           if (prdExists) {
+            const state =
+              (await orchestratorRef.current?.getResumableState()) ?? null;
+            setResumeState(state);
+            setResumeUsage(
+              state
+                ? ((await orchestratorRef.current?.getRunUsage(state.startedAt)) ?? null)
+                : null
+            );
             setShowStartConfirm(true);
           } else {
             setShowNoPrdDialog(true);
@@ -480,12 +988,42 @@ export function App({ projectPath }: AppProps) {
       return;
     }
 
-    // Add hint (only when agent is running)
-    if (input === "h" && agentStatus === "running") {
+    // Pause after the current iteration, cancel a pending pause, or resume
+    if (input === "p") {
+      if (agentStatus === "paused" || pauseRequested) {
+        orchestratorRef.current?.unpause();
+        setPauseRequested(false);
+      } else if (agentStatus === "running") {
+        orchestratorRef.current?.pause();
+        setPauseRequested(true);
+      }
+      return;
+    }
+
+    // Add hint (only when agent is running or paused)
+    if (input === "h" && (agentStatus === "running" || agentStatus === "paused")) {
       setShowHintDialog(true);
       return;
     }
 
+    // Switch the activity feed between the main loop and parallel workers
+    if ((input === "[" || input === "]") && mode === "monitor" && workers.length > 0) {
+      const feeds = [null, ...workers.map((w) => w.id)];
+      const current = Math.max(0, feeds.indexOf(selectedWorker));
+      const step = input === "]" ? 1 : feeds.length - 1;
+      setSelectedWorker(feeds[(current + step) % feeds.length] ?? null);
+      return;
+    }
+
+    // Write the project report
+    if (input === "g") {
+      writeProjectReport(projectPath).then((files) => {
+        if (files) setReportNotice(`Report written to ${files.htmlPath} and .md`);
+        else setError("Could not write the report to .ml-ralph/reports/.");
+      });
+      return;
+    }
+
     // Stop training jobs
     if (input === "t" && mode === "monitor") {
       const runningJob = activeJobs.find((j) => j.status === "running");
@@ -526,7 +1064,13 @@ export function App({ projectPath }: AppProps) {
       {/* Navigation bar with mode tabs and help */}
       <Box paddingX={1} justifyContent="space-between" marginBottom={0}>
         <ModeTabs activeMode={mode} />
-        <HelpBar mode={mode} agentStatus={agentStatus} pendingHintsCount={pendingHints.length} />
+        <HelpBar
+          mode={mode}
+          agentStatus={agentStatus}
+          pauseRequested={pauseRequested}
+          pendingHintsCount={pendingHints.length}
+          hasWorkers={workers.length > 0}
+        />
       </Box>
 
       {/* Tmux warning */}
@@ -564,6 +1108,15 @@ export function App({ projectPath }: AppProps) {
         </Box>
       )}
 
+      {reportNotice && (
+        <Box paddingX={1} borderStyle="single" borderColor={colors.accentGreen}>
+          <Text color={colors.accentGreen}>{reportNotice}</Text>
+          <Text color={colors.textMuted}> (Esc to dismiss)</Text>
+        </Box>
+      )}
+
+      {healthAlerts.length > 0 && <HealthAlertBanner alerts={healthAlerts} />}
+
       {/* Main content */}
       <Box flexGrow={1}>
         {mode === "planning" ? (
@@ -574,15 +1127,35 @@ export function App({ projectPath }: AppProps) {
             currentIteration={currentIteration}
             startTime={agentStartTime}
             projectPath={projectPath}
+            pauseRequested={pauseRequested}
+            pauseReason={pauseReason}
+            workers={workers}
+            workerOutput={workerOutput}
+            selectedWorker={selectedWorker}
           />
         )}
       </Box>
 
       {/* Quit confirmation dialog */}
-      {showQuitConfirm && <QuitConfirmDialog />}
+      {showQuitConfirm && (
+        <QuitConfirmDialog
+          agentKeepsRunning={
+            orchestratorRef.current instanceof DaemonClient && agentStatus !== "idle"
+          }
+        />
+      )}
 
       {/* Start confirmation dialog */}
-      {showStartConfirm && <StartConfirmDialog maxIterations={maxIterations} />}
+      {showStartConfirm && (
+        <StartConfirmDialog
+          maxIterations={maxIterations}
+          workerCount={workerCount}
+          resumeState={resumeState}
+          resumeUsage={resumeUsage}
+          budget={config?.agent}
+          backend={config?.agent.backend ?? "claude"}
+        />
+      )}
 
       {/* Stop confirmation dialog */}
       {showStopConfirm && <StopConfirmDialog />}
@@ -590,6 +1163,9 @@ export function App({ projectPath }: AppProps) {
       {/* No PRD dialog */}
       {showNoPrdDialog && <NoPrdDialog />}
 
+      {/* Revert confirmation dialog */}
+      {revertTarget && <RevertConfirmDialog snapshot={revertTarget} />}
+
       {/* Hint dialog */}
       {showHintDialog && (
         <HintDialog hintText={hintText} pendingHints={pendingHints} />
@@ -601,15 +1177,45 @@ export function App({ projectPath }: AppProps) {
 /**
  * Help bar component with keyboard shortcuts
  */
+/**
+ * Training problems the job health check found since they were last dismissed
+ */
+function HealthAlertBanner({ alerts }: { alerts: ReturnType<typeof healthAlertsSince> }) {
+  const critical = alerts.some(({ issue }) => issue.critical);
+  const color = critical ? colors.accentRed : colors.accentYellow;
+  return (
+    <Box paddingX={1} borderStyle="single" borderColor={color} flexDirection="column">
+      {alerts.slice(0, 3).map(({ job, issue }) => (
+        <Text key={`${job.id}:${issue.kind}:${issue.metric}`} color={color} wrap="truncate-end">
+          ⚠ {job.experimentId || job.id}: {issue.message}
+          {job.status === "stopped" && issue.critical ? " · job stopped" : ""}
+        </Text>
+      ))}
+      <Text color={colors.textMuted}>
+        {alerts.length > 3 ? `${alerts.length - 3} more in the Jobs tab · ` : ""}
+        Esc to dismiss
+      </Text>
+    </Box>
+  );
+}
+
 function HelpBar({
   mode,
   agentStatus,
+  pauseRequested,
   pendingHintsCount,
+  hasWorkers,
 }: {
   mode: "planning" | "monitor";
   agentStatus: string;
+  pauseRequested: boolean;
   pendingHintsCount: number;
+  hasWorkers: boolean;
 }) {
+  const active = agentStatus === "running" || agentStatus === "paused";
+  const pauseLabel =
+    agentStatus === "paused" ? "Resume" : pauseRequested ? "Don't pause" : "Pause";
+
   const Shortcut = ({ keys, label, badge }: { keys: string; label: string; badge?: number }) => (
     <Box marginRight={2}>
       <Text backgroundColor={colors.bgTertiary} color={colors.text}>
@@ -628,10 +1234,12 @@ function HelpBar({
       <Box>
         <Shortcut keys="Tab" label="Monitor" />
         <Shortcut keys="f" label="Terminal" />
-        <Shortcut keys="1-5" label="Tabs" />
+        <Shortcut keys="1-9,0,-" label="Tabs" />
         <Shortcut keys="j/k" label="Scroll" />
-        <Shortcut keys="s" label={agentStatus === "running" ? "Stop" : "Start"} />
-        {agentStatus === "running" && <Shortcut keys="h" label="Hint" badge={pendingHintsCount} />}
+        <Shortcut keys="s" label={active ? "Stop" : "Start"} />
+        {active && <Shortcut keys="p" label={pauseLabel} />}
+        {active && <Shortcut keys="h" label="Hint" badge={pendingHintsCount} />}
+        <Shortcut keys="g" label="Report" />
         <Shortcut keys="q" label="Quit" />
       </Box>
     );
@@ -640,10 +1248,12 @@ function HelpBar({
   return (
     <Box>
       <Shortcut keys="Tab" label="Planning" />
-      <Shortcut keys="1-5" label="Tabs" />
+      <Shortcut keys="1-9,0,-" label="Tabs" />
       <Shortcut keys="j/k" label="Scroll" />
-      <Shortcut keys="s" label={agentStatus === "running" ? "Stop" : "Start"} />
-      {agentStatus === "running" && <Shortcut keys="h" label="Hint" badge={pendingHintsCount} />}
+      {hasWorkers && <Shortcut keys="[/]" label="Worker" />}
+      <Shortcut keys="s" label={active ? "Stop" : "Start"} />
+      {active && <Shortcut keys="p" label={pauseLabel} />}
+      {active && <Shortcut keys="h" label="Hint" badge={pendingHintsCount} />}
       <Shortcut keys="q" label="Quit" />
     </Box>
   );
@@ -704,17 +1314,81 @@ function ConfirmDialog({
   );
 }
 
-function QuitConfirmDialog() {
+function QuitConfirmDialog({ agentKeepsRunning }: { agentKeepsRunning: boolean }) {
   return (
     <ConfirmDialog
       title="Quit ml-ralph?"
-      message="This will close the tmux session."
+      message={
+        agentKeepsRunning
+          ? "This will close the tmux session. The agent keeps running; run ml-ralph again to reattach."
+          : "This will close the tmux session."
+      }
       borderColor={colors.accentYellow}
     />
   );
 }
 
-function StartConfirmDialog({ maxIterations }: { maxIterations: number }) {
+/**
+ * One line describing the run's limits, and what's left of them when usage is given
+ */
+function BudgetSummary({
+  budget,
+  usage,
+}: {
+  budget: RunBudget | undefined;
+  usage: BudgetUsage | null;
+}) {
+  if (!hasBudget(budget)) {
+    return (
+      <Text color={colors.textMuted}>
+        No budget · set agent.maxCostUsd / maxHours / maxIterationMinutes in config.json
+      </Text>
+    );
+  }
+
+  const left = usage ? budgetLeft(budget, usage) : null;
+  const parts: string[] = [];
+  if (budget?.maxCostUsd) {
+    parts.push(
+      left?.costUsd != null
+        ? `${formatCost(left.costUsd)} of ${formatCost(budget.maxCostUsd)} left`
+        : formatCost(budget.maxCostUsd)
+    );
+  }
+  if (budget?.maxHours) {
+    parts.push(
+      left?.ms != null
+        ? `${formatDuration(left.ms)} of ${budget.maxHours}h left`
+        : `${budget.maxHours}h`
+    );
+  }
+  if (budget?.maxIterationMinutes) {
+    parts.push(`${budget.maxIterationMinutes}m per iteration`);
+  }
+
+  return (
+    <Box gap={1}>
+      <Text color={colors.textSecondary}>Budget:</Text>
+      <Text color={colors.accentYellow}>{parts.join(" · ")}</Text>
+    </Box>
+  );
+}
+
+function StartConfirmDialog({
+  maxIterations,
+  workerCount,
+  resumeState,
+  resumeUsage,
+  budget,
+  backend,
+}: {
+  maxIterations: number;
+  workerCount: number;
+  resumeState: RunnerState | null;
+  resumeUsage: BudgetUsage | null;
+  budget: RunBudget | undefined;
+  backend: string;
+}) {
   return (
     <Box
       position="absolute"
@@ -748,13 +1422,57 @@ function StartConfirmDialog({ maxIterations }: { maxIterations: number }) {
           </Text>
           <Text color={colors.textMuted}>(type number to change)</Text>
         </Box>
+        <Box gap={1}>
+          <Text color={colors.textSecondary}>Parallel workers:</Text>
+          <Text color={colors.accentBlue} bold>
+            {workerCount}
+          </Text>
+          <Text color={colors.textMuted}>
+            {workerCount > 1
+              ? "(w to change · one git worktree per ready up_next task, budget split between them)"
+              : "(w to change)"}
+          </Text>
+        </Box>
+        <Box gap={1}>
+          <Text color={colors.textSecondary}>Agent:</Text>
+          <Text color={colors.accentBlue}>{backend}</Text>
+          <Text color={colors.textMuted}>(agent.backend in config.json)</Text>
+        </Box>
+        <BudgetSummary budget={budget} usage={null} />
+        {resumeState && (
+          <Box marginTop={1} flexDirection="column">
+            <Text color={colors.accentYellow}>
+              Previous run stopped at iteration {resumeState.iteration} of{" "}
+              {resumeState.maxIterations}
+              {resumeState.iterationComplete ? "" : " (interrupted)"}
+            </Text>
+            <Text color={colors.textMuted}>
+              {resumeState.remainingIterations} iterations left
+              {resumeState.pendingHints.length > 0 &&
+                ` · ${resumeState.pendingHints.length} hint${resumeState.pendingHints.length === 1 ? "" : "s"} queued`}
+              {" · started "}
+              {new Date(resumeState.startedAt).toLocaleString()}
+            </Text>
+            {resumeUsage && hasBudget(budget) && (
+              <BudgetSummary budget={budget} usage={resumeUsage} />
+            )}
+          </Box>
+        )}
         <Box marginTop={1} justifyContent="center" gap={3}>
           <Box>
             <Text backgroundColor={colors.accentGreen} color={colors.bgPrimary}>
               {" Y "}
             </Text>
-            <Text color={colors.textSecondary}> Yes</Text>
+            <Text color={colors.textSecondary}> {resumeState ? "New run" : "Yes"}</Text>
           </Box>
+          {resumeState && (
+            <Box>
+              <Text backgroundColor={colors.accentYellow} color={colors.bgPrimary}>
+                {" R "}
+              </Text>
+              <Text color={colors.textSecondary}> Resume</Text>
+            </Box>
+          )}
           <Box>
             <Text backgroundColor={colors.accentRed} color={colors.bgPrimary}>
               {" N "}
@@ -777,6 +1495,17 @@ function StopConfirmDialog() {
   );
 }
 
+function RevertConfirmDialog({ snapshot }: { snapshot: IterationSnapshot }) {
+  const count = snapshot.files.length;
+  return (
+    <ConfirmDialog
+      title={`Revert iteration ${snapshot.iteration}?`}
+      message={`This restores ${count} file${count === 1 ? "" : "s"} to how they were before the iteration and logs it for the agent.`}
+      borderColor={colors.accentYellow}
+    />
+  );
+}
+
 /**
  * No PRD dialog - prompts user to create a PRD first
  */
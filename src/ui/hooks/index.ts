@@ -25,3 +25,24 @@ export {
   type UseRalphStateResult,
   useRalphState,
 } from "./use-ralph-state.ts";
+export {
+  type UseWandbRunsOptions,
+  type UseWandbRunsResult,
+  useWandbRuns,
+} from "./use-wandb-runs.ts";
+export {
+  type UseIterationStatsOptions,
+  type UseIterationStatsResult,
+  useIterationStats,
+} from "./use-iteration-stats.ts";
+export {
+  type UseIterationSnapshotsOptions,
+  type UseIterationSnapshotsResult,
+  useIterationSnapshots,
+  useSnapshotDiff,
+} from "./use-iteration-snapshots.ts";
+export {
+  type UseJobLogOptions,
+  type UseJobLogResult,
+  useJobLog,
+} from "./use-job-log.ts";
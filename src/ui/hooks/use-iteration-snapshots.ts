@@ -0,0 +1,87 @@
+/**
+ * Hooks for the per-iteration git snapshots behind the Changes tab
+ * Polls .ml-ralph/snapshots.jsonl, which the runner appends to after every iteration
+ */
+
+import { useCallback, useEffect, useState } from "react";
+import { diffText } from "../../infrastructure/git/index.ts";
+import {
+  type IterationSnapshot,
+  readIterationSnapshots,
+} from "../../infrastructure/ralph/index.ts";
+
+export interface UseIterationSnapshotsOptions {
+  projectPath: string;
+  /** Polling interval in ms (default: 2000) */
+  pollInterval?: number;
+}
+
+export interface UseIterationSnapshotsResult {
+  /** Every recorded iteration, oldest first */
+  snapshots: IterationSnapshot[];
+  /** Manually refresh the data */
+  refresh: () => Promise<void>;
+}
+
+/** Changes when an iteration is added or reverted */
+function versionOf(snapshots: IterationSnapshot[]): string {
+  const reverted = snapshots.filter((s) => s.revertedAt).length;
+  return `${snapshots.length}:${reverted}`;
+}
+
+export function useIterationSnapshots(
+  options: UseIterationSnapshotsOptions,
+): UseIterationSnapshotsResult {
+  const { projectPath, pollInterval = 2000 } = options;
+  const [snapshots, setSnapshots] = useState<IterationSnapshot[]>([]);
+
+  const refresh = useCallback(async () => {
+    const loaded = await readIterationSnapshots(projectPath);
+    // Keep the same array while nothing changed to avoid re-renders
+    setSnapshots((prev) =>
+      versionOf(prev) === versionOf(loaded) ? prev : loaded,
+    );
+  }, [projectPath]);
+
+  useEffect(() => {
+    refresh();
+    const interval = setInterval(() => {
+      refresh();
+    }, pollInterval);
+
+    return () => clearInterval(interval);
+  }, [refresh, pollInterval]);
+
+  return { snapshots, refresh };
+}
+
+/**
+ * Diff lines for one file of an iteration (empty while loading or when
+ * nothing is selected)
+ */
+export function useSnapshotDiff(
+  projectPath: string,
+  snapshot: IterationSnapshot | null,
+  path: string | null,
+): string[] {
+  const [lines, setLines] = useState<string[]>([]);
+  const before = snapshot?.before;
+  const after = snapshot?.after;
+
+  useEffect(() => {
+    if (!before || !after || !path) {
+      setLines([]);
+      return;
+    }
+
+    let cancelled = false;
+    diffText(projectPath, before, after, path).then((text) => {
+      if (!cancelled) setLines(text ? text.replace(/\n$/, "").split("\n") : []);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [projectPath, before, after, path]);
+
+  return lines;
+}
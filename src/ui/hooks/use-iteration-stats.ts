@@ -0,0 +1,47 @@
+/**
+ * Hook for reading per-iteration cost and token stats
+ * Polls .ml-ralph/iterations.jsonl, which the runner appends to after every iteration
+ */
+
+import { useCallback, useEffect, useState } from "react";
+import {
+  type IterationStats,
+  readIterationStats,
+} from "../../infrastructure/ralph/index.ts";
+
+export interface UseIterationStatsOptions {
+  projectPath: string;
+  /** Polling interval in ms (default: 2000) */
+  pollInterval?: number;
+}
+
+export interface UseIterationStatsResult {
+  /** Every recorded iteration, oldest first */
+  stats: IterationStats[];
+  /** Manually refresh the data */
+  refresh: () => Promise<void>;
+}
+
+export function useIterationStats(
+  options: UseIterationStatsOptions,
+): UseIterationStatsResult {
+  const { projectPath, pollInterval = 2000 } = options;
+  const [stats, setStats] = useState<IterationStats[]>([]);
+
+  const refresh = useCallback(async () => {
+    const loaded = await readIterationStats(projectPath);
+    // Keep the same array while nothing was appended to avoid re-renders
+    setStats((prev) => (prev.length === loaded.length ? prev : loaded));
+  }, [projectPath]);
+
+  useEffect(() => {
+    refresh();
+    const interval = setInterval(() => {
+      refresh();
+    }, pollInterval);
+
+    return () => clearInterval(interval);
+  }, [refresh, pollInterval]);
+
+  return { stats, refresh };
+}
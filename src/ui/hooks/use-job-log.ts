@@ -0,0 +1,49 @@
+/**
+ * Hook for following a training job's log
+ * Polls the end of the log so the viewer grows like `tail -f`
+ */
+
+import { useCallback, useEffect, useState } from "react";
+import {
+  type LogTail,
+  readLogTail,
+} from "../../infrastructure/process/index.ts";
+
+export interface UseJobLogOptions {
+  /** Log to follow (null while no job is selected) */
+  logPath: string | null;
+  /** Polling interval in ms (default: 500) */
+  pollInterval?: number;
+}
+
+export interface UseJobLogResult {
+  /** End of the log (null if it doesn't exist yet) */
+  tail: LogTail | null;
+  /** Manually refresh the data */
+  refresh: () => Promise<void>;
+}
+
+export function useJobLog(options: UseJobLogOptions): UseJobLogResult {
+  const { logPath, pollInterval = 500 } = options;
+  const [tail, setTail] = useState<LogTail | null>(null);
+
+  const refresh = useCallback(async () => {
+    const loaded = logPath ? await readLogTail(logPath) : null;
+    // Keep the same lines while the log hasn't grown to avoid re-renders
+    setTail((prev) =>
+      prev && loaded && prev.size === loaded.size ? prev : loaded,
+    );
+  }, [logPath]);
+
+  useEffect(() => {
+    refresh();
+    if (!logPath) return;
+    const interval = setInterval(() => {
+      refresh();
+    }, pollInterval);
+
+    return () => clearInterval(interval);
+  }, [refresh, logPath, pollInterval]);
+
+  return { tail, refresh };
+}
@@ -1,14 +1,14 @@
 /**
  * Hook for reading Ralph state from .ml-ralph files
- * Watches prd.json, kanban.json, and log.jsonl for changes
+ * Polls prd.json and kanban.json; log.jsonl comes from the shared log tailer,
+ * which only parses newly appended lines
  */
 
 import { useCallback, useEffect, useState } from "react";
 import {
   readPrdFile,
-  readLogFile,
   readKanbanFile,
-  aggregateEvents,
+  getLogTailer,
   type PRD,
   type LogSummary,
   type Kanban,
@@ -39,52 +39,59 @@ export function useRalphState(options: UseRalphStateOptions): UseRalphStateResul
   const { projectPath, pollInterval = 1000 } = options;
 
   const [prd, setPrd] = useState<PRD | null>(null);
-  const [log, setLog] = useState<LogSummary | null>(null);
+  const [log, setLog] = useState<LogSummary | null>(
+    () => getLogTailer(projectPath).summary
+  );
   const [kanban, setKanban] = useState<Kanban | null>(null);
-  const [isLoaded, setIsLoaded] = useState(false);
+  const [filesLoaded, setFilesLoaded] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  const refresh = useCallback(async () => {
+  const readFiles = useCallback(async () => {
     try {
       // Read PRD
       const prdData = await readPrdFile(projectPath);
       setPrd(prdData);
 
-      // Read and aggregate log
-      const events = await readLogFile(projectPath);
-      const summary = aggregateEvents(events);
-      setLog(summary);
-
       // Read Kanban
       const kanbanData = await readKanbanFile(projectPath);
       setKanban(kanbanData);
 
       setError(null);
-      setIsLoaded(true);
+      setFilesLoaded(true);
     } catch (err) {
       setError(err instanceof Error ? err.message : "Failed to read Ralph state");
     }
   }, [projectPath]);
 
+  const refresh = useCallback(async () => {
+    // Pick up any new log lines now rather than at the next tailer poll
+    await Promise.all([readFiles(), getLogTailer(projectPath).poll()]);
+  }, [projectPath, readFiles]);
+
   // Initial load
   useEffect(() => {
-    refresh();
-  }, [refresh]);
+    readFiles();
+  }, [readFiles]);
+
+  // Log updates are pushed by the tailer shared with other components
+  useEffect(() => {
+    return getLogTailer(projectPath).subscribe(setLog);
+  }, [projectPath]);
 
-  // Set up polling for file changes
+  // Set up polling for prd/kanban changes
   useEffect(() => {
     const interval = setInterval(() => {
-      refresh();
+      readFiles();
     }, pollInterval);
 
     return () => clearInterval(interval);
-  }, [refresh, pollInterval]);
+  }, [readFiles, pollInterval]);
 
   return {
     prd,
     log,
     kanban,
-    isLoaded,
+    isLoaded: filesLoaded && log !== null,
     error,
     refresh,
   };
@@ -0,0 +1,53 @@
+/**
+ * Hook for reading local wandb runs referenced by experiments
+ * Polls ./wandb/ so curves grow while a run is still training
+ */
+
+import { useCallback, useEffect, useState } from "react";
+import {
+  type LocalWandBRun,
+  readLocalRuns,
+} from "../../infrastructure/wandb/index.ts";
+
+export interface UseWandbRunsOptions {
+  projectPath: string;
+  /** wandb run ids to load (e.g. from ExperimentEvent.wandb_run_id) */
+  runIds: string[];
+  /** Polling interval in ms (default: 5000) */
+  pollInterval?: number;
+}
+
+export interface UseWandbRunsResult {
+  /** Local runs keyed by wandb run id */
+  runs: Map<string, LocalWandBRun>;
+  /** Manually refresh the data */
+  refresh: () => Promise<void>;
+}
+
+export function useWandbRuns(options: UseWandbRunsOptions): UseWandbRunsResult {
+  const { projectPath, runIds, pollInterval = 5000 } = options;
+  const [runs, setRuns] = useState<Map<string, LocalWandBRun>>(new Map());
+
+  // Stable key so a new array with the same ids doesn't restart polling
+  const runIdsKey = Array.from(new Set(runIds)).sort().join(",");
+
+  const refresh = useCallback(async () => {
+    if (!runIdsKey) {
+      setRuns(new Map());
+      return;
+    }
+    const loaded = await readLocalRuns(projectPath, runIdsKey.split(","));
+    setRuns(loaded);
+  }, [projectPath, runIdsKey]);
+
+  useEffect(() => {
+    refresh();
+    const interval = setInterval(() => {
+      refresh();
+    }, pollInterval);
+
+    return () => clearInterval(interval);
+  }, [refresh, pollInterval]);
+
+  return { runs, refresh };
+}
@@ -5,18 +5,99 @@
  */
 
 import { Box, Text } from "ink";
+import type { WorkerInfo } from "../../application/orchestrator/index.ts";
 import { useAppStore } from "../../application/state/index.ts";
-import type { StreamEvent } from "../../infrastructure/ralph/index.ts";
-import { useRalphState } from "../hooks/index.ts";
+import {
+  type StreamEvent,
+  sumIterationStats,
+} from "../../infrastructure/ralph/index.ts";
+import {
+  useIterationStats,
+  useRalphState,
+  useWandbRuns,
+} from "../hooks/index.ts";
 import { colors } from "../theme/colors.ts";
 import { ActivityFeed } from "../widgets/activity-feed.tsx";
 import { KnowledgePanel } from "../widgets/knowledge-panel.tsx";
+import { MetricsChart } from "../widgets/metrics-chart.tsx";
 
 interface MonitorScreenProps {
   agentOutput?: StreamEvent[];
   currentIteration?: number;
   startTime?: number;
   projectPath?: string;
+  /** Pause requested, waiting for the current iteration to finish */
+  pauseRequested?: boolean;
+  /** Why the loop is paused, if the agent asked for it */
+  pauseReason?: string | null;
+  /** Parallel workers of the current or last worker run */
+  workers?: WorkerInfo[];
+  /** Output of each worker, by worker id */
+  workerOutput?: Record<string, StreamEvent[]>;
+  /** Worker whose activity is shown (null for the main loop) */
+  selectedWorker?: string | null;
+}
+
+const workerStatusColor: Record<WorkerInfo["status"], string> = {
+  running: colors.accentGreen,
+  paused: colors.accentYellow,
+  done: colors.accentBlue,
+  stopped: colors.textMuted,
+  failed: colors.accentRed,
+};
+
+/**
+ * One tab per feed: the main loop, then each worker with its status
+ */
+function WorkerSelector({
+  workers,
+  selected,
+}: {
+  workers: WorkerInfo[];
+  selected: WorkerInfo | null;
+}) {
+  return (
+    <Box paddingX={1} gap={1} flexWrap="wrap">
+      <Text
+        color={selected ? colors.textMuted : colors.text}
+        bold={!selected}
+        inverse={!selected}
+      >
+        {" main "}
+      </Text>
+      {workers.map((worker) => {
+        const isSelected = worker.id === selected?.id;
+        return (
+          <Text key={worker.id} bold={isSelected} inverse={isSelected}>
+            <Text color={workerStatusColor[worker.status]}>{" ● "}</Text>
+            <Text color={isSelected ? colors.text : colors.textSecondary}>
+              {worker.id}{" "}
+            </Text>
+          </Text>
+        );
+      })}
+      <Text color={colors.textMuted}>([/] to switch)</Text>
+    </Box>
+  );
+}
+
+/**
+ * Label and color for the agent state shown in the Activity header
+ */
+function statusBadge(
+  agentStatus: string,
+  pauseRequested: boolean
+): { label: string; color: string } {
+  if (agentStatus === "paused") {
+    return { label: "❚❚ Paused", color: colors.accentYellow };
+  }
+  if (agentStatus === "running" && pauseRequested) {
+    return { label: "◐ Pausing after iteration", color: colors.accentYellow };
+  }
+  if (agentStatus === "running") {
+    return { label: "● Running", color: colors.accentGreen };
+  }
+  return { label: "○ Idle", color: colors.textMuted };
 }
 
 export function MonitorScreen({
@@ -24,8 +105,14 @@ export function MonitorScreen({
   currentIteration = 0,
   startTime = 0,
   projectPath = "",
+  pauseRequested = false,
+  pauseReason = null,
+  workers = [],
+  workerOutput = {},
+  selectedWorker = null,
 }: MonitorScreenProps) {
-  const { agentStatus } = useAppStore();
+  const { agentStatus, config, activeJobs } = useAppStore();
+  const badge = statusBadge(agentStatus, pauseRequested);
 
   // Get phase from kanban
   const { kanban } = useRalphState({
@@ -35,6 +122,28 @@ export function MonitorScreen({
 
   const currentPhase = kanban?.current_focus?.phase || null;
 
+  // Totals for this run. A resumed run keeps its original start time, and a
+  // new run starts just after startTime, so earlier runs are filtered out.
+  const { stats } = useIterationStats({
+    projectPath: projectPath || process.cwd(),
+  });
+  const runTotals =
+    startTime > 0
+      ? sumIterationStats(
+          stats.filter((s) => Date.parse(s.runStartedAt) >= startTime)
+        )
+      : null;
+
+  const worker = workers.find((w) => w.id === selectedWorker) ?? null;
+
+  // The job t stops, with its curves if its wandb run is local
+  const runningJobs = activeJobs.filter((j) => j.status === "running");
+  const job = runningJobs[0] ?? null;
+  const { runs } = useWandbRuns({
+    projectPath: projectPath || process.cwd(),
+    runIds: job?.wandbRunId ? [job.wandbRunId] : [],
+  });
+
   return (
     <Box flexDirection="row" height="100%">
       {/* Left panel - Activity feed (40%) */}
@@ -42,20 +151,43 @@ export function MonitorScreen({
         flexDirection="column"
         width="40%"
         borderStyle="single"
-        borderColor={agentStatus === "running" ? colors.accentBlue : colors.textMuted}
+        borderColor={
+          agentStatus === "running"
+            ? colors.accentBlue
+            : agentStatus === "paused"
+              ? colors.accentYellow
+              : colors.textMuted
+        }
       >
         <Box paddingX={1} justifyContent="space-between">
           <Text color={colors.accentBlue} bold>
             Activity
           </Text>
-          <Text
-            color={
-              agentStatus === "running" ? colors.accentGreen : colors.textMuted
-            }
-          >
-            {agentStatus === "running" ? "● Running" : "○ Idle"}
-          </Text>
+          <Text color={badge.color}>{badge.label}</Text>
         </Box>
+        {workers.length > 0 && (
+          <WorkerSelector workers={workers} selected={worker} />
+        )}
+        {worker && (
+          <Box paddingX={1}>
+            <Text color={colors.textSecondary} wrap="truncate-end">
+              {worker.taskId}: {worker.taskTitle}
+              <Text color={colors.textMuted}>
+                {" "}
+                · {worker.status}
+                {worker.detail ? ` (${worker.detail})` : ""} · {worker.branch}
+              </Text>
+            </Text>
+          </Box>
+        )}
+        {agentStatus === "paused" && (
+          <Box paddingX={1}>
+            <Text color={colors.accentYellow} wrap="truncate-end">
+              {pauseReason ? `Agent: ${pauseReason}` : "Paused by user"}
+              <Text color={colors.textMuted}> (p to resume)</Text>
+            </Text>
+          </Box>
+        )}
         <Box
           flexDirection="column"
           paddingX={1}
@@ -63,13 +195,29 @@ export function MonitorScreen({
           overflowY="hidden"
         >
           <ActivityFeed
-            events={agentOutput}
+            events={worker ? (workerOutput[worker.id] ?? []) : agentOutput}
             maxActivities={40}
-            currentIteration={currentIteration}
+            currentIteration={worker ? worker.iteration : currentIteration}
             startTime={startTime}
             phase={currentPhase}
+            totals={runTotals}
+            budget={config?.agent}
           />
         </Box>
+        {job && (
+          <Box flexDirection="column" paddingX={1}>
+            <MetricsChart
+              job={job}
+              run={job.wandbRunId ? runs.get(job.wandbRunId) : null}
+            />
+            <Text color={colors.textMuted}>
+              t to stop
+              {runningJobs.length > 1
+                ? ` · ${runningJobs.length - 1} more running`
+                : ""}
+            </Text>
+          </Box>
+        )}
       </Box>
 
       {/* Right panel - Knowledge tabs (60%) */}
@@ -6,9 +6,15 @@
 
 import { Box, Text } from "ink";
 import { useMemo } from "react";
-import type { StreamEvent } from "../../infrastructure/ralph/index.ts";
+import {
+  budgetLeft,
+  type IterationTotals,
+  type RunBudget,
+  type StreamEvent,
+} from "../../infrastructure/ralph/index.ts";
 import { colors } from "../theme/colors.ts";
 import { ActivityAggregator, getToolIcon, type Activity } from "./activity-aggregator.ts";
+import { formatCost, formatDuration, formatTokens } from "./costs-panel.tsx";
 
 interface ActivityFeedProps {
   events: StreamEvent[];
@@ -16,6 +22,10 @@ interface ActivityFeedProps {
   currentIteration?: number;
   startTime?: number;
   phase?: string | null;
+  /** Cost and tokens of the iterations finished so far in this run */
+  totals?: IterationTotals | null;
+  /** Run limits from config; what's left is shown next to the totals */
+  budget?: RunBudget;
 }
 
 /**
@@ -37,15 +47,24 @@ function StatusBar({
   iteration,
   phase,
   startTime,
-  isRunning
+  isRunning,
+  totals,
+  budget,
 }: {
   iteration: number;
   phase: string | null;
   startTime: number;
   isRunning: boolean;
+  totals: IterationTotals | null;
+  budget?: RunBudget;
 }) {
   if (!isRunning && iteration === 0) return null;
 
+  const left = budgetLeft(budget, {
+    costUsd: totals?.costUsd ?? 0,
+    elapsedMs: startTime > 0 ? Date.now() - startTime : 0,
+  });
+
   return (
     <Box
       borderStyle="single"
@@ -69,11 +88,31 @@ function StatusBar({
         </Box>
       )}
       {startTime > 0 && (
-        <Box>
+        <Box marginRight={2}>
           <Text color={colors.textMuted}>│ </Text>
           <Text color={colors.textSecondary}>{formatElapsed(startTime)}</Text>
         </Box>
       )}
+      {((totals && totals.iterations > 0) || budget?.maxCostUsd) && (
+        <Box marginRight={2}>
+          <Text color={colors.textMuted}>│ </Text>
+          <Text color={colors.accentYellow}>
+            {formatCost(totals?.costUsd ?? 0)}
+            {budget?.maxCostUsd ? ` / ${formatCost(budget.maxCostUsd)}` : ""}
+          </Text>
+          <Text color={colors.textSecondary}>
+            {" · "}{formatTokens(totals?.tokens ?? 0)} tok
+          </Text>
+        </Box>
+      )}
+      {left.ms !== null && (
+        <Box>
+          <Text color={colors.textMuted}>│ </Text>
+          <Text color={left.ms < 15 * 60_000 ? colors.accentRed : colors.textSecondary}>
+            {formatDuration(left.ms)} left
+          </Text>
+        </Box>
+      )}
     </Box>
   );
 }
@@ -225,6 +264,8 @@ export function ActivityFeed({
   currentIteration = 0,
   startTime = 0,
   phase = null,
+  totals = null,
+  budget,
 }: ActivityFeedProps) {
   // Process events through aggregator - only process last N events for performance
   const activities = useMemo(() => {
@@ -268,6 +309,8 @@ export function ActivityFeed({
         phase={phase}
         startTime={startTime}
         isRunning={isRunning}
+        totals={totals}
+        budget={budget}
       />
 
       {/* Truncation notice if we have more activities */}
@@ -0,0 +1,240 @@
+/**
+ * Changes panel - files each iteration changed, from .ml-ralph/snapshots.jsonl,
+ * with the selected file's diff
+ */
+
+import { Box, Text } from "ink";
+import type { FileChange } from "../../infrastructure/git/index.ts";
+import type { IterationSnapshot } from "../../infrastructure/ralph/index.ts";
+import { colors } from "../theme/colors.ts";
+
+interface ChangesPanelProps {
+  snapshots: IterationSnapshot[];
+  selectedIndex: number;
+  selectedFileIndex: number;
+  /** Diff of the selected file */
+  diff: string[];
+  /** Diff scroll offset */
+  offset?: number;
+  /** Iterations listed at once */
+  limit?: number;
+  /** Diff lines shown at once */
+  diffHeight?: number;
+}
+
+export interface SelectedChange {
+  snapshot: IterationSnapshot;
+  file: FileChange | null;
+}
+
+/**
+ * Newest iteration first, the order the panel lists them in
+ */
+export function sortSnapshots(
+  snapshots: IterationSnapshot[],
+): IterationSnapshot[] {
+  return [...snapshots].reverse();
+}
+
+/**
+ * The iteration and file the selection indexes point at, clamped to what
+ * exists (null when there are no snapshots)
+ */
+export function selectedChange(
+  snapshots: IterationSnapshot[],
+  index: number,
+  fileIndex: number,
+): SelectedChange | null {
+  const sorted = sortSnapshots(snapshots);
+  const snapshot = sorted[Math.min(index, sorted.length - 1)];
+  if (!snapshot) return null;
+  const file =
+    snapshot.files[Math.min(fileIndex, snapshot.files.length - 1)] ?? null;
+  return { snapshot, file };
+}
+
+function sumLines(files: FileChange[], key: "additions" | "deletions") {
+  return files.reduce((sum, f) => sum + (f[key] ?? 0), 0);
+}
+
+const statusLetter: Record<FileChange["status"], string> = {
+  added: "A",
+  modified: "M",
+  deleted: "D",
+};
+
+const statusColor: Record<FileChange["status"], string> = {
+  added: colors.accentGreen,
+  modified: colors.accentYellow,
+  deleted: colors.accentRed,
+};
+
+function diffLineColor(line: string): string {
+  if (line.startsWith("+++") || line.startsWith("---")) return colors.textMuted;
+  if (line.startsWith("+")) return colors.accentGreen;
+  if (line.startsWith("-")) return colors.accentRed;
+  if (line.startsWith("@@")) return colors.accentCyan;
+  if (line.startsWith("diff ") || line.startsWith("index ")) {
+    return colors.textMuted;
+  }
+  return colors.textSecondary;
+}
+
+function IterationRow({
+  snapshot,
+  isSelected,
+}: {
+  snapshot: IterationSnapshot;
+  isSelected: boolean;
+}) {
+  const { files } = snapshot;
+  return (
+    <Box>
+      <Text color={isSelected ? colors.accentBlue : colors.textMuted}>
+        {isSelected ? "▸ " : "  "}
+      </Text>
+      <Text
+        color={isSelected ? colors.text : colors.textSecondary}
+        bold={isSelected}
+      >
+        Iteration {snapshot.iteration}
+      </Text>
+      <Text color={colors.textMuted}>
+        {"  "}
+        {files.length} file{files.length === 1 ? "" : "s"}
+      </Text>
+      {files.length > 0 && (
+        <>
+          <Text color={colors.accentGreen}>
+            {" "}
+            +{sumLines(files, "additions")}
+          </Text>
+          <Text color={colors.accentRed}> -{sumLines(files, "deletions")}</Text>
+        </>
+      )}
+      {snapshot.revertedAt && (
+        <Text color={colors.accentPurple}> reverted</Text>
+      )}
+    </Box>
+  );
+}
+
+export function ChangesPanel({
+  snapshots,
+  selectedIndex,
+  selectedFileIndex,
+  diff,
+  offset = 0,
+  limit = 5,
+  diffHeight = 15,
+}: ChangesPanelProps) {
+  if (snapshots.length === 0) {
+    return (
+      <Box flexDirection="column" padding={2}>
+        <Box marginBottom={1}>
+          <Text color={colors.accentYellow}>{"◇ "}</Text>
+          <Text color={colors.text}>No iteration snapshots yet</Text>
+        </Box>
+        <Text color={colors.textSecondary}>
+          When the project is a git repository, the work tree is snapshotted
+          before and after every agent iteration.
+        </Text>
+      </Box>
+    );
+  }
+
+  const sorted = sortSnapshots(snapshots);
+  const total = sorted.length;
+  const index = Math.min(selectedIndex, total - 1);
+  const selection = selectedChange(snapshots, selectedIndex, selectedFileIndex);
+
+  // Keep the selected iteration in view
+  const listOffset = Math.max(0, Math.min(index - limit + 1, total - limit));
+  const visible = sorted.slice(listOffset, listOffset + limit);
+
+  const files = selection?.snapshot.files ?? [];
+  const selectedFile = selection?.file ?? null;
+  const diffOffset = Math.max(0, Math.min(offset, diff.length - diffHeight));
+  const diffLines = diff.slice(diffOffset, diffOffset + diffHeight);
+
+  return (
+    <Box flexDirection="column" paddingX={1}>
+      <Box marginBottom={1}>
+        <Text color={colors.textMuted}>
+          {total} iteration{total !== 1 ? "s" : ""}
+        </Text>
+        <Text color={colors.textSecondary}>
+          {" "}
+          (j/k iteration, ←/→ file, J/K scroll diff, r revert)
+        </Text>
+      </Box>
+
+      {visible.map((snapshot, i) => (
+        <IterationRow
+          key={`${snapshot.runStartedAt}-${snapshot.iteration}`}
+          snapshot={snapshot}
+          isSelected={listOffset + i === index}
+        />
+      ))}
+
+      <Box flexDirection="column" marginTop={1}>
+        {files.length === 0 ? (
+          <Text color={colors.textMuted}>
+            No files changed in this iteration.
+          </Text>
+        ) : (
+          files.map((file) => {
+            const isSelected = file === selectedFile;
+            return (
+              <Box key={file.path}>
+                <Text color={statusColor[file.status]}>
+                  {isSelected ? "▸" : " "} {statusLetter[file.status]}{" "}
+                </Text>
+                <Text
+                  color={isSelected ? colors.text : colors.textSecondary}
+                  bold={isSelected}
+                >
+                  {file.path}
+                </Text>
+                <Text color={colors.textMuted}>
+                  {file.additions === null
+                    ? "  binary"
+                    : `  +${file.additions} -${file.deletions ?? 0}`}
+                </Text>
+              </Box>
+            );
+          })
+        )}
+      </Box>
+
+      {selectedFile && (
+        <Box flexDirection="column" marginTop={1}>
+          {diffLines.length === 0 ? (
+            <Text color={colors.textMuted}>
+              {selectedFile.additions === null
+                ? "Binary file"
+                : "Loading diff..."}
+            </Text>
+          ) : (
+            diffLines.map((line, i) => (
+              <Text
+                // Diff lines have no identity beyond their position
+                key={`${diffOffset + i}:${line}`}
+                color={diffLineColor(line)}
+                wrap="truncate-end"
+              >
+                {line || " "}
+              </Text>
+            ))
+          )}
+          {diff.length > diffHeight && (
+            <Text color={colors.textMuted}>
+              lines {diffOffset + 1}-{diffOffset + diffLines.length} of{" "}
+              {diff.length}
+            </Text>
+          )}
+        </Box>
+      )}
+    </Box>
+  );
+}
@@ -0,0 +1,175 @@
+/**
+ * Costs panel - agent spend per hypothesis from .ml-ralph/iterations.jsonl
+ */
+
+import { Box, Text } from "ink";
+import {
+  costByHypothesis,
+  type HypothesisWithStatus,
+  type IterationStats,
+  sumIterationStats,
+} from "../../infrastructure/ralph/index.ts";
+import { colors } from "../theme/colors.ts";
+
+interface CostsPanelProps {
+  stats: IterationStats[];
+  hypotheses: HypothesisWithStatus[];
+  offset?: number;
+  limit?: number;
+}
+
+/**
+ * Format a USD amount, with cents below $100
+ */
+export function formatCost(usd: number): string {
+  return usd >= 100 ? `$${Math.round(usd)}` : `$${usd.toFixed(2)}`;
+}
+
+/**
+ * Format a token count as "950", "12.3k" or "1.2M"
+ */
+export function formatTokens(tokens: number): string {
+  if (tokens >= 1_000_000) return `${(tokens / 1_000_000).toFixed(1)}M`;
+  if (tokens >= 1_000) return `${(tokens / 1_000).toFixed(1)}k`;
+  return String(Math.round(tokens));
+}
+
+/**
+ * Format a duration as "Xm" or "Xh Ym"
+ */
+export function formatDuration(ms: number): string {
+  const minutes = Math.round(ms / 60_000);
+  if (minutes < 60) return `${minutes}m`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
+
+const statusColor: Record<HypothesisWithStatus["status"], string> = {
+  pending: colors.accentYellow,
+  keep: colors.accentGreen,
+  reject: colors.accentRed,
+  iterate: colors.accentBlue,
+  pivot: colors.accentPurple,
+};
+
+function Row({
+  id,
+  iterations,
+  cost,
+  tokens,
+  time,
+  label,
+  color = colors.text,
+  bold = false,
+}: {
+  id: string;
+  iterations: string;
+  cost: string;
+  tokens: string;
+  time: string;
+  label: string;
+  color?: string;
+  bold?: boolean;
+}) {
+  return (
+    <Box>
+      <Text color={color} bold={bold} wrap="truncate-end">
+        {id.padEnd(8)}
+        {iterations.padStart(5)}
+        {cost.padStart(9)}
+        {tokens.padStart(8)}
+        {time.padStart(8)}
+        {"  "}
+        <Text color={colors.textSecondary}>{label}</Text>
+      </Text>
+    </Box>
+  );
+}
+
+export function CostsPanel({
+  stats,
+  hypotheses,
+  offset = 0,
+  limit = 10,
+}: CostsPanelProps) {
+  if (stats.length === 0) {
+    return (
+      <Box flexDirection="column" padding={2}>
+        <Box marginBottom={1}>
+          <Text color={colors.accentYellow}>{"◇ "}</Text>
+          <Text color={colors.text}>No iterations recorded yet</Text>
+        </Box>
+        <Text color={colors.textSecondary}>
+          Cost, tokens and time are recorded after each agent iteration.
+        </Text>
+      </Box>
+    );
+  }
+
+  const byId = new Map(hypotheses.map((h) => [h.id, h]));
+  const rows = costByHypothesis(stats);
+  const totals = sumIterationStats(stats);
+
+  const total = rows.length;
+  const safeOffset = Math.min(offset, Math.max(0, total - 1));
+  const displayRows = rows.slice(safeOffset, safeOffset + limit);
+  const hasMore = safeOffset + limit < total;
+  const hasPrev = safeOffset > 0;
+
+  return (
+    <Box flexDirection="column" paddingX={1}>
+      <Row
+        id="ID"
+        iterations="Iter"
+        cost="Cost"
+        tokens="Tokens"
+        time="Time"
+        label="Hypothesis"
+        color={colors.textMuted}
+      />
+
+      {displayRows.map((row) => {
+        const hypothesis = row.hypothesisId
+          ? byId.get(row.hypothesisId)
+          : undefined;
+        return (
+          <Row
+            key={row.hypothesisId ?? "none"}
+            id={row.hypothesisId ?? "—"}
+            iterations={String(row.iterations)}
+            cost={formatCost(row.costUsd)}
+            tokens={formatTokens(row.tokens)}
+            time={formatDuration(row.durationMs)}
+            label={
+              row.hypothesisId
+                ? (hypothesis?.hypothesis ?? "")
+                : "No hypothesis (research, setup, verification)"
+            }
+            color={hypothesis ? statusColor[hypothesis.status] : colors.text}
+          />
+        );
+      })}
+
+      <Box marginTop={1}>
+        <Row
+          id="Total"
+          iterations={String(totals.iterations)}
+          cost={formatCost(totals.costUsd)}
+          tokens={formatTokens(totals.tokens)}
+          time={formatDuration(totals.durationMs)}
+          label=""
+          bold
+        />
+      </Box>
+
+      {(hasPrev || hasMore) && (
+        <Box marginTop={1}>
+          <Text color={colors.textMuted}>
+            Showing {safeOffset + 1}-{Math.min(safeOffset + limit, total)} of{" "}
+            {total}
+          </Text>
+          <Text color={colors.textSecondary}> (j/k to scroll)</Text>
+        </Box>
+      )}
+    </Box>
+  );
+}
@@ -0,0 +1,242 @@
+/**
+ * Experiment comparison - marked experiments side by side: differing config
+ * keys, metric deltas against the oldest one, and overlaid training curves
+ */
+
+import * as asciichart from "asciichart";
+import { Box, Text } from "ink";
+import {
+  type ExperimentComparison,
+  type MetricVerdict,
+  sharedCurveKeys,
+} from "../../infrastructure/ralph/index.ts";
+import {
+  getMetricSeries,
+  type LocalWandBRun,
+  type WandBHistoryRow,
+} from "../../infrastructure/wandb/index.ts";
+import { colors } from "../theme/colors.ts";
+import { downsample, SERIES_COLORS } from "./training-curves.tsx";
+
+interface ExperimentComparisonViewProps {
+  comparison: ExperimentComparison;
+  /** Local wandb runs keyed by run id, for training curves */
+  runs?: Map<string, LocalWandBRun>;
+  /** Where the comparison was last exported to */
+  exportPath?: string | null;
+}
+
+const LABEL_WIDTH = 20;
+const COLUMN_WIDTH = 18;
+
+const verdictColor: Record<MetricVerdict, string> = {
+  better: colors.accentGreen,
+  worse: colors.accentRed,
+  same: colors.textMuted,
+};
+
+function fit(text: string, width: number): string {
+  return text.length >= width ? `${text.slice(0, width - 2)}… ` : text;
+}
+
+function formatValue(value: number): string {
+  if (Number.isInteger(value)) return String(value);
+  const abs = Math.abs(value);
+  if (abs !== 0 && (abs < 0.001 || abs >= 1e5)) return value.toExponential(1);
+  return value.toFixed(abs < 10 ? 3 : 1);
+}
+
+function formatDelta(delta: number): string {
+  return `${delta > 0 ? "+" : ""}${formatValue(delta)}`;
+}
+
+/**
+ * The training history of each experiment, when its run is available locally
+ */
+export function comparisonHistories(
+  comparison: ExperimentComparison,
+  runs?: Map<string, LocalWandBRun>,
+): (WandBHistoryRow[] | null)[] {
+  return comparison.experiments.map((e) => {
+    const run = e.wandb_run_id ? runs?.get(e.wandb_run_id) : undefined;
+    return run && run.history.length > 0 ? run.history : null;
+  });
+}
+
+function Row({
+  label,
+  children,
+}: {
+  label: string;
+  children: React.ReactNode;
+}) {
+  return (
+    <Box>
+      <Box width={LABEL_WIDTH}>
+        <Text color={colors.textSecondary}>{fit(label, LABEL_WIDTH)}</Text>
+      </Box>
+      {children}
+    </Box>
+  );
+}
+
+/**
+ * One curve, one series per experiment that has it
+ */
+function OverlaidCurves({
+  names,
+  histories,
+}: {
+  names: string[];
+  histories: (WandBHistoryRow[] | null)[];
+}) {
+  const withHistory = histories
+    .map((history, i) => ({ history, name: names[i] ?? "" }))
+    .filter((h): h is { history: WandBHistoryRow[]; name: string } =>
+      Boolean(h.history),
+    )
+    .slice(0, SERIES_COLORS.length);
+  if (withHistory.length < 2) return null;
+
+  const key = sharedCurveKeys(withHistory.map((h) => h.history))[0];
+  if (!key) return null;
+
+  const series = withHistory.map((h) =>
+    downsample(getMetricSeries(h.history, key), 50),
+  );
+  try {
+    const chart = asciichart.plot(series, {
+      height: 6,
+      colors: series.map((_, i) => SERIES_COLORS[i]?.chart),
+      format: (x: number) => x.toFixed(3).padStart(8),
+    });
+    return (
+      <Box flexDirection="column" marginTop={1}>
+        <Text color={colors.accentPurple} bold>
+          Training curves: <Text color={colors.textMuted}>{key}</Text>
+        </Text>
+        <Text>{chart}</Text>
+        <Box gap={2} flexWrap="wrap">
+          {withHistory.map((h, i) => (
+            <Text key={h.name} color={SERIES_COLORS[i]?.legend}>
+              ━ {h.name}
+            </Text>
+          ))}
+        </Box>
+      </Box>
+    );
+  } catch {
+    return null;
+  }
+}
+
+export function ExperimentComparisonView({
+  comparison,
+  runs,
+  exportPath = null,
+}: ExperimentComparisonViewProps) {
+  const { experiments, config, metrics } = comparison;
+  const names = experiments.map((e) => e.name || e.hypothesis_id);
+
+  return (
+    <Box flexDirection="column" paddingX={1}>
+      <Box marginBottom={1}>
+        <Text color={colors.accentBlue} bold>
+          Comparing {experiments.length} experiments
+        </Text>
+        <Text color={colors.textSecondary}>
+          {" "}
+          (e export markdown, x clear marks, Esc back)
+        </Text>
+      </Box>
+      {exportPath && (
+        <Box marginBottom={1}>
+          <Text color={colors.accentGreen}>Exported to {exportPath}</Text>
+        </Box>
+      )}
+
+      <Row label="">
+        {names.map((name, i) => (
+          <Box key={`${name}-${experiments[i]?.ts}`} width={COLUMN_WIDTH}>
+            <Text color={i === 0 ? colors.accentYellow : colors.text} bold>
+              {fit(name, COLUMN_WIDTH)}
+            </Text>
+          </Box>
+        ))}
+      </Row>
+      <Row label="">
+        {experiments.map((e, i) => (
+          <Box key={`${e.hypothesis_id}-${e.ts}`} width={COLUMN_WIDTH}>
+            <Text color={colors.textMuted}>
+              {i === 0 ? "baseline" : e.hypothesis_id}
+            </Text>
+          </Box>
+        ))}
+      </Row>
+
+      <Box marginTop={1}>
+        <Text color={colors.textMuted} bold>
+          Config
+        </Text>
+      </Box>
+      {config.length === 0 ? (
+        <Text color={colors.textMuted}>Same config in every experiment.</Text>
+      ) : (
+        config.map((row) => (
+          <Row key={row.key} label={row.key}>
+            {row.values.map((value, i) => (
+              <Box key={`${row.key}-${names[i]}-${i}`} width={COLUMN_WIDTH}>
+                <Text color={value === null ? colors.textMuted : colors.text}>
+                  {fit(value ?? "—", COLUMN_WIDTH)}
+                </Text>
+              </Box>
+            ))}
+          </Row>
+        ))
+      )}
+
+      <Box marginTop={1}>
+        <Text color={colors.textMuted} bold>
+          Metrics
+        </Text>
+      </Box>
+      {metrics.length === 0 ? (
+        <Text color={colors.textMuted}>No metrics logged.</Text>
+      ) : (
+        metrics.map((row) => (
+          <Row
+            key={row.key}
+            label={`${row.key} ${row.direction === "higher" ? "↑" : "↓"}`}
+          >
+            {row.values.map((value, i) => {
+              const delta = row.deltas[i] ?? null;
+              const verdict = row.verdicts[i] ?? null;
+              return (
+                <Box key={`${row.key}-${names[i]}-${i}`} width={COLUMN_WIDTH}>
+                  {value === null ? (
+                    <Text color={colors.textMuted}>—</Text>
+                  ) : (
+                    <Text color={colors.text}>
+                      {formatValue(value)}
+                      {delta !== null && verdict && (
+                        <Text color={verdictColor[verdict]}>
+                          {" "}
+                          {formatDelta(delta)}
+                        </Text>
+                      )}
+                    </Text>
+                  )}
+                </Box>
+              );
+            })}
+          </Row>
+        ))
+      )}
+
+      <OverlaidCurves
+        names={names}
+        histories={comparisonHistories(comparison, runs)}
+      />
+    </Box>
+  );
+}
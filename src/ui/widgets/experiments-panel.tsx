@@ -4,15 +4,41 @@
 
 import * as asciichart from "asciichart";
 import { Box, Text } from "ink";
-import type { ExperimentEvent } from "../../infrastructure/ralph/index.ts";
+import {
+  compareExperiments,
+  type ExperimentEvent,
+  experimentKey,
+} from "../../infrastructure/ralph/index.ts";
+import type { LocalWandBRun } from "../../infrastructure/wandb/index.ts";
 import { colors } from "../theme/colors.ts";
+import { ExperimentComparisonView } from "./experiment-comparison.tsx";
+import { TrainingCurves } from "./training-curves.tsx";
 
 interface ExperimentsPanelProps {
   experiments: ExperimentEvent[];
   selectedIndex: number;
   expandedId: string | null;
+  /** Local wandb runs keyed by run id, for training curves */
+  runs?: Map<string, LocalWandBRun>;
   offset?: number;
   limit?: number;
+  /** experimentKey()s of the experiments marked for comparison */
+  markedKeys?: string[];
+  /** Show the comparison of the marked experiments instead of the list */
+  showComparison?: boolean;
+  /** Where the comparison was last exported to */
+  exportPath?: string | null;
+}
+
+/**
+ * Newest first, the order the panel lists experiments in
+ */
+export function sortExperiments(
+  experiments: ExperimentEvent[]
+): ExperimentEvent[] {
+  return [...experiments].sort(
+    (a, b) => new Date(b.ts).getTime() - new Date(a.ts).getTime()
+  );
 }
 
 /**
@@ -35,7 +61,6 @@ function formatRelativeTime(dateStr: string): string {
 
 /**
  * Generate a sparkline from an array of numbers
- * TODO: Use this for training loss curves when we have time-series data
  */
 export function sparkline(data: number[]): string {
   if (data.length === 0) return "";
@@ -131,11 +156,15 @@ function getKeyMetric(metrics: Record<string, number>): { key: string; value: nu
 function ExperimentRow({
   experiment,
   isSelected,
-  isExpanded
+  isExpanded,
+  isMarked,
+  hasCurves
 }: {
   experiment: ExperimentEvent;
   isSelected: boolean;
   isExpanded: boolean;
+  isMarked: boolean;
+  hasCurves: boolean;
 }) {
   const timeAgo = formatRelativeTime(experiment.ts);
   const metrics = experiment.metrics ?? {};
@@ -150,6 +179,7 @@ function ExperimentRow({
   return (
     <Box>
       <Text color={isSelected ? colors.accentBlue : colors.textMuted}>{arrow} </Text>
+      <Text color={colors.accentYellow}>{isMarked ? "● " : "  "}</Text>
       <Box width={24}>
         <Text color={isSelected ? colors.accentBlue : colors.text} bold={isSelected}>
           {displayName.slice(0, 22)}
@@ -168,6 +198,7 @@ function ExperimentRow({
       {metricCount > 1 && (
         <Text color={colors.textMuted}> +{metricCount - 1}</Text>
       )}
+      {hasCurves && <Text color={colors.accentYellow}> ∿</Text>}
       <Text color={colors.textMuted}> │ </Text>
       <Text color={colors.textSecondary}>{timeAgo}</Text>
     </Box>
@@ -228,7 +259,13 @@ function PerformanceChart({ metrics }: { metrics: [string, number][] }) {
 /**
  * Expanded experiment details
  */
-function ExperimentDetails({ experiment }: { experiment: ExperimentEvent }) {
+function ExperimentDetails({
+  experiment,
+  run
+}: {
+  experiment: ExperimentEvent;
+  run?: LocalWandBRun;
+}) {
   const metricsObj = experiment.metrics ?? {};
   const metrics = Object.entries(metricsObj);
   const extExp = experiment as ExperimentEvent & { name?: string; config?: Record<string, unknown> };
@@ -267,6 +304,17 @@ function ExperimentDetails({ experiment }: { experiment: ExperimentEvent }) {
         </Box>
       )}
 
+      {/* Training curves from local wandb history */}
+      {run && run.history.length > 0 && (
+        <>
+          <Box marginBottom={1}>
+            <Text color={colors.accentPurple} bold>Training Curves:</Text>
+            <Text color={colors.textMuted}> ({run.mode} run {run.id})</Text>
+          </Box>
+          <TrainingCurves history={run.history} />
+        </>
+      )}
+
       {/* Performance chart */}
       {normalizedMetrics.length >= 2 && (
         <>
@@ -349,8 +397,12 @@ export function ExperimentsPanel({
   experiments,
   selectedIndex,
   expandedId,
+  runs,
   offset = 0,
-  limit = 5
+  limit = 5,
+  markedKeys = [],
+  showComparison = false,
+  exportPath = null
 }: ExperimentsPanelProps) {
   if (experiments.length === 0) {
     return (
@@ -371,10 +423,18 @@ export function ExperimentsPanel({
     );
   }
 
-  // Sort by timestamp descending (newest first)
-  const sortedExperiments = [...experiments].sort(
-    (a, b) => new Date(b.ts).getTime() - new Date(a.ts).getTime()
-  );
+  const marked = experiments.filter((e) => markedKeys.includes(experimentKey(e)));
+  if (showComparison && marked.length >= 2) {
+    return (
+      <ExperimentComparisonView
+        comparison={compareExperiments(marked)}
+        runs={runs}
+        exportPath={exportPath}
+      />
+    );
+  }
+
+  const sortedExperiments = sortExperiments(experiments);
 
   const total = sortedExperiments.length;
 
@@ -401,7 +461,10 @@ export function ExperimentsPanel({
         <Text color={colors.textMuted}>
           {total} experiment{total !== 1 ? "s" : ""}
         </Text>
-        <Text color={colors.textSecondary}> (j/k navigate, Enter expand)</Text>
+        <Text color={colors.textSecondary}> (j/k navigate, Enter expand, m mark, c compare)</Text>
+        {marked.length > 0 && (
+          <Text color={colors.accentYellow}> · {marked.length} marked</Text>
+        )}
       </Box>
 
       {/* Pagination info */}
@@ -418,6 +481,7 @@ export function ExperimentsPanel({
         const globalIndex = safeOffset + index;
         const isSelected = globalIndex === selectedIndex;
         const isExpanded = expandedId === String(globalIndex);
+        const run = exp.wandb_run_id ? runs?.get(exp.wandb_run_id) : undefined;
 
         return (
           <Box key={`${exp.hypothesis_id}-${exp.ts}-${index}`} flexDirection="column">
@@ -425,8 +489,10 @@ export function ExperimentsPanel({
               experiment={exp}
               isSelected={isSelected}
               isExpanded={isExpanded}
+              isMarked={markedKeys.includes(experimentKey(exp))}
+              hasCurves={(run?.history.length ?? 0) > 0}
             />
-            {isExpanded && <ExperimentDetails experiment={exp} />}
+            {isExpanded && <ExperimentDetails experiment={exp} run={run} />}
           </Box>
         );
       })}
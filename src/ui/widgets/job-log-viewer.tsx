@@ -0,0 +1,298 @@
+/**
+ * Job log viewer - follows a training job's log like `tail -f`, with search
+ * and jumps between errors. Handles its own keys while open.
+ */
+
+import { Box, Text, useInput } from "ink";
+import { type ReactNode, useMemo, useState } from "react";
+import type { TrainingJob } from "../../domain/types/index.ts";
+import {
+  classifyLogLines,
+  errorStarts,
+  type LogLineKind,
+  type LogTail,
+  searchLogLines,
+  stripAnsi,
+} from "../../infrastructure/process/index.ts";
+import { colors } from "../theme/colors.ts";
+
+interface JobLogViewerProps {
+  job: TrainingJob;
+  /** End of the job's log from useJobLog */
+  tail: LogTail | null;
+  /** Whether the viewer has input focus */
+  active: boolean;
+  /** Called when Esc closes the viewer */
+  onClose: () => void;
+  /** Log lines shown at once */
+  height?: number;
+}
+
+const gutterColor: Record<LogLineKind, string> = {
+  traceback: colors.accentRed,
+  error: colors.accentRed,
+  warning: colors.accentYellow,
+  plain: colors.textMuted,
+};
+
+/**
+ * Split text around case-insensitive occurrences of the query
+ */
+function highlightSegments(
+  text: string,
+  query: string,
+): { text: string; match: boolean }[] {
+  const segments: { text: string; match: boolean }[] = [];
+  const lower = text.toLowerCase();
+  const needle = query.toLowerCase();
+  let start = 0;
+  for (
+    let found = lower.indexOf(needle);
+    found !== -1;
+    found = lower.indexOf(needle, start)
+  ) {
+    if (found > start) {
+      segments.push({ text: text.slice(start, found), match: false });
+    }
+    segments.push({
+      text: text.slice(found, found + needle.length),
+      match: true,
+    });
+    start = found + needle.length;
+  }
+  if (start < text.length) {
+    segments.push({ text: text.slice(start), match: false });
+  }
+  return segments;
+}
+
+function LogLine({
+  line,
+  kind,
+  query,
+  isFocus,
+}: {
+  line: string;
+  kind: LogLineKind;
+  query: string;
+  isFocus: boolean;
+}) {
+  const expanded = line.replace(/\t/g, "    ");
+  const plain = stripAnsi(expanded);
+  const isMatch =
+    query !== "" && plain.toLowerCase().includes(query.toLowerCase());
+
+  let content: ReactNode;
+  if (isMatch) {
+    content = highlightSegments(plain, query).map((segment, i) =>
+      segment.match ? (
+        <Text
+          // Segments have no identity beyond their position
+          key={`${i}:${segment.text}`}
+          backgroundColor={colors.accentYellow}
+          color={colors.bgPrimary}
+        >
+          {segment.text}
+        </Text>
+      ) : (
+        <Text key={`${i}:${segment.text}`}>{segment.text}</Text>
+      ),
+    );
+  } else if (kind === "traceback" || kind === "error") {
+    content = (
+      <Text color={colors.accentRed} bold={kind === "error"}>
+        {plain}
+      </Text>
+    );
+  } else {
+    // The log's own colors are kept
+    content = expanded || " ";
+  }
+
+  const marked = kind !== "plain";
+  return (
+    <Text wrap="truncate-end">
+      <Text color={isFocus ? colors.accentBlue : gutterColor[kind]}>
+        {isFocus ? "▸ " : marked ? "┃ " : "  "}
+      </Text>
+      {content}
+    </Text>
+  );
+}
+
+export function JobLogViewer({
+  job,
+  tail,
+  active,
+  onClose,
+  height = 20,
+}: JobLogViewerProps) {
+  // Top line shown, or null to follow the end of the log
+  const [top, setTop] = useState<number | null>(null);
+  // Line the last jump landed on
+  const [focus, setFocus] = useState<number | null>(null);
+  const [query, setQuery] = useState("");
+  const [searching, setSearching] = useState(false);
+  const [draft, setDraft] = useState("");
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const lines = tail?.lines ?? [];
+  const kinds = useMemo(() => classifyLogLines(lines), [lines]);
+  const errors = useMemo(() => errorStarts(kinds), [kinds]);
+  const matches = useMemo(() => searchLogLines(lines, query), [lines, query]);
+
+  const maxTop = Math.max(0, lines.length - height);
+  const viewTop = top === null ? maxTop : Math.min(top, maxTop);
+
+  const scrollBy = (delta: number) => {
+    const next = viewTop + delta;
+    // Scrolling back to the end resumes following
+    setTop(delta > 0 && next >= maxTop ? null : Math.max(0, next));
+  };
+
+  /**
+   * Jump to the next (or previous) target from the last jump or the top of
+   * the view. While following, both go to the latest one.
+   */
+  const jump = (targets: number[], direction: 1 | -1, label: string) => {
+    if (targets.length === 0) {
+      setNotice(`No ${label}s`);
+      return;
+    }
+    const from = focus ?? viewTop;
+    let index: number;
+    if (top === null) {
+      index = targets.length - 1;
+    } else if (direction === 1) {
+      index = targets.findIndex((line) => line > from);
+      if (index === -1) index = 0;
+    } else {
+      index = targets.findLastIndex((line) => line < from);
+      if (index === -1) index = targets.length - 1;
+    }
+    const line = targets[index]!;
+    setFocus(line);
+    setTop(Math.max(0, line - 2));
+    setNotice(`${label} ${index + 1}/${targets.length}`);
+  };
+
+  useInput(
+    (input, key) => {
+      if (searching) {
+        if (key.escape) {
+          setSearching(false);
+          setDraft("");
+        } else if (key.return) {
+          setSearching(false);
+          setQuery(draft);
+          if (draft) jump(searchLogLines(lines, draft), 1, "match");
+          else setNotice(null);
+        } else if (key.backspace || key.delete) {
+          setDraft((prev) => prev.slice(0, -1));
+        } else if (input && !key.ctrl && !key.meta) {
+          setDraft((prev) => prev + input);
+        }
+        return;
+      }
+
+      // Esc clears the search first, then closes
+      if (key.escape) {
+        if (query || focus !== null || notice) {
+          setQuery("");
+          setFocus(null);
+          setNotice(null);
+        } else {
+          onClose();
+        }
+        return;
+      }
+      if (input === "j" || key.downArrow) scrollBy(1);
+      if (input === "k" || key.upArrow) scrollBy(-1);
+      if (input === "d" || key.pageDown) scrollBy(Math.ceil(height / 2));
+      if (input === "u" || key.pageUp) scrollBy(-Math.ceil(height / 2));
+      if (input === "g") setTop(0);
+      if (input === "G" || input === "f") {
+        setTop(null);
+        setFocus(null);
+      }
+      if (input === "/") {
+        setSearching(true);
+        setDraft("");
+      }
+      if (input === "n" || input === "N") {
+        if (query) jump(matches, input === "n" ? 1 : -1, "match");
+        else setNotice("Press / to search");
+      }
+      if (input === "e" || input === "E") {
+        jump(errors, input === "e" ? 1 : -1, "error");
+      }
+    },
+    { isActive: active },
+  );
+
+  const visible = lines.slice(viewTop, viewTop + height);
+
+  return (
+    <Box flexDirection="column" paddingX={1}>
+      <Box justifyContent="space-between">
+        <Text color={colors.text} wrap="truncate-end">
+          {job.experimentId ? `${job.experimentId}: ` : ""}
+          {job.command}
+        </Text>
+        <Text color={top === null ? colors.accentGreen : colors.textMuted}>
+          {top === null
+            ? " following"
+            : ` lines ${viewTop + 1}-${viewTop + visible.length} of ${lines.length}`}
+        </Text>
+      </Box>
+      <Box marginBottom={1}>
+        <Text color={colors.textMuted} wrap="truncate-end">
+          {job.logPath || "no log file"}
+          {tail?.truncated ? " (most recent output)" : ""}
+        </Text>
+        {errors.length > 0 && (
+          <Text color={colors.accentRed}>
+            {" · "}
+            {errors.length} error{errors.length === 1 ? "" : "s"}
+          </Text>
+        )}
+      </Box>
+
+      {!job.logPath ? (
+        <Text color={colors.textMuted}>
+          This job has no log file. Redirect its output to a file or start it
+          with `ml-ralph job start` to follow it here.
+        </Text>
+      ) : !tail ? (
+        <Text color={colors.textMuted}>Waiting for the log...</Text>
+      ) : (
+        visible.map((line, i) => (
+          <LogLine
+            // Lines are identified by their position in the log
+            key={`${viewTop + i}:${line}`}
+            line={line}
+            kind={kinds[viewTop + i] ?? "plain"}
+            query={query}
+            isFocus={viewTop + i === focus}
+          />
+        ))
+      )}
+
+      <Box marginTop={1}>
+        {searching ? (
+          <Text color={colors.text}>
+            /{draft}
+            <Text color={colors.accentBlue}>█</Text>
+          </Text>
+        ) : (
+          <Text color={colors.textSecondary} wrap="truncate-end">
+            {notice ? (
+              <Text color={colors.accentYellow}>{notice} · </Text>
+            ) : null}
+            j/k scroll · G follow · / search · n/N match · e/E error · Esc back
+          </Text>
+        )}
+      </Box>
+    </Box>
+  );
+}
@@ -0,0 +1,295 @@
+/**
+ * Jobs panel - queued and running training jobs and past runs from
+ * .ml-ralph/runs/
+ */
+
+import { Box, Text } from "ink";
+import type {
+  JobHealthIssue,
+  JobStatus,
+  QueuedJob,
+  TrainingJob,
+} from "../../domain/types/index.ts";
+import { colors } from "../theme/colors.ts";
+
+interface JobsPanelProps {
+  queue: QueuedJob[];
+  activeJobs: TrainingJob[];
+  history: TrainingJob[];
+  selectedIndex: number;
+  /** Jobs listed at once */
+  limit?: number;
+}
+
+const statusIcon: Record<JobStatus, string> = {
+  running: "◐",
+  completed: "✓",
+  stopped: "◼",
+  failed: "✗",
+};
+
+const statusColor: Record<JobStatus, string> = {
+  running: colors.accentGreen,
+  completed: colors.accentBlue,
+  stopped: colors.accentYellow,
+  failed: colors.accentRed,
+};
+
+/**
+ * Format a job's run time as "45s", "12m 3s" or "2h 5m"
+ */
+export function formatJobDuration(startedAt: string, endedAt?: string): string {
+  const ms = Math.max(
+    0,
+    (endedAt ? Date.parse(endedAt) : Date.now()) - Date.parse(startedAt),
+  );
+  const seconds = Math.floor(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m ${seconds % 60}s`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
+
+/**
+ * Running jobs first, then past runs newest first, the order the panel
+ * lists them in
+ */
+export function sortJobs(
+  activeJobs: TrainingJob[],
+  history: TrainingJob[],
+): TrainingJob[] {
+  return [...activeJobs, ...[...history].reverse()];
+}
+
+/** A row of the panel */
+export type JobListItem =
+  | { kind: "queued"; job: QueuedJob; position: number }
+  | { kind: "job"; job: TrainingJob };
+
+/**
+ * Queued jobs in start order, then sortJobs
+ */
+export function listJobs(
+  queue: QueuedJob[],
+  activeJobs: TrainingJob[],
+  history: TrainingJob[],
+): JobListItem[] {
+  return [
+    ...queue.map((job, i) => ({
+      kind: "queued" as const,
+      job,
+      position: i + 1,
+    })),
+    ...sortJobs(activeJobs, history).map((job) => ({
+      kind: "job" as const,
+      job,
+    })),
+  ];
+}
+
+/**
+ * The row the selection index points at, clamped to what exists
+ */
+export function selectedJob(
+  queue: QueuedJob[],
+  activeJobs: TrainingJob[],
+  history: TrainingJob[],
+  index: number,
+): JobListItem | null {
+  const items = listJobs(queue, activeJobs, history);
+  return items[Math.min(index, items.length - 1)] ?? null;
+}
+
+/**
+ * A job by id, running or past (null if it's gone)
+ */
+export function findJob(
+  activeJobs: TrainingJob[],
+  history: TrainingJob[],
+  id: string | null,
+): TrainingJob | null {
+  if (!id) return null;
+  return (
+    activeJobs.find((j) => j.id === id) ??
+    history.findLast((j) => j.id === id) ??
+    null
+  );
+}
+
+/**
+ * Health issues flagged after `since` (an ISO timestamp), newest first
+ */
+export function healthAlertsSince(
+  jobs: TrainingJob[],
+  since: string,
+): { job: TrainingJob; issue: JobHealthIssue }[] {
+  return jobs
+    .flatMap((job) =>
+      (job.healthIssues ?? [])
+        .filter((issue) => issue.detectedAt > since)
+        .map((issue) => ({ job, issue })),
+    )
+    .sort((a, b) => b.issue.detectedAt.localeCompare(a.issue.detectedAt));
+}
+
+function JobRow({
+  job,
+  isSelected,
+}: {
+  job: TrainingJob;
+  isSelected: boolean;
+}) {
+  const ended = job.status !== "running";
+  const issues = job.healthIssues ?? [];
+  // A stopped job's error already names the issue that stopped it
+  const shownIssues = ended && job.error ? [] : issues;
+  return (
+    <Box
+      flexDirection="column"
+      marginBottom={(ended && job.error) || shownIssues.length > 0 ? 1 : 0}
+    >
+      <Text wrap="truncate-end">
+        <Text color={colors.accentBlue}>{isSelected ? "▸" : " "}</Text>
+        <Text color={statusColor[job.status]}>{statusIcon[job.status]} </Text>
+        <Text color={colors.text}>
+          {formatJobDuration(job.startedAt, job.completedAt).padStart(7)}
+        </Text>
+        <Text color={colors.textMuted}>
+          {"  "}
+          {job.startedAt.slice(5, 16).replace("T", " ")}
+          {job.storyId ? ` ${job.storyId}` : ""}
+          {"  "}
+        </Text>
+        <Text color={colors.textSecondary}>
+          {job.experimentId ? `${job.experimentId}: ` : ""}
+          {job.command}
+        </Text>
+      </Text>
+      {ended && job.error && (
+        <Text color={colors.accentRed} wrap="truncate-end">
+          {"           "}
+          {job.error}
+        </Text>
+      )}
+      {shownIssues.map((issue) => (
+        <Text
+          key={`${issue.kind}:${issue.metric}`}
+          color={issue.critical ? colors.accentRed : colors.accentYellow}
+          wrap="truncate-end"
+        >
+          {"           ⚠ "}
+          {issue.message}
+        </Text>
+      ))}
+    </Box>
+  );
+}
+
+function QueuedJobRow({
+  job,
+  position,
+  isSelected,
+}: {
+  job: QueuedJob;
+  position: number;
+  isSelected: boolean;
+}) {
+  return (
+    <Text wrap="truncate-end">
+      <Text color={colors.accentBlue}>{isSelected ? "▸" : " "}</Text>
+      <Text color={colors.textMuted}>○ </Text>
+      <Text color={colors.text}>{`#${position}`.padStart(7)}</Text>
+      <Text color={colors.textMuted}>
+        {"  "}
+        {job.cpus} cpu{job.memoryGb > 0 ? ` ${job.memoryGb} GB` : ""}
+        {job.priority !== 0 ? ` prio ${job.priority}` : ""}
+        {job.storyId ? ` ${job.storyId}` : ""}
+        {"  "}
+      </Text>
+      <Text color={colors.textSecondary}>
+        {job.experimentId ? `${job.experimentId}: ` : ""}
+        {job.command.join(" ")}
+      </Text>
+    </Text>
+  );
+}
+
+export function JobsPanel({
+  queue,
+  activeJobs,
+  history,
+  selectedIndex,
+  limit = 10,
+}: JobsPanelProps) {
+  if (queue.length === 0 && activeJobs.length === 0 && history.length === 0) {
+    return (
+      <Box flexDirection="column" padding={2}>
+        <Box marginBottom={1}>
+          <Text color={colors.accentYellow}>{"◇ "}</Text>
+          <Text color={colors.text}>No training jobs yet</Text>
+        </Box>
+        <Text color={colors.textSecondary}>
+          Runs started with `ml-ralph job start` or queued with `ml-ralph job
+          submit`, or backgrounded by the agent, show up here.
+        </Text>
+      </Box>
+    );
+  }
+
+  const items = listJobs(queue, activeJobs, history);
+  const failed = history.filter((j) => j.status === "failed").length;
+
+  const total = items.length;
+  const index = Math.min(selectedIndex, total - 1);
+  // Keep the selected job in view
+  const listOffset = Math.max(0, Math.min(index - limit + 1, total - limit));
+  const displayItems = items.slice(listOffset, listOffset + limit);
+
+  return (
+    <Box flexDirection="column" paddingX={1}>
+      <Box marginBottom={1}>
+        {queue.length > 0 && (
+          <Text color={colors.textSecondary}>{queue.length} queued · </Text>
+        )}
+        <Text color={colors.accentGreen}>{activeJobs.length} running</Text>
+        <Text color={colors.textMuted}>
+          {" · "}
+          {history.length} finished
+          {failed > 0 ? " · " : ""}
+        </Text>
+        {failed > 0 && <Text color={colors.accentRed}>{failed} failed</Text>}
+        <Text color={colors.textSecondary}>
+          {items[index]?.kind === "queued"
+            ? " (j/k select, J/K move, x cancel)"
+            : " (j/k select, Enter view log)"}
+        </Text>
+      </Box>
+
+      {displayItems.map((item, i) =>
+        item.kind === "queued" ? (
+          <QueuedJobRow
+            key={`queued:${item.job.id}`}
+            job={item.job}
+            position={item.position}
+            isSelected={listOffset + i === index}
+          />
+        ) : (
+          <JobRow
+            key={item.job.id}
+            job={item.job}
+            isSelected={listOffset + i === index}
+          />
+        ),
+      )}
+
+      {total > limit && (
+        <Box marginTop={1}>
+          <Text color={colors.textMuted}>
+            Showing {listOffset + 1}-{listOffset + displayItems.length} of{" "}
+            {total}
+          </Text>
+        </Box>
+      )}
+    </Box>
+  );
+}
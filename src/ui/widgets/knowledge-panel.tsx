@@ -1,19 +1,32 @@
 /**
- * Knowledge panel - shared tabs for PRD, Hypotheses, Learnings, Research, Kanban, Experiments
+ * Knowledge panel - shared tabs for PRD, Hypotheses, Learnings, Research, Kanban, Experiments, Verification, Reasoning, Costs, Changes, Jobs
  * Used by both Planning and Monitor screens
  */
 
 import { Box, Text } from "ink";
 import { useAppStore } from "../../application/state/index.ts";
-import { useRalphState } from "../hooks/index.ts";
+import {
+  useIterationSnapshots,
+  useIterationStats,
+  useJobLog,
+  useRalphState,
+  useSnapshotDiff,
+  useWandbRuns,
+} from "../hooks/index.ts";
 import { colors } from "../theme/colors.ts";
+import { ChangesPanel, selectedChange } from "./changes-panel.tsx";
+import { CostsPanel } from "./costs-panel.tsx";
 import { ExperimentsPanel } from "./experiments-panel.tsx";
 import { HypothesesPanel } from "./hypotheses-panel.tsx";
+import { JobLogViewer } from "./job-log-viewer.tsx";
+import { findJob, JobsPanel } from "./jobs-panel.tsx";
 import { KanbanPanel } from "./kanban-panel.tsx";
 import { LearningsPanel } from "./learnings-panel.tsx";
 import { PrdPanel } from "./prd-panel.tsx";
+import { ReasoningPanel } from "./reasoning-panel.tsx";
 import { ResearchPanel } from "./research-panel.tsx";
 import { PlanningTabs } from "./tabs.tsx";
+import { VerificationPanel } from "./verification-panel.tsx";
 
 const ITEMS_PER_PAGE = 5;
 
@@ -30,6 +43,17 @@ export function KnowledgePanel() {
     abandonedOffset,
     selectedExperimentIndex,
     expandedExperimentId,
+    markedExperimentKeys,
+    comparisonOpen,
+    comparisonExportPath,
+    selectedChangeIndex,
+    selectedChangeFileIndex,
+    activeJobs,
+    jobHistory,
+    jobQueue,
+    selectedJobIndex,
+    openJobLogId,
+    setOpenJobLogId,
   } = useAppStore();
 
   // Read Ralph state from .ml-ralph files
@@ -38,10 +62,44 @@ export function KnowledgePanel() {
     pollInterval: 2000,
   });
 
+  // Local wandb runs referenced by experiments (for training curves)
+  const { runs: wandbRuns } = useWandbRuns({
+    projectPath: projectPath || process.cwd(),
+    runIds: (log?.experiments ?? []).flatMap((e) =>
+      e.wandb_run_id ? [e.wandb_run_id] : []
+    ),
+  });
+
+  // Per-iteration spend for the Costs tab
+  const { stats: iterationStats } = useIterationStats({
+    projectPath: projectPath || process.cwd(),
+  });
+
+  // Per-iteration git snapshots for the Changes tab
+  const { snapshots } = useIterationSnapshots({
+    projectPath: projectPath || process.cwd(),
+  });
+  const change = selectedChange(
+    snapshots,
+    selectedChangeIndex,
+    selectedChangeFileIndex
+  );
+  const diff = useSnapshotDiff(
+    projectPath || process.cwd(),
+    selectedTab === "changes" ? (change?.snapshot ?? null) : null,
+    change?.file?.path ?? null
+  );
+
+  // Log of the job opened from the Jobs tab, followed while it's shown. It
+  // stays on that job when the job ends and moves into history.
+  const logJob =
+    selectedTab === "jobs" ? findJob(activeJobs, jobHistory, openJobLogId) : null;
+  const { tail: jobLog } = useJobLog({ logPath: logJob?.logPath || null });
+
   // Map old tab names to new ones for backward compatibility
   const activeTab = selectedTab === "stories"
     ? "hypotheses"
-    : (selectedTab as "prd" | "hypotheses" | "learnings" | "research" | "kanban" | "experiments");
+    : (selectedTab as "prd" | "hypotheses" | "learnings" | "research" | "kanban" | "experiments" | "verification" | "reasoning" | "costs" | "changes" | "jobs");
 
   return (
     <Box flexDirection="column" flexGrow={1}>
@@ -64,6 +122,18 @@ export function KnowledgePanel() {
         </Box>
       )}
 
+      {/* Malformed events warning */}
+      {log && log.malformed.length > 0 && (
+        <Box paddingX={1}>
+          <Text backgroundColor={colors.accentYellow} color={colors.bgPrimary}>
+            {" "}⚠ {log.malformed.length} malformed event{log.malformed.length === 1 ? "" : "s"}{" "}
+          </Text>
+          <Text color={colors.textMuted}>
+            {" "}last at line {log.malformed[log.malformed.length - 1]?.line} · run ml-ralph lint-log
+          </Text>
+        </Box>
+      )}
+
       {/* Knowledge panel */}
       <Box
         flexDirection="column"
@@ -89,7 +159,9 @@ export function KnowledgePanel() {
             </Box>
           ) : (
             <>
-              {activeTab === "prd" && <PrdPanel prd={prd} />}
+              {activeTab === "prd" && (
+                <PrdPanel prd={prd} experiments={log?.experiments ?? []} />
+              )}
               {activeTab === "hypotheses" && (
                 <HypothesesPanel
                   hypotheses={log?.hypotheses ?? []}
@@ -129,10 +201,71 @@ export function KnowledgePanel() {
                   experiments={log?.experiments ?? []}
                   selectedIndex={selectedExperimentIndex}
                   expandedId={expandedExperimentId}
+                  markedKeys={markedExperimentKeys}
+                  showComparison={comparisonOpen}
+                  exportPath={comparisonExportPath}
+                  runs={wandbRuns}
+                  offset={scrollOffset}
+                  limit={ITEMS_PER_PAGE}
+                />
+              )}
+              {activeTab === "verification" && (
+                <VerificationPanel
+                  datasets={log?.dataVerifications ?? []}
+                  results={log?.resultVerifications ?? []}
+                  success={log?.successVerification ?? null}
+                  projectComplete={log?.latestStatus === "complete" || prd?.status === "complete"}
+                  offset={scrollOffset}
+                  limit={ITEMS_PER_PAGE}
+                />
+              )}
+              {activeTab === "reasoning" && (
+                <ReasoningPanel
+                  mentalModels={log?.mentalModels ?? []}
+                  pathAnalyses={log?.pathAnalyses ?? []}
+                  thinking={log?.thinking ?? []}
+                  retreats={log?.strategicRetreats ?? []}
+                  offset={scrollOffset}
+                  limit={ITEMS_PER_PAGE}
+                />
+              )}
+              {activeTab === "costs" && (
+                <CostsPanel
+                  stats={iterationStats}
+                  hypotheses={log?.hypotheses ?? []}
+                  offset={scrollOffset}
+                  limit={ITEMS_PER_PAGE * 2}
+                />
+              )}
+              {activeTab === "changes" && (
+                <ChangesPanel
+                  snapshots={snapshots}
+                  selectedIndex={selectedChangeIndex}
+                  selectedFileIndex={selectedChangeFileIndex}
+                  diff={diff}
                   offset={scrollOffset}
                   limit={ITEMS_PER_PAGE}
                 />
               )}
+              {activeTab === "jobs" &&
+                (logJob ? (
+                  <JobLogViewer
+                    key={logJob.id}
+                    job={logJob}
+                    tail={jobLog}
+                    active
+                    onClose={() => setOpenJobLogId(null)}
+                    height={ITEMS_PER_PAGE * 4}
+                  />
+                ) : (
+                  <JobsPanel
+                    queue={jobQueue}
+                    activeJobs={activeJobs}
+                    history={jobHistory}
+                    selectedIndex={selectedJobIndex}
+                    limit={ITEMS_PER_PAGE * 2}
+                  />
+                ))}
             </>
           )}
         </Box>
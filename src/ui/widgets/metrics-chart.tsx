@@ -4,17 +4,28 @@
 
 import { Box, Text } from "ink";
 import type { TrainingJob } from "../../domain/types/index.ts";
+import {
+  getCurveKeys,
+  getMetricSeries,
+  type LocalWandBRun,
+} from "../../infrastructure/wandb/index.ts";
 import { colors } from "../theme/colors.ts";
+import { TrainingCurves } from "./training-curves.tsx";
 
 interface MetricsChartProps {
   job: TrainingJob;
+  /** Local wandb run matching job.wandbRunId, if one exists on disk */
+  run?: LocalWandBRun | null;
   onStop?: () => void;
 }
 
-export function MetricsChart({ job }: MetricsChartProps) {
+export function MetricsChart({ job, run }: MetricsChartProps) {
   const statusColor = getStatusColor(job.status);
   const statusIcon = getStatusIcon(job.status);
-  const metrics = job.latestMetrics ?? {};
+  const history = run?.history ?? [];
+  const metrics = { ...getLatestMetrics(run), ...job.latestMetrics };
+  const lossKey = getCurveKeys(history)[0];
+  const lossHistory = lossKey ? getMetricSeries(history, lossKey) : [];
 
   // Calculate runtime
   const runtime = getRuntime(job.startedAt, job.completedAt);
@@ -31,8 +42,8 @@ export function MetricsChart({ job }: MetricsChartProps) {
       <Box justifyContent="space-between">
         <Box gap={1}>
           <Text color={statusColor}>{statusIcon}</Text>
-          <Text color={colors.accentBlue} bold>
-            {job.experimentId}
+          <Text color={colors.accentBlue} bold wrap="truncate-end">
+            {job.experimentId || job.command}
           </Text>
         </Box>
         <Text color={colors.textMuted}>{runtime}</Text>
@@ -57,10 +68,17 @@ export function MetricsChart({ job }: MetricsChartProps) {
           </Box>
 
           {/* Mini sparkline for loss if history available */}
-          {typeof metrics.loss === "number" && (
+          {lossHistory.length > 1 && (
             <Box marginTop={1}>
-              <Text color={colors.textMuted}>loss: </Text>
-              <Sparkline values={generateMockHistory(metrics.loss)} />
+              <Text color={colors.textMuted}>{lossKey}: </Text>
+              <Sparkline values={lossHistory} />
+            </Box>
+          )}
+
+          {/* Full training curves from local wandb history */}
+          {history.length > 0 && (
+            <Box marginTop={1}>
+              <TrainingCurves history={history} height={5} width={40} />
             </Box>
           )}
         </Box>
@@ -222,16 +240,23 @@ function truncateUrl(url: string): string {
   return `...${url.slice(-37)}`;
 }
 
-// Generate mock history for sparkline demo (will be replaced with actual W&B data)
-function generateMockHistory(current: number): number[] {
-  const history: number[] = [];
-  let val = current * 3; // Start higher
-  for (let i = 0; i < 15; i++) {
-    history.push(val);
-    val = val * 0.9 + current * 0.1 + (Math.random() - 0.5) * 0.1;
+// Latest numeric value of every key logged to the run's history
+function getLatestMetrics(
+  run?: LocalWandBRun | null,
+): TrainingJob["latestMetrics"] {
+  const latest: Record<string, number> = {};
+  for (const row of run?.history ?? []) {
+    for (const [key, value] of Object.entries(row)) {
+      if (
+        !key.startsWith("_") &&
+        typeof value === "number" &&
+        Number.isFinite(value)
+      ) {
+        latest[key] = value;
+      }
+    }
   }
-  history.push(current);
-  return history;
+  return latest;
 }
 
 /**
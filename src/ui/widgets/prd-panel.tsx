@@ -3,11 +3,72 @@
  */
 
 import { Box, Text } from "ink";
-import type { PRD } from "../../infrastructure/ralph/index.ts";
+import {
+  type CriterionProgress,
+  type ExperimentEvent,
+  evaluateCriteria,
+  type PRD,
+} from "../../infrastructure/ralph/index.ts";
 import { colors } from "../theme/colors.ts";
 
 interface PrdPanelProps {
   prd: PRD | null;
+  /** Logged experiments, to track the success criteria against */
+  experiments?: ExperimentEvent[];
+}
+
+const GAUGE_WIDTH = 12;
+
+function formatMetric(value: number): string {
+  return String(Number(value.toPrecision(4)));
+}
+
+/**
+ * One success criterion: met/unmet icon, a gauge of how close the best
+ * experiment so far is, and which experiment that is
+ */
+function CriterionRow({ progress }: { progress: CriterionProgress }) {
+  const { status, best, priority } = progress;
+  const color =
+    status === "met"
+      ? colors.accentGreen
+      : status === "unknown"
+        ? colors.textMuted
+        : priority === "must"
+          ? colors.accentRed
+          : colors.accentYellow;
+  const icon = status === "met" ? "✓" : status === "unknown" ? "?" : "○";
+  const filled = Math.round((progress.progress ?? 0) * GAUGE_WIDTH);
+
+  return (
+    <Box flexDirection="column">
+      <Box>
+        <Text color={color}>{icon} </Text>
+        <Text color={colors.text}>{progress.label}</Text>
+        {priority === "should" && <Text color={colors.textMuted}> (should)</Text>}
+      </Box>
+      {status === "unknown" ? (
+        <Text color={colors.textMuted}>
+          {"  "}
+          {progress.criterion
+            ? "no experiment logs this metric, not tracked"
+            : "not a metric threshold, not tracked"}
+        </Text>
+      ) : (
+        <Box>
+          <Text>{"  "}</Text>
+          <Text color={color}>{"█".repeat(filled)}</Text>
+          <Text color={colors.bgTertiary}>{"░".repeat(GAUGE_WIDTH - filled)}</Text>
+          <Text color={colors.textSecondary}>
+            {" "}
+            {best
+              ? `best ${formatMetric(best.value)} ${best.metricKey} · ${best.experiment.name || best.experiment.hypothesis_id}`
+              : "no matching experiment yet"}
+          </Text>
+        </Box>
+      )}
+    </Box>
+  );
 }
 
 /**
@@ -66,7 +127,7 @@ function Section({
   );
 }
 
-export function PrdPanel({ prd }: PrdPanelProps) {
+export function PrdPanel({ prd, experiments = [] }: PrdPanelProps) {
   if (!prd) {
     return (
       <Box flexDirection="column" padding={2}>
@@ -81,7 +142,10 @@ export function PrdPanel({ prd }: PrdPanelProps) {
     );
   }
 
-  const hasCriteria = prd.success_criteria && prd.success_criteria.length > 0;
+  const criteria = evaluateCriteria(prd, experiments);
+  const metCount = criteria.filter((c) => c.status === "met").length;
+  const trackedCount = criteria.filter((c) => c.status !== "unknown").length;
+  const hasCriteria = criteria.length > 0;
   const hasConstraints = prd.constraints && prd.constraints.length > 0;
   const hasInScope = prd.scope?.in && prd.scope.in.length > 0;
   const hasOutScope = prd.scope?.out && prd.scope.out.length > 0;
@@ -120,32 +184,33 @@ export function PrdPanel({ prd }: PrdPanelProps) {
         </Box>
       )}
 
-      {/* Success Criteria & Constraints - side by side */}
-      {(hasCriteria || hasConstraints) && (
+      {/* Success Criteria - full width, for the gauges */}
+      {hasCriteria && (
         <Box marginBottom={1}>
-          {/* Success Criteria */}
-          {hasCriteria && (
-            <Section title="CRITERIA" icon="✓" color={colors.accentGreen} flex={1}>
-              {prd.success_criteria!.map((criterion, i) => (
-                <Box key={i}>
-                  <Text color={colors.accentGreen}>○ </Text>
-                  <Text color={colors.text}>{criterion}</Text>
-                </Box>
-              ))}
-            </Section>
-          )}
+          <Section
+            title={trackedCount > 0 ? `CRITERIA ${metCount}/${trackedCount} met` : "CRITERIA"}
+            icon="✓"
+            color={colors.accentGreen}
+            flex={1}
+          >
+            {criteria.map((progress, i) => (
+              <CriterionRow key={i} progress={progress} />
+            ))}
+          </Section>
+        </Box>
+      )}
 
-          {/* Constraints */}
-          {hasConstraints && (
-            <Section title="CONSTRAINTS" icon="⚠" color={colors.accentYellow} flex={1}>
-              {prd.constraints!.map((constraint, i) => (
-                <Box key={i}>
-                  <Text color={colors.accentYellow}>! </Text>
-                  <Text color={colors.text}>{constraint}</Text>
-                </Box>
-              ))}
-            </Section>
-          )}
+      {/* Constraints */}
+      {hasConstraints && (
+        <Box marginBottom={1}>
+          <Section title="CONSTRAINTS" icon="⚠" color={colors.accentYellow} flex={1}>
+            {prd.constraints!.map((constraint, i) => (
+              <Box key={i}>
+                <Text color={colors.accentYellow}>! </Text>
+                <Text color={colors.text}>{constraint}</Text>
+              </Box>
+            ))}
+          </Section>
         </Box>
       )}
 
@@ -0,0 +1,264 @@
+/**
+ * Reasoning panel - shows how the agent is thinking from log.jsonl
+ * (mental_model, path_analysis, thinking and strategic_retreat events)
+ */
+
+import { Box, Text } from "ink";
+import type {
+  MentalModel,
+  PathAnalysisEvent,
+  StrategicRetreatEvent,
+  ThinkingEvent,
+} from "../../infrastructure/ralph/index.ts";
+import { colors } from "../theme/colors.ts";
+
+interface ReasoningPanelProps {
+  mentalModels: MentalModel[];
+  pathAnalyses: PathAnalysisEvent[];
+  thinking: ThinkingEvent[];
+  retreats: StrategicRetreatEvent[];
+  offset?: number;
+  limit?: number;
+}
+
+const CONFIDENCE_COLORS: Record<MentalModel["confidence"], string> = {
+  high: colors.accentGreen,
+  medium: colors.accentYellow,
+  low: colors.accentRed,
+};
+
+// Evidence items shown per belief (the rest are summarized as a count)
+const MAX_EVIDENCE = 3;
+
+/**
+ * Sort newest first by timestamp
+ */
+function newestFirst<T extends { ts: string }>(items: T[]): T[] {
+  return [...items].sort((a, b) => b.ts.localeCompare(a.ts));
+}
+
+/**
+ * Red banner for the most recent strategic retreat
+ */
+function RetreatBanner({ retreats }: { retreats: StrategicRetreatEvent[] }) {
+  const latest = retreats[retreats.length - 1];
+  if (!latest) return null;
+
+  return (
+    <Box
+      flexDirection="column"
+      borderStyle="double"
+      borderColor={colors.accentRed}
+      paddingX={1}
+      marginBottom={1}
+    >
+      <Box justifyContent="space-between">
+        <Text color={colors.accentRed} bold>
+          ⚠ STRATEGIC RETREAT
+        </Text>
+        {retreats.length > 1 && (
+          <Text color={colors.textMuted}>
+            {retreats.length} retreats so far
+          </Text>
+        )}
+      </Box>
+      <Text color={colors.textSecondary}>
+        Trigger: <Text color={colors.text}>{latest.trigger}</Text>
+      </Text>
+      <Text color={colors.textSecondary}>
+        Action: <Text color={colors.accentRed}>{latest.action}</Text>
+      </Text>
+      {latest.focus && (
+        <Text color={colors.textSecondary}>
+          Focus: <Text color={colors.text}>{latest.focus}</Text>
+        </Text>
+      )}
+    </Box>
+  );
+}
+
+/**
+ * Current belief for one domain
+ */
+function BeliefCard({ model }: { model: MentalModel }) {
+  const color = CONFIDENCE_COLORS[model.confidence] ?? colors.textMuted;
+  const shownEvidence = model.evidence.slice(-MAX_EVIDENCE);
+  const hiddenEvidence = model.evidence.length - shownEvidence.length;
+
+  return (
+    <Box
+      flexDirection="column"
+      borderStyle="single"
+      borderColor={colors.border}
+      paddingX={1}
+      marginBottom={1}
+    >
+      <Box justifyContent="space-between">
+        <Box>
+          <Text color={colors.accentPurple} bold>
+            ◆ {model.domain}
+          </Text>
+          {model.history.length > 1 && (
+            <Text color={colors.textMuted}>
+              {" "}
+              (revised {model.history.length - 1}×)
+            </Text>
+          )}
+        </Box>
+        <Text backgroundColor={color} color={colors.bgPrimary}>
+          {` ${model.confidence.toUpperCase()} `}
+        </Text>
+      </Box>
+      <Text color={colors.text}>{model.belief}</Text>
+      {hiddenEvidence > 0 && (
+        <Text color={colors.textMuted}>
+          + {hiddenEvidence} earlier evidence
+        </Text>
+      )}
+      {shownEvidence.map((evidence) => (
+        <Text key={evidence} color={colors.textSecondary}>
+          • {evidence}
+        </Text>
+      ))}
+    </Box>
+  );
+}
+
+/**
+ * Paths considered for a decision, with the chosen one highlighted
+ */
+function PathAnalysisCard({ analysis }: { analysis: PathAnalysisEvent }) {
+  return (
+    <Box
+      flexDirection="column"
+      borderStyle="single"
+      borderColor={colors.accentBlue}
+      paddingX={1}
+      marginBottom={1}
+    >
+      <Text color={colors.accentBlue} bold>
+        ⑂ {analysis.paths.length} paths considered
+      </Text>
+      {analysis.paths.map((path) => {
+        const chosen = path.id === analysis.chosen;
+        return (
+          <Box key={path.id}>
+            <Text color={chosen ? colors.accentGreen : colors.textMuted}>
+              {chosen ? "✓ " : "  "}
+              {path.id}.{" "}
+            </Text>
+            <Text color={chosen ? colors.text : colors.textSecondary}>
+              {path.description}
+            </Text>
+            {path.expected && (
+              <Text color={colors.textMuted}> ({path.expected})</Text>
+            )}
+          </Box>
+        );
+      })}
+      {analysis.rationale && (
+        <Text color={colors.textMuted}>→ {analysis.rationale}</Text>
+      )}
+    </Box>
+  );
+}
+
+/**
+ * One explicit reasoning step
+ */
+function ThinkingCard({ thought }: { thought: ThinkingEvent }) {
+  return (
+    <Box
+      flexDirection="column"
+      borderStyle="single"
+      borderColor={colors.border}
+      paddingX={1}
+      marginBottom={1}
+    >
+      <Text color={colors.accentYellow} bold>
+        ? {thought.subject}
+      </Text>
+      <Text color={colors.text}>→ {thought.conclusion}</Text>
+    </Box>
+  );
+}
+
+export function ReasoningPanel({
+  mentalModels,
+  pathAnalyses,
+  thinking,
+  retreats,
+  offset = 0,
+  limit = 5,
+}: ReasoningPanelProps) {
+  if (
+    mentalModels.length === 0 &&
+    pathAnalyses.length === 0 &&
+    thinking.length === 0 &&
+    retreats.length === 0
+  ) {
+    return (
+      <Box flexDirection="column" padding={2}>
+        <Box marginBottom={1}>
+          <Text color={colors.accentYellow}>{"◇ "}</Text>
+          <Text color={colors.text}>No reasoning logged yet</Text>
+        </Box>
+        <Text color={colors.textSecondary}>
+          Beliefs, path analyses and thinking appear here as the agent logs
+          mental_model, path_analysis and thinking events.
+        </Text>
+      </Box>
+    );
+  }
+
+  // Current beliefs first, then decisions and thinking (newest first)
+  const cards = [
+    ...[...mentalModels]
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+      .map((m) => ({
+        key: `model-${m.domain}`,
+        node: <BeliefCard model={m} />,
+      })),
+    ...newestFirst(pathAnalyses).map((p, i) => ({
+      key: `path-${p.ts}-${i}`,
+      node: <PathAnalysisCard analysis={p} />,
+    })),
+    ...newestFirst(thinking).map((t, i) => ({
+      key: `thinking-${t.ts}-${i}`,
+      node: <ThinkingCard thought={t} />,
+    })),
+  ];
+  const total = cards.length;
+  const safeOffset = Math.min(offset, Math.max(0, total - 1));
+  const displayCards = cards.slice(safeOffset, safeOffset + limit);
+
+  return (
+    <Box flexDirection="column" paddingX={1}>
+      <RetreatBanner retreats={retreats} />
+
+      {/* Summary line */}
+      <Box marginBottom={1}>
+        <Text color={colors.textMuted}>
+          {mentalModels.length} belief{mentalModels.length !== 1 ? "s" : ""}
+          {" · "}
+          {pathAnalyses.length} decision{pathAnalyses.length !== 1 ? "s" : ""}
+          {" · "}
+          {thinking.length} thought{thinking.length !== 1 ? "s" : ""}
+        </Text>
+        {total > limit && (
+          <Text color={colors.textSecondary}>
+            {" "}
+            · {safeOffset + 1}-{Math.min(safeOffset + limit, total)} of {total}{" "}
+            (j/k to scroll)
+          </Text>
+        )}
+      </Box>
+
+      {displayCards.map((card) => (
+        <Box key={card.key} flexDirection="column">
+          {card.node}
+        </Box>
+      ))}
+    </Box>
+  );
+}
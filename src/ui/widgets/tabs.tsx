@@ -55,9 +55,22 @@ export function ModeTabs({ activeMode }: ModeTabsProps) {
   );
 }
 
+type KnowledgeTab =
+  | "prd"
+  | "hypotheses"
+  | "learnings"
+  | "research"
+  | "kanban"
+  | "experiments"
+  | "verification"
+  | "reasoning"
+  | "costs"
+  | "changes"
+  | "jobs";
+
 interface PlanningTabsProps {
-  activeTab: "prd" | "hypotheses" | "learnings" | "research" | "kanban" | "experiments";
-  onSelect?: (tab: "prd" | "hypotheses" | "learnings" | "research" | "kanban" | "experiments") => void;
+  activeTab: KnowledgeTab;
+  onSelect?: (tab: KnowledgeTab) => void;
 }
 
 export function PlanningTabs({ activeTab }: PlanningTabsProps) {
@@ -70,6 +83,11 @@ export function PlanningTabs({ activeTab }: PlanningTabsProps) {
         { id: "hypotheses", label: "Hypotheses" },
         { id: "learnings", label: "Learnings" },
         { id: "research", label: "Research" },
+        { id: "verification", label: "Verification" },
+        { id: "reasoning", label: "Reasoning" },
+        { id: "costs", label: "Costs" },
+        { id: "changes", label: "Changes" },
+        { id: "jobs", label: "Jobs" },
       ]}
       activeTab={activeTab}
     />
@@ -0,0 +1,89 @@
+/**
+ * Training curves widget - plots per-step loss curves from local wandb history
+ */
+
+import * as asciichart from "asciichart";
+import { Box, Text } from "ink";
+import {
+  getCurveKeys,
+  getMetricSeries,
+  type WandBHistoryRow,
+} from "../../infrastructure/wandb/index.ts";
+import { colors } from "../theme/colors.ts";
+
+interface TrainingCurvesProps {
+  history: WandBHistoryRow[];
+  keys?: string[];
+  height?: number;
+  width?: number;
+}
+
+// asciichart colors paired with the legend colors below
+export const SERIES_COLORS = [
+  { chart: asciichart.yellow, legend: colors.accentYellow },
+  { chart: asciichart.cyan, legend: colors.accentCyan },
+  { chart: asciichart.magenta, legend: colors.accentPurple },
+  { chart: asciichart.green, legend: colors.accentGreen },
+];
+
+/**
+ * Reduce a series to at most `maxPoints` by averaging buckets
+ */
+export function downsample(values: number[], maxPoints: number): number[] {
+  if (values.length <= maxPoints) return values;
+
+  const bucketSize = values.length / maxPoints;
+  const result: number[] = [];
+  for (let i = 0; i < maxPoints; i++) {
+    const bucket = values.slice(
+      Math.floor(i * bucketSize),
+      Math.floor((i + 1) * bucketSize),
+    );
+    result.push(bucket.reduce((sum, v) => sum + v, 0) / bucket.length);
+  }
+  return result;
+}
+
+export function TrainingCurves({
+  history,
+  keys,
+  height = 6,
+  width = 50,
+}: TrainingCurvesProps) {
+  const curveKeys = (keys ?? getCurveKeys(history)).slice(
+    0,
+    SERIES_COLORS.length,
+  );
+  const series = curveKeys
+    .map((key) => ({ key, values: getMetricSeries(history, key) }))
+    .filter((s) => s.values.length >= 2);
+
+  if (series.length === 0) return null;
+
+  try {
+    const chart = asciichart.plot(
+      series.map((s) => downsample(s.values, width)),
+      {
+        height,
+        colors: series.map((_, i) => SERIES_COLORS[i]?.chart),
+        format: (x: number) => x.toFixed(3).padStart(8),
+      },
+    );
+
+    return (
+      <Box flexDirection="column" marginBottom={1}>
+        <Text>{chart}</Text>
+        <Box gap={2}>
+          {series.map((s, i) => (
+            <Text key={s.key} color={SERIES_COLORS[i]?.legend}>
+              ━ {s.key}{" "}
+              <Text color={colors.textMuted}>({s.values.length} steps)</Text>
+            </Text>
+          ))}
+        </Box>
+      </Box>
+    );
+  } catch {
+    return null;
+  }
+}
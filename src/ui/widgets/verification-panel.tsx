@@ -0,0 +1,302 @@
+/**
+ * Verification panel - shows the agent's due diligence from log.jsonl
+ * (data_verified, result_verification and success_verified events)
+ */
+
+import { Box, Text } from "ink";
+import type {
+  DatasetVerification,
+  ResultVerificationEvent,
+  SuccessVerifiedEvent,
+} from "../../infrastructure/ralph/index.ts";
+import { colors } from "../theme/colors.ts";
+
+interface VerificationPanelProps {
+  datasets: DatasetVerification[];
+  results: ResultVerificationEvent[];
+  success: SuccessVerifiedEvent | null;
+  projectComplete: boolean;
+  offset?: number;
+  limit?: number;
+}
+
+// Findings that suggest the result did not survive the check
+const ISSUE_PATTERN = /issue|leak|invalid|problem|fail/i;
+
+/**
+ * PASS/FAIL badge
+ */
+function CheckBadge({ passed }: { passed: boolean }) {
+  return (
+    <Text
+      backgroundColor={passed ? colors.accentGreen : colors.accentRed}
+      color={colors.bgPrimary}
+      bold
+    >
+      {passed ? " PASS " : " FAIL "}
+    </Text>
+  );
+}
+
+/**
+ * Top banner: has success been verified?
+ */
+function SuccessBanner({
+  success,
+  projectComplete,
+}: {
+  success: SuccessVerifiedEvent | null;
+  projectComplete: boolean;
+}) {
+  if (!success) {
+    const color = projectComplete ? colors.accentRed : colors.accentYellow;
+    return (
+      <Box
+        borderStyle="single"
+        borderColor={color}
+        paddingX={1}
+        marginBottom={1}
+      >
+        <Text color={color} bold>
+          {projectComplete
+            ? "✗ Project marked complete WITHOUT success verification"
+            : "○ Success not yet verified"}
+        </Text>
+      </Box>
+    );
+  }
+
+  return (
+    <Box
+      flexDirection="column"
+      borderStyle="single"
+      borderColor={colors.accentGreen}
+      paddingX={1}
+      marginBottom={1}
+    >
+      <Text color={colors.accentGreen} bold>
+        ✓ Success verified
+      </Text>
+      {success.criteria_met.length > 0 && (
+        <Text color={colors.textSecondary}>
+          Criteria met:{" "}
+          <Text color={colors.text}>{success.criteria_met.join(", ")}</Text>
+        </Text>
+      )}
+      {success.verification_checks.length > 0 && (
+        <Text color={colors.textSecondary}>
+          Checks:{" "}
+          <Text color={colors.text}>
+            {success.verification_checks.join(", ")}
+          </Text>
+        </Text>
+      )}
+      {success.attempts_to_break.length > 0 && (
+        <Text color={colors.textSecondary}>
+          Tried to break it:{" "}
+          <Text color={colors.text}>
+            {success.attempts_to_break.join(", ")}
+          </Text>
+        </Text>
+      )}
+      {success.conclusion && (
+        <Text color={colors.textMuted}>→ {success.conclusion}</Text>
+      )}
+    </Box>
+  );
+}
+
+/**
+ * Latest verification of one dataset
+ */
+function DatasetCard({ verification }: { verification: DatasetVerification }) {
+  const { latest, passed, history } = verification;
+  const borderColor = passed ? colors.accentGreen : colors.accentRed;
+
+  return (
+    <Box
+      flexDirection="column"
+      borderStyle="single"
+      borderColor={borderColor}
+      paddingX={1}
+      marginBottom={1}
+    >
+      <Box justifyContent="space-between">
+        <Box>
+          <Text color={colors.accentBlue} bold>
+            ◆ {verification.dataset}
+          </Text>
+          {history.length > 1 && (
+            <Text color={colors.textMuted}>
+              {" "}
+              ({history.length} verifications)
+            </Text>
+          )}
+        </Box>
+        <CheckBadge passed={passed} />
+      </Box>
+
+      {Object.entries(latest.checks).map(([name, check]) => (
+        <Box key={name}>
+          <Text
+            color={
+              check.status === "PASS" ? colors.accentGreen : colors.accentRed
+            }
+          >
+            {check.status === "PASS" ? "✓ " : "✗ "}
+          </Text>
+          <Box width={22}>
+            <Text color={colors.textSecondary}>{name.slice(0, 20)}</Text>
+          </Box>
+          {check.expected !== undefined && (
+            <Text color={colors.textMuted}>
+              expected {String(check.expected)} ·{" "}
+            </Text>
+          )}
+          {check.actual !== undefined && (
+            <Text color={colors.text}>actual {String(check.actual)}</Text>
+          )}
+        </Box>
+      ))}
+
+      {latest.issues.map((issue) => (
+        <Text key={issue} color={colors.accentYellow}>
+          ! {issue}
+        </Text>
+      ))}
+
+      {latest.action && (
+        <Text color={passed ? colors.textMuted : colors.accentRed}>
+          → {latest.action}
+        </Text>
+      )}
+    </Box>
+  );
+}
+
+/**
+ * One attempt to break a result
+ */
+function ResultCard({
+  verification,
+}: {
+  verification: ResultVerificationEvent;
+}) {
+  const issueFound = verification.verification_attempts.some((a) =>
+    ISSUE_PATTERN.test(a.finding),
+  );
+  const borderColor = issueFound ? colors.accentYellow : colors.border;
+
+  return (
+    <Box
+      flexDirection="column"
+      borderStyle="single"
+      borderColor={borderColor}
+      paddingX={1}
+      marginBottom={1}
+    >
+      <Text color={colors.accentPurple} bold>
+        ⚖ {verification.result}
+      </Text>
+      {verification.verification_attempts.map((attempt, i) => (
+        <Box key={`${attempt.check}-${i}`}>
+          <Text color={colors.textMuted}>• </Text>
+          <Text color={colors.textSecondary}>{attempt.check}</Text>
+          <Text color={colors.textMuted}> ({attempt.method}): </Text>
+          <Text
+            color={
+              ISSUE_PATTERN.test(attempt.finding)
+                ? colors.accentYellow
+                : colors.text
+            }
+          >
+            {attempt.finding}
+          </Text>
+        </Box>
+      ))}
+      {verification.conclusion && (
+        <Text color={colors.textMuted}>→ {verification.conclusion}</Text>
+      )}
+    </Box>
+  );
+}
+
+export function VerificationPanel({
+  datasets,
+  results,
+  success,
+  projectComplete,
+  offset = 0,
+  limit = 5,
+}: VerificationPanelProps) {
+  if (datasets.length === 0 && results.length === 0 && !success) {
+    return (
+      <Box flexDirection="column" padding={2}>
+        <Box marginBottom={1}>
+          <Text color={colors.accentYellow}>{"◇ "}</Text>
+          <Text color={colors.text}>No verification yet</Text>
+        </Box>
+        <Text color={colors.textSecondary}>
+          The agent logs data_verified, result_verification and success_verified
+          events as it checks its work.
+        </Text>
+        {projectComplete && (
+          <Box marginTop={1}>
+            <Text color={colors.accentRed}>
+              ✗ Project marked complete without any verification events.
+            </Text>
+          </Box>
+        )}
+      </Box>
+    );
+  }
+
+  // Datasets first (data must be verified before modeling), newest results last
+  const cards = [
+    ...datasets.map((d) => ({
+      key: `data-${d.dataset}`,
+      node: <DatasetCard verification={d} />,
+    })),
+    ...results.map((r, i) => ({
+      key: `result-${r.ts}-${i}`,
+      node: <ResultCard verification={r} />,
+    })),
+  ];
+  const total = cards.length;
+  const safeOffset = Math.min(offset, Math.max(0, total - 1));
+  const displayCards = cards.slice(safeOffset, safeOffset + limit);
+  const failing = datasets.filter((d) => !d.passed).length;
+
+  return (
+    <Box flexDirection="column" paddingX={1}>
+      <SuccessBanner success={success} projectComplete={projectComplete} />
+
+      {/* Summary line */}
+      <Box marginBottom={1}>
+        <Text color={colors.textMuted}>
+          {datasets.length} dataset{datasets.length !== 1 ? "s" : ""}
+        </Text>
+        {failing > 0 && (
+          <Text color={colors.accentRed}> ({failing} failing)</Text>
+        )}
+        <Text color={colors.textMuted}>
+          {" · "}
+          {results.length} result check{results.length !== 1 ? "s" : ""}
+        </Text>
+        {total > limit && (
+          <Text color={colors.textSecondary}>
+            {" "}
+            · {safeOffset + 1}-{Math.min(safeOffset + limit, total)} of {total}{" "}
+            (j/k to scroll)
+          </Text>
+        )}
+      </Box>
+
+      {displayCards.map((card) => (
+        <Box key={card.key} flexDirection="column">
+          {card.node}
+        </Box>
+      ))}
+    </Box>
+  );
+}